@@ -21,6 +21,10 @@ export const mockOffice = {
     Word: "Word",
     Excel: "Excel",
   },
+  AsyncResultStatus: {
+    Succeeded: "succeeded",
+    Failed: "failed",
+  },
 };
 
 // Mock Word namespace
@@ -66,8 +70,12 @@ export const mockWord = {
     end: "End",
   },
   ChangeTrackingMode: {
+    off: "Off",
     trackAll: "TrackAll",
   },
+  ContentControlAppearance: {
+    hidden: "Hidden",
+  },
 };
 
 // Setup global mocks
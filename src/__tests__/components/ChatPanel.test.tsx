@@ -0,0 +1,147 @@
+/**
+ * Tests for ChatPanel
+ */
+
+import * as React from "react";
+import { render, fireEvent, waitFor } from "@testing-library/react";
+import ChatPanel from "../../taskpane/components/ChatPanel";
+import { runAgentLoop, RunAgentParams, AgentRunResult } from "../../helpers/agentLoop";
+import { releaseSelection } from "../../helpers/wordBridge";
+import { getSessionManager, resetSessionManager } from "../../helpers/sessionManager";
+import { ToolResult } from "../../types/tools";
+
+jest.mock("../../helpers/agentLoop", () => ({
+  ...jest.requireActual("../../helpers/agentLoop"),
+  runAgentLoop: jest.fn(),
+}));
+
+jest.mock("../../helpers/wordBridge", () => ({
+  ...jest.requireActual("../../helpers/wordBridge"),
+  captureSelection: jest.fn(async () => ({ text: "原文" })),
+  releaseSelection: jest.fn(),
+  getParagraphs: jest.fn(async () => []),
+  getSelectionText: jest.fn(async () => "原文"),
+}));
+
+jest.mock("../../helpers/conversationSummary", () => ({
+  ...jest.requireActual("../../helpers/conversationSummary"),
+  refreshSessionSummary: jest.fn(async () => false),
+}));
+
+describe("ChatPanel", () => {
+  beforeAll(() => {
+    // jsdom does not implement scrolling
+    Element.prototype.scrollIntoView = jest.fn();
+  });
+
+  beforeEach(() => {
+    (localStorage.getItem as jest.Mock).mockReturnValue(null);
+    resetSessionManager();
+    getSessionManager().setApplyMode("confirm");
+  });
+
+  it("should end a run waiting for approval when the panel unmounts", async () => {
+    let signal: AbortSignal | undefined;
+    let toolResults: ToolResult[] | undefined;
+    (runAgentLoop as jest.Mock).mockImplementation(async (params: RunAgentParams) => {
+      signal = params.abortController?.signal;
+      toolResults = await params.executeTools!([
+        {
+          id: "call_1",
+          type: "function",
+          function: { name: "replace_selection", arguments: JSON.stringify({ content: "新文" }) },
+        },
+      ]);
+      return { success: false, error: "已取消", newMessages: [], steps: [], hitStepLimit: false };
+    });
+
+    const { container, unmount } = render(<ChatPanel isConfigured={true} />);
+    fireEvent.change(container.querySelector("textarea")!, { target: { value: "润色选中内容" } });
+    fireEvent.click(container.querySelector(".send-button")!);
+    await waitFor(() => expect(container.querySelector(".pending-action")).not.toBeNull());
+
+    unmount();
+
+    await waitFor(() => expect(releaseSelection).toHaveBeenCalled());
+    expect(signal?.aborted).toBe(true);
+    expect(toolResults?.[0].success).toBe(false);
+  });
+
+  it("should render an imported session after dropping malformed edits and issues", async () => {
+    const sm = getSessionManager();
+    const exported = [
+      {
+        id: "imported",
+        name: "Imported",
+        createdAt: 1,
+        updatedAt: 2,
+        messages: [],
+        displayMessages: [
+          {
+            id: "m1",
+            role: "tool_result",
+            content: "✓ 已替换选中内容",
+            timestamp: 1,
+            appliedEdits: [{ id: "edit_1", name: "replace_selection" }],
+            structureIssues: [{ severity: "error" }],
+          },
+        ],
+      },
+    ];
+    sm.importSessions(JSON.stringify(exported));
+    await sm.setActiveSession("imported");
+
+    const { container } = render(<ChatPanel isConfigured={true} />);
+
+    expect(container.textContent).toContain("已替换选中内容");
+    expect(container.querySelector(".revert-edit-btn")).toBeNull();
+  });
+
+  it("should write the run to the session it was sent from", async () => {
+    const sm = getSessionManager();
+    sm.setApplyMode("auto");
+    const origin = sm.getActiveSession()!;
+    let finish: () => void = () => undefined;
+    (runAgentLoop as jest.Mock).mockImplementation(
+      (params: RunAgentParams) =>
+        new Promise<AgentRunResult>((resolve) => {
+          finish = () => {
+            params.onStep?.({
+              index: 1,
+              content: null,
+              toolCalls: [],
+              results: [
+                { toolCallId: "call_1", name: "get_outline", success: true, message: "大纲" },
+              ],
+            });
+            const answer = { role: "assistant" as const, content: "已完成" };
+            resolve({
+              success: true,
+              newMessages: [answer],
+              finalMessage: answer,
+              steps: [],
+              hitStepLimit: false,
+            });
+          };
+        })
+    );
+
+    const { container } = render(<ChatPanel isConfigured={true} />);
+    fireEvent.change(container.querySelector("textarea")!, { target: { value: "总结大纲" } });
+    fireEvent.click(container.querySelector(".send-button")!);
+    await waitFor(() => expect(runAgentLoop).toHaveBeenCalled());
+
+    const other = sm.createSession();
+    finish();
+    await waitFor(() =>
+      expect(origin.displayMessages.map((m) => m.role)).toEqual([
+        "user",
+        "tool_result",
+        "assistant",
+      ])
+    );
+    expect(origin.messages.map((m) => m.content)).toContain("已完成");
+    expect(other.displayMessages).toEqual([]);
+    expect(other.messages).toEqual([]);
+  });
+});
@@ -0,0 +1,145 @@
+/**
+ * Tests for agentLoop
+ */
+
+import { runAgentLoop } from "../../helpers/agentLoop";
+import { streamChat, ChatResult } from "../../helpers/llmClient";
+import { ChatMessage, ToolCall } from "../../types/llm";
+import { ToolResult } from "../../types/tools";
+import { DEFAULT_MODEL_CONFIG } from "../../types/settings";
+
+jest.mock("../../helpers/llmClient", () => {
+  const actual = jest.requireActual("../../helpers/llmClient");
+  return { ...actual, streamChat: jest.fn() };
+});
+
+const mockStreamChat = streamChat as jest.MockedFunction<typeof streamChat>;
+
+const toolCall = (id: string, name: string, args: object = {}): ToolCall => ({
+  id,
+  type: "function",
+  function: { name, arguments: JSON.stringify(args) },
+});
+
+const reply = (message: ChatMessage): ChatResult => ({ success: true, message });
+
+const okResult = (tc: ToolCall): ToolResult => ({
+  toolCallId: tc.id,
+  name: tc.function.name as ToolResult["name"],
+  success: true,
+  message: "done",
+});
+
+describe("runAgentLoop", () => {
+  const baseParams = {
+    config: { ...DEFAULT_MODEL_CONFIG, apiKey: "key" },
+    systemPrompt: "system",
+    messages: [{ role: "user" as const, content: "Rewrite and comment" }],
+  };
+
+  beforeEach(() => {
+    mockStreamChat.mockReset();
+  });
+
+  it("should return the answer directly when no tools are called", async () => {
+    mockStreamChat.mockResolvedValueOnce(reply({ role: "assistant", content: "Hello" }));
+
+    const result = await runAgentLoop({ ...baseParams, maxSteps: 3 });
+
+    expect(result.success).toBe(true);
+    expect(result.finalMessage?.content).toBe("Hello");
+    expect(result.steps).toHaveLength(0);
+    expect(result.newMessages).toHaveLength(1);
+  });
+
+  it("should report a fallback model that answered", async () => {
+    mockStreamChat.mockResolvedValueOnce({
+      ...reply({ role: "assistant", content: "Hello" }),
+      model: "backup-model",
+      usedFallback: true,
+    });
+
+    const result = await runAgentLoop({ ...baseParams, maxSteps: 3 });
+
+    expect(result.fallbackModel).toBe("backup-model");
+  });
+
+  it("should feed tool results back as tool messages and chain steps", async () => {
+    const first = toolCall("call_1", "replace_selection", { content: "New" });
+    const second = toolCall("call_2", "add_comment_to_selection", { comment: "Why" });
+    mockStreamChat
+      .mockResolvedValueOnce(reply({ role: "assistant", content: null, tool_calls: [first] }))
+      .mockResolvedValueOnce(reply({ role: "assistant", content: null, tool_calls: [second] }))
+      .mockResolvedValueOnce(reply({ role: "assistant", content: "All done" }));
+
+    const executeTools = jest.fn(async (calls: ToolCall[]) => calls.map(okResult));
+    const onStep = jest.fn();
+
+    const result = await runAgentLoop({ ...baseParams, maxSteps: 5, executeTools, onStep });
+
+    expect(result.success).toBe(true);
+    expect(result.finalMessage?.content).toBe("All done");
+    expect(executeTools).toHaveBeenCalledTimes(2);
+    expect(onStep).toHaveBeenCalledTimes(2);
+
+    // Second request sees the first assistant tool call and its tool result
+    const secondRequest = mockStreamChat.mock.calls[1][0];
+    const roles = secondRequest.messages.map((m) => m.role);
+    expect(roles).toEqual(["user", "assistant", "tool"]);
+    expect(secondRequest.messages[2].tool_call_id).toBe("call_1");
+    expect(secondRequest.toolChoice).toBe("auto");
+
+    expect(result.newMessages.map((m) => m.role)).toEqual([
+      "assistant",
+      "tool",
+      "assistant",
+      "tool",
+      "assistant",
+    ]);
+  });
+
+  it("should stop at the step limit and request a final answer without tools", async () => {
+    const call = toolCall("call_1", "get_outline");
+    mockStreamChat
+      .mockResolvedValueOnce(reply({ role: "assistant", content: null, tool_calls: [call] }))
+      .mockResolvedValueOnce(reply({ role: "assistant", content: "Summary" }));
+
+    const result = await runAgentLoop({
+      ...baseParams,
+      maxSteps: 1,
+      executeTools: async (calls) => calls.map(okResult),
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.hitStepLimit).toBe(true);
+    expect(mockStreamChat.mock.calls[1][0].toolChoice).toBe("none");
+  });
+
+  it("should retry with required tool choice when a tool call is required", async () => {
+    const call = toolCall("call_1", "replace_selection", { content: "x" });
+    mockStreamChat
+      .mockResolvedValueOnce(reply({ role: "assistant", content: "Here is the text" }))
+      .mockResolvedValueOnce(reply({ role: "assistant", content: null, tool_calls: [call] }))
+      .mockResolvedValueOnce(reply({ role: "assistant", content: "Done" }));
+
+    const result = await runAgentLoop({
+      ...baseParams,
+      maxSteps: 3,
+      requireToolCall: true,
+      executeTools: async (calls) => calls.map(okResult),
+    });
+
+    expect(result.success).toBe(true);
+    expect(mockStreamChat.mock.calls[1][0].toolChoice).toBe("required");
+    expect(result.steps).toHaveLength(1);
+  });
+
+  it("should report request failures", async () => {
+    mockStreamChat.mockResolvedValueOnce({ success: false, error: "boom" });
+
+    const result = await runAgentLoop({ ...baseParams, maxSteps: 3 });
+
+    expect(result.success).toBe(false);
+    expect(result.error).toBe("boom");
+  });
+});
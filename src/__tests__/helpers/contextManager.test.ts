@@ -28,8 +28,8 @@ describe("ContextManager", () => {
       expect(messages[1].role).toBe("assistant");
     });
 
-    it("should limit messages to max rounds", () => {
-      const cm = new ContextManager(2); // 2 rounds = 4 messages
+    it("should limit history to the token budget", () => {
+      const cm = new ContextManager(30); // a round is about 13 tokens
 
       for (let i = 0; i < 10; i++) {
         cm.addMessage({ role: "user", content: `User ${i}` });
@@ -38,6 +38,16 @@ describe("ContextManager", () => {
 
       const messages = cm.getMessages();
       expect(messages.length).toBeLessThanOrEqual(4);
+      expect(messages[messages.length - 1].content).toBe("Assistant 9");
+    });
+
+    it("should keep a long message from crowding out the budget", () => {
+      const cm = new ContextManager(30);
+
+      cm.addMessage({ role: "user", content: "word ".repeat(100) });
+      cm.addMessage({ role: "assistant", content: "Done" });
+
+      expect(cm.getMessages().map((m) => m.content)).toEqual(["Done"]);
     });
 
     it("should clear all messages", () => {
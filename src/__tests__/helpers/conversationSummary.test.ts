@@ -0,0 +1,156 @@
+/**
+ * Tests for conversationSummary
+ */
+
+import {
+  getMessagesToSummarize,
+  formatTranscript,
+  buildSummaryMessage,
+  refreshSessionSummary,
+} from "../../helpers/conversationSummary";
+import { SessionManager } from "../../helpers/sessionManager";
+import { sendChat, ChatResult } from "../../helpers/llmClient";
+import { ChatMessage } from "../../types/llm";
+import { DEFAULT_MODEL_CONFIG } from "../../types/settings";
+
+jest.mock("../../helpers/llmClient", () => {
+  const actual = jest.requireActual("../../helpers/llmClient");
+  return { ...actual, sendChat: jest.fn() };
+});
+
+const mockSendChat = sendChat as jest.MockedFunction<typeof sendChat>;
+
+const config = { ...DEFAULT_MODEL_CONFIG, apiKey: "sk-test", model: "custom", contextWindow: 8000 };
+
+const turns = (count: number, text: string = "short"): ChatMessage[] =>
+  Array.from({ length: count }, (_, i) => ({
+    role: i % 2 === 0 ? ("user" as const) : ("assistant" as const),
+    content: `${text} ${i}`,
+  }));
+
+describe("conversationSummary", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (localStorage.getItem as jest.Mock).mockReturnValue(null);
+  });
+
+  describe("getMessagesToSummarize", () => {
+    it("should not fold a short conversation", () => {
+      expect(getMessagesToSummarize(turns(6), config)).toBe(0);
+    });
+
+    it("should fold older turns once history outgrows its budget", () => {
+      const messages = turns(8, "word ".repeat(200));
+
+      const fold = getMessagesToSummarize(messages, config);
+
+      expect(fold).toBeGreaterThan(0);
+      expect(fold).toBeLessThan(messages.length);
+    });
+
+    it("should fold long conversations by message count", () => {
+      expect(getMessagesToSummarize(turns(30), config)).toBe(18);
+    });
+
+    it("should not keep tool results without their request", () => {
+      const messages: ChatMessage[] = [
+        ...turns(20),
+        {
+          role: "assistant",
+          content: null,
+          tool_calls: [{ id: "1", type: "function", function: { name: "get_outline", arguments: "{}" } }],
+        },
+        ...Array.from({ length: 12 }, () => ({ role: "tool" as const, content: "ok", tool_call_id: "1" })),
+        { role: "assistant", content: "done" },
+      ];
+
+      const fold = getMessagesToSummarize(messages, config);
+
+      expect(messages[fold].role).not.toBe("tool");
+    });
+  });
+
+  describe("formatTranscript", () => {
+    it("should leave out document and rules context", () => {
+      const transcript = formatTranscript([
+        {
+          role: "user",
+          content: "[USER_RULES]\n风格：正式\n[/USER_RULES]\n\n[DOCUMENT]\nLong text\n[/DOCUMENT]\n\nAlways use British spelling",
+        },
+        {
+          role: "assistant",
+          content: null,
+          tool_calls: [
+            { id: "1", type: "function", function: { name: "replace_selection", arguments: '{"content":"colour"}' } },
+          ],
+        },
+      ]);
+
+      expect(transcript).toBe(
+        '用户：Always use British spelling\n助手：调用 replace_selection({"content":"colour"})'
+      );
+    });
+  });
+
+  describe("refreshSessionSummary", () => {
+    it("should merge folded turns into the session summary", async () => {
+      const manager = new SessionManager();
+      manager.applySummary(manager.getActiveSession()!.id, "- 使用英式拼写", 0);
+      turns(30).forEach((m) => manager.addMessage(m));
+      mockSendChat.mockResolvedValue({
+        success: true,
+        message: { role: "assistant", content: "- 使用英式拼写\n- 已润色引言" },
+      });
+
+      const updated = await refreshSessionSummary(manager, config);
+
+      expect(updated).toBe(true);
+      const request = mockSendChat.mock.calls[0][0];
+      expect(request.messages[0].content).toContain("已有摘要：\n- 使用英式拼写");
+      expect(request.messages[0].content).toContain("用户：short 0");
+      expect(manager.getSummary()).toMatchObject({
+        content: "- 使用英式拼写\n- 已润色引言",
+        messageCount: 18,
+      });
+      expect(manager.getMessages()).toHaveLength(12);
+    });
+
+    it("should keep history when the summary request fails", async () => {
+      const manager = new SessionManager();
+      turns(30).forEach((m) => manager.addMessage(m));
+      mockSendChat.mockResolvedValue({ success: false, error: "Network error" });
+
+      expect(await refreshSessionSummary(manager, config)).toBe(false);
+      expect(manager.getMessages()).toHaveLength(30);
+      expect(manager.getSummary()).toBeUndefined();
+    });
+
+    it("should leave the other session alone when the user switches meanwhile", async () => {
+      const manager = new SessionManager();
+      const original = manager.getActiveSession()!;
+      turns(30).forEach((m) => manager.addMessage(m));
+      let respond: (value: ChatResult) => void = () => {};
+      mockSendChat.mockReturnValue(new Promise((resolve) => (respond = resolve)));
+
+      const pending = refreshSessionSummary(manager, config);
+      const other = manager.createSession("Other");
+      manager.addMessage({ role: "user", content: "Translate the abstract" });
+      respond({ success: true, message: { role: "assistant", content: "- 已润色引言" } });
+
+      expect(await pending).toBe(true);
+      expect(manager.getActiveSession()?.id).toBe(other.id);
+      expect(manager.getMessages()).toHaveLength(1);
+      expect(manager.getSummary()).toBeUndefined();
+      expect(original.messages).toHaveLength(12);
+      expect(original.summary?.content).toBe("- 已润色引言");
+    });
+  });
+
+  describe("buildSummaryMessage", () => {
+    it("should wrap the summary in tags", () => {
+      expect(buildSummaryMessage(" - a ").content).toBe(
+        "[CONVERSATION_SUMMARY]\n- a\n[/CONVERSATION_SUMMARY]"
+      );
+    });
+  });
+});
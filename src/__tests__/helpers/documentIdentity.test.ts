@@ -0,0 +1,86 @@
+/**
+ * Tests for documentIdentity
+ */
+
+import {
+  generateDocumentId,
+  getDocumentIdentity,
+  resetDocumentIdentity,
+} from "../../helpers/documentIdentity";
+import { mockOffice } from "../../__mocks__/officeMock";
+
+jest.mock("../../helpers/wordBridge", () => ({
+  ...jest.requireActual("../../helpers/wordBridge"),
+  getDocumentTitle: jest.fn(async () => "Grant proposal"),
+}));
+
+type OfficeDocumentWithSettings = typeof mockOffice.context.document & {
+  settings?: {
+    get: jest.Mock;
+    set: jest.Mock;
+    saveAsync: jest.Mock;
+  };
+};
+
+const officeDocument = mockOffice.context.document as OfficeDocumentWithSettings;
+
+/**
+ * Document settings backed by a plain object
+ */
+function mockSettings(values: Record<string, unknown>, saveStatus = "succeeded") {
+  officeDocument.settings = {
+    get: jest.fn((key: string) => values[key]),
+    set: jest.fn((key: string, value: unknown) => {
+      values[key] = value;
+    }),
+    saveAsync: jest.fn((callback: (result: { status: string; error?: Error }) => void) =>
+      callback({ status: saveStatus, error: new Error("read-only") })
+    ),
+  };
+  return officeDocument.settings;
+}
+
+describe("documentIdentity", () => {
+  beforeEach(() => {
+    resetDocumentIdentity();
+  });
+
+  afterEach(() => {
+    delete officeDocument.settings;
+  });
+
+  it("should generate version 4 GUIDs", () => {
+    const id = generateDocumentId();
+
+    expect(id).toMatch(/^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/);
+    expect(generateDocumentId()).not.toBe(id);
+  });
+
+  it("should reuse the id saved in the document", async () => {
+    const settings = mockSettings({ word_copilot_document_id: "saved-id" });
+
+    expect(await getDocumentIdentity()).toEqual({ id: "saved-id", title: "Grant proposal" });
+    expect(settings.saveAsync).not.toHaveBeenCalled();
+  });
+
+  it("should save a new id in a document without one", async () => {
+    const values: Record<string, unknown> = {};
+    const settings = mockSettings(values);
+
+    const identity = await getDocumentIdentity();
+
+    expect(identity?.id).toBe(values.word_copilot_document_id);
+    expect(settings.saveAsync).toHaveBeenCalledTimes(1);
+    expect(await getDocumentIdentity()).toBe(identity);
+  });
+
+  it("should keep the new id for this run when saving fails", async () => {
+    mockSettings({}, "failed");
+
+    expect((await getDocumentIdentity())?.id).toBeTruthy();
+  });
+
+  it("should return null without document settings", async () => {
+    expect(await getDocumentIdentity()).toBeNull();
+  });
+});
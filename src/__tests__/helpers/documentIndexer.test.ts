@@ -0,0 +1,137 @@
+/**
+ * Tests for documentIndexer
+ */
+
+import {
+  buildDocumentIndex,
+  selectRelevantChunks,
+  buildDocumentContext,
+  composeDocumentContext,
+  chunkRelevanceScorer,
+} from "../../helpers/documentIndexer";
+import { ParagraphInfo } from "../../helpers/wordBridge";
+
+const doc = (items: Array<string | [string, number]>): ParagraphInfo[] =>
+  items.map((item, index) => ({
+    index,
+    text: typeof item === "string" ? item : item[0],
+    style: "Normal",
+    headingLevel: typeof item === "string" ? undefined : item[1],
+    isListItem: false,
+    inTable: false,
+  }));
+
+const thesis = doc([
+  "Abstract text about sleep.",
+  ["Introduction", 1],
+  "Shift work affects many nurses.",
+  ["Methods", 1],
+  ["Survey design", 2],
+  "We used a questionnaire with 40 items.",
+  ["Results", 1],
+  "Sleep quality dropped by 20 percent.",
+  ["第七章 讨论", 1],
+  "本研究的局限性在于样本量较小。",
+]);
+
+describe("documentIndexer", () => {
+  describe("buildDocumentIndex", () => {
+    it("should split chunks at headings and keep the heading path", () => {
+      const index = buildDocumentIndex(thesis);
+
+      expect(index.outline.map((e) => [e.index, e.level, e.text])).toEqual([
+        [1, 1, "Introduction"],
+        [3, 1, "Methods"],
+        [4, 2, "Survey design"],
+        [6, 1, "Results"],
+        [8, 1, "第七章 讨论"],
+      ]);
+      expect(index.chunks.map((c) => [c.headingPath, c.startIndex, c.endIndex])).toEqual([
+        [[], 0, 0],
+        [["Introduction"], 1, 2],
+        [["Methods"], 3, 3],
+        [["Methods", "Survey design"], 4, 5],
+        [["Results"], 6, 7],
+        [["第七章 讨论"], 8, 9],
+      ]);
+    });
+
+    it("should split long sections at paragraph boundaries", () => {
+      const index = buildDocumentIndex(doc([["Long", 1], "a".repeat(30), "b".repeat(30)]), 40);
+
+      expect(index.chunks).toHaveLength(2);
+      expect(index.chunks[1]).toMatchObject({ headingPath: ["Long"], startIndex: 2 });
+    });
+  });
+
+  describe("chunkRelevanceScorer", () => {
+    it("should rank chunks by BM25 over CJK character pairs", () => {
+      const index = buildDocumentIndex(thesis);
+      const scores = chunkRelevanceScorer(index.chunks, "讨论一下局限性");
+
+      expect(scores[5]).toBeGreaterThan(0);
+      expect(scores.slice(0, 5).every((s) => s === 0)).toBe(true);
+    });
+  });
+
+  describe("selectRelevantChunks", () => {
+    it("should put the selection's chunk first and keep document order", () => {
+      const index = buildDocumentIndex(thesis);
+      const chunks = selectRelevantChunks(index, 10000, {
+        query: "questionnaire",
+        selection: "dropped by 20",
+      });
+
+      expect(chunks.map((c) => c.id)).toEqual([3, 4]);
+    });
+
+    it("should respect the budget", () => {
+      const index = buildDocumentIndex(thesis);
+      const chunks = selectRelevantChunks(index, 35, {
+        query: "questionnaire",
+        selection: "dropped by 20",
+      });
+
+      expect(chunks.map((c) => c.id)).toEqual([4]);
+    });
+
+    it("should fall back to the opening when nothing matches", () => {
+      const index = buildDocumentIndex(thesis);
+
+      expect(selectRelevantChunks(index, 10000, { query: "xyz" }).map((c) => c.id)).toEqual([0]);
+    });
+  });
+
+  describe("buildDocumentContext", () => {
+    const longThesis = thesis.map((p) =>
+      p.index === 7 ? { ...p, text: p.text.repeat(20) } : p
+    );
+
+    it("should send short documents whole", () => {
+      expect(buildDocumentContext(doc([["Title", 1], "Body"]))).toBe("Title\nBody");
+    });
+
+    it("should send the outline and relevant chunks for long documents", () => {
+      const context = buildDocumentContext(longThesis, { query: "局限性", budget: 160 });
+
+      expect(context).toContain("[8] 第七章 讨论");
+      expect(context).toContain("  [4] Survey design");
+      expect(context).toContain("### 第七章 讨论（段落 8-9）\n第七章 讨论\n本研究的局限性在于样本量较小。");
+      expect(context).not.toContain("questionnaire");
+    });
+
+    it("should report omitted chunks", () => {
+      const context = composeDocumentContext(longThesis, { query: "局限性", budget: 160 });
+
+      expect(context).toMatchObject({ chunkCount: 6, omittedCount: 5 });
+    });
+
+    it("should send nothing when the outline alone does not fit", () => {
+      expect(composeDocumentContext(longThesis, { budget: 50 })).toEqual({
+        text: "",
+        chunkCount: 6,
+        omittedCount: 6,
+      });
+    });
+  });
+});
@@ -0,0 +1,103 @@
+/**
+ * Tests for formatMarkup
+ */
+
+import {
+  simplifyHtml,
+  validateMarkup,
+  hasMarkupTags,
+  markupToHtml,
+  stripMarkup,
+  findProtectedContent,
+} from "../../helpers/formatMarkup";
+
+describe("formatMarkup", () => {
+  describe("simplifyHtml", () => {
+    it("should keep inline formatting from tags and styles", () => {
+      const html =
+        '<html><head><style>p { margin: 0 }</style></head><body>' +
+        '<p class="MsoNormal"><span style="font-weight:bold">Bold</span> and ' +
+        '<span style="font-style:italic">italic</span> with H<sub>2</sub>O</p></body></html>';
+
+      expect(simplifyHtml(html)).toBe("<b>Bold</b> and <i>italic</i> with H<sub>2</sub>O");
+    });
+
+    it("should separate paragraphs with newlines and merge adjacent runs", () => {
+      const html = "<p><b>first</b><b> part</b></p><p>second</p>";
+
+      expect(simplifyHtml(html)).toBe("<b>first part</b>\nsecond");
+    });
+
+    it("should keep safe links and drop unsafe ones", () => {
+      const html =
+        '<p><a href="https://example.com">site</a> <a href="javascript:alert(1)">bad</a></p>';
+
+      expect(simplifyHtml(html)).toBe('<a href="https://example.com">site</a> bad');
+    });
+
+    it("should escape literal angle brackets in text", () => {
+      expect(simplifyHtml("<p>a &lt; b</p>")).toBe("a &lt; b");
+    });
+  });
+
+  describe("validateMarkup", () => {
+    it("should accept allowed, properly nested tags", () => {
+      expect(validateMarkup('<b>bold <i>both</i></b><br><a href="mailto:a@b.c">mail</a>')).toEqual({
+        valid: true,
+      });
+    });
+
+    it("should reject unsupported tags", () => {
+      const result = validateMarkup("<span>text</span>");
+
+      expect(result.valid).toBe(false);
+      expect(result.error).toContain("<span>");
+    });
+
+    it("should reject badly nested or unclosed tags", () => {
+      expect(validateMarkup("<b><i>text</b></i>").valid).toBe(false);
+      expect(validateMarkup("<b>text").valid).toBe(false);
+    });
+
+    it("should reject attributes other than a safe href", () => {
+      expect(validateMarkup('<b class="x">text</b>').valid).toBe(false);
+      expect(validateMarkup('<a href="javascript:void(0)">x</a>').valid).toBe(false);
+    });
+  });
+
+  describe("markupToHtml", () => {
+    it("should wrap single-line markup in a span with the base style", () => {
+      expect(markupToHtml("<b>bold</b> text", { fontName: "Calibri", fontSize: 11 })).toBe(
+        "<span style=\"font-family:'Calibri';font-size:11pt\"><b>bold</b> text</span>"
+      );
+    });
+
+    it("should turn lines into paragraphs and escape stray characters", () => {
+      expect(markupToHtml("a < b & c\n<i>d</i>")).toBe("<p>a &lt; b &amp; c</p><p><i>d</i></p>");
+    });
+  });
+
+  describe("stripMarkup", () => {
+    it("should remove tags and decode entities", () => {
+      expect(stripMarkup("<b>a</b> &lt; <i>b</i><br>c &amp; d")).toBe("a < b\nc & d");
+    });
+
+    it("should detect whether markup is present", () => {
+      expect(hasMarkupTags("plain text")).toBe(false);
+      expect(hasMarkupTags("with <b>bold</b>")).toBe(true);
+    });
+  });
+
+  describe("findProtectedContent", () => {
+    it("should report footnotes and fields in the OOXML", () => {
+      const ooxml =
+        '<w:r><w:footnoteReference w:id="1"/></w:r><w:fldSimple w:instr="CITATION"/>';
+
+      expect(findProtectedContent(ooxml)).toEqual(["脚注引用", "域（引文、交叉引用等）"]);
+    });
+
+    it("should return nothing for plain runs", () => {
+      expect(findProtectedContent("<w:r><w:t>text</w:t></w:r>")).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,147 @@
+/**
+ * Tests for keyVault
+ */
+
+// Shared by every isolated copy of the vault module
+const mockGetKey = jest.fn();
+const mockDeleteKey = jest.fn();
+
+jest.mock("../../helpers/cryptoKeyStore", () => {
+  const actual = jest.requireActual("../../helpers/cryptoKeyStore");
+  return {
+    ...actual,
+    isCryptoKeyStoreSupported: () => true,
+    getOrCreateCryptoKey: () => mockGetKey(),
+    deleteCryptoKey: () => mockDeleteKey(),
+  };
+});
+
+// jsdom has no SubtleCrypto; use Node's WebCrypto
+const { webcrypto } = jest.requireActual("crypto");
+const util = jest.requireActual("util");
+Object.defineProperty(window, "crypto", { value: webcrypto, configurable: true });
+Object.assign(globalThis, { TextEncoder: util.TextEncoder, TextDecoder: util.TextDecoder });
+
+type KeyVaultModule = typeof import("../../helpers/keyVault");
+
+function loadVault(): KeyVaultModule {
+  let vault: KeyVaultModule | undefined;
+  jest.isolateModules(() => {
+    vault = jest.requireActual<KeyVaultModule>("../../helpers/keyVault");
+  });
+  return vault as KeyVaultModule;
+}
+
+function generateKey(): Promise<CryptoKey> {
+  return webcrypto.subtle.generateKey({ name: "AES-GCM", length: 256 }, false, [
+    "encrypt",
+    "decrypt",
+  ]);
+}
+
+describe("keyVault", () => {
+  let store: Record<string, string>;
+  let vault: KeyVaultModule;
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    store = {};
+    (localStorage.getItem as jest.Mock).mockImplementation((key: string) => store[key] ?? null);
+    (localStorage.setItem as jest.Mock).mockImplementation((key: string, value: string) => {
+      store[key] = value;
+    });
+    (localStorage.removeItem as jest.Mock).mockImplementation((key: string) => {
+      delete store[key];
+    });
+    const key = await generateKey();
+    mockGetKey.mockResolvedValue(key);
+    // Fresh module state (decrypted keys, unlock promise) for every test
+    vault = loadVault();
+  });
+
+  it("should store API keys as ciphertext only", async () => {
+    expect(await vault.setSecret("default", "sk-secret-123")).toBe(true);
+
+    expect(vault.getSecret("default")).toBe("sk-secret-123");
+    expect(store.word_copilot_secrets).toBeDefined();
+    expect(store.word_copilot_secrets).not.toContain("sk-secret-123");
+  });
+
+  it("should decrypt stored keys when a new runtime unlocks", async () => {
+    await vault.setSecret("profile_a", "sk-a");
+
+    vault = loadVault();
+    expect(vault.getSecret("profile_a")).toBeUndefined();
+
+    expect(await vault.unlockKeyVault()).toBe(true);
+    expect(vault.getSecret("profile_a")).toBe("sk-a");
+  });
+
+  it("should pick up keys another runtime saved after the first unlock", async () => {
+    const ribbon = loadVault();
+    expect(await ribbon.unlockKeyVault()).toBe(true);
+    expect(ribbon.getSecret("default")).toBeUndefined();
+
+    // Saved in the task pane
+    await vault.setSecret("default", "sk-new");
+    await vault.setSecret("profile_a", "sk-a");
+    expect(await ribbon.unlockKeyVault()).toBe(true);
+    expect(ribbon.getSecret("default")).toBe("sk-new");
+
+    await vault.setSecret("default", "sk-changed");
+    await vault.setSecret("profile_a", "");
+    await ribbon.unlockKeyVault();
+    expect(ribbon.getSecret("default")).toBe("sk-changed");
+    expect(ribbon.getSecret("profile_a")).toBeUndefined();
+  });
+
+  it("should keep a key set in this runtime over the stored one while it is written", async () => {
+    await vault.setSecret("default", "sk-old");
+    const other = loadVault();
+    await other.setSecret("default", "sk-other");
+
+    const write = vault.setSecret("default", "sk-mine");
+    await vault.unlockKeyVault();
+    expect(vault.getSecret("default")).toBe("sk-mine");
+    expect(await write).toBe(true);
+  });
+
+  it("should drop keys encrypted under another id or key", async () => {
+    await vault.setSecret("profile_a", "sk-a");
+    const entries = JSON.parse(store.word_copilot_secrets);
+    store.word_copilot_secrets = JSON.stringify({ profile_b: entries.profile_a });
+
+    vault = loadVault();
+    await vault.unlockKeyVault();
+
+    expect(vault.getSecret("profile_b")).toBeUndefined();
+    expect(store.word_copilot_secrets).toBeUndefined();
+  });
+
+  it("should remove a key when set to an empty value", async () => {
+    await vault.setSecret("default", "sk-1");
+    await vault.setSecret("profile_a", "sk-2");
+    await vault.setSecret("profile_a", "");
+
+    expect(vault.getSecretIds()).toEqual(["default"]);
+    expect(await vault.whenSecretsSaved()).toBe(true);
+  });
+
+  it("should report failed writes until they are awaited", async () => {
+    mockGetKey.mockRejectedValueOnce(new Error("IndexedDB blocked"));
+
+    expect(await vault.setSecret("default", "sk-1")).toBe(false);
+    expect(await vault.whenSecretsSaved()).toBe(false);
+    expect(await vault.whenSecretsSaved()).toBe(true);
+  });
+
+  it("should forget every key and the encryption key", async () => {
+    await vault.setSecret("default", "sk-1");
+
+    await vault.forgetKeyVault();
+
+    expect(vault.getSecret("default")).toBeUndefined();
+    expect(store.word_copilot_secrets).toBeUndefined();
+    expect(mockDeleteKey).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,119 @@
+/**
+ * Tests for llmClient usage recording
+ */
+
+import { streamChat } from "../../helpers/llmClient";
+import { recordUsage } from "../../helpers/usageTracker";
+import { DEFAULT_MODEL_CONFIG } from "../../types/settings";
+
+jest.mock("../../helpers/usageTracker", () => ({
+  ...jest.requireActual("../../helpers/usageTracker"),
+  recordUsage: jest.fn(),
+}));
+
+const mockFetch = globalThis.fetch as jest.Mock;
+
+const config = {
+  ...DEFAULT_MODEL_CONFIG,
+  provider: "openai" as const,
+  baseUrl: "https://api.test.com/v1",
+  apiKey: "sk-test",
+  model: "gpt-4o-mini",
+};
+
+/**
+ * Streamed response without ReadableStream support (parsed from text())
+ */
+function sseResponse(events: unknown[]) {
+  const text = events.map((e) => `data: ${JSON.stringify(e)}\n\n`).join("") + "data: [DONE]\n\n";
+  return {
+    ok: true,
+    status: 200,
+    headers: { get: () => "text/event-stream" },
+    text: async () => text,
+  };
+}
+
+const delta = (content: string) => ({ choices: [{ index: 0, delta: { content } }] });
+
+describe("llmClient", () => {
+  beforeEach(() => {
+    mockFetch.mockReset();
+    (recordUsage as jest.Mock).mockClear();
+  });
+
+  it("should ask for and record the usage of a streamed chat", async () => {
+    mockFetch.mockResolvedValue(
+      sseResponse([
+        delta("Hello"),
+        { choices: [], usage: { prompt_tokens: 120, completion_tokens: 8, total_tokens: 128 } },
+      ])
+    );
+
+    const result = await streamChat({
+      config,
+      systemPrompt: "sys",
+      messages: [{ role: "user", content: "Hi" }],
+      usageContext: { task: "chat", sessionId: "s1" },
+    });
+
+    expect(JSON.parse(mockFetch.mock.calls[0][1].body).stream_options).toEqual({
+      include_usage: true,
+    });
+    expect(result.message?.content).toBe("Hello");
+    expect(recordUsage).toHaveBeenCalledWith(
+      { task: "chat", sessionId: "s1" },
+      "gpt-4o-mini",
+      { promptTokens: 120, completionTokens: 8, totalTokens: 128 }
+    );
+  });
+
+  it("should stream without stream_options where the server rejects it", async () => {
+    const text = async () =>
+      JSON.stringify({ error: { message: "Unrecognized request argument: stream_options" } });
+    const rejection = {
+      ok: false,
+      status: 400,
+      headers: { get: () => "application/json" },
+      text,
+      clone: () => ({ text }),
+    };
+    mockFetch
+      .mockResolvedValueOnce(rejection)
+      .mockResolvedValueOnce(sseResponse([delta("Hello")]))
+      .mockResolvedValueOnce(sseResponse([delta("Again")]));
+    const proxy = { ...config, baseUrl: "https://proxy.test.com/v1" };
+    const request = {
+      config: proxy,
+      systemPrompt: "sys",
+      messages: [{ role: "user" as const, content: "Hi" }],
+    };
+
+    const result = await streamChat(request);
+
+    expect(result.message?.content).toBe("Hello");
+    expect(JSON.parse(mockFetch.mock.calls[1][1].body).stream_options).toBeUndefined();
+    expect(result.usage?.promptTokens).toBeGreaterThan(0);
+
+    // Remembered for the endpoint
+    expect((await streamChat(request)).message?.content).toBe("Again");
+    expect(mockFetch).toHaveBeenCalledTimes(3);
+    expect(JSON.parse(mockFetch.mock.calls[2][1].body).stream_options).toBeUndefined();
+  });
+
+  it("should record an estimate when the server sends no usage", async () => {
+    mockFetch.mockResolvedValue(sseResponse([delta("Hello "), delta("world")]));
+
+    await streamChat({
+      config,
+      systemPrompt: "sys",
+      messages: [{ role: "user", content: "Hi" }],
+      usageContext: { task: "chat" },
+    });
+
+    const usage = (recordUsage as jest.Mock).mock.calls[0][2];
+    expect(usage.promptTokens).toBeGreaterThan(0);
+    expect(usage.completionTokens).toBeGreaterThan(0);
+    expect(usage.totalTokens).toBe(usage.promptTokens + usage.completionTokens);
+  });
+});
@@ -0,0 +1,104 @@
+/**
+ * Tests for markdown
+ */
+
+import {
+  parseInline,
+  parseMarkdown,
+  hasMarkdownSyntax,
+  markdownToHtml,
+  getMarkdownHeadings,
+} from "../../helpers/markdown";
+
+describe("markdown", () => {
+  describe("parseInline", () => {
+    it("should parse code, bold, italic and links", () => {
+      expect(parseInline("a `x` **b** *c* [d](https://e.com)")).toEqual([
+        { type: "text", text: "a " },
+        { type: "code", text: "x" },
+        { type: "text", text: " " },
+        { type: "bold", text: "b" },
+        { type: "text", text: " " },
+        { type: "italic", text: "c" },
+        { type: "text", text: " " },
+        { type: "link", text: "d", href: "https://e.com" },
+      ]);
+    });
+  });
+
+  describe("parseMarkdown", () => {
+    it("should group list items and separate list types", () => {
+      const blocks = parseMarkdown("- a\n- b\n1. c");
+
+      expect(blocks).toEqual([
+        {
+          type: "list",
+          ordered: false,
+          items: [[{ type: "text", text: "a" }], [{ type: "text", text: "b" }]],
+        },
+        { type: "list", ordered: true, items: [[{ type: "text", text: "c" }]] },
+      ]);
+    });
+
+    it("should parse pipe tables", () => {
+      const blocks = parseMarkdown("| Name | Score |\n|---|:---:|\n| A | **1** |\nafter");
+
+      expect(blocks[0]).toEqual({
+        type: "table",
+        header: [[{ type: "text", text: "Name" }], [{ type: "text", text: "Score" }]],
+        rows: [[[{ type: "text", text: "A" }], [{ type: "bold", text: "1" }]]],
+      });
+      expect(blocks[1]).toEqual({ type: "paragraph", content: [{ type: "text", text: "after" }] });
+    });
+
+    it("should keep fenced code verbatim", () => {
+      expect(parseMarkdown("```\n# not a heading\n```")).toEqual([
+        { type: "code", text: "# not a heading" },
+      ]);
+    });
+  });
+
+  describe("hasMarkdownSyntax", () => {
+    it("should ignore plain text", () => {
+      expect(hasMarkdownSyntax("Just a sentence.\n\nAnother one.")).toBe(false);
+    });
+
+    it("should detect block and inline syntax", () => {
+      expect(hasMarkdownSyntax("## Title")).toBe(true);
+      expect(hasMarkdownSyntax("some **bold** text")).toBe(true);
+    });
+  });
+
+  describe("markdownToHtml", () => {
+    it("should keep a single paragraph inline", () => {
+      expect(markdownToHtml("**bold** & more")).toBe("<b>bold</b> &amp; more");
+    });
+
+    it("should convert headings, lists and tables", () => {
+      const html = markdownToHtml("# Title\n\n- one\n- two\n\n| A |\n|---|\n| 1 |");
+
+      expect(html).toContain("<h1>Title</h1>");
+      expect(html).toContain("<ul><li>one</li><li>two</li></ul>");
+      expect(html).toMatch(/<table[^>]*><tr><th[^>]*><span>A<\/span><\/th><\/tr><tr><td[^>]*><span>1<\/span><\/td><\/tr><\/table>/);
+    });
+
+    it("should apply the base style to body text but not headings", () => {
+      const html = markdownToHtml("## Heading\n\nBody", { fontName: "Calibri" });
+
+      expect(html).toBe("<h2>Heading</h2><p style=\"font-family:'Calibri'\">Body</p>");
+    });
+
+    it("should drop unsafe links", () => {
+      expect(markdownToHtml("[x](javascript:alert(1))")).not.toContain("<a");
+    });
+  });
+
+  describe("getMarkdownHeadings", () => {
+    it("should list headings with levels and plain text", () => {
+      expect(getMarkdownHeadings("# A\ntext\n### **B**")).toEqual([
+        { level: 1, text: "A" },
+        { level: 3, text: "B" },
+      ]);
+    });
+  });
+});
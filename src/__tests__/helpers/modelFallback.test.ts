@@ -0,0 +1,138 @@
+/**
+ * Tests for modelFallback
+ */
+
+import {
+  classifyStatus,
+  parseRetryAfter,
+  getRetryDelay,
+  runWithFallback,
+  RetryableResult,
+} from "../../helpers/modelFallback";
+import { DEFAULT_MODEL_CONFIG, ModelConfig } from "../../types/settings";
+
+const primary: ModelConfig = { ...DEFAULT_MODEL_CONFIG, apiKey: "k", model: "primary" };
+const backup: ModelConfig = { ...DEFAULT_MODEL_CONFIG, apiKey: "k", model: "backup" };
+
+const ok: RetryableResult = { success: true };
+const rateLimited: RetryableResult = { success: false, error: "429", errorKind: "rate_limit" };
+
+describe("modelFallback", () => {
+  describe("classifyStatus", () => {
+    it("should treat rate limits and server errors as transient", () => {
+      expect(classifyStatus(429)).toBe("rate_limit");
+      expect(classifyStatus(503)).toBe("server");
+      expect(classifyStatus(408)).toBe("timeout");
+      expect(classifyStatus(400)).toBeUndefined();
+      expect(classifyStatus(401)).toBeUndefined();
+    });
+  });
+
+  describe("parseRetryAfter", () => {
+    it("should read seconds, HTTP dates and milliseconds", () => {
+      const now = Date.parse("2026-01-01T00:00:00Z");
+
+      expect(parseRetryAfter(new Headers({ "retry-after": "3" }), now)).toBe(3000);
+      expect(
+        parseRetryAfter(new Headers({ "retry-after": "Thu, 01 Jan 2026 00:00:05 GMT" }), now)
+      ).toBe(5000);
+      expect(parseRetryAfter(new Headers({ "retry-after-ms": "250", "retry-after": "1" }))).toBe(250);
+      expect(parseRetryAfter(new Headers())).toBeUndefined();
+    });
+  });
+
+  describe("getRetryDelay", () => {
+    it("should back off exponentially and honour Retry-After", () => {
+      expect(getRetryDelay(rateLimited, 1)).toBe(1000);
+      expect(getRetryDelay(rateLimited, 2)).toBe(2000);
+      expect(getRetryDelay({ ...rateLimited, retryAfterMs: 4500 }, 1)).toBe(4500);
+    });
+
+    it("should not retry timeouts, long waits or permanent errors", () => {
+      expect(getRetryDelay({ success: false, errorKind: "timeout" }, 1)).toBeNull();
+      expect(getRetryDelay({ ...rateLimited, retryAfterMs: 60_000 }, 1)).toBeNull();
+      expect(getRetryDelay({ success: false, error: "bad request" }, 1)).toBeNull();
+    });
+  });
+
+  describe("runWithFallback", () => {
+    const sleep = jest.fn().mockResolvedValue(undefined);
+
+    beforeEach(() => sleep.mockClear());
+
+    it("should retry the same model with backoff before failing over", async () => {
+      const run = jest
+        .fn()
+        .mockResolvedValueOnce(rateLimited)
+        .mockResolvedValueOnce({ ...rateLimited, retryAfterMs: 1500 })
+        .mockResolvedValueOnce(ok);
+
+      const result = await runWithFallback([primary, backup], run, { sleep });
+
+      expect(run).toHaveBeenCalledTimes(3);
+      expect(run.mock.calls.every(([config]) => config.model === "primary")).toBe(true);
+      expect(sleep.mock.calls.map(([ms]) => ms)).toEqual([1000, 1500]);
+      expect(result).toMatchObject({ success: true, model: "primary", usedFallback: false });
+    });
+
+    it("should fail over to the next model after the retries are used up", async () => {
+      const run = jest.fn((config: ModelConfig) =>
+        Promise.resolve(config.model === "primary" ? rateLimited : ok)
+      );
+      const onRetry = jest.fn();
+
+      const result = await runWithFallback([primary, backup], run, { sleep, onRetry });
+
+      expect(run).toHaveBeenCalledTimes(4);
+      expect(result).toMatchObject({ success: true, model: "backup", usedFallback: true });
+      expect(onRetry).toHaveBeenLastCalledWith(
+        expect.objectContaining({ model: "backup", failover: true })
+      );
+    });
+
+    it("should fail over immediately on timeouts", async () => {
+      const run = jest
+        .fn()
+        .mockResolvedValueOnce({ success: false, error: "timeout", errorKind: "timeout" })
+        .mockResolvedValueOnce(ok);
+
+      const result = await runWithFallback([primary, backup], run, { sleep });
+
+      expect(sleep).not.toHaveBeenCalled();
+      expect(result.model).toBe("backup");
+    });
+
+    it("should return permanent errors without retrying", async () => {
+      const run = jest.fn().mockResolvedValue({ success: false, error: "Invalid API key" });
+
+      const result = await runWithFallback([primary, backup], run, { sleep });
+
+      expect(run).toHaveBeenCalledTimes(1);
+      expect(result.error).toBe("Invalid API key");
+    });
+
+    it("should report the last error when every model fails", async () => {
+      const run = jest.fn().mockResolvedValue(rateLimited);
+
+      const result = await runWithFallback([primary, backup], run, { sleep, maxAttempts: 2 });
+
+      expect(run).toHaveBeenCalledTimes(4);
+      expect(result.success).toBe(false);
+      expect(result.error).toContain("429");
+    });
+
+    it("should stop waiting when the request is cancelled", async () => {
+      const abortController = new AbortController();
+      const run = jest.fn().mockResolvedValue(rateLimited);
+      const cancel = jest.fn(async () => abortController.abort());
+
+      const result = await runWithFallback([primary, backup], run, {
+        sleep: cancel,
+        abortController,
+      });
+
+      expect(run).toHaveBeenCalledTimes(1);
+      expect(result.error).toBe("已取消请求");
+    });
+  });
+});
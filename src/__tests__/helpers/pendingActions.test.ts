@@ -0,0 +1,144 @@
+/**
+ * Tests for pendingActions
+ */
+
+import {
+  PendingAction,
+  PendingActionQueue,
+  executeWithApproval,
+} from "../../helpers/pendingActions";
+import { executeToolCalls } from "../../helpers/toolExecutor";
+import { getSelectionText } from "../../helpers/wordBridge";
+import { ToolCall } from "../../types/llm";
+import { ToolResult } from "../../types/tools";
+
+jest.mock("../../helpers/toolExecutor", () => {
+  const actual = jest.requireActual("../../helpers/toolExecutor");
+  return { ...actual, executeToolCalls: jest.fn() };
+});
+
+jest.mock("../../helpers/wordBridge", () => {
+  const actual = jest.requireActual("../../helpers/wordBridge");
+  return { ...actual, getSelectionText: jest.fn(), getRangeText: jest.fn() };
+});
+
+const mockExecute = executeToolCalls as jest.MockedFunction<typeof executeToolCalls>;
+
+const toolCall = (id: string, name: string, args: object = {}): ToolCall => ({
+  id,
+  type: "function",
+  function: { name, arguments: JSON.stringify(args) },
+});
+
+const okResult = (tc: ToolCall): ToolResult => ({
+  toolCallId: tc.id,
+  name: tc.function.name as ToolResult["name"],
+  success: true,
+  message: "done",
+});
+
+/**
+ * Resolve each action as soon as it is queued
+ */
+const autoResolve = (
+  queue: PendingActionQueue,
+  decide: (action: PendingAction) => Parameters<PendingActionQueue["resolve"]>[1]
+) =>
+  queue.subscribe((actions) => {
+    actions.forEach((a) => setTimeout(() => queue.resolve(a.id, decide(a)), 0));
+  });
+
+describe("pendingActions", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockExecute.mockImplementation(async (calls) => calls.map(okResult));
+    (getSelectionText as jest.Mock).mockResolvedValue("old text");
+  });
+
+  it("should execute directly in auto mode", async () => {
+    const queue = new PendingActionQueue();
+    const calls = [toolCall("call_1", "replace_selection", { content: "new" })];
+
+    await executeWithApproval(calls, { mode: "auto", queue });
+
+    expect(mockExecute).toHaveBeenCalledWith(calls, expect.objectContaining({ mode: "auto" }));
+    expect(queue.getActions()).toHaveLength(0);
+  });
+
+  it("should run read-only tools without queueing", async () => {
+    const queue = new PendingActionQueue();
+
+    const results = await executeWithApproval([toolCall("call_1", "get_outline")], {
+      mode: "confirm",
+      queue,
+    });
+
+    expect(results[0].success).toBe(true);
+    expect(queue.getActions()).toHaveLength(0);
+  });
+
+  it("should queue write tools with a preview and apply on approval", async () => {
+    const queue = new PendingActionQueue();
+    const seen: PendingAction[] = [];
+    autoResolve(queue, (a) => {
+      seen.push(a);
+      return { type: "apply" };
+    });
+
+    const call = toolCall("call_1", "replace_selection", { content: "new text" });
+    const results = await executeWithApproval([call], { mode: "confirm", queue });
+
+    expect(seen[0].original).toBe("old text");
+    expect(seen[0].proposed).toBe("new text");
+    expect(mockExecute).toHaveBeenCalledWith([call], expect.anything());
+    expect(results[0].success).toBe(true);
+  });
+
+  it("should apply edited content", async () => {
+    const queue = new PendingActionQueue();
+    autoResolve(queue, () => ({ type: "apply", editedValue: "edited text" }));
+
+    const results = await executeWithApproval(
+      [toolCall("call_1", "replace_selection", { content: "new text", comment: "Polished" })],
+      { mode: "confirm", queue }
+    );
+
+    const executed = mockExecute.mock.calls[0][0][0];
+    expect(executed.id).toBe("call_1");
+    expect(JSON.parse(executed.function.arguments)).toEqual({
+      content: "edited text",
+      comment: "Polished",
+    });
+    expect(results[0].data).toContain("edited text");
+  });
+
+  it("should not execute rejected actions", async () => {
+    const queue = new PendingActionQueue();
+    autoResolve(queue, () => ({ type: "reject" }));
+
+    const results = await executeWithApproval(
+      [toolCall("call_1", "delete_selection")],
+      { mode: "confirm", queue }
+    );
+
+    expect(mockExecute).not.toHaveBeenCalled();
+    expect(results[0].success).toBe(false);
+    expect(results[0].message).toBe("用户已拒绝此操作");
+  });
+
+  it("should reject all pending actions at once", async () => {
+    const queue = new PendingActionQueue();
+    const run = executeWithApproval(
+      [toolCall("call_1", "add_comment_to_selection", { comment: "Check this" })],
+      { mode: "confirm", queue }
+    );
+
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    expect(queue.getActions()).toHaveLength(1);
+    queue.rejectAll("已取消请求");
+
+    const results = await run;
+    expect(results[0].error).toBe("已取消请求");
+    expect(queue.getActions()).toHaveLength(0);
+  });
+});
@@ -0,0 +1,117 @@
+/**
+ * Tests for promptLibrary
+ */
+
+import {
+  savePromptLibrary,
+  loadPromptLibrary,
+  getRibbonPrompt,
+  renderPrompt,
+  requiresSelection,
+  getPromptTools,
+} from "../../helpers/promptLibrary";
+import { DEFAULT_PROMPT_LIBRARY, PromptTemplate } from "../../types/prompts";
+
+const toolNames = (tools: { function: { name: string } }[]) => tools.map((t) => t.function.name);
+
+describe("promptLibrary", () => {
+  let store: Record<string, string>;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    store = {};
+    (localStorage.getItem as jest.Mock).mockImplementation((key: string) => store[key] ?? null);
+    (localStorage.setItem as jest.Mock).mockImplementation((key: string, value: string) => {
+      store[key] = value;
+    });
+  });
+
+  describe("loadPromptLibrary", () => {
+    it("should return the default prompts until the library is saved", () => {
+      const library = loadPromptLibrary();
+
+      expect(library.prompts.map((p) => p.id)).toEqual(
+        DEFAULT_PROMPT_LIBRARY.prompts.map((p) => p.id)
+      );
+      expect(getRibbonPrompt(library)?.id).toBe("passive_voice");
+    });
+
+    it("should keep an empty saved library", () => {
+      savePromptLibrary({ prompts: [] });
+
+      expect(loadPromptLibrary()).toEqual({ prompts: [], ribbonPromptId: undefined });
+    });
+
+    it("should drop invalid prompts and repair policies and ribbon choice", () => {
+      store.word_copilot_prompt_library = JSON.stringify({
+        prompts: [
+          { id: "a", name: " ", template: "Do {selection}", toolPolicy: "delete_everything" },
+          { id: "", name: "No id", template: "x", toolPolicy: "edit" },
+          { id: "b", name: "No template", toolPolicy: "answer" },
+        ],
+        ribbonPromptId: "b",
+      });
+
+      const library = loadPromptLibrary();
+
+      expect(library.prompts).toEqual([
+        { id: "a", name: "a", template: "Do {selection}", toolPolicy: "edit" },
+      ]);
+      expect(library.ribbonPromptId).toBeUndefined();
+      expect(getRibbonPrompt(library)).toBeUndefined();
+    });
+  });
+
+  describe("renderPrompt", () => {
+    it("should fill in known variables and keep other braces", () => {
+      const text = renderPrompt("《{document_title}》用{language}改写：{selection} {count}", {
+        selection: "原文",
+        language: "英文",
+        document_title: "报告",
+      });
+
+      expect(text).toBe("《报告》用英文改写：原文 {count}");
+    });
+  });
+
+  describe("requiresSelection", () => {
+    const prompt = (template: string, toolPolicy: PromptTemplate["toolPolicy"]): PromptTemplate => ({
+      id: "p",
+      name: "p",
+      template,
+      toolPolicy,
+    });
+
+    it("should require a selection for edit and comment prompts", () => {
+      expect(requiresSelection(prompt("Shorten it", "edit"))).toBe(true);
+      expect(requiresSelection(prompt("Review it", "comment"))).toBe(true);
+    });
+
+    it("should only require a selection for answers that quote it", () => {
+      expect(requiresSelection(prompt("Suggest a title for {document_title}", "answer"))).toBe(false);
+      expect(requiresSelection(prompt("Explain {selection}", "answer"))).toBe(true);
+    });
+  });
+
+  describe("getPromptTools", () => {
+    it("should give edit prompts every tool", () => {
+      expect(toolNames(getPromptTools("edit"))).toContain("replace_selection");
+    });
+
+    it("should limit comment prompts to comment and read-only tools", () => {
+      const names = toolNames(getPromptTools("comment"));
+
+      expect(names).toContain("add_comment_to_selection");
+      expect(names).toContain("get_paragraphs");
+      expect(names).not.toContain("replace_selection");
+    });
+
+    it("should give answer prompts read-only tools only", () => {
+      const names = toolNames(getPromptTools("answer"));
+
+      expect(names).toContain("get_paragraphs");
+      expect(names).not.toContain("add_comment_to_selection");
+      expect(names).not.toContain("replace_selection");
+    });
+  });
+});
@@ -0,0 +1,170 @@
+/**
+ * Tests for the Anthropic provider adapter
+ */
+
+import {
+  anthropicAdapter,
+  buildAnthropicEndpoint,
+  toAnthropicMessages,
+} from "../../../helpers/providers/anthropic";
+import { ChatStreamAccumulator } from "../../../helpers/streamParser";
+import { ChatMessage } from "../../../types/llm";
+import { ToolDefinition } from "../../../types/tools";
+import { DEFAULT_MODEL_CONFIG } from "../../../types/settings";
+
+const config = {
+  ...DEFAULT_MODEL_CONFIG,
+  provider: "anthropic" as const,
+  baseUrl: "https://api.anthropic.com/",
+  apiKey: "sk-ant",
+  model: "claude-sonnet-4",
+};
+
+const tools: ToolDefinition[] = [
+  {
+    type: "function",
+    function: {
+      name: "get_selection",
+      description: "Read the selection",
+      parameters: { type: "object", properties: {} },
+    },
+  },
+];
+
+const conversation: ChatMessage[] = [
+  { role: "user", content: "[CONVERSATION_SUMMARY]\n- British spelling\n[/CONVERSATION_SUMMARY]" },
+  { role: "user", content: "Fix the title" },
+  {
+    role: "assistant",
+    content: "Reading first.",
+    tool_calls: [
+      { id: "toolu_1", type: "function", function: { name: "get_selection", arguments: "{}" } },
+      {
+        id: "toolu_2",
+        type: "function",
+        function: { name: "search_document", arguments: '{"query":"title"}' },
+      },
+    ],
+  },
+  { role: "tool", tool_call_id: "toolu_1", content: "Colour study" },
+  { role: "tool", tool_call_id: "toolu_2", content: "[0] Colour study" },
+];
+
+describe("anthropicAdapter", () => {
+  it("should build the messages endpoint", () => {
+    expect(buildAnthropicEndpoint("https://api.anthropic.com/")).toBe(
+      "https://api.anthropic.com/v1/messages"
+    );
+    expect(buildAnthropicEndpoint("https://proxy.test/v1")).toBe("https://proxy.test/v1/messages");
+  });
+
+  it("should merge turns and send tool results as tool_result blocks", () => {
+    const turns = toAnthropicMessages(conversation);
+
+    expect(turns.map((turn) => turn.role)).toEqual(["user", "assistant", "user"]);
+    expect(turns[0].content).toHaveLength(2);
+    expect(turns[1].content[2]).toEqual({
+      type: "tool_use",
+      id: "toolu_2",
+      name: "search_document",
+      input: { query: "title" },
+    });
+    expect(turns[2].content).toEqual([
+      { type: "tool_result", tool_use_id: "toolu_1", content: "Colour study" },
+      { type: "tool_result", tool_use_id: "toolu_2", content: "[0] Colour study" },
+    ]);
+  });
+
+  it("should put the system prompt, headers and tools in native form", () => {
+    const request = anthropicAdapter.buildRequest({
+      config,
+      systemPrompt: "You edit Word documents.",
+      messages: conversation,
+      tools,
+      toolChoice: "required",
+      temperature: 0.3,
+      maxTokens: 1024,
+      stream: false,
+    });
+
+    expect(request.endpoint).toBe("https://api.anthropic.com/v1/messages");
+    expect(request.headers["x-api-key"]).toBe("sk-ant");
+    expect(request.headers["anthropic-version"]).toBe("2023-06-01");
+    expect(request.body).toMatchObject({
+      model: "claude-sonnet-4",
+      system: "You edit Word documents.",
+      max_tokens: 1024,
+      tool_choice: { type: "any" },
+      tools: [{ name: "get_selection", input_schema: { type: "object", properties: {} } }],
+    });
+  });
+
+  it("should map a response with tool calls and usage", () => {
+    const result = anthropicAdapter.parseResponse({
+      content: [
+        { type: "text", text: "Let me check." },
+        { type: "tool_use", id: "toolu_9", name: "get_selection", input: {} },
+      ],
+      stop_reason: "tool_use",
+      usage: { input_tokens: 120, output_tokens: 30 },
+    });
+
+    expect(result.message).toEqual({
+      role: "assistant",
+      content: "Let me check.",
+      tool_calls: [
+        { id: "toolu_9", type: "function", function: { name: "get_selection", arguments: "{}" } },
+      ],
+    });
+    expect(result.usage).toEqual({ prompt_tokens: 120, completion_tokens: 30, total_tokens: 150 });
+  });
+
+  it("should translate streamed events into chunks", () => {
+    const translate = anthropicAdapter.createStreamTranslator();
+    const accumulator = new ChatStreamAccumulator();
+    const events = [
+      { type: "message_start", message: { usage: { input_tokens: 50, output_tokens: 1 } } },
+      { type: "content_block_start", index: 0, content_block: { type: "text", text: "" } },
+      { type: "content_block_delta", index: 0, delta: { type: "text_delta", text: "Hi" } },
+      { type: "ping" },
+      {
+        type: "content_block_start",
+        index: 1,
+        content_block: { type: "tool_use", id: "toolu_1", name: "search_document", input: {} },
+      },
+      { type: "content_block_delta", index: 1, delta: { type: "input_json_delta", partial_json: '{"query":' } },
+      { type: "content_block_delta", index: 1, delta: { type: "input_json_delta", partial_json: '"x"}' } },
+      { type: "message_delta", delta: { stop_reason: "tool_use" }, usage: { output_tokens: 12 } },
+    ];
+    events.forEach((event) => {
+      const chunks = translate(JSON.stringify(event));
+      if (chunks !== "done") chunks.forEach((chunk) => accumulator.apply(chunk));
+    });
+
+    expect(translate(JSON.stringify({ type: "message_stop" }))).toBe("done");
+    expect(accumulator.toMessage()).toEqual({
+      role: "assistant",
+      content: "Hi",
+      tool_calls: [
+        {
+          id: "toolu_1",
+          type: "function",
+          function: { name: "search_document", arguments: '{"query":"x"}' },
+        },
+      ],
+    });
+    expect(accumulator.getFinishReason()).toBe("tool_calls");
+    expect(accumulator.getUsage()).toEqual({ prompt_tokens: 50, completion_tokens: 12, total_tokens: 62 });
+  });
+
+  it("should surface stream and response errors", () => {
+    const translate = anthropicAdapter.createStreamTranslator();
+
+    expect(
+      translate(JSON.stringify({ type: "error", error: { type: "overloaded_error", message: "Overloaded" } }))
+    ).toEqual([{ error: { message: "Overloaded", type: "overloaded_error", code: null } }]);
+    expect(
+      anthropicAdapter.parseError({ type: "error", error: { type: "invalid_request_error", message: "bad" } })
+    ).toBe("bad");
+  });
+});
@@ -0,0 +1,163 @@
+/**
+ * Tests for the Gemini provider adapter
+ */
+
+import {
+  geminiAdapter,
+  buildGeminiEndpoint,
+  toGeminiContents,
+} from "../../../helpers/providers/gemini";
+import { ChatStreamAccumulator } from "../../../helpers/streamParser";
+import { ChatMessage } from "../../../types/llm";
+import { DEFAULT_MODEL_CONFIG } from "../../../types/settings";
+
+const config = {
+  ...DEFAULT_MODEL_CONFIG,
+  provider: "gemini" as const,
+  baseUrl: "https://generativelanguage.googleapis.com",
+  apiKey: "AIza",
+  model: "gemini-2.5-flash",
+};
+
+describe("geminiAdapter", () => {
+  it("should build generate and stream endpoints", () => {
+    expect(buildGeminiEndpoint(config.baseUrl, "models/gemini-2.5-flash", false)).toBe(
+      "https://generativelanguage.googleapis.com/v1beta/models/gemini-2.5-flash:generateContent"
+    );
+    expect(buildGeminiEndpoint(`${config.baseUrl}/v1beta/`, "gemini-2.5-pro", true)).toBe(
+      "https://generativelanguage.googleapis.com/v1beta/models/gemini-2.5-pro:streamGenerateContent?alt=sse"
+    );
+  });
+
+  it("should answer tool results by function name", () => {
+    const messages: ChatMessage[] = [
+      { role: "user", content: "Fix the title" },
+      {
+        role: "assistant",
+        content: null,
+        tool_calls: [
+          { id: "call_0", type: "function", function: { name: "get_selection", arguments: "{}" } },
+        ],
+      },
+      { role: "tool", tool_call_id: "call_0", content: "Colour study" },
+    ];
+
+    expect(toGeminiContents(messages)).toEqual([
+      { role: "user", parts: [{ text: "Fix the title" }] },
+      { role: "model", parts: [{ functionCall: { name: "get_selection", args: {} } }] },
+      {
+        role: "user",
+        parts: [{ functionResponse: { name: "get_selection", response: { content: "Colour study" } } }],
+      },
+    ]);
+  });
+
+  it("should send the system instruction, tools and generation config", () => {
+    const request = geminiAdapter.buildRequest({
+      config,
+      systemPrompt: "You edit Word documents.",
+      messages: [{ role: "user", content: "Hi" }],
+      tools: [
+        {
+          type: "function",
+          function: { name: "get_selection", description: "Read", parameters: { type: "object", properties: {} } },
+        },
+      ],
+      toolChoice: "auto",
+      temperature: 0.5,
+      maxTokens: 256,
+      stream: false,
+    });
+
+    expect(request.headers["x-goog-api-key"]).toBe("AIza");
+    expect(request.body).toMatchObject({
+      systemInstruction: { parts: [{ text: "You edit Word documents." }] },
+      tools: [{ functionDeclarations: [{ name: "get_selection", description: "Read" }] }],
+      toolConfig: { functionCallingConfig: { mode: "AUTO" } },
+      generationConfig: { temperature: 0.5, maxOutputTokens: 256 },
+    });
+  });
+
+  it("should map function calls and usage metadata", () => {
+    const result = geminiAdapter.parseResponse({
+      candidates: [
+        {
+          content: { role: "model", parts: [{ functionCall: { name: "search_document", args: { query: "x" } } }] },
+          finishReason: "STOP",
+        },
+      ],
+      usageMetadata: { promptTokenCount: 80, candidatesTokenCount: 5, totalTokenCount: 85 },
+    });
+
+    expect(result.message?.tool_calls).toEqual([
+      {
+        id: expect.stringMatching(/^call_0_/),
+        type: "function",
+        function: { name: "search_document", arguments: '{"query":"x"}' },
+      },
+    ]);
+    expect(result.usage).toEqual({ prompt_tokens: 80, completion_tokens: 5, total_tokens: 85 });
+    expect(geminiAdapter.parseResponse({ error: { message: "API key not valid" } }).error).toBe(
+      "API key not valid"
+    );
+  });
+
+  it("should number streamed function calls across events", () => {
+    const translate = geminiAdapter.createStreamTranslator();
+    const accumulator = new ChatStreamAccumulator();
+    const events = [
+      { candidates: [{ content: { parts: [{ text: "Checking" }] } }] },
+      { candidates: [{ content: { parts: [{ functionCall: { name: "get_selection", args: {} } }] } }] },
+      {
+        candidates: [
+          { content: { parts: [{ functionCall: { name: "get_paragraphs", args: {} } }] }, finishReason: "STOP" },
+        ],
+        usageMetadata: { promptTokenCount: 10, candidatesTokenCount: 4 },
+      },
+    ];
+    events.forEach((event) => {
+      const chunks = translate(JSON.stringify(event));
+      if (chunks !== "done") chunks.forEach((chunk) => accumulator.apply(chunk));
+    });
+
+    const message = accumulator.toMessage();
+    expect(message.content).toBe("Checking");
+    expect(message.tool_calls?.map((call) => [call.id, call.function.name])).toEqual([
+      [expect.stringMatching(/^call_0_/), "get_selection"],
+      [expect.stringMatching(/^call_1_/), "get_paragraphs"],
+    ]);
+    expect(accumulator.getFinishReason()).toBe("tool_calls");
+    expect(accumulator.getUsage()?.total_tokens).toBe(14);
+  });
+
+  it("should answer each step's function call with its own name", () => {
+    // Two agent steps, each a response with a single call and no native id
+    const calls = ["get_selection", "get_paragraphs"].map(
+      (name) =>
+        geminiAdapter.parseResponse({
+          candidates: [{ content: { role: "model", parts: [{ functionCall: { name, args: {} } }] } }],
+        }).message!
+    );
+    const history = calls.flatMap((message, i) => [
+      message,
+      { role: "tool" as const, tool_call_id: message.tool_calls![0].id, content: `result ${i}` },
+    ]);
+
+    const request = geminiAdapter.buildRequest({
+      config,
+      systemPrompt: "sys",
+      messages: [{ role: "user", content: "Check" }, ...history],
+      toolChoice: "auto",
+      temperature: 0.2,
+      maxTokens: 100,
+      stream: false,
+    });
+
+    const responses = (request.body.contents as Array<{ parts: Array<Record<string, unknown>> }>)
+      .flatMap((content) => content.parts)
+      .filter((part) => "functionResponse" in part)
+      .map((part) => (part.functionResponse as { name: string }).name);
+    expect(calls[0].tool_calls![0].id).not.toBe(calls[1].tool_calls![0].id);
+    expect(responses).toEqual(["get_selection", "get_paragraphs"]);
+  });
+});
@@ -0,0 +1,40 @@
+/**
+ * Tests for the provider registry
+ */
+
+import { getProviderAdapter, isConfigComplete } from "../../../helpers/providers";
+import { DEFAULT_MODEL_CONFIG } from "../../../types/settings";
+
+describe("providers", () => {
+  it("should default to the OpenAI-compatible adapter", () => {
+    expect(getProviderAdapter().id).toBe("openai");
+    expect(getProviderAdapter("gemini").id).toBe("gemini");
+  });
+
+  it("should keep the OpenAI request shape with a bearer key", () => {
+    const request = getProviderAdapter("openai").buildRequest({
+      config: { ...DEFAULT_MODEL_CONFIG, baseUrl: "https://api.test.com/v1", apiKey: "sk-1", model: "m" },
+      systemPrompt: "sys",
+      messages: [{ role: "user", content: "Hi" }],
+      toolChoice: "auto",
+      temperature: 0.7,
+      maxTokens: 100,
+      stream: false,
+    });
+
+    expect(request.endpoint).toBe("https://api.test.com/v1/chat/completions");
+    expect(request.headers.Authorization).toBe("Bearer sk-1");
+    expect(request.body.messages).toEqual([
+      { role: "system", content: "sys" },
+      { role: "user", content: "Hi" },
+    ]);
+  });
+
+  it("should require an API key only for hosted providers", () => {
+    const local = { ...DEFAULT_MODEL_CONFIG, baseUrl: "http://localhost:8080", apiKey: "", model: "m" };
+
+    expect(isConfigComplete({ ...local, provider: "llamacpp" })).toBe(true);
+    expect(isConfigComplete({ ...local, provider: "anthropic" })).toBe(false);
+    expect(isConfigComplete({ ...local, provider: "ollama", model: "" })).toBe(false);
+  });
+});
@@ -0,0 +1,127 @@
+/**
+ * Tests for the Ollama provider adapter
+ */
+
+import { ollamaAdapter, buildOllamaEndpoint } from "../../../helpers/providers/ollama";
+import { ChatStreamAccumulator, NDJSONLineBuffer } from "../../../helpers/streamParser";
+import { DEFAULT_MODEL_CONFIG } from "../../../types/settings";
+
+const config = {
+  ...DEFAULT_MODEL_CONFIG,
+  provider: "ollama" as const,
+  baseUrl: "http://localhost:11434",
+  apiKey: "",
+  model: "qwen2.5:7b",
+};
+
+describe("ollamaAdapter", () => {
+  it("should build the chat endpoint", () => {
+    expect(buildOllamaEndpoint("http://localhost:11434/")).toBe("http://localhost:11434/api/chat");
+    expect(buildOllamaEndpoint("http://localhost:11434/api")).toBe("http://localhost:11434/api/chat");
+  });
+
+  it("should send tool call arguments as objects and options natively", () => {
+    const request = ollamaAdapter.buildRequest({
+      config,
+      systemPrompt: "You edit Word documents.",
+      messages: [
+        {
+          role: "assistant",
+          content: null,
+          tool_calls: [
+            { id: "call_0", type: "function", function: { name: "search_document", arguments: '{"query":"x"}' } },
+          ],
+        },
+        { role: "tool", tool_call_id: "call_0", content: "[0] x" },
+      ],
+      toolChoice: "auto",
+      temperature: 0.2,
+      maxTokens: 512,
+      stream: true,
+    });
+
+    expect(request.headers.Authorization).toBeUndefined();
+    expect(request.body).toMatchObject({
+      model: "qwen2.5:7b",
+      options: { temperature: 0.2, num_predict: 512 },
+      stream: true,
+      messages: [
+        { role: "system", content: "You edit Word documents." },
+        { role: "assistant", content: "", tool_calls: [{ function: { name: "search_document", arguments: { query: "x" } } }] },
+        { role: "tool", content: "[0] x", tool_name: "search_document" },
+      ],
+    });
+  });
+
+  it("should assemble a streamed reply from JSON lines", () => {
+    const lines = new NDJSONLineBuffer();
+    const translate = ollamaAdapter.createStreamTranslator();
+    const accumulator = new ChatStreamAccumulator();
+    const body =
+      '{"message":{"role":"assistant","content":"Hel"},"done":false}\n' +
+      '{"message":{"role":"assistant","content":"lo"},"done":false}\n' +
+      '{"message":{"role":"assistant","content":""},"done":true,"done_reason":"stop","prompt_eval_count":20,"eval_count":3}\n';
+    lines.push(body).forEach((line) => {
+      const chunks = translate(line);
+      if (chunks !== "done") chunks.forEach((chunk) => accumulator.apply(chunk));
+    });
+
+    expect(accumulator.getContent()).toBe("Hello");
+    expect(accumulator.getFinishReason()).toBe("stop");
+    expect(accumulator.getUsage()).toEqual({ prompt_tokens: 20, completion_tokens: 3, total_tokens: 23 });
+  });
+
+  it("should map tool calls and string errors", () => {
+    const result = ollamaAdapter.parseResponse({
+      message: {
+        role: "assistant",
+        content: "",
+        tool_calls: [{ function: { name: "get_selection", arguments: {} } }],
+      },
+      done: true,
+    });
+
+    expect(result.message).toEqual({
+      role: "assistant",
+      content: null,
+      tool_calls: [
+        {
+          id: expect.stringMatching(/^call_0_/),
+          type: "function",
+          function: { name: "get_selection", arguments: "{}" },
+        },
+      ],
+    });
+    expect(ollamaAdapter.parseError({ error: "model 'x' not found" })).toBe("model 'x' not found");
+  });
+
+  it("should name each step's tool result after its own call", () => {
+    // Two agent steps, each a response with a single call (Ollama sends no ids)
+    const calls = ["get_selection", "get_paragraphs"].map(
+      (name) =>
+        ollamaAdapter.parseResponse({
+          message: { role: "assistant", content: "", tool_calls: [{ function: { name, arguments: {} } }] },
+          done: true,
+        }).message!
+    );
+    const history = calls.flatMap((message, i) => [
+      message,
+      { role: "tool" as const, tool_call_id: message.tool_calls![0].id, content: `result ${i}` },
+    ]);
+
+    const request = ollamaAdapter.buildRequest({
+      config,
+      systemPrompt: "sys",
+      messages: [{ role: "user", content: "Check" }, ...history],
+      toolChoice: "auto",
+      temperature: 0.2,
+      maxTokens: 100,
+      stream: false,
+    });
+
+    const toolNames = (request.body.messages as Array<{ role: string; tool_name?: string }>)
+      .filter((message) => message.role === "tool")
+      .map((message) => message.tool_name);
+    expect(toolNames).toEqual(["get_selection", "get_paragraphs"]);
+  });
+});
@@ -0,0 +1,87 @@
+/**
+ * Tests for retrievalIndex
+ */
+
+import { tokenize, RetrievalIndex } from "../../helpers/retrievalIndex";
+import { DocumentChunk } from "../../helpers/documentIndexer";
+
+const paragraphs = (texts: string[]) => texts.map((text, index) => ({ index, text }));
+
+describe("retrievalIndex", () => {
+  describe("tokenize", () => {
+    it("should split Latin text into lowercase words without stop words", () => {
+      expect(tokenize("Where is the Sample Size discussed?")).toEqual(["sample", "size", "discussed"]);
+    });
+
+    it("should split CJK text into character bigrams", () => {
+      expect(tokenize("样本量 A1")).toEqual(["a1", "样本", "本量"]);
+      expect(tokenize("量")).toEqual(["量"]);
+    });
+  });
+
+  describe("search", () => {
+    const index = new RetrievalIndex();
+    index.update(
+      paragraphs([
+        "Introduction to shift work.",
+        "The sample size was small, with a sample of 40 nurses.",
+        "Results show reduced sleep quality.",
+        "本研究的样本量较小。",
+      ])
+    );
+
+    it("should rank paragraphs by BM25 score", () => {
+      const hits = index.search("sample size");
+
+      expect(hits.map((h) => h.index)).toEqual([1]);
+      expect(hits[0].text).toContain("40 nurses");
+    });
+
+    it("should match CJK queries without exact wording", () => {
+      expect(index.search("样本量太少了吗").map((h) => h.index)).toEqual([3]);
+    });
+
+    it("should return nothing for unknown terms", () => {
+      expect(index.search("xyz")).toEqual([]);
+    });
+  });
+
+  describe("update", () => {
+    it("should only reindex changed paragraphs", () => {
+      const index = new RetrievalIndex();
+
+      expect(index.update(paragraphs(["alpha", "beta", "gamma"]))).toBe(3);
+      expect(index.update(paragraphs(["alpha", "delta", "gamma"]))).toBe(1);
+      expect(index.search("beta")).toEqual([]);
+      expect(index.search("delta").map((h) => h.index)).toEqual([1]);
+    });
+
+    it("should drop paragraphs removed from the end", () => {
+      const index = new RetrievalIndex();
+      index.update(paragraphs(["alpha", "beta", "gamma"]));
+
+      expect(index.update(paragraphs(["alpha"]))).toBe(2);
+      expect(index.size).toBe(1);
+      expect(index.search("gamma")).toEqual([]);
+    });
+  });
+
+  describe("scoreChunks", () => {
+    it("should sum paragraph scores over each chunk", () => {
+      const index = new RetrievalIndex();
+      index.update(paragraphs(["Methods", "sample of nurses", "Results", "more nurses"]));
+      const chunk = (id: number, startIndex: number, endIndex: number): DocumentChunk => ({
+        id,
+        headingPath: [],
+        startIndex,
+        endIndex,
+        text: "",
+      });
+
+      const scores = index.scoreChunks([chunk(0, 0, 1), chunk(1, 2, 3)], "sample");
+
+      expect(scores[0]).toBeGreaterThan(0);
+      expect(scores[1]).toBe(0);
+    });
+  });
+});
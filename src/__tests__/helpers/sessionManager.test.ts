@@ -3,10 +3,40 @@
  */
 
 import {
+  Session,
   SessionManager,
   getSessionManager,
   resetSessionManager,
 } from "../../helpers/sessionManager";
+import * as sessionStore from "../../helpers/sessionStore";
+
+// In-memory stand-in for the IndexedDB session store; off unless a test enables it
+let mockUseIndexedDB = false;
+const mockDb = new Map<string, Session>();
+const mockClone = <T>(value: T): T => JSON.parse(JSON.stringify(value));
+
+jest.mock("../../helpers/sessionStore", () => {
+  const actual = jest.requireActual("../../helpers/sessionStore");
+  return {
+    ...actual,
+    isSessionStoreSupported: () => mockUseIndexedDB,
+    loadSessionIndex: jest.fn(async () =>
+      Array.from(mockDb.values()).map(actual.getSessionInfo)
+    ),
+    loadStoredSession: jest.fn(async (id: string) =>
+      mockDb.has(id) ? mockClone(mockDb.get(id)) : undefined
+    ),
+    putStoredSessions: jest.fn(async (sessions: Session[]) => {
+      sessions.forEach((s) => mockDb.set(s.id, mockClone(s)));
+    }),
+    deleteStoredSessions: jest.fn(async (ids: string[]) => {
+      ids.forEach((id) => mockDb.delete(id));
+    }),
+    forEachStoredSession: jest.fn(async (visit: (session: Session) => void) => {
+      mockDb.forEach((s) => visit(mockClone(s)));
+    }),
+  };
+});
 
 describe("SessionManager", () => {
   let sessionManager: SessionManager;
@@ -47,18 +77,18 @@ describe("SessionManager", () => {
   });
 
   describe("Session Switching", () => {
-    it("should switch active session", () => {
+    it("should switch active session", async () => {
       const session1 = sessionManager.createSession("Session 1");
       sessionManager.createSession("Session 2"); // Create second session
 
-      sessionManager.setActiveSession(session1.id);
+      await sessionManager.setActiveSession(session1.id);
       const active = sessionManager.getActiveSession();
 
       expect(active?.id).toBe(session1.id);
     });
 
-    it("should return null for invalid session ID", () => {
-      const result = sessionManager.setActiveSession("invalid-id");
+    it("should return null for invalid session ID", async () => {
+      const result = await sessionManager.setActiveSession("invalid-id");
       expect(result).toBeNull();
     });
   });
@@ -74,23 +104,23 @@ describe("SessionManager", () => {
       expect(updated?.name).toBe("New Name");
     });
 
-    it("should delete session", () => {
+    it("should delete session", async () => {
       sessionManager.createSession("Session 1");
       const session2 = sessionManager.createSession("Session 2");
 
-      sessionManager.deleteSession(session2.id);
+      await sessionManager.deleteSession(session2.id);
       const sessions = sessionManager.getSessionList();
 
       expect(sessions.find((s) => s.id === session2.id)).toBeUndefined();
     });
 
-    it("should not delete the last session", () => {
+    it("should not delete the last session", async () => {
       // Get the only session
       const sessions = sessionManager.getSessionList();
       const lastSession = sessions[0];
 
       // Try to delete it
-      const deleted = sessionManager.deleteSession(lastSession.id);
+      const deleted = await sessionManager.deleteSession(lastSession.id);
 
       // Should not actually delete
       expect(deleted).toBe(false);
@@ -123,6 +153,155 @@ describe("SessionManager", () => {
     });
   });
 
+  describe("Summary", () => {
+    it("should store the summary and drop the folded messages", () => {
+      const id = sessionManager.getActiveSession()!.id;
+      sessionManager.addMessage({ role: "user", content: "Use British spelling" });
+      sessionManager.addMessage({ role: "assistant", content: "OK" });
+      sessionManager.addMessage({ role: "user", content: "Polish the intro" });
+
+      sessionManager.applySummary(id, "- 使用英式拼写", 2);
+      sessionManager.applySummary(id, "- 使用英式拼写\n- 已润色引言", 1);
+
+      expect(sessionManager.getMessages()).toEqual([]);
+      expect(sessionManager.getSummary()).toMatchObject({
+        content: "- 使用英式拼写\n- 已润色引言",
+        messageCount: 3,
+      });
+    });
+
+    it("should apply the summary to the given session only", async () => {
+      const first = sessionManager.createSession("First");
+      sessionManager.addMessage({ role: "user", content: "Use British spelling" });
+      const basedOn = sessionManager.getMessages();
+      const second = sessionManager.createSession("Second");
+      sessionManager.addMessage({ role: "user", content: "Translate the abstract" });
+
+      expect(sessionManager.applySummary(first.id, "- 使用英式拼写", 1, basedOn)).toBe(true);
+
+      expect(sessionManager.getActiveSession()?.id).toBe(second.id);
+      expect(sessionManager.getSummary()).toBeUndefined();
+      expect(sessionManager.getMessages()).toHaveLength(1);
+      await sessionManager.setActiveSession(first.id);
+      expect(sessionManager.getSummary()?.content).toBe("- 使用英式拼写");
+      expect(sessionManager.getMessages()).toEqual([]);
+    });
+
+    it("should discard a summary of messages that changed meanwhile", () => {
+      const id = sessionManager.getActiveSession()!.id;
+      sessionManager.addMessage({ role: "user", content: "Use British spelling" });
+      const basedOn = sessionManager.getMessages();
+      sessionManager.addMessage({ role: "user", content: "Polish the intro" });
+
+      expect(sessionManager.applySummary(id, "- 使用英式拼写", 1, basedOn)).toBe(false);
+      expect(sessionManager.getMessages()).toHaveLength(2);
+      expect(sessionManager.getSummary()).toBeUndefined();
+    });
+
+    it("should clear the summary with the session", () => {
+      sessionManager.applySummary(sessionManager.getActiveSession()!.id, "- 使用英式拼写", 0);
+
+      sessionManager.clearActiveSession();
+
+      expect(sessionManager.getSummary()).toBeUndefined();
+    });
+  });
+
+  describe("Apply Mode", () => {
+    it("should default to auto", () => {
+      expect(sessionManager.getApplyMode()).toBe("auto");
+    });
+
+    it("should keep the apply mode per session", async () => {
+      const session1 = sessionManager.createSession("Session 1");
+      sessionManager.setApplyMode("confirm");
+      sessionManager.createSession("Session 2");
+
+      expect(sessionManager.getApplyMode()).toBe("auto");
+
+      await sessionManager.setActiveSession(session1.id);
+      expect(sessionManager.getApplyMode()).toBe("confirm");
+    });
+  });
+
+  describe("Applied Edits", () => {
+    it("should mark reverted edits on display messages", () => {
+      const edit = {
+        id: "edit_1",
+        toolCallId: "call_1",
+        name: "replace_selection" as const,
+        originalText: "old",
+        newText: "new",
+        tag: "word-copilot-edit:edit_1",
+      };
+      sessionManager.addDisplayMessage("tool_result", "✓ 已替换选中内容", undefined, false, {
+        appliedEdits: [edit],
+      });
+
+      expect(sessionManager.markEditsReverted(["edit_1"])).toBe(true);
+      const [msg] = sessionManager.getDisplayMessages();
+      expect(msg.appliedEdits?.[0].reverted).toBe(true);
+
+      expect(sessionManager.markEditsReverted(["edit_1"])).toBe(false);
+    });
+
+    const editMessage = (sm: SessionManager, id: string, reverted = false) =>
+      sm.addDisplayMessage("tool_result", "✓ 已替换选中内容", undefined, false, {
+        appliedEdits: [
+          {
+            id,
+            toolCallId: `call_${id}`,
+            name: "replace_selection" as const,
+            originalText: "old",
+            newText: "new",
+            tag: `word-copilot-edit:${id}`,
+            reverted,
+          },
+        ],
+      });
+
+    it("should report revertible edits dropped by clearing or trimming", () => {
+      const dropped = jest.fn();
+      sessionManager.onEditsDropped(dropped);
+      editMessage(sessionManager, "edit_1");
+      editMessage(sessionManager, "edit_2", true);
+
+      sessionManager.clearActiveSession();
+      expect(dropped).toHaveBeenCalledWith(["edit_1"]);
+
+      dropped.mockClear();
+      editMessage(sessionManager, "edit_3");
+      for (let i = 0; i < 50; i++) {
+        sessionManager.addDisplayMessage("user", `Message ${i}`);
+      }
+      expect(dropped).toHaveBeenCalledTimes(1);
+      expect(dropped).toHaveBeenCalledWith(["edit_3"]);
+    });
+
+    it("should report the edits of deleted sessions", async () => {
+      mockUseIndexedDB = true;
+      mockDb.clear();
+      try {
+        const sm = new SessionManager();
+        await sm.init();
+        const dropped = jest.fn();
+        sm.onEditsDropped(dropped);
+        const first = sm.getActiveSession()!;
+        editMessage(sm, "edit_1");
+        sm.createSession();
+        editMessage(sm, "edit_2");
+
+        // Unloaded: read back from storage before it is deleted
+        await sm.deleteSession(first.id);
+        await sm.whenSaved();
+        expect(dropped).toHaveBeenCalledWith(["edit_1"]);
+        expect(mockDb.has(first.id)).toBe(false);
+      } finally {
+        mockUseIndexedDB = false;
+      }
+    });
+  });
+
   describe("buildUserMessage", () => {
     it("should build user message with context", () => {
       const message = sessionManager.buildUserMessage(
@@ -169,6 +348,481 @@ describe("SessionManager", () => {
     });
   });
 
+  describe("Export and Import", () => {
+    const seedSession = (sm: SessionManager, name: string) => {
+      const session = sm.createSession(name);
+      sm.addMessage({ role: "user", content: "润色这段" });
+      sm.addDisplayMessage("user", "润色这段");
+      sm.addDisplayMessage(
+        "tool_result",
+        "✓ 已替换选中内容",
+        [
+          {
+            id: "call_1",
+            type: "function",
+            function: { name: "replace_selection", arguments: "{}" },
+          },
+        ],
+        false,
+        {
+          agentStep: 1,
+          appliedEdits: [
+            {
+              id: "edit_1",
+              toolCallId: "call_1",
+              name: "replace_selection",
+              originalText: "旧的句子",
+              newText: "新的句子",
+              reverted: true,
+            },
+          ],
+        }
+      );
+      return session;
+    };
+
+    it("should round-trip sessions through JSON", async () => {
+      const session = seedSession(sessionManager, "Exported");
+      const json = await sessionManager.exportSessions([session.id]);
+
+      expect(JSON.parse(json)).toMatchObject({ format: "word-copilot-sessions", version: 1 });
+
+      const target = new SessionManager();
+      const result = target.importSessions(json);
+      const imported = await target.setActiveSession(session.id);
+
+      expect(result).toEqual({ success: true, imported: 1, skipped: 0 });
+      expect(imported?.messages).toEqual(session.messages);
+      expect(imported?.displayMessages).toEqual(session.displayMessages);
+    });
+
+    it("should skip sessions that are already here and rename clashing ids", async () => {
+      const session = seedSession(sessionManager, "Original");
+      const json = await sessionManager.exportSessions([session.id]);
+
+      expect(sessionManager.importSessions(json)).toMatchObject({ imported: 0, skipped: 1 });
+
+      const changed = JSON.parse(json);
+      changed.sessions[0].updatedAt += 1000;
+      changed.sessions[0].name = "Changed";
+      expect(sessionManager.importSessions(JSON.stringify(changed))).toMatchObject({
+        imported: 1,
+      });
+
+      const names = sessionManager.getSessionList().map((s) => s.name);
+      expect(names).toContain("Original");
+      expect(names).toContain("Changed");
+      expect(sessionManager.getActiveSession()?.id).toBe(session.id);
+    });
+
+    it("should import the plain stored session array", () => {
+      const stored = [
+        { id: "old", name: "Old", createdAt: 1, updatedAt: 2, messages: [], displayMessages: [] },
+        { id: "broken", messages: "nope" },
+      ];
+
+      const result = sessionManager.importSessions(JSON.stringify(stored));
+
+      expect(result).toEqual({ success: true, imported: 1, skipped: 0 });
+    });
+
+    it("should drop malformed messages of imported sessions", async () => {
+      const call = {
+        id: "call_1",
+        type: "function",
+        function: { name: "get_outline", arguments: "{}" },
+      };
+      const stored = [
+        {
+          id: "mixed",
+          name: "Mixed",
+          createdAt: 1,
+          updatedAt: 2,
+          messages: [
+            { role: "user", content: "总结" },
+            { content: "no role" },
+            { role: "assistant", content: null, tool_calls: "nope" },
+            { role: "tool", content: "orphan", tool_call_id: "call_0" },
+            { role: "assistant", content: null, tool_calls: [call] },
+            { role: "tool", content: "大纲", tool_call_id: "call_1" },
+            null,
+          ],
+          displayMessages: [
+            { id: "m1", role: "user", content: "总结", timestamp: 1 },
+            { id: "m2", role: "robot", content: "?", timestamp: 1 },
+            { id: "m3", role: "assistant", timestamp: 1 },
+            { role: "assistant", content: "no id", timestamp: 1 },
+            { id: "m4", role: "tool_result", content: "✓", timestamp: 1, toolCalls: [{}] },
+            { id: "m5", role: "tool_result", content: "✓", timestamp: 1, toolCalls: [call] },
+            "text",
+          ],
+        },
+      ];
+
+      expect(sessionManager.importSessions(JSON.stringify(stored)).imported).toBe(1);
+      await sessionManager.setActiveSession("mixed");
+
+      expect(sessionManager.getMessages().map((m) => m.content)).toEqual(["总结", null, "大纲"]);
+      expect(sessionManager.getDisplayMessages().map((m) => m.id)).toEqual(["m1", "m5"]);
+      expect(await sessionManager.exportSessionMarkdown("mixed")).toContain("### 工具结果");
+    });
+
+    it("should drop malformed edits, issues and session fields", async () => {
+      const stored = [
+        {
+          id: "old",
+          name: "Old",
+          createdAt: 1,
+          updatedAt: 2,
+          summary: "较早的对话",
+          documentId: 42,
+          applyMode: "sometimes",
+          extra: { nested: true },
+          messages: [],
+          displayMessages: [
+            {
+              id: "m1",
+              role: "tool_result",
+              content: "✓ 已替换",
+              timestamp: 1,
+              appliedEdits: [
+                { id: "edit_1", name: "replace_selection" },
+                {
+                  id: "edit_2",
+                  toolCallId: "call_2",
+                  name: "replace_selection",
+                  originalText: "旧",
+                  newText: "新",
+                  reverted: "no",
+                },
+                { id: "edit_3", name: "replace_selection", originalText: "旧", newText: "新" },
+              ],
+              structureIssues: [
+                { severity: "error" },
+                { description: "标题层级跳跃", severity: "fatal" },
+                { description: "段落过长", severity: "warning", location: 3 },
+                { type: "heading", description: "标题为空", severity: "warning" },
+              ],
+            },
+          ],
+        },
+      ];
+
+      expect(sessionManager.importSessions(JSON.stringify(stored)).imported).toBe(1);
+      const session = await sessionManager.setActiveSession("old");
+
+      expect(session).toEqual({
+        id: "old",
+        name: "Old",
+        createdAt: 1,
+        updatedAt: 2,
+        messages: [],
+        displayMessages: [expect.objectContaining({ id: "m1" })],
+      });
+      const [msg] = sessionManager.getDisplayMessages();
+      expect(msg.appliedEdits?.map((e) => e.id)).toEqual(["edit_3"]);
+      expect(msg.structureIssues?.map((i) => i.description)).toEqual(["标题为空"]);
+      const markdown = await sessionManager.exportSessionMarkdown("old");
+      expect(markdown).toContain("标题为空");
+      expect(markdown).not.toContain("较早对话摘要");
+    });
+
+    it("should keep a well-formed summary and document of an imported session", async () => {
+      const stored = [
+        {
+          id: "doc",
+          name: "Doc",
+          createdAt: 1,
+          updatedAt: 2,
+          summary: { content: "较早的对话", messageCount: 4 },
+          documentId: "doc-1",
+          documentTitle: "Grant proposal",
+          messages: [],
+          displayMessages: [],
+        },
+      ];
+
+      sessionManager.importSessions(JSON.stringify(stored));
+      const session = await sessionManager.setActiveSession("doc");
+
+      expect(session?.summary).toEqual({ content: "较早的对话", messageCount: 4, updatedAt: 2 });
+      expect(session?.documentId).toBe("doc-1");
+      expect(session?.documentTitle).toBe("Grant proposal");
+    });
+
+    it("should reject newer versions and unrelated files", () => {
+      const newer = JSON.stringify({ format: "word-copilot-sessions", version: 2, sessions: [] });
+
+      expect(sessionManager.importSessions(newer).error).toContain("版本");
+      expect(sessionManager.importSessions('{"hello":1}').success).toBe(false);
+      expect(sessionManager.importSessions("not json").success).toBe(false);
+    });
+
+    it("should export a Markdown transcript with tool results and edits", async () => {
+      const session = seedSession(sessionManager, "Manuscript");
+
+      const markdown = (await sessionManager.exportSessionMarkdown(session.id)) || "";
+
+      expect(markdown).toContain("# Manuscript");
+      expect(markdown).toContain("### 工具结果（第 1 步）");
+      expect(markdown).toContain("调用工具：`replace_selection`");
+      expect(markdown).toContain("原文：旧的句子");
+      expect(markdown).toContain("修改为：新的句子");
+      expect(markdown).toContain("（已撤销）");
+      expect(await sessionManager.exportSessionMarkdown("missing")).toBeNull();
+    });
+  });
+
+  describe("IndexedDB storage", () => {
+    const stored = (id: string, name: string, content: string, updatedAt: number): Session => ({
+      id,
+      name,
+      createdAt: updatedAt,
+      updatedAt,
+      messages: [{ role: "user", content }],
+      displayMessages: [{ id: `${id}_msg`, role: "user", content, timestamp: updatedAt }],
+    });
+
+    beforeEach(() => {
+      mockUseIndexedDB = true;
+      mockDb.clear();
+      jest.clearAllMocks();
+    });
+
+    afterEach(() => {
+      mockUseIndexedDB = false;
+    });
+
+    it("should migrate sessions from localStorage and load only the active one", async () => {
+      const legacy = [stored("a", "Intro", "润色引言", 1000), stored("b", "Methods", "翻译方法", 2000)];
+      (localStorage.getItem as jest.Mock).mockImplementation((key: string) =>
+        key === "word_copilot_sessions"
+          ? JSON.stringify(legacy)
+          : key === "word_copilot_active_session"
+          ? "a"
+          : null
+      );
+
+      const sm = new SessionManager();
+      await sm.init();
+
+      expect(Array.from(mockDb.keys()).sort()).toEqual(["a", "b"]);
+      expect(localStorage.removeItem).toHaveBeenCalledWith("word_copilot_sessions");
+      expect(sm.getSessionList().map((s) => s.name)).toEqual(["Methods", "Intro"]);
+      expect(sm.getActiveSession()?.id).toBe("a");
+      expect(sessionStore.loadStoredSession).toHaveBeenCalledTimes(1);
+    });
+
+    it("should write only the changed session", async () => {
+      mockDb.set("a", stored("a", "Intro", "润色引言", 1000));
+      mockDb.set("b", stored("b", "Methods", "翻译方法", 2000));
+      const sm = new SessionManager();
+      await sm.init();
+
+      sm.addDisplayMessage("assistant", "已润色");
+      await sm.whenSaved();
+
+      const writes = (sessionStore.putStoredSessions as jest.Mock).mock.calls;
+      expect(writes[writes.length - 1][0].map((s: Session) => s.id)).toEqual(["b"]);
+      expect(mockDb.get("b")?.displayMessages).toHaveLength(2);
+      expect(sm.getSessionList()[0].messageCount).toBe(2);
+    });
+
+    it("should load other sessions when they are opened", async () => {
+      mockDb.set("a", stored("a", "Intro", "润色引言", 1000));
+      mockDb.set("b", stored("b", "Methods", "翻译方法", 2000));
+      const sm = new SessionManager();
+      await sm.init();
+
+      const opened = await sm.setActiveSession("a");
+
+      expect(opened?.messages).toEqual([{ role: "user", content: "润色引言" }]);
+      expect(sm.getDisplayMessages()[0].content).toBe("润色引言");
+    });
+
+    it("should add messages to a session that is no longer loaded", async () => {
+      mockDb.set("a", stored("a", "Intro", "润色引言", 1000));
+      mockDb.set("b", stored("b", "Methods", "翻译方法", 2000));
+      const sm = new SessionManager();
+      await sm.init();
+
+      // A reply to "b" arrives after "a" was opened
+      await sm.setActiveSession("a");
+      sm.addMessage({ role: "assistant", content: "已翻译" }, "b");
+      expect(
+        sm.addDisplayMessage("assistant", "已翻译", undefined, false, undefined, "b")
+      ).not.toBeNull();
+      await sm.whenSaved();
+
+      expect(sm.getDisplayMessages()).toHaveLength(1);
+      expect(mockDb.get("b")?.messages.map((m) => m.content)).toEqual(["翻译方法", "已翻译"]);
+      expect(sm.getSessionList().find((s) => s.id === "b")?.messageCount).toBe(2);
+      expect(
+        sm.addDisplayMessage("assistant", "x", undefined, false, undefined, "gone")
+      ).toBeNull();
+    });
+
+    it("should rename and delete sessions that are not loaded", async () => {
+      mockDb.set("a", stored("a", "Intro", "润色引言", 1000));
+      mockDb.set("b", stored("b", "Methods", "翻译方法", 2000));
+      mockDb.set("c", stored("c", "Results", "总结结果", 3000));
+      const sm = new SessionManager();
+      await sm.init();
+
+      sm.renameSession("a", "Introduction");
+      await sm.deleteSession("b");
+      await sm.whenSaved();
+
+      expect(mockDb.get("a")?.name).toBe("Introduction");
+      expect(mockDb.has("b")).toBe(false);
+      expect(sm.getActiveSession()?.id).toBe("c");
+    });
+
+    it("should search names and messages of all sessions", async () => {
+      mockDb.set("a", stored("a", "Intro", "请润色引言部分", 1000));
+      mockDb.set("b", stored("b", "Methods", "翻译方法部分", 2000));
+      const sm = new SessionManager();
+      await sm.init();
+
+      const byContent = await sm.searchSessions("引言");
+      const byName = await sm.searchSessions("methods 部分");
+
+      expect(byContent.map((r) => r.sessionId)).toEqual(["a"]);
+      expect(byContent[0].matches[0].snippet).toBe("请润色引言部分");
+      expect(byName.map((r) => r.sessionId)).toEqual(["b"]);
+      expect(await sm.searchSessions("  ")).toEqual([]);
+    });
+  });
+
+  describe("Document sessions", () => {
+    const paper = { id: "doc-paper", title: "Paper" };
+    const grant = { id: "doc-grant", title: "Grant proposal" };
+    const stored = (id: string, content: string, updatedAt: number, documentId?: string) => ({
+      id,
+      name: id,
+      createdAt: updatedAt,
+      updatedAt,
+      messages: [],
+      displayMessages: [{ id: `${id}_msg`, role: "user", content, timestamp: updatedAt }],
+      documentId,
+    });
+    const withSessions = (sessions: unknown[], activeId?: string) => {
+      (localStorage.getItem as jest.Mock).mockImplementation((key: string) =>
+        key === "word_copilot_sessions"
+          ? JSON.stringify(sessions)
+          : key === "word_copilot_active_session"
+          ? activeId || null
+          : null
+      );
+      return new SessionManager();
+    };
+
+    it("should list and select the current document's sessions", async () => {
+      const sm = withSessions(
+        [
+          stored("p1", "引言", 1000, paper.id),
+          stored("p2", "方法", 2000, paper.id),
+          stored("g1", "预算", 3000, grant.id),
+          stored("old", "旧对话", 4000),
+        ],
+        "g1"
+      );
+      await sm.init(paper);
+
+      expect(sm.getSessionList().map((s) => s.id)).toEqual(["old", "p2", "p1"]);
+      expect(sm.getSessionList("all").map((s) => s.id)).toEqual(["old", "g1", "p2", "p1"]);
+      expect(sm.getActiveSession()?.id).toBe("p2");
+    });
+
+    it("should start a session for a document without one", async () => {
+      const sm = withSessions([stored("g1", "预算", 3000, grant.id)]);
+      await sm.init(paper);
+
+      const active = sm.getActiveSession();
+      expect(active?.documentId).toBe(paper.id);
+      expect(active?.documentTitle).toBe("Paper");
+      expect(sm.getSessionList().map((s) => s.id)).toEqual([active?.id]);
+    });
+
+    it("should bind the empty default session instead of adding another", async () => {
+      const sm = new SessionManager();
+      await sm.init(paper);
+
+      expect(sm.getSessionList("all")).toHaveLength(1);
+      expect(sm.getActiveSession()?.documentId).toBe(paper.id);
+    });
+
+    it("should adopt older sessions when opened, but not other documents' sessions", async () => {
+      const sm = withSessions([stored("g1", "预算", 3000, grant.id), stored("old", "旧对话", 4000)]);
+      await sm.init(paper);
+
+      await sm.setActiveSession("old");
+      await sm.setActiveSession("g1");
+
+      const ids = sm.getSessionList().map((s) => s.id);
+      expect(ids).toContain("old");
+      expect(ids).not.toContain("g1");
+      expect(sm.getActiveSession()?.documentId).toBe(grant.id);
+    });
+
+    it("should show and reopen sessions saved before documents were tracked", async () => {
+      const sm = withSessions(
+        [stored("old1", "引言", 1000), stored("old2", "方法", 2000)],
+        "old1"
+      );
+      await sm.init(paper);
+
+      // The session active before the upgrade is reopened and adopted
+      expect(sm.getActiveSession()?.id).toBe("old1");
+      expect(sm.getActiveSession()?.documentId).toBe(paper.id);
+      expect(sm.getSessionList().map((s) => s.id)).toEqual(["old2", "old1"]);
+
+      const saved = JSON.parse(
+        (localStorage.setItem as jest.Mock).mock.calls
+          .filter(([key]) => key === "word_copilot_sessions")
+          .pop()[1]
+      );
+      expect(saved.find((s: { id: string }) => s.id === "old1").documentId).toBe(paper.id);
+      expect(saved.find((s: { id: string }) => s.id === "old2").documentId).toBeUndefined();
+    });
+
+    it("should not switch to another document's session after deleting", async () => {
+      const sm = withSessions(
+        [stored("p1", "引言", 1000, paper.id), stored("g1", "预算", 3000, grant.id)],
+        "p1"
+      );
+      await sm.init(paper);
+
+      expect(await sm.deleteSession("p1")).toBe(true);
+
+      const active = sm.getActiveSession();
+      expect(active?.id).not.toBe("g1");
+      expect(active?.documentId).toBe(paper.id);
+    });
+
+    it("should search within the scope", async () => {
+      const sm = withSessions([
+        stored("p1", "预算表格", 1000, paper.id),
+        stored("g1", "预算说明", 3000, grant.id),
+      ]);
+      await sm.init(paper);
+
+      expect((await sm.searchSessions("预算")).map((r) => r.sessionId)).toEqual(["p1"]);
+      expect((await sm.searchSessions("预算", "all")).map((r) => r.sessionId)).toEqual([
+        "g1",
+        "p1",
+      ]);
+    });
+
+    it("should list every session when the document is unknown", async () => {
+      const sm = withSessions([stored("p1", "引言", 1000, paper.id), stored("old", "旧", 2000)]);
+      await sm.init(null);
+
+      expect(sm.getSessionList()).toHaveLength(2);
+      expect(sm.getActiveSession()?.id).toBe("old");
+    });
+  });
+
   describe("Singleton", () => {
     it("should return the same instance", () => {
       resetSessionManager();
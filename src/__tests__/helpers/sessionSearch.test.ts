@@ -0,0 +1,96 @@
+/**
+ * Tests for sessionSearch
+ */
+
+import {
+  parseSearchQuery,
+  makeSnippet,
+  searchSession,
+  sortSearchResults,
+} from "../../helpers/sessionSearch";
+import { Session } from "../../helpers/sessionManager";
+
+function makeSession(id: string, name: string, contents: string[], updatedAt = 1000): Session {
+  return {
+    id,
+    name,
+    createdAt: updatedAt,
+    updatedAt,
+    messages: [],
+    displayMessages: contents.map((content, i) => ({
+      id: `${id}_${i}`,
+      role: i % 2 === 0 ? "user" : "assistant",
+      content,
+      timestamp: updatedAt + i,
+    })),
+  };
+}
+
+describe("sessionSearch", () => {
+  describe("parseSearchQuery", () => {
+    it("should split on whitespace and lower-case terms", () => {
+      expect(parseSearchQuery("  Abstract   润色 ")).toEqual(["abstract", "润色"]);
+      expect(parseSearchQuery("   ")).toEqual([]);
+    });
+  });
+
+  describe("makeSnippet", () => {
+    it("should cut text around the term with ellipses", () => {
+      const text = `${"a".repeat(20)} needle ${"b".repeat(20)}`;
+
+      expect(makeSnippet(text, "needle", 5)).toBe("…aaaa needle bbbb…");
+    });
+
+    it("should flatten line breaks and keep short text whole", () => {
+      expect(makeSnippet("第一行\n\n第二行", "第二")).toBe("第一行 第二行");
+    });
+  });
+
+  describe("searchSession", () => {
+    const session = makeSession("s1", "Thesis abstract", [
+      "请润色摘要",
+      "已润色摘要第一段",
+      "翻译方法部分",
+    ]);
+
+    it("should require every term in the name or some message", () => {
+      expect(searchSession(session, ["abstract", "翻译"])).not.toBeNull();
+      expect(searchSession(session, ["润色", "结论"])).toBeNull();
+      expect(searchSession(session, [])).toBeNull();
+    });
+
+    it("should report matching messages as snippets", () => {
+      const result = searchSession(session, ["润色"])!;
+
+      expect(result.nameMatched).toBe(false);
+      expect(result.matchCount).toBe(2);
+      expect(result.matches.map((m) => m.messageId)).toEqual(["s1_0", "s1_1"]);
+      expect(result.matches[1]).toMatchObject({ role: "assistant", snippet: "已润色摘要第一段" });
+    });
+
+    it("should cap the number of snippets", () => {
+      const long = makeSession("s2", "Notes", ["x1", "x2", "x3", "x4", "x5"]);
+      const result = searchSession(long, ["x"])!;
+
+      expect(result.matchCount).toBe(5);
+      expect(result.matches).toHaveLength(3);
+    });
+  });
+
+  describe("sortSearchResults", () => {
+    it("should put name matches first, then the most recent", () => {
+      const terms = ["abstract"];
+      const results = [
+        searchSession(makeSession("old", "Abstract", [], 1000), terms)!,
+        searchSession(makeSession("content", "Draft", ["abstract"], 3000), terms)!,
+        searchSession(makeSession("new", "New abstract", [], 2000), terms)!,
+      ];
+
+      expect(sortSearchResults(results).map((r) => r.sessionId)).toEqual([
+        "new",
+        "old",
+        "content",
+      ]);
+    });
+  });
+});
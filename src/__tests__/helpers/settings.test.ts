@@ -5,13 +5,22 @@
 import {
   saveModelConfig,
   loadModelConfig,
+  loadModelProfiles,
+  loadFallbackConfigs,
   saveUserRules,
   loadUserRules,
+  loadAgentConfig,
   isModelConfigured,
+  unlockApiKeys,
+  forgetApiKeys,
+  clearAllSettings,
 } from "../../helpers/settings";
+import * as keyVault from "../../helpers/keyVault";
 import {
   DEFAULT_MODEL_CONFIG,
   DEFAULT_USER_RULES,
+  DEFAULT_AGENT_CONFIG,
+  AGENT_MAX_STEPS_LIMIT,
   ModelConfig,
   UserRules,
 } from "../../types/settings";
@@ -55,6 +64,70 @@ describe("Settings Helper", () => {
     });
   });
 
+  describe("Model Profiles", () => {
+    const fast = {
+      id: "fast",
+      name: "Fast",
+      baseUrl: "https://api.fast.test",
+      apiKey: "fast-key",
+      model: "fast-model",
+    };
+
+    const mockStorage = (items: Record<string, unknown>) => {
+      (localStorage.getItem as jest.Mock).mockImplementation((key: string) =>
+        key in items ? JSON.stringify(items[key]) : null
+      );
+    };
+
+    it("should resolve the profile routed to a task", () => {
+      mockStorage({
+        word_copilot_model_config: { ...DEFAULT_MODEL_CONFIG, apiKey: "default-key" },
+        word_copilot_model_profiles: { profiles: [fast], routes: { translate: "fast" } },
+      });
+
+      expect(loadModelConfig("translate")).toMatchObject({ model: "fast-model", apiKey: "fast-key" });
+      expect(loadModelConfig("structure").apiKey).toBe("default-key");
+      expect(loadModelConfig().apiKey).toBe("default-key");
+    });
+
+    it("should drop routes to deleted profiles and unknown tasks", () => {
+      mockStorage({
+        word_copilot_model_profiles: {
+          profiles: [fast, { name: "no id" }],
+          routes: { chat: "missing", polish: "fast", unknown: "fast" },
+        },
+      });
+
+      const profiles = loadModelProfiles();
+      expect(profiles.profiles.map((p) => p.id)).toEqual(["fast"]);
+      expect(profiles.routes).toEqual({ polish: "fast" });
+      expect(loadModelConfig("chat")).toEqual(DEFAULT_MODEL_CONFIG);
+    });
+
+    it("should build the fallback chain without the task's own profile", () => {
+      mockStorage({
+        word_copilot_model_config: { ...DEFAULT_MODEL_CONFIG, apiKey: "default-key" },
+        word_copilot_model_profiles: {
+          profiles: [fast, { ...fast, id: "broken", apiKey: "" }],
+          routes: { translate: "fast" },
+          fallbacks: ["fast", "broken", "default", "missing"],
+        },
+      });
+
+      expect(loadFallbackConfigs("chat").map((c) => c.model)).toEqual(["fast-model"]);
+      expect(loadFallbackConfigs("translate").map((c) => c.apiKey)).toEqual(["default-key"]);
+    });
+
+    it("should check the configuration of a task's profile", () => {
+      mockStorage({
+        word_copilot_model_profiles: { profiles: [fast], routes: { comment: "fast" } },
+      });
+
+      expect(isModelConfigured("comment")).toBe(true);
+      expect(isModelConfigured()).toBe(false);
+    });
+  });
+
   describe("User Rules", () => {
     it("should return default rules when nothing is saved", () => {
       const rules = loadUserRules();
@@ -79,6 +152,28 @@ describe("Settings Helper", () => {
     });
   });
 
+  describe("Agent Config", () => {
+    it("should return default agent config when nothing is saved", () => {
+      expect(loadAgentConfig()).toEqual(DEFAULT_AGENT_CONFIG);
+    });
+
+    it("should clamp out-of-range step limits", () => {
+      (localStorage.getItem as jest.Mock).mockReturnValue(
+        JSON.stringify({ maxSteps: 999 })
+      );
+
+      expect(loadAgentConfig().maxSteps).toBe(AGENT_MAX_STEPS_LIMIT.max);
+    });
+
+    it("should only enable formatting preservation when explicitly set", () => {
+      (localStorage.getItem as jest.Mock).mockReturnValue(
+        JSON.stringify({ preserveFormatting: "yes" })
+      );
+
+      expect(loadAgentConfig().preserveFormatting).toBe(false);
+    });
+  });
+
   describe("isModelConfigured", () => {
     it("should return false when API key is empty", () => {
       (localStorage.getItem as jest.Mock).mockReturnValue(
@@ -99,5 +194,93 @@ describe("Settings Helper", () => {
 
       expect(isModelConfigured()).toBe(true);
     });
+
+    it("should not require an API key for local providers", () => {
+      (localStorage.getItem as jest.Mock).mockReturnValue(
+        JSON.stringify({
+          provider: "ollama",
+          baseUrl: "http://localhost:11434",
+          apiKey: "",
+          model: "qwen2.5",
+        })
+      );
+
+      expect(isModelConfigured()).toBe(true);
+    });
+  });
+
+  describe("Encrypted API keys", () => {
+    let store: Record<string, string>;
+    const secrets: Record<string, string> = {};
+
+    beforeEach(() => {
+      store = {};
+      Object.keys(secrets).forEach((id) => delete secrets[id]);
+      (localStorage.getItem as jest.Mock).mockImplementation((key: string) => store[key] ?? null);
+      (localStorage.setItem as jest.Mock).mockImplementation((key: string, value: string) => {
+        store[key] = value;
+      });
+      jest.spyOn(keyVault, "isKeyVaultSupported").mockReturnValue(true);
+      jest.spyOn(keyVault, "unlockKeyVault").mockResolvedValue(true);
+      jest.spyOn(keyVault, "getSecret").mockImplementation((id) => secrets[id]);
+      jest.spyOn(keyVault, "setSecret").mockImplementation(async (id, value) => {
+        secrets[id] = value;
+        return true;
+      });
+      jest.spyOn(keyVault, "forgetKeyVault").mockResolvedValue();
+    });
+
+    afterEach(() => jest.restoreAllMocks());
+
+    it("should keep API keys out of the stored config", () => {
+      saveModelConfig({ ...DEFAULT_MODEL_CONFIG, apiKey: "sk-default" });
+
+      expect(JSON.parse(store.word_copilot_model_config).apiKey).toBe("");
+      expect(loadModelConfig().apiKey).toBe("sk-default");
+    });
+
+    it("should move plain text keys into the vault on unlock", async () => {
+      store.word_copilot_model_config = JSON.stringify({ ...DEFAULT_MODEL_CONFIG, apiKey: "sk-old" });
+      store.word_copilot_model_profiles = JSON.stringify({
+        profiles: [{ ...DEFAULT_MODEL_CONFIG, id: "fast", name: "Fast", apiKey: "sk-fast" }],
+        routes: { translate: "fast" },
+        fallbacks: [],
+      });
+
+      expect(await unlockApiKeys()).toBe(true);
+
+      expect(store.word_copilot_model_config).not.toContain("sk-old");
+      expect(store.word_copilot_model_profiles).not.toContain("sk-fast");
+      expect(loadModelConfig().apiKey).toBe("sk-old");
+      expect(loadModelConfig("translate").apiKey).toBe("sk-fast");
+    });
+
+    it("should keep plain text keys when encrypting them fails", async () => {
+      (keyVault.setSecret as jest.Mock).mockResolvedValue(false);
+      store.word_copilot_model_config = JSON.stringify({ ...DEFAULT_MODEL_CONFIG, apiKey: "sk-old" });
+
+      expect(await unlockApiKeys()).toBe(false);
+      expect(JSON.parse(store.word_copilot_model_config).apiKey).toBe("sk-old");
+    });
+
+    it("should forget keys wherever they are stored", async () => {
+      store.word_copilot_model_config = JSON.stringify({ ...DEFAULT_MODEL_CONFIG, apiKey: "sk-old" });
+
+      await forgetApiKeys();
+
+      expect(keyVault.forgetKeyVault).toHaveBeenCalled();
+      expect(JSON.parse(store.word_copilot_model_config).apiKey).toBe("");
+    });
+
+    it("should resolve clearing all settings once the keys are gone", async () => {
+      let forgotten = false;
+      (keyVault.forgetKeyVault as jest.Mock).mockImplementation(async () => {
+        await new Promise((resolve) => setTimeout(resolve, 0));
+        forgotten = true;
+      });
+
+      expect(await clearAllSettings()).toBe(true);
+      expect(forgotten).toBe(true);
+    });
   });
 });
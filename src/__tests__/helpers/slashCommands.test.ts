@@ -0,0 +1,99 @@
+/**
+ * Tests for slashCommands
+ */
+
+import {
+  isSlashCommand,
+  parseSlashCommand,
+  getSlashInstruction,
+  getSlashCommandTools,
+  getSlashSuggestions,
+} from "../../helpers/slashCommands";
+import { getSlashCommandSuffix } from "../../helpers/systemPrompt";
+
+describe("slashCommands", () => {
+  describe("parseSlashCommand", () => {
+    it("should parse a command without an argument", () => {
+      const result = parseSlashCommand("/polish");
+
+      expect(result.success).toBe(true);
+      expect(result.parsed?.command.name).toBe("polish");
+      expect(result.parsed?.arg).toBeUndefined();
+      expect(getSlashInstruction(result.parsed!)).toBe("润色选中内容");
+    });
+
+    it("should take a known first word as the argument", () => {
+      const result = parseSlashCommand("/translate EN keep terms in English");
+
+      expect(result.parsed?.arg).toBe("en");
+      expect(result.parsed?.instruction).toBe("keep terms in English");
+    });
+
+    it("should treat other words as the instruction and use the default argument", () => {
+      const result = parseSlashCommand("/summarize in three bullet points");
+
+      expect(result.parsed?.arg).toBe("after");
+      expect(getSlashInstruction(result.parsed!)).toBe("in three bullet points");
+    });
+
+    it("should reject unknown commands", () => {
+      const result = parseSlashCommand("/rewrite this");
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain("/rewrite");
+      expect(result.error).toContain("/polish");
+    });
+
+    it("should only treat a leading slash followed by a word as a command", () => {
+      expect(isSlashCommand("  /outline")).toBe(true);
+      expect(isSlashCommand("/ 不是命令")).toBe(false);
+      expect(isSlashCommand("把 a/b 改成 c")).toBe(false);
+    });
+  });
+
+  describe("command behaviour", () => {
+    it("should offer each command only its own tools", () => {
+      const names = (input: string) =>
+        getSlashCommandTools(parseSlashCommand(input).parsed!.command).map((t) => t.function.name);
+
+      expect(names("/polish")).toEqual(["replace_selection"]);
+      expect(names("/comment")).toEqual(["add_comment_to_selection"]);
+      expect(names("/analyze")).not.toContain("replace_selection");
+      expect(names("/summarize")).toContain("insert_text");
+    });
+
+    it("should put the argument into the system prompt suffix", () => {
+      expect(getSlashCommandSuffix("translate", "ja")).toContain("日文");
+      expect(getSlashCommandSuffix("summarize", "start")).toContain("document_start");
+      expect(getSlashCommandSuffix("summarize")).toContain("after_selection");
+    });
+  });
+
+  describe("getSlashSuggestions", () => {
+    it("should complete command names", () => {
+      expect(getSlashSuggestions("/").length).toBe(6);
+      expect(getSlashSuggestions("/tr")).toEqual([
+        { command: "translate", completion: "/translate " },
+      ]);
+    });
+
+    it("should complete arguments after the command", () => {
+      expect(getSlashSuggestions("/translate e").map((s) => s.completion)).toEqual([
+        "/translate en ",
+        "/translate es ",
+      ]);
+      expect(getSlashSuggestions("/summarize ").map((s) => s.arg)).toEqual([
+        "after",
+        "before",
+        "start",
+        "end",
+      ]);
+    });
+
+    it("should not suggest once the instruction is being typed", () => {
+      expect(getSlashSuggestions("/polish ")).toEqual([]);
+      expect(getSlashSuggestions("/translate en please")).toEqual([]);
+      expect(getSlashSuggestions("hello /po")).toEqual([]);
+    });
+  });
+});
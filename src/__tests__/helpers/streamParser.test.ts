@@ -0,0 +1,161 @@
+/**
+ * Tests for streamParser
+ */
+
+import {
+  SSELineBuffer,
+  NDJSONLineBuffer,
+  ChatStreamAccumulator,
+  parseStreamPayload,
+} from "../../helpers/streamParser";
+import { LLMStreamChunk } from "../../types/llm";
+
+describe("SSELineBuffer", () => {
+  it("should return complete data payloads", () => {
+    const buffer = new SSELineBuffer();
+    const events = buffer.push('data: {"a":1}\n\ndata: {"b":2}\n\n');
+
+    expect(events).toEqual(['{"a":1}', '{"b":2}']);
+  });
+
+  it("should buffer payloads split across fragments", () => {
+    const buffer = new SSELineBuffer();
+
+    expect(buffer.push('data: {"hel')).toEqual([]);
+    expect(buffer.push('lo":true}\r\n')).toEqual([]);
+    expect(buffer.push("\r\n")).toEqual(['{"hello":true}']);
+  });
+
+  it("should ignore comments and other fields", () => {
+    const buffer = new SSELineBuffer();
+    const events = buffer.push(": keep-alive\nevent: message\ndata: x\n\n");
+
+    expect(events).toEqual(["x"]);
+  });
+
+  it("should flush an unterminated trailing event", () => {
+    const buffer = new SSELineBuffer();
+    buffer.push("data: [DONE]");
+
+    expect(buffer.flush()).toEqual(["[DONE]"]);
+  });
+});
+
+describe("NDJSONLineBuffer", () => {
+  it("should return complete lines and buffer partial ones", () => {
+    const buffer = new NDJSONLineBuffer();
+
+    expect(buffer.push('{"a":1}\n{"b"')).toEqual(['{"a":1}']);
+    expect(buffer.push(':2}\r\n\n')).toEqual(['{"b":2}']);
+  });
+
+  it("should flush an unterminated trailing line", () => {
+    const buffer = new NDJSONLineBuffer();
+    buffer.push('{"done":true}');
+
+    expect(buffer.flush()).toEqual(['{"done":true}']);
+    expect(buffer.flush()).toEqual([]);
+  });
+});
+
+describe("parseStreamPayload", () => {
+  it("should detect the done marker", () => {
+    expect(parseStreamPayload("[DONE]")).toBe("done");
+  });
+
+  it("should return null for invalid JSON", () => {
+    expect(parseStreamPayload("{not json")).toBeNull();
+  });
+});
+
+describe("ChatStreamAccumulator", () => {
+  const textChunk = (content: string): LLMStreamChunk => ({
+    choices: [{ index: 0, delta: { content } }],
+  });
+
+  it("should accumulate text content", () => {
+    const acc = new ChatStreamAccumulator();
+    expect(acc.apply(textChunk("Hel")).content).toBe("Hel");
+    acc.apply(textChunk("lo"));
+
+    const message = acc.toMessage();
+    expect(message.role).toBe("assistant");
+    expect(message.content).toBe("Hello");
+    expect(message.tool_calls).toBeUndefined();
+  });
+
+  it("should assemble tool call argument deltas by index", () => {
+    const acc = new ChatStreamAccumulator();
+    acc.apply({
+      choices: [
+        {
+          index: 0,
+          delta: {
+            tool_calls: [
+              { index: 0, id: "call_1", type: "function", function: { name: "replace_selection", arguments: "" } },
+            ],
+          },
+        },
+      ],
+    });
+    const delta = acc.apply({
+      choices: [
+        { index: 0, delta: { tool_calls: [{ index: 0, function: { arguments: '{"content":' } }] } },
+      ],
+    });
+    acc.apply({
+      choices: [
+        {
+          index: 0,
+          delta: { tool_calls: [{ index: 0, function: { arguments: '"Hi"}' } }] },
+          finish_reason: "tool_calls",
+        },
+      ],
+    });
+
+    expect(delta.toolCallsChanged).toBe(true);
+    const message = acc.toMessage();
+    expect(message.tool_calls).toHaveLength(1);
+    expect(message.tool_calls![0].id).toBe("call_1");
+    expect(message.tool_calls![0].function.name).toBe("replace_selection");
+    expect(JSON.parse(message.tool_calls![0].function.arguments)).toEqual({ content: "Hi" });
+    expect(acc.getFinishReason()).toBe("tool_calls");
+  });
+
+  it("should give streamed tool calls without ids unique, stable ids", () => {
+    const stream = () => {
+      const acc = new ChatStreamAccumulator();
+      acc.apply({
+        choices: [
+          {
+            index: 0,
+            delta: {
+              tool_calls: [
+                { index: 0, type: "function", function: { name: "get_outline", arguments: "{}" } },
+                { index: 1, type: "function", function: { name: "get_paragraphs", arguments: "{}" } },
+              ],
+            },
+          },
+        ],
+      });
+      return acc;
+    };
+
+    const first = stream();
+    const ids = first.toMessage().tool_calls!.map((tc) => tc.id);
+    const nextStep = stream().toMessage().tool_calls!.map((tc) => tc.id);
+
+    expect(ids[0]).toMatch(/^call_0_/);
+    expect(ids[1]).toMatch(/^call_1_/);
+    expect(nextStep).not.toContain(ids[0]);
+    expect(first.toMessage().tool_calls!.map((tc) => tc.id)).toEqual(ids);
+  });
+
+  it("should keep usage from the final chunk", () => {
+    const acc = new ChatStreamAccumulator();
+    acc.apply(textChunk("Hi"));
+    acc.apply({ choices: [], usage: { prompt_tokens: 3, completion_tokens: 1, total_tokens: 4 } });
+
+    expect(acc.getUsage()?.total_tokens).toBe(4);
+  });
+});
@@ -0,0 +1,266 @@
+/**
+ * Tests for structureAnalyzer
+ */
+
+import {
+  analyzeDocumentStructure,
+  formatParagraphsForAnalysis,
+  parseStructureAnalysis,
+  formatStructureReport,
+  goToIssue,
+} from "../../helpers/structureAnalyzer";
+import { selectRange, getParagraphs, ParagraphInfo } from "../../helpers/wordBridge";
+import { sendChat } from "../../helpers/llmClient";
+import { loadModelConfig } from "../../helpers/settings";
+import { checkUsageBudget } from "../../helpers/usageTracker";
+import { DEFAULT_MODEL_CONFIG } from "../../types/settings";
+
+jest.mock("../../helpers/wordBridge", () => {
+  const actual = jest.requireActual("../../helpers/wordBridge");
+  return { ...actual, selectRange: jest.fn(), getParagraphs: jest.fn() };
+});
+
+jest.mock("../../helpers/llmClient", () => {
+  const actual = jest.requireActual("../../helpers/llmClient");
+  return { ...actual, sendChat: jest.fn() };
+});
+
+jest.mock("../../helpers/settings", () => ({
+  ...jest.requireActual("../../helpers/settings"),
+  loadModelConfig: jest.fn(),
+}));
+
+jest.mock("../../helpers/usageTracker", () => ({
+  ...jest.requireActual("../../helpers/usageTracker"),
+  checkUsageBudget: jest.fn(() => null),
+}));
+
+const mockSelectRange = selectRange as jest.MockedFunction<typeof selectRange>;
+const mockGetParagraphs = getParagraphs as jest.MockedFunction<typeof getParagraphs>;
+
+const paragraph = (index: number, text: string, headingLevel?: number): ParagraphInfo => ({
+  index,
+  text,
+  style: headingLevel ? `Heading ${headingLevel}` : "Normal",
+  headingLevel,
+  isListItem: false,
+  inTable: false,
+});
+
+const paragraphs: ParagraphInfo[] = [
+  paragraph(0, "Introduction", 1),
+  paragraph(1, "This study examines sleep quality in shift workers."),
+  paragraph(2, ""),
+  paragraph(3, "Methods", 1),
+  paragraph(4, "We surveyed 200 nurses [3] over six months."),
+];
+
+describe("structureAnalyzer", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe("formatParagraphsForAnalysis", () => {
+    it("should index paragraphs, mark headings and skip empty ones", () => {
+      expect(formatParagraphsForAnalysis(paragraphs)).toBe(
+        [
+          "[0] <H1> Introduction",
+          "[1] This study examines sleep quality in shift workers.",
+          "[3] <H1> Methods",
+          "[4] We surveyed 200 nurses [3] over six months.",
+        ].join("\n")
+      );
+    });
+
+    it("should stop at the character budget", () => {
+      const text = formatParagraphsForAnalysis(paragraphs, 40);
+
+      expect(text).toBe("[0] <H1> Introduction\n…（文档其余部分已省略）");
+    });
+  });
+
+  describe("parseStructureAnalysis", () => {
+    const respond = (issues: unknown[]) =>
+      "```json\n" +
+      JSON.stringify({ overview: "概览", strengths: ["结构清晰"], issues, summary: "总结" }) +
+      "\n```";
+
+    it("should return null when the response is not JSON", () => {
+      expect(parseStructureAnalysis("### 报告\n没有 JSON", paragraphs)).toBeNull();
+    });
+
+    it("should validate issues and resolve their paragraphs", () => {
+      const analysis = parseStructureAnalysis(
+        respond([
+          {
+            type: "citation",
+            severity: "warning",
+            description: "引用 [3] 没有对应的参考文献",
+            paragraph_index: 4,
+            quote: "[3]",
+            suggestion: "补充参考文献",
+          },
+        ]),
+        paragraphs
+      );
+
+      expect(analysis?.overview).toBe("概览");
+      expect(analysis?.strengths).toEqual(["结构清晰"]);
+      expect(analysis?.issues).toEqual([
+        {
+          type: "citation",
+          severity: "warning",
+          description: "引用 [3] 没有对应的参考文献",
+          paragraphIndex: 4,
+          location: "Methods › 第 4 段",
+          quote: "[3]",
+          suggestion: "补充参考文献",
+        },
+      ]);
+    });
+
+    it("should locate an issue by its quote when the index is wrong", () => {
+      const analysis = parseStructureAnalysis(
+        respond([
+          { type: "paragraph", severity: "error", description: "x", paragraph_index: 1, quote: "200 nurses" },
+        ]),
+        paragraphs
+      );
+
+      expect(analysis?.issues[0].paragraphIndex).toBe(4);
+      expect(analysis?.issues[0].quote).toBe("200 nurses");
+    });
+
+    it("should drop locations that do not exist and unusable issues", () => {
+      const analysis = parseStructureAnalysis(
+        respond([
+          { type: "section", severity: "error", description: "缺少结论", paragraph_index: 99 },
+          { type: "heading", severity: "warning" },
+          "not an issue",
+        ]),
+        paragraphs
+      );
+
+      expect(analysis?.issues).toEqual([
+        { type: "section", severity: "error", description: "缺少结论" },
+      ]);
+    });
+
+    it("should default unknown types and severities and sort by severity", () => {
+      const analysis = parseStructureAnalysis(
+        respond([
+          { type: "style", severity: "minor", description: "a" },
+          { type: "heading", severity: "error", description: "b", paragraph_index: 0 },
+        ]),
+        paragraphs
+      );
+
+      expect(analysis?.issues.map((i) => [i.type, i.severity, i.description])).toEqual([
+        ["heading", "error", "b"],
+        ["other", "suggestion", "a"],
+      ]);
+      expect(analysis?.issues[0].location).toBe("第 0 段（标题）");
+    });
+  });
+
+  describe("formatStructureReport", () => {
+    const analysis = {
+      overview: "概览",
+      strengths: [],
+      issues: [
+        { type: "section" as const, severity: "error" as const, description: "缺少结论", suggestion: "补充结论" },
+      ],
+      summary: "",
+    };
+
+    it("should list issues with severity labels", () => {
+      expect(formatStructureReport(analysis)).toBe(
+        "### 📊 文档结构概览\n概览\n\n### ⚠️ 问题与建议\n- **[错误]** 缺少结论\n  - 建议：补充结论"
+      );
+    });
+
+    it("should omit issues when they are shown separately", () => {
+      expect(formatStructureReport(analysis, false)).toBe("### 📊 文档结构概览\n概览");
+    });
+  });
+
+  describe("analyzeDocumentStructure", () => {
+    it("should run only the local rules unless a deep review is requested", async () => {
+      mockGetParagraphs.mockResolvedValue([
+        ...paragraphs,
+        paragraph(5, "参考文献", 1),
+        paragraph(6, "[1] Smith J. Sleep. 2020."),
+      ]);
+
+      const result = await analyzeDocumentStructure();
+
+      expect(sendChat).not.toHaveBeenCalled();
+      expect(result.success).toBe(true);
+      expect(result.issues).toEqual([
+        expect.objectContaining({ rule: "citation-reference", paragraphIndex: 4, quote: "[3]" }),
+      ]);
+      expect(result.report).toContain("本地检查");
+    });
+
+    it("should ask before a deep review that goes over the budget", async () => {
+      mockGetParagraphs.mockResolvedValue([
+        ...paragraphs,
+        paragraph(5, "Shift work disrupts circadian rhythms and is linked to poor sleep."),
+      ]);
+      (loadModelConfig as jest.Mock).mockReturnValue({
+        ...DEFAULT_MODEL_CONFIG,
+        apiKey: "sk-test",
+      });
+      const warning = { period: "day", spent: 1.2, limit: 1 };
+      (checkUsageBudget as jest.Mock).mockReturnValue(warning);
+      const onBudgetExceeded = jest.fn(() => false);
+
+      const result = await analyzeDocumentStructure({ deep: true, onBudgetExceeded });
+
+      expect(onBudgetExceeded).toHaveBeenCalledWith(warning);
+      expect(sendChat).not.toHaveBeenCalled();
+      expect(result.success).toBe(false);
+      expect(result.error).toContain("预算");
+    });
+
+    it("should fail on an empty document", async () => {
+      mockGetParagraphs.mockResolvedValue([paragraph(0, "")]);
+
+      const result = await analyzeDocumentStructure();
+
+      expect(result.success).toBe(false);
+    });
+  });
+
+  describe("goToIssue", () => {
+    const issue = {
+      type: "citation" as const,
+      severity: "warning" as const,
+      description: "x",
+      paragraphIndex: 4,
+      quote: "[3]",
+    };
+
+    it("should select the quoted text", async () => {
+      mockSelectRange.mockResolvedValue();
+
+      await goToIssue(issue);
+
+      expect(mockSelectRange).toHaveBeenCalledWith({ paragraphIndex: 4, anchor: "[3]" });
+    });
+
+    it("should fall back to the paragraph when the quote is not found", async () => {
+      mockSelectRange.mockRejectedValueOnce(new Error("未找到")).mockResolvedValueOnce();
+
+      await goToIssue(issue);
+
+      expect(mockSelectRange).toHaveBeenLastCalledWith({ paragraphIndex: 4 });
+    });
+
+    it("should reject issues without a location", async () => {
+      await expect(
+        goToIssue({ type: "section", severity: "error", description: "缺少结论" })
+      ).rejects.toThrow();
+    });
+  });
+});
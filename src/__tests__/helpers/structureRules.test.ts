@@ -0,0 +1,134 @@
+/**
+ * Tests for structureRules
+ */
+
+import {
+  runStructureRules,
+  parseCitationNumbers,
+  headingLevelRule,
+  emptyHeadingRule,
+  longParagraphRule,
+  citationReferenceRule,
+  MAX_PARAGRAPH_LENGTH,
+} from "../../helpers/structureRules";
+import { ParagraphInfo } from "../../helpers/wordBridge";
+
+const doc = (
+  items: Array<string | [string, number] | { text: string; isListItem?: boolean }>
+): ParagraphInfo[] =>
+  items.map((item, index) => {
+    const text = typeof item === "string" ? item : Array.isArray(item) ? item[0] : item.text;
+    const headingLevel = Array.isArray(item) ? item[1] : undefined;
+    return {
+      index,
+      text,
+      style: headingLevel ? `Heading ${headingLevel}` : "Normal",
+      headingLevel,
+      isListItem: typeof item === "object" && !Array.isArray(item) && Boolean(item.isListItem),
+      inTable: false,
+    };
+  });
+
+describe("structureRules", () => {
+  describe("headingLevelRule", () => {
+    it("should flag a heading that skips a level", () => {
+      const paragraphs = doc([["Intro", 1], "text", ["Detail", 3], ["Next", 2], ["Deeper", 3]]);
+
+      const issues = headingLevelRule.check(paragraphs);
+
+      expect(issues).toHaveLength(1);
+      expect(issues[0]).toMatchObject({
+        type: "heading",
+        severity: "warning",
+        paragraphIndex: 2,
+        quote: "Detail",
+        location: "第 2 段（标题）",
+      });
+      expect(issues[0].description).toContain("H1");
+      expect(issues[0].description).toContain("H3");
+    });
+  });
+
+  describe("emptyHeadingRule", () => {
+    it("should flag headings without text", () => {
+      const issues = emptyHeadingRule.check(doc([["Title", 1], ["  ", 2]]));
+
+      expect(issues.map((i) => i.paragraphIndex)).toEqual([1]);
+    });
+  });
+
+  describe("longParagraphRule", () => {
+    it("should flag body paragraphs over the limit but not list items", () => {
+      const long = "字".repeat(MAX_PARAGRAPH_LENGTH + 1);
+      const issues = longParagraphRule.check(
+        doc([["Intro", 1], long, "short", { text: long, isListItem: true }])
+      );
+
+      expect(issues).toHaveLength(1);
+      expect(issues[0]).toMatchObject({
+        type: "paragraph",
+        severity: "suggestion",
+        paragraphIndex: 1,
+        location: "Intro › 第 1 段",
+      });
+    });
+  });
+
+  describe("parseCitationNumbers", () => {
+    it("should expand lists and ranges", () => {
+      expect(parseCitationNumbers("1, 3-5")).toEqual([1, 3, 4, 5]);
+      expect(parseCitationNumbers("2，7")).toEqual([2, 7]);
+    });
+  });
+
+  describe("citationReferenceRule", () => {
+    it("should flag citations without a reference entry", () => {
+      const issues = citationReferenceRule.check(
+        doc([
+          "As shown before [1], and later [2-3].",
+          ["参考文献", 1],
+          "[1] Smith J. Sleep. 2020.",
+          "2. Lee K. Shifts. 2021.",
+        ])
+      );
+
+      expect(issues).toHaveLength(1);
+      expect(issues[0]).toMatchObject({ type: "citation", severity: "error", paragraphIndex: 0, quote: "[2-3]" });
+      expect(issues[0].description).toContain("[3]");
+    });
+
+    it("should count auto-numbered list entries", () => {
+      const issues = citationReferenceRule.check(
+        doc([
+          "See [1] and [2].",
+          ["References", 1],
+          { text: "Smith J. Sleep. 2020.", isListItem: true },
+          { text: "Lee K. Shifts. 2021.", isListItem: true },
+        ])
+      );
+
+      expect(issues).toEqual([]);
+    });
+
+    it("should report a missing reference section once", () => {
+      const issues = citationReferenceRule.check(doc(["See [1].", "And [2]."]));
+
+      expect(issues).toHaveLength(1);
+      expect(issues[0].description).toContain("参考文献");
+    });
+  });
+
+  describe("runStructureRules", () => {
+    it("should tag issues with their rule and sort by severity", () => {
+      const issues = runStructureRules(
+        doc([["Intro", 1], ["Deep", 3], "x".repeat(MAX_PARAGRAPH_LENGTH + 1), "Cited [1]."])
+      );
+
+      expect(issues.map((i) => [i.rule, i.severity])).toEqual([
+        ["citation-reference", "error"],
+        ["heading-level", "warning"],
+        ["long-paragraph", "suggestion"],
+      ]);
+    });
+  });
+});
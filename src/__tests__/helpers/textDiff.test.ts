@@ -0,0 +1,58 @@
+/**
+ * Tests for textDiff
+ */
+
+import { tokenize, diffText, hasChanges } from "../../helpers/textDiff";
+
+describe("textDiff", () => {
+  describe("tokenize", () => {
+    it("should split Latin text into words, spaces and punctuation", () => {
+      expect(tokenize("Hello, world")).toEqual(["Hello", ",", " ", "world"]);
+    });
+
+    it("should split CJK text into single characters", () => {
+      expect(tokenize("文档ok")).toEqual(["文", "档", "ok"]);
+    });
+  });
+
+  describe("diffText", () => {
+    it("should mark a replaced word", () => {
+      expect(diffText("the quick fox", "the slow fox")).toEqual([
+        { type: "equal", text: "the " },
+        { type: "delete", text: "quick" },
+        { type: "insert", text: "slow" },
+        { type: "equal", text: " fox" },
+      ]);
+    });
+
+    it("should diff CJK text by character", () => {
+      const segments = diffText("我们需要改进", "我们必须改进");
+
+      expect(segments).toEqual([
+        { type: "equal", text: "我们" },
+        { type: "delete", text: "需要" },
+        { type: "insert", text: "必须" },
+        { type: "equal", text: "改进" },
+      ]);
+    });
+
+    it("should treat an empty original as a pure insertion", () => {
+      expect(diffText("", "New text")).toEqual([{ type: "insert", text: "New text" }]);
+    });
+
+    it("should reconstruct both texts from the segments", () => {
+      const original = "Results were significant (p < 0.05) in both groups.";
+      const proposed = "The results were significant (p = 0.03) in all groups.";
+      const segments = diffText(original, proposed);
+
+      const before = segments.filter((s) => s.type !== "insert").map((s) => s.text).join("");
+      const after = segments.filter((s) => s.type !== "delete").map((s) => s.text).join("");
+      expect(before).toBe(original);
+      expect(after).toBe(proposed);
+    });
+
+    it("should report no changes for identical text", () => {
+      expect(hasChanges(diffText("same", "same"))).toBe(false);
+    });
+  });
+});
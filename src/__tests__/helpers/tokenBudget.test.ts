@@ -0,0 +1,151 @@
+/**
+ * Tests for tokenBudget
+ */
+
+import {
+  countTokens,
+  countMessageTokens,
+  truncateToTokens,
+  getContextWindow,
+  getInputTokenLimit,
+  trimHistory,
+  formatTokens,
+  planContext,
+  DEFAULT_CONTEXT_WINDOW,
+  MAX_REQUEST_TOKENS,
+} from "../../helpers/tokenBudget";
+import { ChatMessage } from "../../types/llm";
+
+const message = (role: ChatMessage["role"], content: string): ChatMessage => ({ role, content });
+
+describe("tokenBudget", () => {
+  describe("countTokens", () => {
+    it("should count words, digit groups and punctuation", () => {
+      expect(countTokens("Abstract text about sleep.")).toBe(6);
+      expect(countTokens("2024")).toBe(2);
+      expect(countTokens("")).toBe(0);
+    });
+
+    it("should count one token per CJK character", () => {
+      expect(countTokens("样本量较小。")).toBe(6);
+    });
+
+    it("should count long words as several tokens", () => {
+      expect(countTokens("internationalization")).toBe(4);
+    });
+  });
+
+  describe("truncateToTokens", () => {
+    it("should cut at a token boundary", () => {
+      expect(truncateToTokens("one two three four", 2)).toBe("one two");
+      expect(truncateToTokens("样本量较小", 3)).toBe("样本量");
+    });
+  });
+
+  describe("countMessageTokens", () => {
+    it("should include message overhead and tool call arguments", () => {
+      const plain = countMessageTokens([message("user", "hello")]);
+      const withTool = countMessageTokens([
+        {
+          role: "assistant",
+          content: null,
+          tool_calls: [
+            { id: "1", type: "function", function: { name: "get_outline", arguments: "{}" } },
+          ],
+        },
+      ]);
+
+      expect(plain).toBe(5);
+      expect(withTool).toBeGreaterThan(8);
+    });
+  });
+
+  describe("getContextWindow", () => {
+    it("should use the preset, then the configured value, then the default", () => {
+      expect(getContextWindow({ model: "deepseek-chat" })).toBe(128_000);
+      expect(getContextWindow({ model: "my-local-model", contextWindow: 8192 })).toBe(8192);
+      expect(getContextWindow({ model: "my-local-model" })).toBe(DEFAULT_CONTEXT_WINDOW);
+    });
+
+    it("should reserve response tokens and cap large windows", () => {
+      expect(getInputTokenLimit({ model: "x", contextWindow: 16_000 }, 4000)).toBe(12_000);
+      expect(getInputTokenLimit({ model: "x", contextWindow: 4000 }, 4000)).toBe(2000);
+      expect(getInputTokenLimit({ model: "gpt-4.1" })).toBe(MAX_REQUEST_TOKENS);
+    });
+  });
+
+  describe("trimHistory", () => {
+    it("should keep the newest messages that fit", () => {
+      const history = [message("user", "a b c"), message("assistant", "d"), message("user", "e")];
+
+      const result = trimHistory(history, 10);
+
+      expect(result.messages.map((m) => m.content)).toEqual(["d", "e"]);
+      expect(result.dropped).toBe(1);
+    });
+
+    it("should not start with orphaned tool results", () => {
+      const history: ChatMessage[] = [
+        { role: "assistant", content: "word ".repeat(50) },
+        { role: "tool", content: "ok", tool_call_id: "1" },
+        message("assistant", "done"),
+      ];
+
+      expect(trimHistory(history, 20).messages.map((m) => m.role)).toEqual(["assistant"]);
+    });
+  });
+
+  describe("formatTokens", () => {
+    it("should abbreviate thousands", () => {
+      expect(formatTokens(850)).toBe("850");
+      expect(formatTokens(12_345)).toBe("12.3K");
+      expect(formatTokens(128_000)).toBe("128K");
+    });
+  });
+
+  describe("planContext", () => {
+    const config = { model: "custom", contextWindow: 5000 };
+
+    it("should include everything that fits", () => {
+      const plan = planContext({
+        config,
+        systemPrompt: "You are helpful.",
+        userInput: "Summarize",
+        rulesText: "风格：正式",
+        selection: "Selected text",
+        history: [message("user", "earlier"), message("assistant", "reply")],
+        buildDocument: () => ({ text: "Whole document", chunkCount: 0, omittedCount: 0 }),
+      });
+
+      expect(plan.selection).toBe("Selected text");
+      expect(plan.rulesText).toBe("风格：正式");
+      expect(plan.documentText).toBe("Whole document");
+      expect(plan.history).toHaveLength(2);
+      expect(plan.report.limit).toBe(2500);
+      expect(plan.report.items.some((i) => i.dropped)).toBe(false);
+    });
+
+    it("should size the document to the remaining budget and report what was dropped", () => {
+      let documentBudget = 0;
+      const plan = planContext({
+        config,
+        systemPrompt: "You are helpful.",
+        userInput: "Continue",
+        selection: "字".repeat(2000),
+        history: Array.from({ length: 40 }, (_, i) => message("user", `message ${i} `.repeat(10))),
+        buildDocument: (budget) => {
+          documentBudget = budget;
+          return { text: "Outline and one chunk", chunkCount: 8, omittedCount: 7 };
+        },
+      });
+
+      const item = (part: string) => plan.report.items.find((i) => i.part === part);
+      expect(plan.selection.length).toBeLessThan(2000);
+      expect(item("selection")).toMatchObject({ total: 2000 });
+      expect(documentBudget).toBeGreaterThan(0);
+      expect(item("document")).toMatchObject({ dropped: 7, total: 8 });
+      expect(item("history")?.dropped).toBeGreaterThan(0);
+      expect(plan.report.total).toBeLessThanOrEqual(plan.report.limit);
+    });
+  });
+});
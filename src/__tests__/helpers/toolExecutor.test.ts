@@ -0,0 +1,290 @@
+/**
+ * Tests for toolExecutor
+ */
+
+import {
+  executeToolCalls,
+  formatToolResults,
+  toolResultsToMessages,
+} from "../../helpers/toolExecutor";
+import {
+  getParagraphs,
+  getOutline,
+  searchDocument,
+  replaceRange,
+  addCommentToRange,
+  replaceSelection,
+  replaceSelectionWithMarkup,
+  insertText,
+  insertMarkdown,
+  CapturedSelection,
+} from "../../helpers/wordBridge";
+import { searchByRelevance } from "../../helpers/retrievalIndex";
+import { ToolCall } from "../../types/llm";
+
+jest.mock("../../helpers/wordBridge", () => {
+  const actual = jest.requireActual("../../helpers/wordBridge");
+  return {
+    ...actual,
+    getParagraphs: jest.fn(),
+    getOutline: jest.fn(),
+    searchDocument: jest.fn(),
+    replaceRange: jest.fn(),
+    addCommentToRange: jest.fn(),
+    replaceSelection: jest.fn(),
+    replaceSelectionWithMarkup: jest.fn(),
+    insertText: jest.fn(),
+    insertMarkdown: jest.fn(),
+  };
+});
+
+jest.mock("../../helpers/retrievalIndex", () => {
+  const actual = jest.requireActual("../../helpers/retrievalIndex");
+  return { ...actual, searchByRelevance: jest.fn() };
+});
+
+const toolCall = (name: string, args: object = {}): ToolCall => ({
+  id: `call_${name}`,
+  type: "function",
+  function: { name, arguments: JSON.stringify(args) },
+});
+
+describe("toolExecutor", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (replaceRange as jest.Mock).mockResolvedValue({ id: "edit_1", originalText: "old" });
+    (addCommentToRange as jest.Mock).mockResolvedValue({ id: "edit_2", originalText: "" });
+    (replaceSelection as jest.Mock).mockResolvedValue({ id: "edit_3", originalText: "old" });
+    (insertText as jest.Mock).mockResolvedValue({ id: "edit_5", originalText: "" });
+    (insertMarkdown as jest.Mock).mockResolvedValue({ id: "edit_6", originalText: "" });
+    (replaceSelectionWithMarkup as jest.Mock).mockResolvedValue({
+      id: "edit_4",
+      tag: "word-copilot-edit:edit_4",
+      originalText: "old",
+      originalMarkup: "<b>old</b>",
+    });
+  });
+
+  describe("read tools", () => {
+    it("should return paragraphs with indices and styles", async () => {
+      (getParagraphs as jest.Mock).mockResolvedValue([
+        { index: 0, text: "Introduction", style: "Heading 1", headingLevel: 1, isListItem: false, inTable: false },
+        { index: 1, text: "Body text", style: "Normal", isListItem: false, inTable: false },
+        { index: 2, text: "Later", style: "Normal", isListItem: false, inTable: false },
+      ]);
+
+      const [result] = await executeToolCalls([
+        toolCall("get_paragraphs", { start_index: 0, count: 2 }),
+      ]);
+
+      expect(result.success).toBe(true);
+      expect(result.data).toContain("[0] (Heading 1, H1) Introduction");
+      expect(result.data).toContain("[1] (Normal) Body text");
+      expect(result.data).not.toContain("Later");
+      expect(result.message).toContain("共 3 段");
+    });
+
+    it("should return the heading outline", async () => {
+      (getOutline as jest.Mock).mockResolvedValue([
+        { paragraphIndex: 0, level: 1, text: "Chapter 1" },
+        { paragraphIndex: 4, level: 2, text: "Section 1.1" },
+      ]);
+
+      const [result] = await executeToolCalls([toolCall("get_outline")]);
+
+      expect(result.success).toBe(true);
+      expect(result.data).toContain("H1 [0] Chapter 1");
+      expect(result.data).toContain("H2 [4] Section 1.1");
+    });
+
+    it("should pass search options and list matches", async () => {
+      (searchDocument as jest.Mock).mockResolvedValue([
+        { paragraphIndex: 7, occurrence: 0, text: "sample size", paragraphText: "The sample size was 120." },
+      ]);
+
+      const [result] = await executeToolCalls([
+        toolCall("search_document", { query: "sample size", match_wildcards: false }),
+      ]);
+
+      expect(searchDocument).toHaveBeenCalledWith(
+        "sample size",
+        expect.objectContaining({ matchWildcards: false, maxResults: 20 })
+      );
+      expect(result.data).toContain('[7] #0 "sample size"');
+    });
+
+    it("should rank paragraphs by relevance in relevance mode", async () => {
+      (searchByRelevance as jest.Mock).mockResolvedValue([
+        { index: 12, score: 3.2, text: "We recruited 200 nurses." },
+      ]);
+
+      const [result] = await executeToolCalls([
+        toolCall("search_document", { query: "sample size", mode: "relevance", max_results: 5 }),
+      ]);
+
+      expect(searchDocument).not.toHaveBeenCalled();
+      expect(searchByRelevance).toHaveBeenCalledWith("sample size", 5);
+      expect(result.data).toContain("[12] We recruited 200 nurses.");
+    });
+
+    it("should fall back to relevance when an exact search finds nothing", async () => {
+      (searchDocument as jest.Mock).mockResolvedValue([]);
+      (searchByRelevance as jest.Mock).mockResolvedValue([
+        { index: 4, score: 1.5, text: "本研究的样本量较小。" },
+      ]);
+
+      const [result] = await executeToolCalls([toolCall("search_document", { query: "样本数量" })]);
+
+      expect(result.data).toContain("未找到原文匹配");
+      expect(result.data).toContain("[4] 本研究的样本量较小。");
+    });
+
+    it("should not fall back for wildcard searches", async () => {
+      (searchDocument as jest.Mock).mockResolvedValue([]);
+
+      const [result] = await executeToolCalls([
+        toolCall("search_document", { query: "[0-9]{4}", match_wildcards: true }),
+      ]);
+
+      expect(searchByRelevance).not.toHaveBeenCalled();
+      expect(result.data).toBe("未找到匹配内容");
+    });
+
+    it("should fail when search query is missing", async () => {
+      const [result] = await executeToolCalls([toolCall("search_document", {})]);
+
+      expect(result.success).toBe(false);
+      expect(searchDocument).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("range tools", () => {
+    it("should replace a paragraph by index", async () => {
+      const [result] = await executeToolCalls([
+        toolCall("replace_paragraph", { paragraph_index: 3, content: "New text" }),
+      ]);
+
+      expect(result.success).toBe(true);
+      expect(replaceRange).toHaveBeenCalledWith(
+        expect.objectContaining({ paragraphIndex: 3, anchor: undefined }),
+        "New text"
+      );
+    });
+
+    it("should address text by anchor, paragraph and occurrence", async () => {
+      await executeToolCalls([
+        toolCall("replace_text_in_range", {
+          anchor: "colour",
+          paragraph_index: 2,
+          occurrence: 1,
+          content: "color",
+        }),
+      ]);
+
+      expect(replaceRange).toHaveBeenCalledWith(
+        { anchor: "colour", paragraphIndex: 2, occurrence: 1, tag: undefined },
+        "color"
+      );
+    });
+
+    it("should comment on an anchored match", async () => {
+      const [result] = await executeToolCalls([
+        toolCall("comment_on_match", { anchor: "p < 0.05", comment: "Report the exact p value", tag: "results" }),
+      ]);
+
+      expect(result.success).toBe(true);
+      expect(addCommentToRange).toHaveBeenCalledWith(
+        expect.objectContaining({ anchor: "p < 0.05", tag: "results" }),
+        "Report the exact p value"
+      );
+    });
+
+    it("should report locate errors as failed results", async () => {
+      (replaceRange as jest.Mock).mockRejectedValueOnce(new Error("未找到文本「foo」"));
+
+      const [result] = await executeToolCalls([
+        toolCall("replace_text_in_range", { anchor: "foo", content: "bar" }),
+      ]);
+
+      expect(result.success).toBe(false);
+      expect(result.message).toContain("未找到文本「foo」");
+    });
+
+    it("should record revertible edits", async () => {
+      (replaceRange as jest.Mock).mockResolvedValueOnce({
+        id: "edit_9",
+        tag: "word-copilot-edit:edit_9",
+        originalText: "Old paragraph",
+      });
+
+      const [result] = await executeToolCalls([
+        toolCall("replace_paragraph", { paragraph_index: 0, content: "New paragraph" }),
+      ]);
+
+      expect(result.appliedEdit).toEqual({
+        id: "edit_9",
+        tag: "word-copilot-edit:edit_9",
+        originalText: "Old paragraph",
+        toolCallId: "call_replace_paragraph",
+        name: "replace_paragraph",
+        newText: "New paragraph",
+      });
+    });
+
+    it("should not record edits that cannot be located again", async () => {
+      const [result] = await executeToolCalls([
+        toolCall("replace_text_in_range", { anchor: "a", content: "b" }),
+      ]);
+
+      expect(result.success).toBe(true);
+      expect(result.appliedEdit).toBeUndefined();
+    });
+
+    it("should pass the captured selection to selection tools", async () => {
+      const selection = { range: {}, text: "old" } as unknown as CapturedSelection;
+
+      await executeToolCalls([toolCall("replace_selection", { content: "new" })], { selection });
+
+      expect(replaceSelection).toHaveBeenCalledWith("new", true, selection);
+    });
+
+    it("should insert Markdown content as native Word formatting", async () => {
+      await executeToolCalls([
+        toolCall("insert_text", { position: "document_end", content: "## Summary\n\n- point" }),
+        toolCall("insert_text", { position: "document_end", content: "Plain sentence." }),
+      ]);
+
+      expect(insertMarkdown).toHaveBeenCalledWith("document_end", "## Summary\n\n- point", undefined);
+      expect(insertText).toHaveBeenCalledWith("document_end", "Plain sentence.", undefined);
+    });
+
+    it("should write markup when preserving formatting", async () => {
+      const [result] = await executeToolCalls(
+        [toolCall("replace_selection", { content: "<b>new</b> text" })],
+        { preserveFormatting: true }
+      );
+
+      expect(replaceSelectionWithMarkup).toHaveBeenCalledWith("<b>new</b> text", true, undefined);
+      expect(replaceSelection).not.toHaveBeenCalled();
+      expect(result.appliedEdit?.newText).toBe("new text");
+      expect(result.appliedEdit?.originalMarkup).toBe("<b>old</b>");
+    });
+  });
+
+  describe("result formatting", () => {
+    it("should include read data in tool messages but not in display text", () => {
+      const results = [
+        {
+          toolCallId: "call_1",
+          name: "get_outline" as const,
+          success: true,
+          message: "已读取文档大纲",
+          data: "H1 [0] Title",
+        },
+      ];
+
+      expect(toolResultsToMessages(results)[0].result).toContain("H1 [0] Title");
+      expect(formatToolResults(results)).toBe("✓ 已读取文档大纲");
+    });
+  });
+});
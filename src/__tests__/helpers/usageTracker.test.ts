@@ -0,0 +1,141 @@
+/**
+ * Tests for usageTracker
+ */
+
+import {
+  estimateCost,
+  formatCost,
+  recordUsage,
+  getUsageRecords,
+  summarizeUsage,
+  saveUsageBudget,
+  loadUsageBudget,
+  checkUsageBudget,
+} from "../../helpers/usageTracker";
+import { UsageRecord } from "../../types/usage";
+
+const NOW = new Date(2026, 4, 20, 15, 0).getTime();
+const YESTERDAY = new Date(2026, 4, 19, 9, 0).getTime();
+const LAST_MONTH = new Date(2026, 3, 28, 9, 0).getTime();
+
+describe("usageTracker", () => {
+  let store: Record<string, string>;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    store = {};
+    (localStorage.getItem as jest.Mock).mockImplementation((key: string) => store[key] ?? null);
+    (localStorage.setItem as jest.Mock).mockImplementation((key: string, value: string) => {
+      store[key] = value;
+    });
+  });
+
+  describe("estimateCost", () => {
+    it("should price input and output tokens per million", () => {
+      expect(estimateCost("gpt-4.1", 1_000_000, 500_000)).toBeCloseTo(6);
+      expect(estimateCost("claude-sonnet-4-6-20260217", 2000, 0)).toBeCloseTo(0.006);
+    });
+
+    it("should return undefined for models without a price table", () => {
+      expect(estimateCost("my-local-model", 1000, 1000)).toBeUndefined();
+    });
+  });
+
+  it("should format small and regular amounts", () => {
+    expect(formatCost(0)).toBe("$0");
+    expect(formatCost(0.00123)).toBe("$0.0012");
+    expect(formatCost(1.5)).toBe("$1.50");
+  });
+
+  describe("recordUsage", () => {
+    it("should store the model, task, session and estimated cost", () => {
+      recordUsage(
+        { task: "chat", sessionId: "session_1" },
+        "gpt-4.1-mini",
+        { promptTokens: 1000, completionTokens: 200 },
+        NOW
+      );
+
+      expect(getUsageRecords()).toEqual([
+        {
+          timestamp: NOW,
+          model: "gpt-4.1-mini",
+          task: "chat",
+          sessionId: "session_1",
+          promptTokens: 1000,
+          completionTokens: 200,
+          cost: (1000 * 0.4 + 200 * 1.6) / 1_000_000,
+        },
+      ]);
+    });
+
+    it("should drop records past the retention period", () => {
+      const old: UsageRecord = {
+        timestamp: NOW - 90 * 24 * 60 * 60 * 1000,
+        model: "gpt-4.1",
+        task: "polish",
+        promptTokens: 10,
+        completionTokens: 10,
+      };
+      store.word_copilot_usage = JSON.stringify([old]);
+
+      recordUsage({ task: "translate" }, "gpt-4.1", { promptTokens: 1, completionTokens: 1 }, NOW);
+
+      expect(getUsageRecords().map((r) => r.task)).toEqual(["translate"]);
+    });
+  });
+
+  describe("summarizeUsage", () => {
+    const records: UsageRecord[] = [
+      { timestamp: LAST_MONTH, model: "gpt-4.1", task: "chat", promptTokens: 9000, completionTokens: 0, cost: 1 },
+      { timestamp: YESTERDAY, model: "gpt-4.1", task: "chat", promptTokens: 1000, completionTokens: 100, cost: 0.5 },
+      { timestamp: NOW - 1000, model: "llama3", task: "polish", promptTokens: 300, completionTokens: 50 },
+      { timestamp: NOW - 500, model: "gpt-4.1", task: "chat", promptTokens: 200, completionTokens: 20, cost: 0.25 },
+    ];
+
+    it("should total today's requests", () => {
+      const summary = summarizeUsage("day", NOW, records);
+
+      expect(summary).toMatchObject({
+        requests: 2,
+        promptTokens: 500,
+        completionTokens: 70,
+        totalTokens: 570,
+        cost: 0.25,
+        unpricedRequests: 1,
+      });
+    });
+
+    it("should total this month per model, most expensive first", () => {
+      const summary = summarizeUsage("month", NOW, records);
+
+      expect(summary.requests).toBe(3);
+      expect(summary.cost).toBeCloseTo(0.75);
+      expect(summary.byModel.map((m) => [m.model, m.requests])).toEqual([
+        ["gpt-4.1", 2],
+        ["llama3", 1],
+      ]);
+    });
+  });
+
+  describe("budgets", () => {
+    it("should ignore limits that are not positive", () => {
+      store.word_copilot_usage_budget = JSON.stringify({ daily: 0, monthly: 20 });
+      expect(loadUsageBudget()).toEqual({ monthly: 20 });
+    });
+
+    it("should warn when the next request would reach a budget", () => {
+      store.word_copilot_usage = JSON.stringify([
+        { timestamp: YESTERDAY, model: "gpt-4.1", task: "chat", promptTokens: 0, completionTokens: 0, cost: 4 },
+        { timestamp: NOW - 1000, model: "gpt-4.1", task: "chat", promptTokens: 0, completionTokens: 0, cost: 0.9 },
+      ]);
+      saveUsageBudget({ daily: 1, monthly: 10 });
+
+      expect(checkUsageBudget(0, NOW)).toBeNull();
+      expect(checkUsageBudget(0.2, NOW)).toEqual({ period: "day", spent: 0.9, limit: 1 });
+
+      saveUsageBudget({ monthly: 5 });
+      expect(checkUsageBudget(0.2, NOW)).toMatchObject({ period: "month", limit: 5 });
+    });
+  });
+});
@@ -0,0 +1,159 @@
+/**
+ * Tests for wordBridge tracked change and edit control helpers
+ */
+
+import {
+  isTrackedChangeApiSupported,
+  getCopilotRevisions,
+  acceptAllChanges,
+  TRACKED_CHANGES_UNSUPPORTED_MESSAGE,
+  EDIT_TAG_PREFIX,
+  deleteSelection,
+  finalizeEdits,
+} from "../../helpers/wordBridge";
+import { mockOffice, mockWord } from "../../__mocks__/officeMock";
+
+type OfficeContextWithRequirements = typeof mockOffice.context & {
+  requirements?: { isSetSupported: jest.Mock };
+};
+
+const officeContext = mockOffice.context as OfficeContextWithRequirements;
+
+/**
+ * Build a Word context whose content controls carry the given tracked changes
+ */
+function mockContext(
+  controls: Array<{ tag: string; changes: Array<{ type: string; text: string; author: string }> }>
+) {
+  return {
+    document: {
+      contentControls: {
+        load: jest.fn(),
+        items: controls.map((c) => ({
+          tag: c.tag,
+          getRange: jest.fn(() => ({
+            getTrackedChanges: jest.fn(() => ({
+              load: jest.fn(),
+              items: c.changes,
+            })),
+          })),
+        })),
+      },
+    },
+    sync: jest.fn(() => Promise.resolve()),
+  };
+}
+
+describe("wordBridge tracked changes", () => {
+  afterEach(() => {
+    delete officeContext.requirements;
+  });
+
+  it("should report missing support when requirements are unavailable", async () => {
+    expect(isTrackedChangeApiSupported()).toBe(false);
+    await expect(getCopilotRevisions()).rejects.toThrow(TRACKED_CHANGES_UNSUPPORTED_MESSAGE);
+    await expect(acceptAllChanges()).rejects.toThrow(TRACKED_CHANGES_UNSUPPORTED_MESSAGE);
+  });
+
+  it("should list only revisions inside Copilot edits", async () => {
+    officeContext.requirements = { isSetSupported: jest.fn(() => true) };
+    const context = mockContext([
+      {
+        tag: `${EDIT_TAG_PREFIX}edit_1`,
+        changes: [
+          { type: "Deleted", text: "old", author: "Alice" },
+          { type: "Added", text: "new", author: "Alice" },
+        ],
+      },
+      { tag: "user-control", changes: [{ type: "Added", text: "manual", author: "Bob" }] },
+    ]);
+    mockWord.run.mockImplementationOnce(async (callback) => callback(context));
+
+    const revisions = await getCopilotRevisions();
+
+    expect(officeContext.requirements.isSetSupported).toHaveBeenCalledWith("WordApi", "1.6");
+    expect(revisions.map((r) => [r.id, r.type, r.text])).toEqual([
+      ["edit_1:0", "Deleted", "old"],
+      ["edit_1:1", "Added", "new"],
+    ]);
+  });
+});
+
+describe("wordBridge edit controls", () => {
+  it("should wrap a retried edit in the control of its failed attempt", async () => {
+    const controls: Array<{ tag: string; clear: jest.Mock }> = [];
+    const attempt = (failOnSync?: number) => async (callback: (context: unknown) => unknown) => {
+      const range = {
+        load: jest.fn(),
+        text: "旧文",
+        insertContentControl: jest.fn(() => {
+          const control = { tag: "", clear: jest.fn() };
+          controls.push(control);
+          return control;
+        }),
+      };
+      let syncs = 0;
+      return callback({
+        document: {
+          getSelection: () => range,
+          contentControls: {
+            getByTag: (tag: string) => ({
+              load: jest.fn(),
+              items: controls.filter((c) => c.tag === tag),
+            }),
+          },
+        },
+        sync: jest.fn(async () => {
+          if (++syncs === failOnSync) {
+            throw Object.assign(new Error("Word is busy"), {
+              code: "GeneralException",
+            });
+          }
+        }),
+      });
+    };
+    // The first attempt fails after wrapping, while clearing the text
+    mockWord.run.mockImplementationOnce(attempt(4)).mockImplementationOnce(attempt());
+
+    const record = await deleteSelection();
+
+    expect(controls).toHaveLength(1);
+    expect(record.tag).toBe(`${EDIT_TAG_PREFIX}${record.id}`);
+    expect(controls[0].tag).toBe(record.tag);
+    expect(controls[0].clear).toHaveBeenCalledTimes(2);
+  });
+
+  it("should unwrap Copilot edits with Track Changes off, keeping their content", async () => {
+    const modes: string[] = [];
+    const document = {
+      load: jest.fn(),
+      changeTrackingMode: "TrackAll",
+      contentControls: {
+        load: jest.fn(),
+        items: [] as Array<{ tag: string; delete: jest.Mock }>,
+      },
+    };
+    const [edit1, user, edit2] = [
+      `${EDIT_TAG_PREFIX}edit_1`,
+      "user-control",
+      `${EDIT_TAG_PREFIX}edit_2`,
+    ].map((tag) => ({
+      tag,
+      delete: jest.fn(() => modes.push(document.changeTrackingMode)),
+    }));
+    document.contentControls.items = [edit1, user, edit2];
+    const context = { document, sync: jest.fn(() => Promise.resolve()) };
+    const run = async (callback: (context: unknown) => unknown) => callback(context);
+    mockWord.run.mockImplementationOnce(run).mockImplementationOnce(run);
+
+    expect(await finalizeEdits(["edit_1", "edit_9"])).toBe(1);
+    expect(edit1.delete).toHaveBeenCalledWith(true);
+    expect(edit2.delete).not.toHaveBeenCalled();
+
+    expect(await finalizeEdits()).toBe(2);
+    expect(edit2.delete).toHaveBeenCalledWith(true);
+    expect(user.delete).not.toHaveBeenCalled();
+    expect(modes).toEqual(["Off", "Off", "Off"]);
+    expect(context.document.changeTrackingMode).toBe("TrackAll");
+  });
+});
@@ -5,14 +5,59 @@
  * They execute LLM requests and apply tool calls to the document.
  */
 
-import { TOOL_DEFINITIONS } from "../types/tools";
-import { loadModelConfig, loadUserRules, isModelConfigured } from "../helpers/settings";
+import { TOOL_DEFINITIONS, ToolDefinition } from "../types/tools";
+import { ModelTask } from "../types/settings";
+import { PromptTemplate } from "../types/prompts";
+import {
+  loadModelConfig,
+  loadFallbackConfigs,
+  loadUserRules,
+  loadAgentConfig,
+  isModelConfigured,
+  unlockApiKeys,
+} from "../helpers/settings";
 import { sendChat } from "../helpers/llmClient";
-import { getSystemPromptForCommand } from "../helpers/systemPrompt";
+import {
+  getSystemPromptForCommand,
+  getSystemPromptForPolicy,
+  SystemPromptOptions,
+} from "../helpers/systemPrompt";
 import { executeToolCalls, hasToolCalls } from "../helpers/toolExecutor";
-import { getSelectionText, getDocumentText, showNotification } from "../helpers/wordBridge";
+import {
+  captureSelection,
+  releaseSelection,
+  getSelectionMarkup,
+  getDocumentText,
+  getDocumentTitle,
+  showNotification,
+  CapturedSelection,
+} from "../helpers/wordBridge";
 import { formatUserRules } from "../helpers/contextManager";
+import { countTokens } from "../helpers/tokenBudget";
+import { checkUsageBudget, estimateCost, formatBudgetWarning } from "../helpers/usageTracker";
 import { analyzeDocumentStructure } from "../helpers/structureAnalyzer";
+import {
+  getRibbonPrompt,
+  renderPrompt,
+  requiresSelection,
+  getPromptTools,
+  getLanguageName,
+} from "../helpers/promptLibrary";
+
+/**
+ * What a command asks of the model
+ */
+interface CommandSpec {
+  task: ModelTask;
+  /** Instruction for the model, built once the selection is known */
+  buildPrompt: (selection: string) => Promise<string>;
+  getSystemPrompt: (options: SystemPromptOptions) => string;
+  tools: ToolDefinition[];
+  /** Rewrites need the formatted selection; comments and answers do not */
+  rewritesText: boolean;
+  /** Run without selected text */
+  selectionOptional?: boolean;
+}
 
 /**
  * Execute a command with the given prompt
@@ -21,19 +66,75 @@ async function executeCommand(
   commandType: "polish" | "translate" | "comment",
   userPrompt: string
 ): Promise<void> {
+  await runCommand({
+    task: commandType,
+    buildPrompt: async () => userPrompt,
+    getSystemPrompt: (options) => getSystemPromptForCommand(commandType, options),
+    tools: TOOL_DEFINITIONS,
+    rewritesText: commandType !== "comment",
+  });
+}
+
+/**
+ * Run a prompt from the prompt library on the selection
+ */
+async function executePrompt(prompt: PromptTemplate): Promise<void> {
+  await runCommand({
+    task: "prompt",
+    buildPrompt: async (selection) => {
+      let documentTitle = "";
+      try {
+        documentTitle = await getDocumentTitle();
+      } catch {
+        // The title is optional
+      }
+      return renderPrompt(prompt.template, {
+        selection,
+        language: getLanguageName(loadUserRules().language),
+        document_title: documentTitle,
+      });
+    },
+    getSystemPrompt: (options) => getSystemPromptForPolicy(prompt.toolPolicy, options),
+    tools: getPromptTools(prompt.toolPolicy),
+    rewritesText: prompt.toolPolicy === "edit",
+    selectionOptional: !requiresSelection(prompt),
+  });
+}
+
+/**
+ * Send a command to the model and apply its tool calls to the selection
+ */
+async function runCommand(spec: CommandSpec): Promise<void> {
+  const commandType = spec.task;
+
   // Check if configured
-  if (!isModelConfigured()) {
+  await unlockApiKeys();
+  if (!isModelConfigured(commandType)) {
     showNotification("请先在插件设置中配置 API Key", "error");
     return;
   }
 
+  let captured: CapturedSelection | undefined;
+
   try {
-    // Get selection
-    const selection = await getSelectionText();
-    if (!selection || !selection.trim()) {
+    // Capture selection so edits land on it even if the cursor moves meanwhile
+    captured = await captureSelection();
+    let selection = captured.text;
+    if (!spec.selectionOptional && (!selection || !selection.trim())) {
       showNotification("请先选中要处理的文本", "warning");
       return;
     }
+    const userPrompt = await spec.buildPrompt(captured.text);
+
+    // Comments do not touch the text, so only rewrites need the formatted selection
+    const preserveFormatting = loadAgentConfig().preserveFormatting && spec.rewritesText;
+    if (preserveFormatting) {
+      try {
+        selection = (await getSelectionMarkup(captured)).markup || selection;
+      } catch {
+        // Fall back to plain text
+      }
+    }
 
     // Get document context (smaller for commands)
     let documentText = "";
@@ -44,7 +145,7 @@ async function executeCommand(
     }
 
     // Load settings
-    const config = loadModelConfig();
+    const config = loadModelConfig(commandType);
     const userRules = loadUserRules();
 
     // Build message content
@@ -52,22 +153,32 @@ async function executeCommand(
     const messageContent = [
       `[USER_RULES]\n${rulesText}\n[/USER_RULES]`,
       documentText ? `[DOCUMENT]\n${documentText}\n[/DOCUMENT]` : "",
-      `[SELECTION]\n${selection}\n[/SELECTION]`,
+      selection.trim() ? `[SELECTION]\n${selection}\n[/SELECTION]` : "",
       userPrompt,
     ]
       .filter(Boolean)
       .join("\n\n");
 
     // Get command-specific system prompt
-    const systemPrompt = getSystemPromptForCommand(commandType);
+    const systemPrompt = spec.getSystemPrompt({ preserveFormatting });
+
+    // Budgets are soft: warn, then run the command anyway
+    const budgetWarning = checkUsageBudget(
+      estimateCost(config.model, countTokens(systemPrompt) + countTokens(messageContent)) || 0
+    );
+    if (budgetWarning) {
+      showNotification(formatBudgetWarning(budgetWarning), "warning");
+    }
 
     // Send to LLM
     const result = await sendChat({
       config,
+      fallbacks: loadFallbackConfigs(commandType),
       systemPrompt,
       messages: [{ role: "user", content: messageContent }],
-      tools: TOOL_DEFINITIONS,
+      tools: spec.tools,
       toolChoice: "auto",
+      usageContext: { task: commandType },
     });
 
     if (!result.success || !result.message) {
@@ -76,11 +187,17 @@ async function executeCommand(
 
     // Execute tool calls if present
     if (hasToolCalls(result.message)) {
-      const toolResults = await executeToolCalls(result.message.tool_calls!);
+      const toolResults = await executeToolCalls(result.message.tool_calls!, {
+        selection: captured,
+        preserveFormatting,
+      });
       const allSuccess = toolResults.every((r) => r.success);
 
       if (allSuccess) {
-        showNotification("操作完成", "info");
+        showNotification(
+          result.usedFallback ? `操作完成（主模型不可用，由 ${result.model} 完成）` : "操作完成",
+          "info"
+        );
       } else {
         const failedResults = toolResults.filter((r) => !r.success);
         showNotification(`部分操作失败: ${failedResults[0]?.error}`, "error");
@@ -93,6 +210,10 @@ async function executeCommand(
     const errorMessage = error instanceof Error ? error.message : "操作失败";
     showNotification(errorMessage, "error");
     console.error("Command execution error:", error);
+  } finally {
+    if (captured) {
+      await releaseSelection(captured);
+    }
   }
 }
 
@@ -129,21 +250,38 @@ async function addCommentSuggestion(event: Office.AddinCommands.Event): Promise<
   event.completed();
 }
 
+/**
+ * Run the prompt chosen for the ribbon in the prompt library
+ */
+async function runPrompt(event: Office.AddinCommands.Event): Promise<void> {
+  const prompt = getRibbonPrompt();
+  if (!prompt) {
+    showNotification("请先在设置的提示词库中选择要运行的提示词", "warning");
+  } else {
+    await executePrompt(prompt);
+  }
+  event.completed();
+}
+
 /**
  * Analyze document structure
  */
 async function analyzeStructure(event: Office.AddinCommands.Event): Promise<void> {
-  // Check if configured
-  if (!isModelConfigured()) {
-    showNotification("请先在插件设置中配置 API Key", "error");
-    event.completed();
-    return;
-  }
+  // Without a model only the local rule checks run
+  await unlockApiKeys();
+  const deep = isModelConfigured("structure");
 
-  showNotification("正在分析文档结构，请稍候...", "info");
+  showNotification(deep ? "正在分析文档结构，请稍候..." : "正在检查文档结构...", "info");
 
   try {
-    const result = await analyzeDocumentStructure();
+    const result = await analyzeDocumentStructure({
+      deep,
+      // Budgets are soft: warn, then run the analysis anyway
+      onBudgetExceeded: (warning) => {
+        showNotification(formatBudgetWarning(warning), "warning");
+        return true;
+      },
+    });
 
     if (!result.success) {
       showNotification(result.error || "分析失败", "error");
@@ -159,6 +297,7 @@ async function analyzeStructure(event: Office.AddinCommands.Event): Promise<void
           JSON.stringify({
             timestamp: Date.now(),
             report: result.report,
+            issues: result.issues,
           })
         );
       }
@@ -181,6 +320,7 @@ function registerCommands(): void {
   Office.actions.associate("translateSelection", translateSelection);
   Office.actions.associate("addCommentSuggestion", addCommentSuggestion);
   Office.actions.associate("analyzeStructure", analyzeStructure);
+  Office.actions.associate("runPrompt", runPrompt);
 }
 
 // Initialize on Office ready
@@ -196,5 +336,7 @@ export {
   translateSelection,
   addCommentSuggestion,
   analyzeStructure,
+  runPrompt,
   executeCommand,
+  executePrompt,
 };
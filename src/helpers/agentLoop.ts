@@ -0,0 +1,196 @@
+/**
+ * Agent Loop - Bounded multi-step tool calling
+ *
+ * The model may call tools, see their results as `tool` messages and decide
+ * on further calls (e.g. find a section, read it, rewrite it, comment on it)
+ * until it answers without tools or the step limit is reached.
+ */
+
+import { ChatMessage, ToolCall } from "../types/llm";
+import { ToolResult } from "../types/tools";
+import { streamChat, toToolMessages, ChatResult, StreamChatParams } from "./llmClient";
+import { executeToolCalls, hasToolCalls, toolResultsToMessages } from "./toolExecutor";
+
+/**
+ * One tool-calling round of the agent
+ */
+export interface AgentStep {
+  /** 1-based step number */
+  index: number;
+  /** Text the model produced alongside its tool calls */
+  content: string | null;
+  toolCalls: ToolCall[];
+  results: ToolResult[];
+}
+
+/**
+ * Parameters for running the agent loop
+ */
+export interface RunAgentParams extends Omit<StreamChatParams, "toolChoice"> {
+  /** Maximum number of tool-calling rounds */
+  maxSteps: number;
+  /** Force a tool call on the first step when the model answers with text only */
+  requireToolCall?: boolean;
+  /** Tool runner (defaults to executeToolCalls) */
+  executeTools?: (toolCalls: ToolCall[]) => Promise<ToolResult[]>;
+  /** Called before each model request (step is 1-based; maxSteps + 1 is the wrap-up request) */
+  onStepStart?: (step: number) => void;
+  /** Called after the tools of a step have been executed */
+  onStep?: (step: AgentStep) => void;
+}
+
+/**
+ * Result of an agent run
+ */
+export interface AgentRunResult {
+  success: boolean;
+  error?: string;
+  /**
+   * Conversation messages produced by this run, in order: assistant messages
+   * with tool_calls, their tool results, and the final assistant answer.
+   */
+  newMessages: ChatMessage[];
+  /** The final assistant answer (absent when the run failed) */
+  finalMessage?: ChatMessage;
+  steps: AgentStep[];
+  /** True when the loop stopped because maxSteps was reached */
+  hitStepLimit: boolean;
+  usage?: ChatResult["usage"];
+  /** Fallback model that answered when the configured model failed */
+  fallbackModel?: string;
+}
+
+/**
+ * Run the agent loop until the model stops calling tools or maxSteps is reached
+ */
+export async function runAgentLoop(params: RunAgentParams): Promise<AgentRunResult> {
+  const {
+    messages,
+    tools,
+    maxSteps,
+    requireToolCall = false,
+    executeTools = executeToolCalls,
+    onStepStart,
+    onStep,
+    abortController,
+  } = params;
+
+  const transcript: ChatMessage[] = [...messages];
+  const newMessages: ChatMessage[] = [];
+  const steps: AgentStep[] = [];
+  const usage = { promptTokens: 0, completionTokens: 0, totalTokens: 0 };
+  let hasUsage = false;
+  let fallbackModel: string | undefined;
+
+  const request = async (
+    toolChoice: "auto" | "none" | "required",
+    withTools: boolean = true
+  ): Promise<ChatResult> => {
+    const result = await streamChat({
+      ...params,
+      messages: [...transcript],
+      tools: withTools ? tools : undefined,
+      toolChoice,
+    });
+    if (result.success && result.usedFallback) {
+      fallbackModel = result.model;
+    }
+    if (result.usage) {
+      hasUsage = true;
+      usage.promptTokens += result.usage.promptTokens;
+      usage.completionTokens += result.usage.completionTokens;
+      usage.totalTokens += result.usage.totalTokens;
+    }
+    return result;
+  };
+
+  const fail = (error: string): AgentRunResult => ({
+    success: false,
+    error,
+    newMessages,
+    steps,
+    hitStepLimit: false,
+    usage: hasUsage ? usage : undefined,
+    fallbackModel,
+  });
+
+  const finish = (message: ChatMessage, hitStepLimit: boolean): AgentRunResult => {
+    const finalMessage: ChatMessage = { role: "assistant", content: message.content };
+    newMessages.push(finalMessage);
+    return {
+      success: true,
+      newMessages,
+      finalMessage,
+      steps,
+      hitStepLimit,
+      usage: hasUsage ? usage : undefined,
+      fallbackModel,
+    };
+  };
+
+  for (let step = 1; step <= maxSteps; step++) {
+    onStepStart?.(step);
+
+    let result = await request("auto");
+
+    if (step === 1 && !result.success && result.error?.includes("400")) {
+      // Some models reject tool definitions altogether
+      console.warn("Retrying without tools due to 400 error");
+      result = await request("auto", false);
+    }
+
+    if (!result.success || !result.message) {
+      return fail(result.error || "Failed to get response from AI");
+    }
+
+    let message = result.message;
+
+    if (step === 1 && requireToolCall && !hasToolCalls(message)) {
+      const retryResult = await request("required");
+      if (retryResult.success && retryResult.message && hasToolCalls(retryResult.message)) {
+        message = retryResult.message;
+      } else {
+        return fail(retryResult.error || "未能触发文档操作工具，请重试或简化指令。");
+      }
+    }
+
+    if (!hasToolCalls(message)) {
+      return finish(message, false);
+    }
+
+    const toolCalls = message.tool_calls!;
+    const results = await executeTools(toolCalls);
+
+    const assistantMessage: ChatMessage = {
+      role: "assistant",
+      content: message.content,
+      tool_calls: toolCalls,
+    };
+    const toolMessages = toToolMessages(toolResultsToMessages(results));
+    transcript.push(assistantMessage, ...toolMessages);
+    newMessages.push(assistantMessage, ...toolMessages);
+
+    const agentStep: AgentStep = {
+      index: step,
+      content: message.content,
+      toolCalls,
+      results,
+    };
+    steps.push(agentStep);
+    onStep?.(agentStep);
+
+    if (abortController?.signal.aborted) {
+      return fail("已取消请求");
+    }
+  }
+
+  // Step limit reached: ask for a final answer without further tool calls
+  onStepStart?.(maxSteps + 1);
+  const wrapUp = await request("none");
+  if (!wrapUp.success || !wrapUp.message) {
+    return fail(wrapUp.error || "Failed to get response from AI");
+  }
+  return finish(wrapUp.message, true);
+}
+
+export default runAgentLoop;
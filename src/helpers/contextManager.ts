@@ -12,11 +12,12 @@ import {
   SCENARIO_LABELS,
   SCENARIO_PRESETS,
 } from "../types/settings";
+import { trimHistory } from "./tokenBudget";
 
 /**
- * Maximum number of conversation rounds to keep
+ * Tokens of conversation history to keep
  */
-const MAX_ROUNDS = 10;
+const MAX_HISTORY_TOKENS = 16_000;
 
 /**
  * Generate a unique message ID
@@ -31,10 +32,10 @@ function generateMessageId(): string {
 export class ContextManager {
   private messages: ChatMessage[] = [];
   private displayMessages: DisplayMessage[] = [];
-  private maxRounds: number;
+  private maxHistoryTokens: number;
 
-  constructor(maxRounds: number = MAX_ROUNDS) {
-    this.maxRounds = maxRounds;
+  constructor(maxHistoryTokens: number = MAX_HISTORY_TOKENS) {
+    this.maxHistoryTokens = maxHistoryTokens;
   }
 
   /**
@@ -43,12 +44,8 @@ export class ContextManager {
   addMessage(message: ChatMessage): void {
     this.messages.push(message);
 
-    // Trim old messages if exceeding max rounds
-    // Each round typically has 2 messages (user + assistant)
-    const maxMessages = this.maxRounds * 2;
-    if (this.messages.length > maxMessages) {
-      this.messages = this.messages.slice(-maxMessages);
-    }
+    // Trim old messages by size, not count: one pasted chapter outweighs many short rounds
+    this.messages = trimHistory(this.messages, this.maxHistoryTokens).messages;
   }
 
   /**
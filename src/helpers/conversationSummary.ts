@@ -0,0 +1,196 @@
+/**
+ * Conversation Summary - Rolling summary of older conversation turns
+ *
+ * When a session's history grows past its share of the context budget, the
+ * oldest turns are condensed by the model into a summary that is stored on the
+ * session and pinned after the system prompt of every request. Later folds
+ * merge into the existing summary, so decisions such as "always use British
+ * spelling" survive long editing sessions.
+ */
+
+import { ChatMessage } from "../types/llm";
+import { ModelConfig } from "../types/settings";
+import { UsageContext } from "../types/usage";
+import { sendChat } from "./llmClient";
+import { countMessageTokens, getInputTokenLimit, trimHistory } from "./tokenBudget";
+import { SessionManager } from "./sessionManager";
+
+/**
+ * Share of the input budget history may use before older turns are summarized
+ */
+const SUMMARY_TRIGGER_SHARE = 0.3;
+
+/**
+ * Share of the input budget kept as verbatim recent history after a fold
+ */
+const SUMMARY_KEEP_SHARE = 0.15;
+
+/**
+ * Message count that also triggers a fold; well below the session's message
+ * cap so a full agent run never pushes unsummarized turns out of storage
+ */
+const SUMMARY_MESSAGE_TRIGGER = 24;
+
+/**
+ * Characters of each message shown to the summarizer
+ */
+const MAX_MESSAGE_EXCERPT = 1500;
+
+/**
+ * Characters of tool results and arguments shown to the summarizer
+ */
+const MAX_TOOL_EXCERPT = 200;
+
+/**
+ * Tags of the pinned summary message
+ */
+export const SUMMARY_OPEN_TAG = "[CONVERSATION_SUMMARY]";
+export const SUMMARY_CLOSE_TAG = "[/CONVERSATION_SUMMARY]";
+
+const SUMMARY_PROMPT = `你负责为 Word 写作助手整理对话记录。请把给出的早期对话（以及已有摘要）合并为一份简洁的摘要，供后续对话参考。
+
+必须保留：
+- 用户明确提出的要求、偏好和约定（如拼写习惯、术语译法、引用格式、语气），尽量保留原话
+- 已经做出的决定和已对文档完成的修改（位置和内容要点）
+- 尚未完成的任务或待确认的问题
+
+不要保留寒暄、重复内容和文档原文。用要点列表输出，不超过 300 字，不要添加摘要以外的说明。`;
+
+/**
+ * Number of oldest messages to fold into the summary (0 when not needed)
+ */
+export function getMessagesToSummarize(
+  messages: ChatMessage[],
+  config: Pick<ModelConfig, "model" | "contextWindow">
+): number {
+  const limit = getInputTokenLimit(config);
+  const overBudget = countMessageTokens(messages) > limit * SUMMARY_TRIGGER_SHARE;
+  if (!overBudget && messages.length <= SUMMARY_MESSAGE_TRIGGER) {
+    return 0;
+  }
+  // Keep the recent turns verbatim; never split a tool call from its results
+  const kept = trimHistory(messages, Math.floor(limit * SUMMARY_KEEP_SHARE));
+  const keepCount = Math.min(kept.messages.length, Math.floor(SUMMARY_MESSAGE_TRIGGER / 2));
+  let fold = messages.length - keepCount;
+  while (fold < messages.length && messages[fold].role === "tool") {
+    fold++;
+  }
+  return fold;
+}
+
+/**
+ * Shorten text for the summarizer
+ */
+function excerpt(text: string, max: number): string {
+  return text.length > max ? `${text.slice(0, max)}…` : text;
+}
+
+/**
+ * Render messages as a transcript without the document and rules context
+ */
+export function formatTranscript(messages: ChatMessage[]): string {
+  return messages
+    .map((message) => {
+      const content = (message.content || "")
+        .replace(/\[DOCUMENT\][\s\S]*?\[\/DOCUMENT\]\s*/g, "")
+        .replace(/\[USER_RULES\][\s\S]*?\[\/USER_RULES\]\s*/g, "")
+        .trim();
+      switch (message.role) {
+        case "user":
+          return `用户：${excerpt(content, MAX_MESSAGE_EXCERPT)}`;
+        case "tool":
+          return `工具结果：${excerpt(content, MAX_TOOL_EXCERPT)}`;
+        default: {
+          const calls = (message.tool_calls || []).map(
+            (call) =>
+              `调用 ${call.function.name}(${excerpt(call.function.arguments, MAX_TOOL_EXCERPT)})`
+          );
+          return `助手：${[excerpt(content, MAX_MESSAGE_EXCERPT), ...calls].filter(Boolean).join("；")}`;
+        }
+      }
+    })
+    .join("\n");
+}
+
+/**
+ * The pinned message carrying the summary
+ */
+export function buildSummaryMessage(summary: string): ChatMessage {
+  return { role: "user", content: `${SUMMARY_OPEN_TAG}\n${summary.trim()}\n${SUMMARY_CLOSE_TAG}` };
+}
+
+/**
+ * Condense messages (and the previous summary) into a new summary
+ * @returns The new summary, or null if the model request failed
+ */
+export async function summarizeConversation(
+  config: ModelConfig,
+  messages: ChatMessage[],
+  previousSummary?: string,
+  abortController?: AbortController,
+  usageContext?: UsageContext
+): Promise<string | null> {
+  const parts: string[] = [];
+  if (previousSummary) {
+    parts.push(`已有摘要：\n${previousSummary}`);
+  }
+  parts.push(`需要合并的早期对话：\n${formatTranscript(messages)}`);
+
+  const result = await sendChat({
+    config,
+    systemPrompt: SUMMARY_PROMPT,
+    messages: [{ role: "user", content: parts.join("\n\n") }],
+    temperature: 0.2,
+    maxTokens: 1024,
+    abortController,
+    usageContext,
+  });
+
+  const summary = result.message?.content?.trim();
+  if (!result.success || !summary) {
+    console.warn("Conversation summary failed:", result.error);
+    return null;
+  }
+  return summary;
+}
+
+/**
+ * Fold the oldest turns of the active session into its summary when the
+ * history has outgrown its budget. The summary goes to the session that was
+ * active when the request started, and only if its history is unchanged.
+ * @returns true if the summary was updated
+ */
+export async function refreshSessionSummary(
+  manager: SessionManager,
+  config: ModelConfig,
+  abortController?: AbortController
+): Promise<boolean> {
+  const sessionId = manager.getActiveSession()?.id;
+  const messages = manager.getMessages();
+  const fold = getMessagesToSummarize(messages, config);
+  if (!sessionId || fold === 0) {
+    return false;
+  }
+
+  const summary = await summarizeConversation(
+    config,
+    messages.slice(0, fold),
+    manager.getSummary()?.content,
+    abortController,
+    { task: "chat", sessionId }
+  );
+  if (!summary) {
+    return false;
+  }
+  return manager.applySummary(sessionId, summary, fold, messages);
+}
+
+export const conversationSummary = {
+  getMessagesToSummarize,
+  formatTranscript,
+  buildSummaryMessage,
+  summarizeConversation,
+  refreshSessionSummary,
+};
+
+export default conversationSummary;
@@ -0,0 +1,95 @@
+/**
+ * Crypto Key Store - Keeps the add-in's encryption key in IndexedDB
+ *
+ * The key is a non-extractable AES-GCM CryptoKey: IndexedDB stores it as a
+ * structured clone, so scripts can use it to encrypt and decrypt but can never
+ * read the raw key material.
+ */
+
+const DB_NAME = "word_copilot_vault";
+const STORE_NAME = "keys";
+const KEY_ID = "api_keys";
+
+/**
+ * Check whether IndexedDB and WebCrypto are available in this WebView
+ */
+export function isCryptoKeyStoreSupported(): boolean {
+  return (
+    typeof indexedDB !== "undefined" &&
+    typeof crypto !== "undefined" &&
+    typeof crypto.subtle !== "undefined"
+  );
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, 1);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(STORE_NAME);
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Run one request against the key store and close the database afterwards
+ */
+async function withStore<T>(
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest
+): Promise<T> {
+  const db = await openDatabase();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const request = action(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+      request.onsuccess = () => resolve(request.result as T);
+      request.onerror = () => reject(request.error);
+    });
+  } finally {
+    db.close();
+  }
+}
+
+/**
+ * Load the stored key, creating it on first use
+ */
+export async function getOrCreateCryptoKey(): Promise<CryptoKey> {
+  const stored = await withStore<CryptoKey | undefined>("readonly", (store) => store.get(KEY_ID));
+  if (stored) {
+    return stored;
+  }
+
+  const key = await crypto.subtle.generateKey({ name: "AES-GCM", length: 256 }, false, [
+    "encrypt",
+    "decrypt",
+  ]);
+  try {
+    await withStore("readwrite", (store) => store.add(key, KEY_ID));
+    return key;
+  } catch {
+    // Another runtime of the add-in (task pane or commands) created it first
+    const existing = await withStore<CryptoKey | undefined>("readonly", (store) =>
+      store.get(KEY_ID)
+    );
+    if (!existing) {
+      throw new Error("无法保存加密密钥");
+    }
+    return existing;
+  }
+}
+
+/**
+ * Delete the stored key; anything encrypted with it can no longer be read
+ */
+export async function deleteCryptoKey(): Promise<void> {
+  await withStore("readwrite", (store) => store.delete(KEY_ID));
+}
+
+export const cryptoKeyStore = {
+  isCryptoKeyStoreSupported,
+  getOrCreateCryptoKey,
+  deleteCryptoKey,
+};
+
+export default cryptoKeyStore;
@@ -0,0 +1,104 @@
+/**
+ * Document Identity - Recognize the Word document the add-in is open in
+ *
+ * A GUID is saved in the document's add-in settings the first time the add-in
+ * runs in it, so sessions can be tied to the document across restarts, renames
+ * and moves. A copy made with "Save As" keeps the GUID and shares the sessions.
+ */
+
+import { getDocumentTitle } from "./wordBridge";
+
+/**
+ * Document settings key of the GUID
+ */
+const DOCUMENT_ID_SETTING = "word_copilot_document_id";
+
+export interface DocumentIdentity {
+  id: string;
+  /** Title or file name when the add-in opened, for the all-documents list */
+  title: string;
+}
+
+let identity: Promise<DocumentIdentity | null> | null = null;
+
+/**
+ * Random RFC 4122 version 4 GUID
+ */
+export function generateDocumentId(): string {
+  if (typeof crypto.randomUUID === "function") {
+    return crypto.randomUUID();
+  }
+  const bytes = crypto.getRandomValues(new Uint8Array(16));
+  bytes[6] = (bytes[6] & 0x0f) | 0x40;
+  bytes[8] = (bytes[8] & 0x3f) | 0x80;
+  const hex = Array.from(bytes, (b) => b.toString(16).padStart(2, "0")).join("");
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
+}
+
+function saveSettings(settings: Office.Settings): Promise<void> {
+  return new Promise<void>((resolve, reject) => {
+    settings.saveAsync((result) => {
+      if (result.status === Office.AsyncResultStatus.Succeeded) {
+        resolve();
+      } else {
+        reject(result.error);
+      }
+    });
+  });
+}
+
+async function readDocumentIdentity(): Promise<DocumentIdentity | null> {
+  const settings = Office.context.document?.settings;
+  if (!settings) {
+    return null;
+  }
+
+  let id = settings.get(DOCUMENT_ID_SETTING);
+  if (typeof id !== "string" || !id) {
+    id = generateDocumentId();
+    settings.set(DOCUMENT_ID_SETTING, id);
+    try {
+      await saveSettings(settings);
+    } catch (error) {
+      // The id still applies for this run; it is saved with the next save of the settings
+      console.warn("Failed to save document id:", error);
+    }
+  }
+
+  let title = "";
+  try {
+    title = await getDocumentTitle();
+  } catch (error) {
+    console.warn("Failed to read document title:", error);
+  }
+  return { id, title };
+}
+
+/**
+ * Identity of the current document, created on first use. Null where the host
+ * has no document settings (the sessions are then not tied to a document).
+ */
+export function getDocumentIdentity(): Promise<DocumentIdentity | null> {
+  if (!identity) {
+    identity = readDocumentIdentity().catch((error) => {
+      console.warn("Failed to identify document:", error);
+      return null;
+    });
+  }
+  return identity;
+}
+
+/**
+ * Forget the cached identity (tests)
+ */
+export function resetDocumentIdentity(): void {
+  identity = null;
+}
+
+export const documentIdentity = {
+  generateDocumentId,
+  getDocumentIdentity,
+  resetDocumentIdentity,
+};
+
+export default documentIdentity;
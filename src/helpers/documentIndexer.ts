@@ -0,0 +1,281 @@
+/**
+ * Document Indexer - Heading-aware chunking for long documents
+ *
+ * The body is split into chunks along the heading hierarchy. Documents that
+ * fit the context budget are sent whole; longer ones are sent as the outline
+ * plus the chunks most relevant to the selection and the user's request.
+ */
+
+import { ParagraphInfo } from "./wordBridge";
+import { RetrievalIndex, getRetrievalIndex } from "./retrievalIndex";
+import { countTokens, truncateToTokens, BudgetedDocument } from "./tokenBudget";
+
+/**
+ * A run of paragraphs under one heading
+ */
+export interface DocumentChunk {
+  /** Position of the chunk in the document */
+  id: number;
+  /** Headings from the top level down to the one this chunk belongs to */
+  headingPath: string[];
+  /** First and last body paragraph index (see getParagraphs) */
+  startIndex: number;
+  endIndex: number;
+  text: string;
+}
+
+/**
+ * Heading entry of the document outline
+ */
+export interface OutlineEntry {
+  index: number;
+  level: number;
+  text: string;
+}
+
+/**
+ * Chunked view of a document
+ */
+export interface DocumentIndex {
+  outline: OutlineEntry[];
+  chunks: DocumentChunk[];
+  totalChars: number;
+}
+
+/**
+ * Scores chunks against a query; higher is more relevant
+ */
+export type ChunkScorer = (chunks: DocumentChunk[], query: string) => number[];
+
+/**
+ * Options for building the document context
+ */
+export interface DocumentContextOptions {
+  /** The user's request */
+  query?: string;
+  /** Selected text; the chunk containing it is always included */
+  selection?: string;
+  /** Tokens available for the document context */
+  budget?: number;
+  /** Relevance scorer (default: BM25, see retrievalIndex) */
+  scorer?: ChunkScorer;
+}
+
+/**
+ * Default tokens available for the document context (the chat sizes it per
+ * model, see planContext)
+ */
+export const DOCUMENT_CONTEXT_BUDGET = 10_000;
+
+/**
+ * Chunks longer than this are split at paragraph boundaries
+ */
+export const MAX_CHUNK_CHARS = 3000;
+
+/**
+ * Characters of the selection used to find the chunk containing it
+ */
+const SELECTION_PROBE_LENGTH = 80;
+
+/**
+ * Split the document into heading-delimited chunks
+ */
+export function buildDocumentIndex(
+  paragraphs: ParagraphInfo[],
+  maxChunkChars: number = MAX_CHUNK_CHARS
+): DocumentIndex {
+  const outline: OutlineEntry[] = [];
+  const chunks: DocumentChunk[] = [];
+  const headingStack: OutlineEntry[] = [];
+  let current: { paragraphs: ParagraphInfo[]; length: number } = { paragraphs: [], length: 0 };
+  let totalChars = 0;
+
+  const flush = () => {
+    const texts = current.paragraphs.map((p) => p.text.trim()).filter(Boolean);
+    if (texts.length > 0) {
+      chunks.push({
+        id: chunks.length,
+        headingPath: headingStack.map((h) => h.text),
+        startIndex: current.paragraphs[0].index,
+        endIndex: current.paragraphs[current.paragraphs.length - 1].index,
+        text: texts.join("\n"),
+      });
+    }
+    current = { paragraphs: [], length: 0 };
+  };
+
+  paragraphs.forEach((paragraph) => {
+    const text = paragraph.text.trim();
+    totalChars += text.length;
+
+    if (paragraph.headingLevel && text) {
+      flush();
+      while (
+        headingStack.length > 0 &&
+        headingStack[headingStack.length - 1].level >= paragraph.headingLevel
+      ) {
+        headingStack.pop();
+      }
+      const entry = { index: paragraph.index, level: paragraph.headingLevel, text };
+      headingStack.push(entry);
+      outline.push(entry);
+    } else if (current.length + text.length > maxChunkChars && current.paragraphs.length > 0) {
+      flush();
+    }
+
+    current.paragraphs.push(paragraph);
+    current.length += text.length + 1;
+  });
+  flush();
+
+  return { outline, chunks, totalChars };
+}
+
+/**
+ * Default scorer: BM25 over the chunks themselves, heading path included
+ */
+export const chunkRelevanceScorer: ChunkScorer = (chunks, query) => {
+  const index = new RetrievalIndex();
+  index.update(
+    chunks.map((chunk, i) => ({ index: i, text: `${chunk.headingPath.join(" ")}\n${chunk.text}` }))
+  );
+  return index.scoreParagraphs(query);
+};
+
+/**
+ * Find the chunk that contains the selection
+ */
+function findSelectionChunk(chunks: DocumentChunk[], selection: string): DocumentChunk | undefined {
+  const probe = selection.trim().split("\n")[0].trim().slice(0, SELECTION_PROBE_LENGTH);
+  if (!probe) return undefined;
+  return chunks.find((chunk) => chunk.text.includes(probe));
+}
+
+/**
+ * Format the outline with paragraph indices
+ */
+function formatOutline(outline: OutlineEntry[]): string {
+  return outline
+    .map((entry) => `${"  ".repeat(Math.max(0, entry.level - 1))}[${entry.index}] ${entry.text}`)
+    .join("\n");
+}
+
+/**
+ * Format a chunk with its heading path and paragraph range
+ */
+function formatChunk(chunk: DocumentChunk): string {
+  const title = chunk.headingPath.length > 0 ? chunk.headingPath.join(" › ") : "（开头）";
+  return `### ${title}（段落 ${chunk.startIndex}-${chunk.endIndex}）\n${chunk.text}`;
+}
+
+/**
+ * Pick chunks for the context: the selection's chunk first, then by relevance,
+ * until the budget is used
+ */
+export function selectRelevantChunks(
+  index: DocumentIndex,
+  budget: number,
+  options: Omit<DocumentContextOptions, "budget"> = {}
+): DocumentChunk[] {
+  const { query = "", selection = "", scorer = chunkRelevanceScorer } = options;
+  const scores = scorer(index.chunks, `${query}\n${selection}`);
+  const ranked = index.chunks
+    .map((chunk, i) => ({ chunk, score: scores[i] }))
+    .filter((item) => item.score > 0)
+    .sort((a, b) => b.score - a.score || a.chunk.id - b.chunk.id)
+    .map((item) => item.chunk);
+
+  const selectionChunk = selection ? findSelectionChunk(index.chunks, selection) : undefined;
+  const candidates = selectionChunk
+    ? [selectionChunk, ...ranked.filter((c) => c !== selectionChunk)]
+    : ranked;
+  if (candidates.length === 0 && index.chunks.length > 0) {
+    // Nothing matched: the opening (abstract, introduction) is the best general context
+    candidates.push(index.chunks[0]);
+  }
+
+  const picked: DocumentChunk[] = [];
+  let used = 0;
+  candidates.forEach((chunk) => {
+    const size = countTokens(formatChunk(chunk)) + 1;
+    if (used + size <= budget) {
+      picked.push(chunk);
+      used += size;
+    }
+  });
+
+  // Present the chunks in document order
+  return picked.sort((a, b) => a.id - b.id);
+}
+
+/**
+ * Build the [DOCUMENT] context within a token budget and report how many
+ * chunks were left out
+ */
+export function composeDocumentContext(
+  paragraphs: ParagraphInfo[],
+  options: DocumentContextOptions = {}
+): BudgetedDocument {
+  const budget = options.budget ?? DOCUMENT_CONTEXT_BUDGET;
+  const fullText = paragraphs
+    .map((p) => p.text.trim())
+    .filter(Boolean)
+    .join("\n");
+
+  if (countTokens(fullText) <= budget) {
+    return { text: fullText, chunkCount: 0, omittedCount: 0 };
+  }
+
+  const index = buildDocumentIndex(paragraphs);
+  const header = (included: number) =>
+    `文档较长（约 ${index.totalChars} 字），以下为大纲和与当前请求最相关的 ${included} 个片段；其余 ${index.chunks.length - included} 个片段已省略，需要时请用 get_paragraphs 或 search_document 读取。`;
+  let outline = formatOutline(index.outline);
+  const outlineBudget = Math.floor(budget / 2);
+  if (countTokens(outline) > outlineBudget) {
+    outline = `${truncateToTokens(outline, outlineBudget)}\n…`;
+  }
+  const preamble = `${header(0)}\n\n## 大纲（[段落索引] 标题）\n${outline || "（文档没有标题）"}`;
+  const available = budget - countTokens(preamble);
+  if (available <= 0) {
+    return { text: "", chunkCount: index.chunks.length, omittedCount: index.chunks.length };
+  }
+
+  // Score with the shared paragraph index, which only re-tokenizes what changed
+  const retrieval = getRetrievalIndex();
+  retrieval.update(paragraphs);
+  const chunks = selectRelevantChunks(index, available, {
+    ...options,
+    scorer: options.scorer || ((candidates, query) => retrieval.scoreChunks(candidates, query)),
+  });
+
+  const parts = [
+    header(chunks.length),
+    `## 大纲（[段落索引] 标题）\n${outline || "（文档没有标题）"}`,
+    ...chunks.map(formatChunk),
+  ];
+  return {
+    text: parts.join("\n\n"),
+    chunkCount: index.chunks.length,
+    omittedCount: index.chunks.length - chunks.length,
+  };
+}
+
+/**
+ * Build the [DOCUMENT] context: the whole text when it fits, otherwise the
+ * outline plus the most relevant chunks
+ */
+export function buildDocumentContext(
+  paragraphs: ParagraphInfo[],
+  options: DocumentContextOptions = {}
+): string {
+  return composeDocumentContext(paragraphs, options).text;
+}
+
+export const documentIndexer = {
+  buildDocumentIndex,
+  selectRelevantChunks,
+  composeDocumentContext,
+  buildDocumentContext,
+};
+
+export default documentIndexer;
@@ -0,0 +1,281 @@
+/**
+ * Format Markup - Simplified inline markup for formatting-preserving rewrites
+ *
+ * The selection is read as HTML, reduced to a small tag set the model can
+ * reliably echo back (<b> <i> <u> <sup> <sub> <a href> <br>, paragraphs
+ * separated by newlines), validated on return and written with insertHtml.
+ */
+
+/**
+ * Tags allowed in simplified markup
+ */
+export const ALLOWED_MARKUP_TAGS = ["b", "i", "u", "sup", "sub", "a", "br"];
+
+/**
+ * OOXML elements that cannot survive an HTML round-trip
+ */
+const PROTECTED_OOXML_PATTERNS: Array<{ pattern: RegExp; label: string }> = [
+  { pattern: /<w:footnoteReference\b/, label: "脚注引用" },
+  { pattern: /<w:endnoteReference\b/, label: "尾注引用" },
+  { pattern: /<m:oMath\b/, label: "公式" },
+  { pattern: /<w:fldSimple\b|<w:fldChar\b/, label: "域（引文、交叉引用等）" },
+];
+
+/**
+ * Result of validating model-produced markup
+ */
+export interface MarkupValidation {
+  valid: boolean;
+  error?: string;
+}
+
+/**
+ * Base character formatting applied around inserted HTML, so it matches the
+ * surrounding text instead of the HTML defaults
+ */
+export interface MarkupBaseStyle {
+  fontName?: string;
+  fontSize?: number;
+  color?: string;
+}
+
+const BLOCK_TAGS = ["p", "div", "h1", "h2", "h3", "h4", "h5", "h6", "li", "tr", "table"];
+const SKIPPED_TAGS = ["head", "style", "script", "title", "meta", "xml"];
+
+/**
+ * Escape text for markup
+ */
+function escapeText(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+}
+
+/**
+ * Escape an attribute value
+ */
+function escapeAttribute(value: string): string {
+  return escapeText(value).replace(/"/g, "&quot;");
+}
+
+/**
+ * Check whether a link target is safe to write into the document
+ */
+function isSafeHref(href: string): boolean {
+  return /^(https?:|mailto:)/i.test(href.trim());
+}
+
+/**
+ * Inline tags implied by an element's tag name and inline style
+ */
+function getInlineTags(element: Element): string[] {
+  const tag = element.tagName.toLowerCase();
+  const style = (element.getAttribute("style") || "").toLowerCase();
+  const tags: string[] = [];
+
+  if (tag === "b" || tag === "strong" || /font-weight\s*:\s*(bold|[6-9]00)/.test(style)) {
+    tags.push("b");
+  }
+  if (tag === "i" || tag === "em" || /font-style\s*:\s*italic/.test(style)) {
+    tags.push("i");
+  }
+  if (tag === "u" || /text-decoration[^;]*underline/.test(style)) {
+    tags.push("u");
+  }
+  if (tag === "sup" || /vertical-align\s*:\s*super/.test(style)) {
+    tags.push("sup");
+  } else if (tag === "sub" || /vertical-align\s*:\s*sub/.test(style)) {
+    tags.push("sub");
+  }
+  return tags;
+}
+
+/**
+ * Append the simplified markup of a node and its children
+ */
+function appendNode(node: Node, out: string[]): void {
+  if (node.nodeType === Node.TEXT_NODE) {
+    out.push(escapeText((node.textContent || "").replace(/\s+/g, " ")));
+    return;
+  }
+  if (node.nodeType !== Node.ELEMENT_NODE) return;
+
+  const element = node as Element;
+  const tag = element.tagName.toLowerCase();
+
+  if (SKIPPED_TAGS.includes(tag) || tag.indexOf(":") >= 0) return;
+  if (tag === "br") {
+    out.push("<br>");
+    return;
+  }
+
+  const open: string[] = [];
+  const close: string[] = [];
+  getInlineTags(element).forEach((t) => {
+    open.push(`<${t}>`);
+    close.unshift(`</${t}>`);
+  });
+
+  const href = tag === "a" ? element.getAttribute("href") : null;
+  if (href && isSafeHref(href)) {
+    open.push(`<a href="${escapeAttribute(href)}">`);
+    close.unshift("</a>");
+  }
+
+  out.push(...open);
+  Array.from(element.childNodes).forEach((child) => appendNode(child, out));
+  out.push(...close);
+
+  if (BLOCK_TAGS.includes(tag)) {
+    out.push("\n");
+  }
+}
+
+/**
+ * Reduce Word's HTML to simplified markup
+ */
+export function simplifyHtml(html: string): string {
+  const doc = new DOMParser().parseFromString(html, "text/html");
+  const out: string[] = [];
+  appendNode(doc.body, out);
+
+  let markup = out.join("");
+  // Drop empty formatting and merge adjacent runs with the same formatting
+  let previous: string;
+  do {
+    previous = markup;
+    markup = markup
+      .replace(/<(b|i|u|sup|sub)>(\s*)<\/\1>/g, "$2")
+      .replace(/<\/(b|i|u|sup|sub)><\1>/g, "");
+  } while (markup !== previous);
+
+  return markup
+    .split("\n")
+    .map((line) => line.trim())
+    .filter(Boolean)
+    .join("\n");
+}
+
+/**
+ * Check that markup only uses the allowed tags, properly nested
+ */
+export function validateMarkup(markup: string): MarkupValidation {
+  const stack: string[] = [];
+  const tagPattern = /<(\/?)([a-zA-Z][a-zA-Z0-9]*)([^>]*)>/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = tagPattern.exec(markup)) !== null) {
+    const [, closing, rawName, attributes] = match;
+    const name = rawName.toLowerCase();
+
+    if (!ALLOWED_MARKUP_TAGS.includes(name)) {
+      return { valid: false, error: `不支持的标签 <${name}>，只能使用 ${ALLOWED_MARKUP_TAGS.join("、")}` };
+    }
+
+    if (name === "br") {
+      if (closing || !/^\s*\/?\s*$/.test(attributes)) {
+        return { valid: false, error: "<br> 标签格式不正确" };
+      }
+      continue;
+    }
+
+    if (closing) {
+      const expected = stack.pop();
+      if (expected !== name) {
+        return {
+          valid: false,
+          error: expected ? `标签嵌套错误：应先关闭 <${expected}>` : `多余的关闭标签 </${name}>`,
+        };
+      }
+      continue;
+    }
+
+    if (name === "a") {
+      const href = /^\s+href="([^"]*)"\s*$/.exec(attributes);
+      if (!href || !isSafeHref(href[1])) {
+        return { valid: false, error: '<a> 标签只能带一个 http(s) 或 mailto 的 href 属性' };
+      }
+    } else if (attributes.trim()) {
+      return { valid: false, error: `<${name}> 标签不能带属性` };
+    }
+    stack.push(name);
+  }
+
+  if (stack.length > 0) {
+    return { valid: false, error: `标签 <${stack[stack.length - 1]}> 未关闭` };
+  }
+  return { valid: true };
+}
+
+/**
+ * Check whether text contains any markup tags
+ */
+export function hasMarkupTags(markup: string): boolean {
+  return /<\/?(b|i|u|sup|sub|a|br)\b[^>]*>/i.test(markup);
+}
+
+/**
+ * Escape "<" and "&" that are not part of a tag or entity
+ */
+function escapeStrayCharacters(markup: string): string {
+  return markup
+    .replace(/&(?!(?:[a-zA-Z]+|#\d+|#x[0-9a-fA-F]+);)/g, "&amp;")
+    .replace(/<(?![a-zA-Z/])/g, "&lt;");
+}
+
+/**
+ * Build an inline style attribute from a base style
+ */
+export function toStyleAttribute(base?: MarkupBaseStyle): string {
+  if (!base) return "";
+  const rules: string[] = [];
+  if (base.fontName) rules.push(`font-family:'${base.fontName.replace(/'/g, "")}'`);
+  if (base.fontSize) rules.push(`font-size:${base.fontSize}pt`);
+  if (base.color && /^#?[0-9a-zA-Z]+$/.test(base.color)) rules.push(`color:${base.color}`);
+  return rules.length > 0 ? ` style="${rules.join(";")}"` : "";
+}
+
+/**
+ * Convert validated markup to HTML for insertHtml
+ */
+export function markupToHtml(markup: string, base?: MarkupBaseStyle): string {
+  const style = toStyleAttribute(base);
+  const lines = escapeStrayCharacters(markup).split("\n");
+
+  if (lines.length === 1) {
+    return style ? `<span${style}>${lines[0]}</span>` : lines[0];
+  }
+  return lines.map((line) => `<p${style}>${line || "&nbsp;"}</p>`).join("");
+}
+
+/**
+ * Convert markup to plain text
+ */
+export function stripMarkup(markup: string): string {
+  return markup
+    .replace(/<br\s*\/?>/gi, "\n")
+    .replace(/<\/?[a-zA-Z][^>]*>/g, "")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&nbsp;/g, " ")
+    .replace(/&amp;/g, "&");
+}
+
+/**
+ * Find content in OOXML that would be lost by an HTML round-trip
+ * @returns Labels of the protected content found (empty if none)
+ */
+export function findProtectedContent(ooxml: string): string[] {
+  return PROTECTED_OOXML_PATTERNS.filter((p) => p.pattern.test(ooxml)).map((p) => p.label);
+}
+
+export const formatMarkup = {
+  simplifyHtml,
+  validateMarkup,
+  hasMarkupTags,
+  markupToHtml,
+  stripMarkup,
+  findProtectedContent,
+};
+
+export default formatMarkup;
@@ -15,6 +15,7 @@ export interface Translations {
   tabChat: string;
   tabPlan: string;
   tabSettings: string;
+  tabRevisions: string;
 
   // Common
   save: string;
@@ -35,9 +36,67 @@ export interface Translations {
   chatSend: string;
   chatStop: string;
   chatThinking: string;
+  chatSummaryTitle: string;
+  chatSummarizing: string;
+  chatPreparingTools: string;
+  chatStep: string;
+  chatStepLimitReached: string;
+  chatApplyModeAuto: string;
+  chatApplyModeConfirm: string;
+  chatApplyModeHint: string;
+  chatAwaitingApproval: string;
+  actionPendingTitle: string;
+  actionApply: string;
+  actionEdit: string;
+  actionCancelEdit: string;
+  actionReject: string;
+  actionNoChanges: string;
+  actionOriginal: string;
+  actionComment: string;
+  actionRevert: string;
+  actionReverted: string;
+  actionRevertSuccess: string;
+  revisionsTitle: string;
+  revisionsHint: string;
+  revisionsUnsupported: string;
+  revisionsEmpty: string;
+  revisionsAcceptAll: string;
+  revisionsRejectAll: string;
+  revisionsRefresh: string;
+  revisionsFinalize: string;
+  revisionsFinalizeHint: string;
+  revisionAccept: string;
+  revisionReject: string;
+  revisionAdded: string;
+  revisionDeleted: string;
+  revisionFormatted: string;
+  structureIssuesTitle: string;
+  structureFilterAll: string;
+  severityError: string;
+  severityWarning: string;
+  severitySuggestion: string;
+  structureGoTo: string;
+  structureGoToFailed: string;
+  structureSuggestion: string;
+  structureNoMatch: string;
   chatEmpty: string;
   chatEmptyHint: string;
   chatStructureCheck: string;
+  chatStructureDeepCheck: string;
+  contextBudgetSummary: string;
+  contextBudgetDropped: string;
+  contextListSeparator: string;
+  contextDroppedHistory: string;
+  contextDroppedDocument: string;
+  contextDroppedSelection: string;
+  contextPartSystem: string;
+  contextPartSummary: string;
+  contextPartTools: string;
+  contextPartInput: string;
+  contextPartRules: string;
+  contextPartSelection: string;
+  contextPartDocument: string;
+  contextPartHistory: string;
   sessionList: string;
   newSession: string;
   sessionMessages: string;
@@ -52,9 +111,72 @@ export interface Translations {
   settingsModelConfig: string;
   settingsBaseUrl: string;
   settingsApiKey: string;
+  settingsApiKeyOptional: string;
+  settingsApiKeyEncrypted: string;
+  settingsApiKeyPlaintext: string;
+  settingsForgetKeys: string;
+  settingsForgetKeysDone: string;
+  settingsProvider: string;
+  settingsProfile: string;
+  settingsProfileDefault: string;
+  settingsProfileAdd: string;
+  settingsProfileDelete: string;
+  settingsProfileName: string;
+  settingsProfileNewName: string;
+  settingsTaskRouting: string;
+  settingsTaskRoutingHint: string;
+  settingsFallback: string;
+  settingsFallbackHint: string;
+  settingsFallbackAdd: string;
+  chatAnsweredBy: string;
+  settingsUsage: string;
+  settingsUsageHint: string;
+  settingsBudgetDaily: string;
+  settingsBudgetMonthly: string;
+  settingsBudgetHint: string;
+  usageToday: string;
+  usageThisMonth: string;
+  usageRequests: string;
+  usageUnpriced: string;
+  usageByModel: string;
+  usageEmpty: string;
+  usageClear: string;
+  chatBudgetExceeded: string;
+  planBudgetExceeded: string;
+  taskChat: string;
+  taskPolish: string;
+  taskTranslate: string;
+  taskComment: string;
+  taskStructure: string;
+  taskPlanOutline: string;
+  taskPlanSection: string;
+  taskPrompt: string;
+  settingsPrompts: string;
+  settingsPromptsHint: string;
+  settingsPromptName: string;
+  settingsPromptTemplate: string;
+  settingsPromptPolicy: string;
+  settingsPromptAdd: string;
+  settingsPromptNewName: string;
+  settingsPromptRibbon: string;
+  settingsPromptRibbonNone: string;
+  promptPolicyEdit: string;
+  promptPolicyComment: string;
+  promptPolicyAnswer: string;
+  chatPromptBar: string;
+  chatSlashMenu: string;
+  slashPolish: string;
+  slashTranslate: string;
+  slashComment: string;
+  slashSummarize: string;
+  slashOutline: string;
+  slashAnalyze: string;
   settingsModel: string;
   settingsCustomModel: string;
   settingsCustomModelPlaceholder: string;
+  settingsContextWindow: string;
+  settingsContextWindowHint: string;
+  settingsContextWindowPreset: string;
   settingsWritingRules: string;
   settingsScenario: string;
   settingsStyle: string;
@@ -69,6 +191,11 @@ export interface Translations {
   settingsConnectSuccess: string;
   settingsConnectFailed: string;
   settingsViewPreset: string;
+  settingsAgent: string;
+  settingsMaxSteps: string;
+  settingsMaxStepsHint: string;
+  settingsPreserveFormatting: string;
+  settingsPreserveFormattingHint: string;
 
   // Settings - Language option
   settingsUILanguage: string;
@@ -151,6 +278,7 @@ const zhCN: Translations = {
   tabChat: "对话",
   tabPlan: "计划",
   tabSettings: "设置",
+  tabRevisions: "修订",
 
   // Common
   save: "保存",
@@ -167,13 +295,71 @@ const zhCN: Translations = {
   configRequired: "请先在设置中配置 API Key",
 
   // Chat Panel
-  chatPlaceholder: "输入你的问题或指令...",
+  chatPlaceholder: "输入你的问题或指令，输入 / 查看命令...",
   chatSend: "发送",
   chatStop: "停止",
   chatThinking: "AI 正在思考...",
+  chatSummaryTitle: "📌 早期对话摘要（已整理 {n} 条消息）",
+  chatSummarizing: "正在整理早期对话...",
+  chatPreparingTools: "正在准备文档操作",
+  chatStep: "步骤 {n}",
+  chatStepLimitReached: "已达到最大步骤数（{n}），任务可能未全部完成。可在设置中调整步骤上限。",
+  chatApplyModeAuto: "⚡ 自动应用",
+  chatApplyModeConfirm: "✋ 确认后应用",
+  chatApplyModeHint: "切换本对话中文档修改的应用方式",
+  chatAwaitingApproval: "等待确认修改",
+  actionPendingTitle: "待确认：{tool} · {target}",
+  actionApply: "应用",
+  actionEdit: "编辑",
+  actionCancelEdit: "取消编辑",
+  actionReject: "拒绝",
+  actionNoChanges: "内容无变化",
+  actionOriginal: "原文",
+  actionComment: "批注",
+  actionRevert: "↶ 撤销此更改",
+  actionReverted: "已撤销",
+  actionRevertSuccess: "已撤销修改",
+  revisionsTitle: "Copilot 修订",
+  revisionsHint: "这里列出 Copilot 以修订模式写入文档的更改，可逐条或全部接受、拒绝。",
+  revisionsUnsupported: "当前 Word 版本不支持修订 API（需要 WordApi 1.6），请在 Word 的「审阅」选项卡中接受或拒绝修订。",
+  revisionsEmpty: "没有待处理的 Copilot 修订",
+  revisionsAcceptAll: "全部接受",
+  revisionsRejectAll: "全部拒绝",
+  revisionsRefresh: "刷新",
+  revisionsFinalize: "完成修改",
+  revisionsFinalizeHint: "移除 Copilot 修改周围的隐藏标记。修订仍保留在文档中，但这些修改将无法再从对话中撤销。",
+  revisionAccept: "接受",
+  revisionReject: "拒绝",
+  revisionAdded: "插入",
+  revisionDeleted: "删除",
+  revisionFormatted: "格式",
+  structureIssuesTitle: "结构问题（{count}）",
+  structureFilterAll: "全部",
+  severityError: "错误",
+  severityWarning: "警告",
+  severitySuggestion: "建议",
+  structureGoTo: "定位",
+  structureGoToFailed: "无法定位到该位置，文档可能已被修改",
+  structureSuggestion: "建议：",
+  structureNoMatch: "没有此级别的问题",
   chatEmpty: "开始新对话",
   chatEmptyHint: "选中文档中的文本，然后输入指令",
   chatStructureCheck: "📊 结构检查",
+  chatStructureDeepCheck: "🔍 深度结构分析",
+  contextBudgetSummary: "上下文约 {used} / {limit} tokens",
+  contextBudgetDropped: "已省略：{items}",
+  contextListSeparator: "、",
+  contextDroppedHistory: "早期对话 {n} 条",
+  contextDroppedDocument: "文档 {n}/{total} 个片段",
+  contextDroppedSelection: "选区末尾约 {n} tokens",
+  contextPartSystem: "系统提示",
+  contextPartSummary: "对话摘要",
+  contextPartTools: "工具定义",
+  contextPartInput: "输入",
+  contextPartRules: "写作规则",
+  contextPartSelection: "选区",
+  contextPartDocument: "文档",
+  contextPartHistory: "对话历史",
   sessionList: "会话列表",
   newSession: "新建对话",
   sessionMessages: "条消息",
@@ -188,9 +374,72 @@ const zhCN: Translations = {
   settingsModelConfig: "🤖 模型配置",
   settingsBaseUrl: "Base URL",
   settingsApiKey: "API Key",
+  settingsApiKeyOptional: "本地模型可留空",
+  settingsApiKeyEncrypted: "API Key 使用本机专用密钥（WebCrypto）加密后保存，不以明文存储。",
+  settingsApiKeyPlaintext: "当前环境不支持 WebCrypto 加密，API Key 将以明文保存在本机。",
+  settingsForgetKeys: "忘记所有 API Key",
+  settingsForgetKeysDone: "已删除本机保存的所有 API Key",
+  settingsProvider: "接口类型",
+  settingsProfile: "模型配置档",
+  settingsProfileDefault: "默认配置",
+  settingsProfileAdd: "新建",
+  settingsProfileDelete: "删除",
+  settingsProfileName: "配置档名称",
+  settingsProfileNewName: "配置档 {n}",
+  settingsTaskRouting: "🔀 任务模型分配",
+  settingsTaskRoutingHint: "新建配置档后，可为对话、润色、翻译、批注、结构分析和计划分别指定模型（例如翻译用快速便宜的模型，结构分析用更强的模型）。",
+  settingsFallback: "🛟 备用模型",
+  settingsFallbackHint: "请求遇到限流、服务器错误、超时或网络中断时，先自动重试，仍失败则按顺序改用下列模型。",
+  settingsFallbackAdd: "添加备用模型",
+  chatAnsweredBy: "主模型不可用，本条回答由 {model} 生成",
+  settingsUsage: "📊 用量与费用",
+  settingsUsageHint: "费用按预设模型的公开价格估算，仅供参考；自定义模型只统计 token。",
+  settingsBudgetDaily: "每日预算（美元）",
+  settingsBudgetMonthly: "每月预算（美元）",
+  settingsBudgetHint: "预计费用达到预算时，发送前会先提醒，再次发送即可继续；留空表示不限。",
+  usageToday: "今日",
+  usageThisMonth: "本月",
+  usageRequests: "{n} 次请求",
+  usageUnpriced: "其中 {n} 次请求的模型没有价格信息，未计入费用",
+  usageByModel: "本月各模型用量",
+  usageEmpty: "暂无用量记录",
+  usageClear: "清除用量记录",
+  chatBudgetExceeded: "{period}预计费用 {spent} 已达到预算 {limit}。再次发送将继续本次请求。",
+  planBudgetExceeded: "{period}预计费用 {spent} 已达到预算 {limit}。再次点击将继续生成。",
+  taskChat: "对话",
+  taskPolish: "润色（右键菜单）",
+  taskTranslate: "翻译（右键菜单）",
+  taskComment: "批注建议（右键菜单）",
+  taskStructure: "结构分析",
+  taskPlanOutline: "计划：大纲",
+  taskPlanSection: "计划：章节",
+  taskPrompt: "提示词库",
+  settingsPrompts: "📝 提示词库",
+  settingsPromptsHint: "常用指令可保存为提示词，在对话输入框上方的快捷栏一键运行。可用变量：{selection} 选中文本、{language} 写作规则中的语言、{document_title} 文档标题。",
+  settingsPromptName: "名称",
+  settingsPromptTemplate: "指令",
+  settingsPromptPolicy: "工具权限",
+  settingsPromptAdd: "添加提示词",
+  settingsPromptNewName: "提示词 {n}",
+  settingsPromptRibbon: "功能区和右键菜单「运行提示词」",
+  settingsPromptRibbonNone: "（未选择）",
+  promptPolicyEdit: "修改文档",
+  promptPolicyComment: "仅添加批注",
+  promptPolicyAnswer: "仅文字回答",
+  chatPromptBar: "快捷指令",
+  chatSlashMenu: "命令",
+  slashPolish: "润色选中内容",
+  slashTranslate: "翻译选中内容，可指定目标语言",
+  slashComment: "为选中内容添加批注建议",
+  slashSummarize: "插入摘要，可指定位置（before/after/start/end）",
+  slashOutline: "整理文档大纲",
+  slashAnalyze: "分析结构与论证（不修改文档）",
   settingsModel: "模型",
   settingsCustomModel: "自定义模型...",
   settingsCustomModelPlaceholder: "输入模型名称，如 llama-3.1-70b",
+  settingsContextWindow: "上下文窗口（tokens）",
+  settingsContextWindowHint: "模型可接受的最大 token 数，用于决定每次发送多少文档内容和对话历史",
+  settingsContextWindowPreset: "上下文窗口：{n} tokens",
   settingsWritingRules: "📝 写作规则",
   settingsScenario: "写作场景",
   settingsStyle: "风格",
@@ -205,6 +454,11 @@ const zhCN: Translations = {
   settingsConnectSuccess: "✓ 连接成功，设置已保存！",
   settingsConnectFailed: "连接失败",
   settingsViewPreset: "查看当前场景预设规范",
+  settingsAgent: "🔁 多步操作",
+  settingsMaxSteps: "最大步骤数",
+  settingsMaxStepsHint: "AI 每次请求最多可连续调用工具的轮数（读取、修改、批注等）",
+  settingsPreserveFormatting: "改写时保留格式",
+  settingsPreserveFormattingHint: "以简化标记读取并写回选区，保留加粗、斜体、下划线、上下标和链接。包含脚注引用、域或公式的文本不会被整体替换。",
 
   // Settings - Language option
   settingsUILanguage: "界面语言",
@@ -287,6 +541,7 @@ const enUS: Translations = {
   tabChat: "Chat",
   tabPlan: "Plan",
   tabSettings: "Settings",
+  tabRevisions: "Revisions",
 
   // Common
   save: "Save",
@@ -303,13 +558,71 @@ const enUS: Translations = {
   configRequired: "Please configure API Key in Settings first",
 
   // Chat Panel
-  chatPlaceholder: "Enter your question or instruction...",
+  chatPlaceholder: "Enter your question or instruction, or / for commands...",
   chatSend: "Send",
   chatStop: "Stop",
   chatThinking: "AI is thinking...",
+  chatSummaryTitle: "📌 Summary of earlier conversation ({n} messages condensed)",
+  chatSummarizing: "Summarizing earlier conversation...",
+  chatPreparingTools: "Preparing document actions",
+  chatStep: "Step {n}",
+  chatStepLimitReached: "Reached the step limit ({n}); the task may be incomplete. You can raise the limit in Settings.",
+  chatApplyModeAuto: "⚡ Auto-apply",
+  chatApplyModeConfirm: "✋ Confirm edits",
+  chatApplyModeHint: "Switch how document edits are applied in this conversation",
+  chatAwaitingApproval: "Waiting for your approval",
+  actionPendingTitle: "Pending: {tool} · {target}",
+  actionApply: "Apply",
+  actionEdit: "Edit",
+  actionCancelEdit: "Cancel edit",
+  actionReject: "Reject",
+  actionNoChanges: "No changes",
+  actionOriginal: "Original",
+  actionComment: "Comment",
+  actionRevert: "↶ Revert this change",
+  actionReverted: "Reverted",
+  actionRevertSuccess: "Change reverted",
+  revisionsTitle: "Copilot revisions",
+  revisionsHint: "Tracked changes Copilot wrote to the document. Accept or reject them one by one or all together.",
+  revisionsUnsupported: "This version of Word does not support the tracked changes API (WordApi 1.6). Please accept or reject revisions from Word's Review tab.",
+  revisionsEmpty: "No pending Copilot revisions",
+  revisionsAcceptAll: "Accept all",
+  revisionsRejectAll: "Reject all",
+  revisionsRefresh: "Refresh",
+  revisionsFinalize: "Finalize edits",
+  revisionsFinalizeHint: "Remove the hidden markers around Copilot edits. Tracked changes stay in the document, but these edits can no longer be reverted from the chat.",
+  revisionAccept: "Accept",
+  revisionReject: "Reject",
+  revisionAdded: "Inserted",
+  revisionDeleted: "Deleted",
+  revisionFormatted: "Formatted",
+  structureIssuesTitle: "Structure issues ({count})",
+  structureFilterAll: "All",
+  severityError: "Error",
+  severityWarning: "Warning",
+  severitySuggestion: "Suggestion",
+  structureGoTo: "Go to",
+  structureGoToFailed: "Could not find this location; the document may have changed",
+  structureSuggestion: "Suggestion: ",
+  structureNoMatch: "No issues at this level",
   chatEmpty: "Start a new conversation",
   chatEmptyHint: "Select text in your document, then enter instructions",
   chatStructureCheck: "📊 Structure Check",
+  chatStructureDeepCheck: "🔍 Deep Structure Review",
+  contextBudgetSummary: "Context ≈ {used} / {limit} tokens",
+  contextBudgetDropped: "left out: {items}",
+  contextListSeparator: ", ",
+  contextDroppedHistory: "{n} earlier messages",
+  contextDroppedDocument: "{n} of {total} document chunks",
+  contextDroppedSelection: "about {n} tokens at the end of the selection",
+  contextPartSystem: "System prompt",
+  contextPartSummary: "Conversation summary",
+  contextPartTools: "Tool definitions",
+  contextPartInput: "Input",
+  contextPartRules: "Writing rules",
+  contextPartSelection: "Selection",
+  contextPartDocument: "Document",
+  contextPartHistory: "History",
   sessionList: "Sessions",
   newSession: "New Chat",
   sessionMessages: "messages",
@@ -324,9 +637,72 @@ const enUS: Translations = {
   settingsModelConfig: "🤖 Model Configuration",
   settingsBaseUrl: "Base URL",
   settingsApiKey: "API Key",
+  settingsApiKeyOptional: "Optional for local models",
+  settingsApiKeyEncrypted: "API keys are encrypted with a device-bound key (WebCrypto) and never stored in plain text.",
+  settingsApiKeyPlaintext: "WebCrypto encryption is not available here; API keys are stored in plain text on this device.",
+  settingsForgetKeys: "Forget all API keys",
+  settingsForgetKeysDone: "All API keys stored on this device were deleted",
+  settingsProvider: "API type",
+  settingsProfile: "Model profile",
+  settingsProfileDefault: "Default",
+  settingsProfileAdd: "New",
+  settingsProfileDelete: "Delete",
+  settingsProfileName: "Profile name",
+  settingsProfileNewName: "Profile {n}",
+  settingsTaskRouting: "🔀 Model per Task",
+  settingsTaskRoutingHint: "Add a profile to choose a model for chat, polish, translate, comments, structure analysis and plans separately (e.g. a fast, cheap model for translation and a stronger one for structure analysis).",
+  settingsFallback: "🛟 Fallback Models",
+  settingsFallbackHint: "On rate limits, server errors, timeouts or network failures the request is retried, then sent to these models in order.",
+  settingsFallbackAdd: "Add fallback model",
+  chatAnsweredBy: "The primary model was unavailable; answered by {model}",
+  settingsUsage: "📊 Usage & Cost",
+  settingsUsageHint: "Costs are estimated from the list prices of the preset models; custom models count tokens only.",
+  settingsBudgetDaily: "Daily budget (USD)",
+  settingsBudgetMonthly: "Monthly budget (USD)",
+  settingsBudgetHint: "When the estimated cost reaches a budget you are warned before sending; send again to go ahead. Leave empty for no limit.",
+  usageToday: "Today",
+  usageThisMonth: "This month",
+  usageRequests: "{n} requests",
+  usageUnpriced: "{n} requests used models without a price and are not included in the cost",
+  usageByModel: "Usage by model this month",
+  usageEmpty: "No usage recorded yet",
+  usageClear: "Clear usage history",
+  chatBudgetExceeded: "{period}: the estimated cost {spent} has reached the budget of {limit}. Send again to go ahead.",
+  planBudgetExceeded: "{period}: the estimated cost {spent} has reached the budget of {limit}. Click again to generate anyway.",
+  taskChat: "Chat",
+  taskPolish: "Polish (context menu)",
+  taskTranslate: "Translate (context menu)",
+  taskComment: "Comment suggestions (context menu)",
+  taskStructure: "Structure analysis",
+  taskPlanOutline: "Plan: outline",
+  taskPlanSection: "Plan: sections",
+  taskPrompt: "Prompt library",
+  settingsPrompts: "📝 Prompt Library",
+  settingsPromptsHint: "Save recurring instructions as prompts and run them from the quick-action bar above the chat input. Variables: {selection} selected text, {language} language from the writing rules, {document_title} document title.",
+  settingsPromptName: "Name",
+  settingsPromptTemplate: "Instruction",
+  settingsPromptPolicy: "Tool policy",
+  settingsPromptAdd: "Add prompt",
+  settingsPromptNewName: "Prompt {n}",
+  settingsPromptRibbon: "Ribbon and context menu \"Run Prompt\"",
+  settingsPromptRibbonNone: "(none)",
+  promptPolicyEdit: "Edit the document",
+  promptPolicyComment: "Comments only",
+  promptPolicyAnswer: "Answer in text only",
+  chatPromptBar: "Quick actions",
+  chatSlashMenu: "Commands",
+  slashPolish: "Polish the selection",
+  slashTranslate: "Translate the selection, optionally into a given language",
+  slashComment: "Add review comments to the selection",
+  slashSummarize: "Insert a summary, optionally at a position (before/after/start/end)",
+  slashOutline: "Outline the document",
+  slashAnalyze: "Analyze structure and argument (no edits)",
   settingsModel: "Model",
   settingsCustomModel: "Custom model...",
   settingsCustomModelPlaceholder: "Enter model name, e.g. llama-3.1-70b",
+  settingsContextWindow: "Context window (tokens)",
+  settingsContextWindowHint: "Maximum tokens the model accepts; decides how much document text and history is sent with each request",
+  settingsContextWindowPreset: "Context window: {n} tokens",
   settingsWritingRules: "📝 Writing Rules",
   settingsScenario: "Writing Scenario",
   settingsStyle: "Style",
@@ -341,6 +717,11 @@ const enUS: Translations = {
   settingsConnectSuccess: "✓ Connection successful, settings saved!",
   settingsConnectFailed: "Connection failed",
   settingsViewPreset: "View preset rules for this scenario",
+  settingsAgent: "🔁 Multi-step Actions",
+  settingsMaxSteps: "Max steps",
+  settingsMaxStepsHint: "How many rounds of tool calls (read, edit, comment...) the AI may chain per request",
+  settingsPreserveFormatting: "Preserve formatting when rewriting",
+  settingsPreserveFormattingHint: "Reads and writes the selection as simplified markup so bold, italics, underline, super/subscript and links survive. Text containing footnote references, fields or equations is never replaced as a whole.",
 
   // Settings - Language option
   settingsUILanguage: "Interface Language",
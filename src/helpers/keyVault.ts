@@ -0,0 +1,300 @@
+/**
+ * Key Vault - API keys encrypted at rest with WebCrypto
+ *
+ * Keys are encrypted with AES-GCM under a non-extractable CryptoKey kept in
+ * IndexedDB (see cryptoKeyStore) and stored in localStorage as ciphertext.
+ * Unlocking decrypts them into memory, so the synchronous settings API can
+ * keep handing out complete model configs. The task pane and the ribbon
+ * commands run in separate runtimes, so each unlock re-reads the stored keys
+ * when the other runtime has changed them. Each ciphertext is bound to its
+ * secret id, so entries cannot be swapped between profiles.
+ */
+
+import {
+  isCryptoKeyStoreSupported,
+  getOrCreateCryptoKey,
+  deleteCryptoKey,
+} from "./cryptoKeyStore";
+
+const STORAGE_KEY = "word_copilot_secrets";
+
+interface EncryptedSecret {
+  iv: string;
+  data: string;
+}
+
+type SecretStore = Record<string, EncryptedSecret>;
+
+let cryptoKey: CryptoKey | null = null;
+let unlocking: Promise<boolean> | null = null;
+let syncing: Promise<void> | null = null;
+// Decrypted secrets of this runtime
+const secrets = new Map<string, string>();
+// Secrets set here whose write has not finished; newer than the stored ones
+const unsaved = new Map<string, number>();
+// Stored value as last decrypted or written by this runtime
+let syncedStore: string | null = null;
+// Writes are serialized; resolves to false once one of them failed
+let pendingWrites: Promise<boolean> = Promise.resolve(true);
+
+/**
+ * Check whether keys can be encrypted in this WebView
+ */
+export function isKeyVaultSupported(): boolean {
+  return isCryptoKeyStoreSupported() && typeof TextEncoder !== "undefined";
+}
+
+export function isKeyVaultUnlocked(): boolean {
+  return cryptoKey !== null;
+}
+
+function readStore(): SecretStore {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || "{}");
+    return stored && typeof stored === "object" ? (stored as SecretStore) : {};
+  } catch {
+    return {};
+  }
+}
+
+function writeStore(store: SecretStore): boolean {
+  try {
+    if (Object.keys(store).length === 0) {
+      localStorage.removeItem(STORAGE_KEY);
+      syncedStore = null;
+    } else {
+      syncedStore = JSON.stringify(store);
+      localStorage.setItem(STORAGE_KEY, syncedStore);
+    }
+    return true;
+  } catch (error) {
+    console.error("Failed to save encrypted keys:", error);
+    return false;
+  }
+}
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = "";
+  for (let i = 0; i < bytes.length; i++) {
+    binary += String.fromCharCode(bytes[i]);
+  }
+  return btoa(binary);
+}
+
+function fromBase64(text: string): Uint8Array<ArrayBuffer> {
+  const binary = atob(text);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+async function encrypt(key: CryptoKey, id: string, value: string): Promise<EncryptedSecret> {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const data = await crypto.subtle.encrypt(
+    { name: "AES-GCM", iv, additionalData: new TextEncoder().encode(id) },
+    key,
+    new TextEncoder().encode(value)
+  );
+  return { iv: toBase64(iv), data: toBase64(new Uint8Array(data)) };
+}
+
+async function decrypt(key: CryptoKey, id: string, secret: EncryptedSecret): Promise<string> {
+  const data = await crypto.subtle.decrypt(
+    { name: "AES-GCM", iv: fromBase64(secret.iv), additionalData: new TextEncoder().encode(id) },
+    key,
+    fromBase64(secret.data)
+  );
+  return new TextDecoder().decode(data);
+}
+
+function readRawStore(): string | null {
+  try {
+    return localStorage.getItem(STORAGE_KEY);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Decrypt the stored keys into memory, unless they are unchanged since the last sync
+ */
+async function syncSecrets(key: CryptoKey): Promise<void> {
+  const raw = readRawStore();
+  if (raw === syncedStore) {
+    return;
+  }
+  const store = readStore();
+  const decrypted = new Map<string, string>();
+  const unreadable: string[] = [];
+
+  for (const id of Object.keys(store)) {
+    try {
+      decrypted.set(id, await decrypt(key, id, store[id]));
+    } catch {
+      unreadable.push(id);
+    }
+  }
+
+  // Stored keys replace those in memory, except ones set here and still being written
+  Array.from(secrets.keys()).forEach((id) => {
+    if (!decrypted.has(id) && !unsaved.has(id)) secrets.delete(id);
+  });
+  decrypted.forEach((value, id) => {
+    if (!unsaved.has(id)) secrets.set(id, value);
+  });
+  syncedStore = raw;
+
+  // Encrypted with a key that no longer exists (e.g. site data partly cleared)
+  if (unreadable.length > 0) {
+    console.warn(`Dropped ${unreadable.length} API key(s) that could not be decrypted`);
+    unreadable.forEach((id) => delete store[id]);
+    writeStore(store);
+  }
+}
+
+/**
+ * Load the encryption key and decrypt the stored API keys into memory.
+ * Call before reading keys in a long-lived runtime: keys saved by the other
+ * runtime since the last call are picked up (the key itself loads once).
+ * @returns false when encryption is unavailable or the key store could not be opened
+ */
+export async function unlockKeyVault(): Promise<boolean> {
+  if (!isKeyVaultSupported()) {
+    return false;
+  }
+  if (!unlocking) {
+    unlocking = getOrCreateCryptoKey()
+      .then((key) => {
+        cryptoKey = key;
+        return true;
+      })
+      .catch((error) => {
+        console.error("Failed to unlock API keys:", error);
+        unlocking = null;
+        return false;
+      });
+  }
+  if (!(await unlocking) || !cryptoKey) {
+    return false;
+  }
+  if (!syncing) {
+    syncing = syncSecrets(cryptoKey).finally(() => {
+      syncing = null;
+    });
+  }
+  await syncing;
+  return true;
+}
+
+/**
+ * Decrypted API key, or undefined when none is stored or the vault is locked
+ */
+export function getSecret(id: string): string | undefined {
+  return secrets.get(id);
+}
+
+/**
+ * Ids of all stored API keys
+ */
+export function getSecretIds(): string[] {
+  const ids = Object.keys(readStore());
+  secrets.forEach((_value, id) => {
+    if (ids.indexOf(id) === -1) ids.push(id);
+  });
+  return ids;
+}
+
+/**
+ * Store an API key (an empty value removes it). The key is usable at once;
+ * encrypting and writing it happens in the background.
+ * @returns Resolves to false if this or an earlier pending write failed
+ */
+export function setSecret(id: string, value: string): Promise<boolean> {
+  if (value) {
+    secrets.set(id, value);
+  } else {
+    secrets.delete(id);
+  }
+  unsaved.set(id, (unsaved.get(id) || 0) + 1);
+  const written = () => {
+    const count = (unsaved.get(id) || 1) - 1;
+    if (count > 0) unsaved.set(id, count);
+    else unsaved.delete(id);
+  };
+
+  pendingWrites = pendingWrites.then(async (ok) => {
+    if (!(await unlockKeyVault()) || !cryptoKey) {
+      return false;
+    }
+    const store = readStore();
+    if (value) {
+      store[id] = await encrypt(cryptoKey, id, value);
+    } else {
+      delete store[id];
+    }
+    return writeStore(store) && ok;
+  });
+  pendingWrites = pendingWrites
+    .catch((error) => {
+      console.error("Failed to encrypt API key:", error);
+      return false;
+    })
+    .then((ok) => {
+      written();
+      return ok;
+    });
+  return pendingWrites;
+}
+
+/**
+ * Wait for pending writes
+ * @returns false if any write since the last call failed
+ */
+export async function whenSecretsSaved(): Promise<boolean> {
+  const current = pendingWrites;
+  const ok = await current;
+  if (pendingWrites === current) {
+    pendingWrites = Promise.resolve(true);
+  }
+  return ok;
+}
+
+/**
+ * Forget all API keys: drop them from memory and storage and delete the encryption key
+ */
+export async function forgetKeyVault(): Promise<void> {
+  await pendingWrites;
+  secrets.clear();
+  unsaved.clear();
+  syncedStore = null;
+  cryptoKey = null;
+  unlocking = null;
+  pendingWrites = Promise.resolve(true);
+  try {
+    localStorage.removeItem(STORAGE_KEY);
+  } catch {
+    // Nothing stored
+  }
+  if (isCryptoKeyStoreSupported()) {
+    try {
+      await deleteCryptoKey();
+    } catch (error) {
+      console.warn("Failed to delete encryption key:", error);
+    }
+  }
+}
+
+export const keyVault = {
+  isKeyVaultSupported,
+  isKeyVaultUnlocked,
+  unlockKeyVault,
+  getSecret,
+  getSecretIds,
+  setSecret,
+  whenSecretsSaved,
+  forgetKeyVault,
+};
+
+export default keyVault;
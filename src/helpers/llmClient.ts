@@ -1,14 +1,36 @@
 /**
- * LLM Client - Handles communication with OpenAI-compatible LLM APIs
+ * LLM Client - Handles communication with LLM APIs
+ *
+ * Requests are built in OpenAI-shaped internal types and translated by the
+ * configured provider adapter (OpenAI-compatible, Anthropic, Gemini, Ollama).
  */
 
-import {
-  ChatMessage,
-  LLMResponse,
-  LLMErrorResponse,
-} from "../types/llm";
+import { ChatMessage, ChatErrorKind, LLMUsage, ToolCall } from "../types/llm";
 import { ToolDefinition } from "../types/tools";
 import { ModelConfig } from "../types/settings";
+import { ProviderAdapter } from "../types/provider";
+import { UsageContext } from "../types/usage";
+import {
+  SSELineBuffer,
+  NDJSONLineBuffer,
+  ChatStreamAccumulator,
+} from "./streamParser";
+import { getProviderAdapter } from "./providers";
+import { readErrorMessage } from "./providers/common";
+import {
+  runWithFallback,
+  classifyStatus,
+  parseRetryAfter,
+  RetryInfo,
+  DEFAULT_MAX_ATTEMPTS,
+} from "./modelFallback";
+import { recordUsage } from "./usageTracker";
+import {
+  countMessageTokens,
+  countToolTokens,
+  getInputTokenLimit,
+  formatTokens,
+} from "./tokenBudget";
 
 /**
  * Parameters for sending a chat request
@@ -21,6 +43,16 @@ export interface SendChatParams {
   toolChoice?: "auto" | "none" | "required";
   temperature?: number;
   maxTokens?: number;
+  /** Messages placed after the system prompt that are never pruned (e.g. the conversation summary) */
+  pinnedMessages?: ChatMessage[];
+  /** Models tried in order when `config` keeps failing (rate limits, server errors, timeouts) */
+  fallbacks?: ModelConfig[];
+  /** Attempts per model for transient failures (defaults to 3; 1 disables retries) */
+  maxAttempts?: number;
+  /** Called before a retry or a switch to the next fallback model */
+  onRetry?: (info: RetryInfo) => void;
+  /** Task and session the token usage of successful requests is recorded under */
+  usageContext?: UsageContext;
   /** External AbortController for cancellation support */
   abortController?: AbortController;
 }
@@ -37,69 +69,67 @@ export interface ChatResult {
     completionTokens: number;
     totalTokens: number;
   };
+  /** Set for transient failures that may succeed on retry */
+  errorKind?: ChatErrorKind;
+  /** Wait requested by the server before retrying */
+  retryAfterMs?: number;
+  /** Model that produced the answer */
+  model?: string;
+  /** True when the answer came from a fallback model */
+  usedFallback?: boolean;
 }
 
 /**
- * Default request timeout in milliseconds
+ * Callbacks for streamed responses
  */
-const DEFAULT_TIMEOUT = 180000;
+export interface StreamCallbacks {
+  /** Called for every text fragment, with the full text received so far */
+  onToken?: (token: string, accumulated: string) => void;
+  /** Called whenever streamed tool calls change (arguments may be partial JSON) */
+  onToolCallDelta?: (toolCalls: ToolCall[]) => void;
+}
 
 /**
- * Maximum request body size (in characters) to avoid WebView/network failures.
- * This is a pragmatic safety limit; large payloads are more likely to fail in Office WebViews.
+ * Parameters for a streaming chat request
  */
-const MAX_REQUEST_BODY_CHARS = 220_000;
+export interface StreamChatParams extends SendChatParams, StreamCallbacks {}
 
-function estimateChars(obj: unknown): number {
-  try {
-    return JSON.stringify(obj).length;
-  } catch {
-    return Number.POSITIVE_INFINITY;
-  }
-}
-
-function formatKb(chars: number): string {
-  // Rough estimate: 1 char ~= 1 byte for ASCII; for CJK it's more, but this is good enough for UI hints.
-  const kb = Math.round(chars / 1024);
-  return `${kb} KB`;
-}
+/**
+ * Default request timeout in milliseconds.
+ * For streaming requests this is an idle timeout: it restarts whenever a chunk arrives.
+ */
+const DEFAULT_TIMEOUT = 180000;
 
 /**
- * Build the API endpoint URL
+ * Endpoints that rejected `stream_options` (some OpenAI-compatible servers and
+ * proxies refuse unknown parameters); their streams are sent without it
  */
-function buildEndpoint(baseUrl: string): string {
-  // Remove trailing slash if present
-  const url = baseUrl.replace(/\/+$/, "");
-  
-  // If URL already contains the path, don't add it again
-  if (url.includes("/chat/completions")) {
-    return url;
-  }
-  
-  // If URL ends with /v1, just add /chat/completions
-  if (url.endsWith("/v1")) {
-    return `${url}/chat/completions`;
-  }
-  
-  // Otherwise add the full path
-  return `${url}/v1/chat/completions`;
-}
+const streamOptionsRejected = new Set<string>();
 
 /**
  * Create an AbortController with timeout and optional external signal linkage.
  */
 function createTimeoutController(timeout: number): {
   controller: AbortController;
-  timeoutId: ReturnType<typeof setTimeout>;
+  clear: () => void;
+  touch: () => void;
   didTimeout: () => boolean;
   attachExternal: (external?: AbortController) => () => void;
 } {
   const controller = new AbortController();
   let timedOut = false;
-  const timeoutId = setTimeout(() => {
+  const onTimeout = () => {
     timedOut = true;
     controller.abort();
-  }, timeout);
+  };
+  let timeoutId = setTimeout(onTimeout, timeout);
+
+  const clear = () => clearTimeout(timeoutId);
+  // Restart the timer (used by streaming requests while data keeps arriving)
+  const touch = () => {
+    clearTimeout(timeoutId);
+    timeoutId = setTimeout(onTimeout, timeout);
+  };
 
   const attachExternal = (external?: AbortController) => {
     if (!external) return () => {};
@@ -113,13 +143,28 @@ function createTimeoutController(timeout: number): {
     return () => external.signal.removeEventListener("abort", onAbort);
   };
 
-  return { controller, timeoutId, didTimeout: () => timedOut, attachExternal };
+  return { controller, clear, touch, didTimeout: () => timedOut, attachExternal };
 }
 
 /**
- * Send a chat completion request to the LLM API
+ * A validated, size-checked request ready to be sent
+ */
+interface PreparedRequest {
+  adapter: ProviderAdapter;
+  endpoint: string;
+  headers: Record<string, string>;
+  requestBody: Record<string, unknown>;
+  requestTokens: number;
+  pruned: boolean;
+}
+
+/**
+ * Validate config, build the request body and fit it into the model's context window
  */
-export async function sendChat(params: SendChatParams): Promise<ChatResult> {
+function prepareRequest(
+  params: SendChatParams,
+  stream: boolean
+): { request?: PreparedRequest; error?: string } {
   const {
     config,
     systemPrompt,
@@ -128,201 +173,474 @@ export async function sendChat(params: SendChatParams): Promise<ChatResult> {
     toolChoice = "auto",
     temperature = 0.7,
     maxTokens = 4096,
-    abortController: externalController,
+    pinnedMessages = [],
   } = params;
 
+  const adapter = getProviderAdapter(config.provider);
+
   // Validate config
   if (!config.baseUrl) {
-    return { success: false, error: "Base URL is not configured" };
+    return { error: "Base URL is not configured" };
   }
-  if (!config.apiKey) {
-    return { success: false, error: "API Key is not configured" };
+  if (adapter.requiresApiKey && !config.apiKey) {
+    return { error: "API Key is not configured" };
   }
   if (!config.model) {
-    return { success: false, error: "Model is not configured" };
+    return { error: "Model is not configured" };
   }
 
-  // Build messages array with system prompt
-  const fullMessages: ChatMessage[] = [
-    { role: "system", content: systemPrompt },
-    ...messages,
-  ];
-
-  // Build request body - use type assertion for flexibility with different APIs
-  const requestBody: Record<string, unknown> = {
-    model: config.model,
-    messages: fullMessages,
-    temperature,
-    max_tokens: maxTokens,
-    stream: false,
-  };
-
-  // Add tools if provided (some models may not support this)
-  if (tools && tools.length > 0) {
-    requestBody.tools = tools;
-    requestBody.tool_choice = toolChoice;
-  }
-
-  const endpoint = buildEndpoint(config.baseUrl);
-
-  // Always apply a timeout; Office WebViews can hang on long requests.
-  // Also link to external AbortController (Cancel button, etc.).
-  const useExternalController = !!externalController;
-  const { controller, timeoutId, didTimeout, attachExternal } =
-    createTimeoutController(DEFAULT_TIMEOUT);
-  const detachExternal = attachExternal(externalController);
+  // Build messages array with system prompt and pinned messages
+  const pinned: ChatMessage[] = [{ role: "system", content: systemPrompt }, ...pinnedMessages];
+  const fullMessages: ChatMessage[] = [...pinned, ...messages];
 
-  // Guardrail: avoid huge payloads that frequently fail in Office WebViews (e.g. "Load failed").
-  // Try pruning oldest messages (keep system + most recent messages) before giving up.
+  // Guardrail: stay within the model's context window (and the payload size
+  // Office WebViews handle). Prune oldest messages (keep pinned + most recent) before giving up.
+  const tokenLimit = getInputTokenLimit(config, maxTokens);
+  const toolTokens = countToolTokens(tools);
+  const first = pinned.length;
   let prunedMessages = fullMessages;
   let pruned = false;
-  let requestChars = estimateChars({ ...requestBody, messages: prunedMessages });
-  while (requestChars > MAX_REQUEST_BODY_CHARS && prunedMessages.length > 3) {
-    // Remove the oldest non-system message (index 1).
-    prunedMessages = [prunedMessages[0], ...prunedMessages.slice(2)];
+  let requestTokens = countMessageTokens(prunedMessages) + toolTokens;
+  while (requestTokens > tokenLimit && prunedMessages.length > first + 2) {
+    // Remove the oldest unpinned message.
+    prunedMessages = [...prunedMessages.slice(0, first), ...prunedMessages.slice(first + 1)];
+    // Tool results must follow the assistant message that requested them.
+    while (prunedMessages.length > first + 1 && prunedMessages[first].role === "tool") {
+      prunedMessages = [...prunedMessages.slice(0, first), ...prunedMessages.slice(first + 1)];
+    }
     pruned = true;
-    requestChars = estimateChars({ ...requestBody, messages: prunedMessages });
+    requestTokens = countMessageTokens(prunedMessages) + toolTokens;
   }
-  if (pruned) {
-    requestBody.messages = prunedMessages;
-  }
-  if (requestChars > MAX_REQUEST_BODY_CHARS) {
-    clearTimeout(timeoutId);
-    detachExternal();
+  if (requestTokens > tokenLimit) {
     return {
-      success: false,
       error:
-        `请求内容过长（约 ${formatKb(requestChars)}），` +
-        "可能导致 Office 内置浏览器网络请求失败。建议：清空对话后重试，或把任务拆分成更小的步骤。",
+        `请求内容过长（约 ${formatTokens(requestTokens)} tokens，上限 ${formatTokens(tokenLimit)} tokens），` +
+        "超出模型上下文窗口或 Office 内置浏览器可处理的大小。建议：清空对话后重试，或把任务拆分成更小的步骤。",
     };
   }
 
+  // Translate to the provider's native request (the system prompt is passed separately)
+  const { endpoint, headers, body } = adapter.buildRequest({
+    config,
+    systemPrompt,
+    messages: prunedMessages.slice(1),
+    tools,
+    toolChoice,
+    temperature,
+    maxTokens,
+    stream,
+  });
+
+  return {
+    request: {
+      adapter,
+      endpoint,
+      headers,
+      requestBody: body,
+      requestTokens,
+      pruned,
+    },
+  };
+}
+
+/**
+ * POST the request, retrying once for transient WebView/network failures
+ */
+async function postWithRetry(
+  request: PreparedRequest,
+  controller: AbortController,
+  didTimeout: () => boolean
+): Promise<Response> {
+  const doFetch = async () =>
+    fetch(request.endpoint, {
+      method: "POST",
+      headers: request.headers,
+      body: JSON.stringify(request.requestBody),
+      signal: controller.signal,
+    });
+
+  try {
+    return await doFetch();
+  } catch (e) {
+    const msg = e instanceof Error ? e.message : String(e);
+    const transient =
+      msg.includes("Load failed") ||
+      msg.includes("Failed to fetch") ||
+      msg.includes("NetworkError");
+    if (!didTimeout() && !controller.signal.aborted && transient) {
+      await new Promise((r) => setTimeout(r, 500));
+      return doFetch();
+    }
+    throw e;
+  }
+}
+
+/**
+ * Request without the `stream_options` parameter
+ */
+function withoutStreamOptions(request: PreparedRequest): PreparedRequest {
+  const requestBody = { ...request.requestBody };
+  delete requestBody.stream_options;
+  return { ...request, requestBody };
+}
+
+/**
+ * Whether a failed response rejects the `stream_options` parameter.
+ * Reads a copy, so the response can still be reported.
+ */
+async function rejectsStreamOptions(response: Response): Promise<boolean> {
+  if (response.status !== 400) return false;
   try {
-    const doFetch = async () =>
-      fetch(endpoint, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          Authorization: `Bearer ${config.apiKey}`,
-        },
-        body: JSON.stringify(requestBody),
-        signal: controller.signal,
-      });
-
-    // Retry once for transient WebView/network failures.
-    let response: Response;
+    return /stream_options/i.test(await response.clone().text());
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Extract a readable error message from a non-OK response
+ */
+async function readErrorResponse(response: Response, request: PreparedRequest): Promise<string> {
+  let errorMessage = `API request failed with status ${response.status}`;
+  try {
+    const errorText = await response.text();
+    // Try to parse as JSON
     try {
-      response = await doFetch();
-    } catch (e) {
-      const msg = e instanceof Error ? e.message : String(e);
-      const transient =
-        msg.includes("Load failed") ||
-        msg.includes("Failed to fetch") ||
-        msg.includes("NetworkError");
-      if (!didTimeout() && !controller.signal.aborted && transient) {
-        await new Promise((r) => setTimeout(r, 500));
-        response = await doFetch();
-      } else {
-        throw e;
+      const errorData: unknown = JSON.parse(errorText);
+      const message = request.adapter.parseError(errorData) || readErrorMessage(errorData);
+      if (message) {
+        errorMessage = message;
+      }
+    } catch {
+      // If not JSON, use the raw text (truncated)
+      if (errorText) {
+        errorMessage = errorText.substring(0, 200);
       }
     }
+  } catch {
+    // Ignore parse errors
+  }
+  console.error("API Error:", errorMessage, "Endpoint:", request.endpoint);
+  return errorMessage;
+}
 
-    clearTimeout(timeoutId);
-    detachExternal();
+/**
+ * Failed result for a non-OK response, classified for retrying
+ */
+async function toResponseError(response: Response, request: PreparedRequest): Promise<ChatResult> {
+  return {
+    success: false,
+    error: await readErrorResponse(response, request),
+    errorKind: classifyStatus(response.status),
+    retryAfterMs: parseRetryAfter(response.headers),
+  };
+}
 
-    // Handle non-OK responses
-    if (!response.ok) {
-      let errorMessage = `API request failed with status ${response.status}`;
+/**
+ * Map a thrown fetch/stream error to a user-facing result
+ */
+function toErrorResult(
+  error: unknown,
+  request: PreparedRequest,
+  didTimeout: () => boolean,
+  useExternalController: boolean
+): ChatResult {
+  const { endpoint, requestTokens, pruned } = request;
+
+  if (error instanceof Error) {
+    // Some Office WebViews throw TypeError("Load failed") on abort/timeout.
+    if (didTimeout()) {
+      return {
+        success: false,
+        error:
+          "请求超时。复杂任务可能需要更久，建议拆分任务或减少上下文（清空对话/缩短输入）后重试。",
+        errorKind: "timeout",
+      };
+    }
+    if (error.name === "AbortError") {
+      // Check if it was user-initiated cancellation or timeout
+      if (useExternalController) {
+        return { success: false, error: "已取消请求" };
+      }
+      return { success: false, error: "Request timed out", errorKind: "timeout" };
+    }
+    // Improve diagnosability for Office WebView network errors.
+    const endpointHost = (() => {
       try {
-        const errorText = await response.text();
-        // Try to parse as JSON
-        try {
-          const errorData = JSON.parse(errorText) as LLMErrorResponse;
-          if (errorData?.error?.message) {
-            errorMessage = errorData.error.message;
-          }
-        } catch {
-          // If not JSON, use the raw text (truncated)
-          if (errorText) {
-            errorMessage = errorText.substring(0, 200);
-          }
-        }
+        return new URL(endpoint).host;
       } catch {
-        // Ignore parse errors
+        return endpoint;
       }
-      console.error("API Error:", errorMessage, "Endpoint:", endpoint);
-      return { success: false, error: errorMessage };
+    })();
+    console.error("Network error:", {
+      name: error.name,
+      message: error.message,
+      endpointHost,
+      requestTokens,
+      pruned,
+    });
+    if (error.message === "Load failed" || error.message === "Failed to fetch") {
+      return {
+        success: false,
+        error:
+          `网络请求失败（${error.message}）。` +
+          `常见原因：网络/代理限制、TLS 证书问题、或请求过大/耗时过长导致连接被中断。` +
+          `请检查 Base URL 是否可从 Word 访问（当前域名：${endpointHost}），` +
+          "并尝试清空对话、缩短输入或拆分任务后重试。",
+        errorKind: "network",
+      };
     }
+    return { success: false, error: `Network error: ${error.message}`, errorKind: "network" };
+  }
 
-    // Parse successful response
-    const data = (await response.json()) as LLMResponse;
+  return { success: false, error: "Unknown error occurred" };
+}
 
-    if (!data.choices || data.choices.length === 0) {
-      return { success: false, error: "No response from model" };
+function toUsage(usage?: LLMUsage): ChatResult["usage"] {
+  return usage
+    ? {
+        promptTokens: usage.prompt_tokens,
+        completionTokens: usage.completion_tokens,
+        totalTokens: usage.total_tokens,
+      }
+    : undefined;
+}
+
+/**
+ * Usage reported by the server, else estimated from the request and the answer
+ * (some OpenAI-compatible servers leave it out, notably in streams)
+ */
+function usageOrEstimate(
+  usage: LLMUsage | undefined,
+  request: PreparedRequest,
+  message: ChatMessage
+): ChatResult["usage"] {
+  if (usage) {
+    return toUsage(usage);
+  }
+  const completionTokens = countMessageTokens([message]);
+  return {
+    promptTokens: request.requestTokens,
+    completionTokens,
+    totalTokens: request.requestTokens + completionTokens,
+  };
+}
+
+/**
+ * Run a request on the configured model, then on the fallbacks, retrying transient failures
+ */
+async function withFallback(
+  params: SendChatParams,
+  send: (params: SendChatParams) => Promise<ChatResult>
+): Promise<ChatResult> {
+  const configs = [params.config, ...(params.fallbacks || [])];
+  const result = await runWithFallback(configs, (config) => send({ ...params, config }), {
+    maxAttempts: params.maxAttempts ?? DEFAULT_MAX_ATTEMPTS,
+    abortController: params.abortController,
+    onRetry: params.onRetry,
+  });
+  if (result.success && result.usage && params.usageContext) {
+    recordUsage(params.usageContext, result.model || params.config.model, result.usage);
+  }
+  return result;
+}
+
+/**
+ * Send a chat completion request to the LLM API
+ */
+export function sendChat(params: SendChatParams): Promise<ChatResult> {
+  return withFallback(params, sendChatOnce);
+}
+
+/**
+ * Send a streaming chat completion request (SSE or NDJSON, per provider).
+ * Tokens and tool call fragments are reported through the callbacks as they arrive;
+ * the returned result contains the fully assembled message, same as sendChat.
+ * A retried or failed-over request streams again from the start.
+ */
+export function streamChat(params: StreamChatParams): Promise<ChatResult> {
+  return withFallback(params, (attempt) => streamChatOnce({ ...params, ...attempt }));
+}
+
+/**
+ * Send one chat completion request to the configured model
+ */
+async function sendChatOnce(params: SendChatParams): Promise<ChatResult> {
+  const { abortController: externalController } = params;
+
+  const prepared = prepareRequest(params, false);
+  if (!prepared.request) {
+    return { success: false, error: prepared.error };
+  }
+  const request = prepared.request;
+
+  // Always apply a timeout; Office WebViews can hang on long requests.
+  // Also link to external AbortController (Cancel button, etc.).
+  const useExternalController = !!externalController;
+  const { controller, clear, didTimeout, attachExternal } =
+    createTimeoutController(DEFAULT_TIMEOUT);
+  const detachExternal = attachExternal(externalController);
+
+  try {
+    const response = await postWithRetry(request, controller, didTimeout);
+
+    clear();
+    detachExternal();
+
+    // Handle non-OK responses
+    if (!response.ok) {
+      return toResponseError(response, request);
     }
 
-    const choice = data.choices[0];
+    // Parse successful response
+    const data = request.adapter.parseResponse(await response.json());
+    if (!data.message) {
+      return { success: false, error: data.error || "No response from model" };
+    }
 
     return {
       success: true,
-      message: choice.message,
-      usage: data.usage
-        ? {
-            promptTokens: data.usage.prompt_tokens,
-            completionTokens: data.usage.completion_tokens,
-            totalTokens: data.usage.total_tokens,
-          }
-        : undefined,
+      message: data.message,
+      usage: usageOrEstimate(data.usage, request, data.message),
     };
   } catch (error) {
-    clearTimeout(timeoutId);
+    clear();
     detachExternal();
+    return toErrorResult(error, request, didTimeout, useExternalController);
+  }
+}
+
+/**
+ * Send one streaming request to the configured model
+ */
+async function streamChatOnce(params: StreamChatParams): Promise<ChatResult> {
+  const {
+    abortController: externalController,
+    onToken,
+    onToolCallDelta,
+  } = params;
+
+  const prepared = prepareRequest(params, true);
+  if (!prepared.request) {
+    return { success: false, error: prepared.error };
+  }
+  let request = prepared.request;
+  if (streamOptionsRejected.has(request.endpoint)) {
+    request = withoutStreamOptions(request);
+  }
+
+  const useExternalController = !!externalController;
+  const { controller, clear, touch, didTimeout, attachExternal } =
+    createTimeoutController(DEFAULT_TIMEOUT);
+  const detachExternal = attachExternal(externalController);
+
+  try {
+    let response = await postWithRetry(request, controller, didTimeout);
+    if (
+      !response.ok &&
+      request.requestBody.stream_options &&
+      (await rejectsStreamOptions(response))
+    ) {
+      // Send again without it; usage is then estimated
+      streamOptionsRejected.add(request.endpoint);
+      request = withoutStreamOptions(request);
+      response = await postWithRetry(request, controller, didTimeout);
+    }
+
+    if (!response.ok) {
+      clear();
+      detachExternal();
+      return toResponseError(response, request);
+    }
 
-    if (error instanceof Error) {
-      // Some Office WebViews throw TypeError("Load failed") on abort/timeout.
-      if (didTimeout()) {
-        return {
-          success: false,
-          error:
-            "请求超时。复杂任务可能需要更久，建议拆分任务或减少上下文（清空对话/缩短输入）后重试。",
-        };
+    // Some OpenAI-compatible servers ignore `stream: true` and answer with plain JSON.
+    const contentType = response.headers.get("content-type") || "";
+    if (contentType.includes("application/json")) {
+      const data = request.adapter.parseResponse(await response.json());
+      clear();
+      detachExternal();
+      if (!data.message) {
+        return { success: false, error: data.error || "No response from model" };
       }
-      if (error.name === "AbortError") {
-        // Check if it was user-initiated cancellation or timeout
-        if (useExternalController) {
-          return { success: false, error: "已取消请求" };
+      const message = data.message;
+      if (message.content) onToken?.(message.content, message.content);
+      if (message.tool_calls) onToolCallDelta?.(message.tool_calls);
+      return { success: true, message, usage: usageOrEstimate(data.usage, request, message) };
+    }
+
+    const lineBuffer =
+      request.adapter.streamFormat === "ndjson" ? new NDJSONLineBuffer() : new SSELineBuffer();
+    const translate = request.adapter.createStreamTranslator();
+    const accumulator = new ChatStreamAccumulator();
+    let streamError: string | null = null;
+
+    const handlePayloads = (payloads: string[]): boolean => {
+      for (const payload of payloads) {
+        const chunks = translate(payload);
+        if (chunks === "done") return true;
+        for (const chunk of chunks) {
+          if (chunk.error) {
+            streamError = chunk.error.message || "Stream error";
+            return true;
+          }
+          const delta = accumulator.apply(chunk);
+          if (delta.content) {
+            onToken?.(delta.content, accumulator.getContent());
+          }
+          if (delta.toolCallsChanged) {
+            onToolCallDelta?.(accumulator.getToolCalls());
+          }
         }
-        return { success: false, error: "Request timed out" };
       }
-      // Improve diagnosability for Office WebView network errors.
-      const endpointHost = (() => {
-        try {
-          return new URL(endpoint).host;
-        } catch {
-          return endpoint;
-        }
-      })();
-      console.error("Network error:", {
-        name: error.name,
-        message: error.message,
-        endpointHost,
-        requestSize: formatKb(requestChars),
-        pruned,
-      });
-      if (error.message === "Load failed" || error.message === "Failed to fetch") {
-        return {
-          success: false,
-          error:
-            `网络请求失败（${error.message}）。` +
-            `常见原因：网络/代理限制、TLS 证书问题、或请求过大/耗时过长导致连接被中断。` +
-            `请检查 Base URL 是否可从 Word 访问（当前域名：${endpointHost}），` +
-            "并尝试清空对话、缩短输入或拆分任务后重试。",
-        };
+      return false;
+    };
+
+    if (response.body && typeof response.body.getReader === "function") {
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder("utf-8");
+      let finished = false;
+      while (!finished) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        touch();
+        finished = handlePayloads(lineBuffer.push(decoder.decode(value, { stream: true })));
       }
-      return { success: false, error: `Network error: ${error.message}` };
+      if (finished) {
+        reader.cancel().catch(() => {});
+      } else {
+        handlePayloads(lineBuffer.push(decoder.decode()));
+        handlePayloads(lineBuffer.flush());
+      }
+    } else {
+      // No ReadableStream support in this WebView: parse the whole body at once.
+      const text = await response.text();
+      handlePayloads(lineBuffer.push(text));
+      handlePayloads(lineBuffer.flush());
     }
 
-    return { success: false, error: "Unknown error occurred" };
+    clear();
+    detachExternal();
+
+    if (streamError) {
+      // Errors before any output (e.g. "overloaded") are worth another attempt
+      const received = accumulator.getContent() || accumulator.getToolCalls().length > 0;
+      return { success: false, error: streamError, errorKind: received ? undefined : "server" };
+    }
+
+    const message = accumulator.toMessage();
+    if (!message.content && !message.tool_calls) {
+      return { success: false, error: "No response from model" };
+    }
+
+    return {
+      success: true,
+      message,
+      usage: usageOrEstimate(accumulator.getUsage(), request, message),
+    };
+  } catch (error) {
+    clear();
+    detachExternal();
+    return toErrorResult(error, request, didTimeout, useExternalController);
   }
 }
 
@@ -342,7 +660,21 @@ export async function sendSimpleChat(
 }
 
 /**
- * Continue a conversation with tool results
+ * Convert tool results into `tool` role messages for the follow-up request
+ */
+export function toToolMessages(
+  toolResults: Array<{ toolCallId: string; result: string }>
+): ChatMessage[] {
+  return toolResults.map((tr) => ({
+    role: "tool" as const,
+    tool_call_id: tr.toolCallId,
+    content: tr.result,
+  }));
+}
+
+/**
+ * Continue a conversation with tool results.
+ * Uses `params.toolChoice` so the model may chain further tool calls.
  */
 export async function continueWithToolResults(
   params: SendChatParams,
@@ -352,18 +684,9 @@ export async function continueWithToolResults(
   // Add the assistant message with tool calls
   const messagesWithAssistant = [...params.messages, assistantMessage];
 
-  // Add tool result messages
-  const toolResultMessages: ChatMessage[] = toolResults.map((tr) => ({
-    role: "tool" as const,
-    tool_call_id: tr.toolCallId,
-    content: tr.result,
-  }));
-
   return sendChat({
     ...params,
-    messages: [...messagesWithAssistant, ...toolResultMessages],
-    // After tool results, we typically don't want more tool calls
-    toolChoice: "none",
+    messages: [...messagesWithAssistant, ...toToolMessages(toolResults)],
   });
 }
 
@@ -372,8 +695,10 @@ export async function continueWithToolResults(
  */
 export const llmClient = {
   sendChat,
+  streamChat,
   sendSimpleChat,
   continueWithToolResults,
+  toToolMessages,
 };
 
 export default llmClient;
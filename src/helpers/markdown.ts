@@ -0,0 +1,336 @@
+/**
+ * Markdown - Shared Markdown parser
+ *
+ * Parses the Markdown subset the models produce into blocks, used both by
+ * MarkdownRenderer in the task pane and by markdownToHtml for writing
+ * native-looking content (headings, lists, emphasis, tables) into Word.
+ */
+
+import { MarkupBaseStyle, toStyleAttribute } from "./formatMarkup";
+
+/**
+ * A run of inline text
+ */
+export type MarkdownInline =
+  | { type: "text"; text: string }
+  | { type: "bold"; text: string }
+  | { type: "italic"; text: string }
+  | { type: "code"; text: string }
+  | { type: "link"; text: string; href: string };
+
+/**
+ * A block-level element
+ */
+export type MarkdownBlock =
+  | { type: "blank" }
+  | { type: "rule" }
+  | { type: "heading"; level: number; content: MarkdownInline[] }
+  | { type: "paragraph"; content: MarkdownInline[] }
+  | { type: "blockquote"; content: MarkdownInline[] }
+  | { type: "list"; ordered: boolean; items: MarkdownInline[][] }
+  | { type: "table"; header: MarkdownInline[][]; rows: MarkdownInline[][][] }
+  | { type: "code"; text: string };
+
+const CODE_FONT = "Consolas";
+const TABLE_SEPARATOR_PATTERN = /^\|?\s*:?-{3,}:?\s*(\|\s*:?-{3,}:?\s*)*\|?$/;
+
+/**
+ * Append inline text, merging with a previous text run
+ */
+function pushText(parts: MarkdownInline[], text: string): void {
+  const last = parts[parts.length - 1];
+  if (last && last.type === "text") {
+    last.text += text;
+  } else {
+    parts.push({ type: "text", text });
+  }
+}
+
+/**
+ * Parse inline code, bold, italic and links
+ */
+export function parseInline(line: string): MarkdownInline[] {
+  const parts: MarkdownInline[] = [];
+  let remaining = line;
+
+  while (remaining.length > 0) {
+    const codeMatch = remaining.match(/^`([^`]+)`/);
+    if (codeMatch) {
+      parts.push({ type: "code", text: codeMatch[1] });
+      remaining = remaining.slice(codeMatch[0].length);
+      continue;
+    }
+
+    const boldMatch = remaining.match(/^\*\*([^*]+)\*\*/);
+    if (boldMatch) {
+      parts.push({ type: "bold", text: boldMatch[1] });
+      remaining = remaining.slice(boldMatch[0].length);
+      continue;
+    }
+
+    const italicMatch = remaining.match(/^\*([^*]+)\*/);
+    if (italicMatch) {
+      parts.push({ type: "italic", text: italicMatch[1] });
+      remaining = remaining.slice(italicMatch[0].length);
+      continue;
+    }
+
+    const linkMatch = remaining.match(/^\[([^\]]+)\]\(([^)]+)\)/);
+    if (linkMatch) {
+      parts.push({ type: "link", text: linkMatch[1], href: linkMatch[2] });
+      remaining = remaining.slice(linkMatch[0].length);
+      continue;
+    }
+
+    // Regular text (take one character)
+    pushText(parts, remaining[0]);
+    remaining = remaining.slice(1);
+  }
+
+  return parts;
+}
+
+/**
+ * Split a pipe table row into cells
+ */
+function splitTableRow(line: string): string[] {
+  return line
+    .trim()
+    .replace(/^\|/, "")
+    .replace(/\|$/, "")
+    .split("|")
+    .map((cell) => cell.trim());
+}
+
+/**
+ * Parse Markdown into blocks
+ */
+export function parseMarkdown(text: string): MarkdownBlock[] {
+  const lines = text.split("\n");
+  const blocks: MarkdownBlock[] = [];
+  let list: { type: "list"; ordered: boolean; items: MarkdownInline[][] } | null = null;
+
+  const flushList = () => {
+    if (list) {
+      blocks.push(list);
+      list = null;
+    }
+  };
+
+  const addListItem = (ordered: boolean, item: string) => {
+    if (!list || list.ordered !== ordered) {
+      flushList();
+      list = { type: "list", ordered, items: [] };
+    }
+    list.items.push(parseInline(item));
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const trimmedLine = lines[i].trim();
+
+    if (trimmedLine === "") {
+      flushList();
+      blocks.push({ type: "blank" });
+      continue;
+    }
+
+    // Fenced code block
+    if (trimmedLine.startsWith("```")) {
+      flushList();
+      const codeLines: string[] = [];
+      i++;
+      while (i < lines.length && !lines[i].trim().startsWith("```")) {
+        codeLines.push(lines[i]);
+        i++;
+      }
+      blocks.push({ type: "code", text: codeLines.join("\n") });
+      continue;
+    }
+
+    if (/^(-{3,}|_{3,}|\*{3,})$/.test(trimmedLine)) {
+      flushList();
+      blocks.push({ type: "rule" });
+      continue;
+    }
+
+    const headerMatch = trimmedLine.match(/^(#{1,6})\s+(.+)$/);
+    if (headerMatch) {
+      flushList();
+      blocks.push({
+        type: "heading",
+        level: headerMatch[1].length,
+        content: parseInline(headerMatch[2]),
+      });
+      continue;
+    }
+
+    // Pipe table: header row followed by a separator row
+    const nextLine = i + 1 < lines.length ? lines[i + 1].trim() : "";
+    if (trimmedLine.includes("|") && TABLE_SEPARATOR_PATTERN.test(nextLine)) {
+      flushList();
+      const header = splitTableRow(trimmedLine).map(parseInline);
+      const rows: MarkdownInline[][][] = [];
+      i += 2;
+      while (i < lines.length && lines[i].trim().includes("|")) {
+        rows.push(splitTableRow(lines[i]).map(parseInline));
+        i++;
+      }
+      i--;
+      blocks.push({ type: "table", header, rows });
+      continue;
+    }
+
+    if (trimmedLine.startsWith(">")) {
+      flushList();
+      blocks.push({ type: "blockquote", content: parseInline(trimmedLine.slice(1).trim()) });
+      continue;
+    }
+
+    const ulMatch = trimmedLine.match(/^[-*+]\s+(.+)$/);
+    if (ulMatch) {
+      addListItem(false, ulMatch[1]);
+      continue;
+    }
+
+    const olMatch = trimmedLine.match(/^\d+\.\s+(.+)$/);
+    if (olMatch) {
+      addListItem(true, olMatch[1]);
+      continue;
+    }
+
+    flushList();
+    blocks.push({ type: "paragraph", content: parseInline(trimmedLine) });
+  }
+
+  flushList();
+  return blocks;
+}
+
+/**
+ * Plain text of inline content
+ */
+export function inlineToText(content: MarkdownInline[]): string {
+  return content.map((part) => part.text).join("");
+}
+
+/**
+ * Check whether text uses any Markdown syntax worth converting
+ */
+export function hasMarkdownSyntax(text: string): boolean {
+  return parseMarkdown(text).some(
+    (block) =>
+      (block.type !== "paragraph" && block.type !== "blank") ||
+      (block.type === "paragraph" && block.content.some((part) => part.type !== "text"))
+  );
+}
+
+/**
+ * Escape text for HTML
+ */
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+/**
+ * Convert inline content to HTML
+ */
+function inlineToHtml(content: MarkdownInline[]): string {
+  return content
+    .map((part) => {
+      const text = escapeHtml(part.text);
+      switch (part.type) {
+        case "bold":
+          return `<b>${text}</b>`;
+        case "italic":
+          return `<i>${text}</i>`;
+        case "code":
+          return `<span style="font-family:${CODE_FONT}">${text}</span>`;
+        case "link":
+          return /^(https?:|mailto:)/i.test(part.href)
+            ? `<a href="${escapeHtml(part.href)}">${text}</a>`
+            : text;
+        default:
+          return text;
+      }
+    })
+    .join("");
+}
+
+/**
+ * Convert Markdown to HTML for insertHtml
+ * @param markdown Markdown text
+ * @param base Character formatting for body text, so it matches the document
+ * instead of the HTML defaults (headings keep their Word heading style)
+ */
+export function markdownToHtml(markdown: string, base?: MarkupBaseStyle): string {
+  const style = toStyleAttribute(base);
+  const blocks = parseMarkdown(markdown).filter((block) => block.type !== "blank");
+
+  // A single paragraph stays inline so it can be inserted inside existing text
+  if (blocks.length === 1 && blocks[0].type === "paragraph") {
+    const html = inlineToHtml(blocks[0].content);
+    return style ? `<span${style}>${html}</span>` : html;
+  }
+
+  return blocks
+    .map((block) => {
+      switch (block.type) {
+        case "heading":
+          return `<h${block.level}>${inlineToHtml(block.content)}</h${block.level}>`;
+        case "paragraph":
+          return `<p${style}>${inlineToHtml(block.content)}</p>`;
+        case "blockquote":
+          return `<blockquote><p${style}>${inlineToHtml(block.content)}</p></blockquote>`;
+        case "list": {
+          const tag = block.ordered ? "ol" : "ul";
+          const items = block.items.map((item) => `<li${style}>${inlineToHtml(item)}</li>`);
+          return `<${tag}>${items.join("")}</${tag}>`;
+        }
+        case "table": {
+          const cell = (tag: string, content: MarkdownInline[]) =>
+            `<${tag} style="border:1px solid #000;padding:2pt 4pt"><span${style}>${inlineToHtml(content)}</span></${tag}>`;
+          const header = `<tr>${block.header.map((c) => cell("th", c)).join("")}</tr>`;
+          const rows = block.rows.map((row) => `<tr>${row.map((c) => cell("td", c)).join("")}</tr>`);
+          return `<table style="border-collapse:collapse">${header}${rows.join("")}</table>`;
+        }
+        case "code":
+          return block.text
+            .split("\n")
+            .map((line) => `<p style="font-family:${CODE_FONT}">${escapeHtml(line) || "&nbsp;"}</p>`)
+            .join("");
+        case "rule":
+          return "<hr>";
+        default:
+          return "";
+      }
+    })
+    .join("");
+}
+
+/**
+ * Headings in Markdown, in order, for applying Word heading styles after insertion
+ */
+export function getMarkdownHeadings(markdown: string): Array<{ level: number; text: string }> {
+  const headings: Array<{ level: number; text: string }> = [];
+  parseMarkdown(markdown).forEach((block) => {
+    if (block.type === "heading") {
+      headings.push({ level: block.level, text: inlineToText(block.content) });
+    }
+  });
+  return headings;
+}
+
+export const markdown = {
+  parseInline,
+  parseMarkdown,
+  inlineToText,
+  hasMarkdownSyntax,
+  markdownToHtml,
+  getMarkdownHeadings,
+};
+
+export default markdown;
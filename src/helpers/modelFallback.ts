@@ -0,0 +1,190 @@
+/**
+ * Model Fallback - Retries with backoff and failover along a chain of models
+ *
+ * Rate limits, server errors and network failures are retried on the same
+ * model with exponential backoff (honouring Retry-After); when the retries
+ * are used up, or the server asks for a longer wait, the request moves on to
+ * the next model of the fallback chain. Timeouts fail over immediately, since
+ * each one has already cost a full request timeout.
+ */
+
+import { ChatErrorKind } from "../types/llm";
+import { ModelConfig } from "../types/settings";
+
+/**
+ * Attempts per model, the first one included
+ */
+export const DEFAULT_MAX_ATTEMPTS = 3;
+
+/**
+ * Delay before the first retry; doubled for each further retry
+ */
+const BASE_BACKOFF_MS = 1000;
+
+const MAX_BACKOFF_MS = 8000;
+
+/**
+ * Longest Retry-After we wait for; longer waits fail over to the next model
+ */
+const MAX_RETRY_AFTER_MS = 20000;
+
+/**
+ * Outcome of one request, as far as retrying is concerned
+ */
+export interface RetryableResult {
+  success: boolean;
+  error?: string;
+  /** Set for transient failures */
+  errorKind?: ChatErrorKind;
+  /** Wait requested by the server (Retry-After) */
+  retryAfterMs?: number;
+  /** Model that produced the answer */
+  model?: string;
+  /** True when the answer came from a fallback model */
+  usedFallback?: boolean;
+}
+
+/**
+ * Information about an upcoming retry or failover
+ */
+export interface RetryInfo {
+  /** Model of the next attempt */
+  model: string;
+  /** 1-based attempt on that model */
+  attempt: number;
+  /** Wait before the attempt */
+  delayMs: number;
+  /** Error of the failed attempt */
+  error: string;
+  /** True when switching to the next model of the chain */
+  failover: boolean;
+}
+
+export interface FallbackOptions {
+  maxAttempts?: number;
+  abortController?: AbortController;
+  onRetry?: (info: RetryInfo) => void;
+  /** Waits between attempts (replaced in tests) */
+  sleep?: (ms: number, signal?: AbortSignal) => Promise<void>;
+}
+
+/**
+ * Classify an HTTP status; undefined for errors that retrying will not fix
+ */
+export function classifyStatus(status: number): ChatErrorKind | undefined {
+  if (status === 429) return "rate_limit";
+  if (status === 408) return "timeout";
+  if (status >= 500) return "server";
+  return undefined;
+}
+
+/**
+ * Parse Retry-After (seconds or an HTTP date) and OpenAI's retry-after-ms
+ */
+export function parseRetryAfter(headers: Headers, now: number = Date.now()): number | undefined {
+  const ms = Number(headers.get("retry-after-ms"));
+  if (headers.get("retry-after-ms") && Number.isFinite(ms) && ms >= 0) {
+    return ms;
+  }
+  const value = headers.get("retry-after");
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+/**
+ * Wait before retry number `retry` (1-based) on the same model, or null when
+ * the model should not be retried
+ */
+export function getRetryDelay(result: RetryableResult, retry: number): number | null {
+  if (!result.errorKind || result.errorKind === "timeout") {
+    return null;
+  }
+  if (result.retryAfterMs !== undefined) {
+    return result.retryAfterMs <= MAX_RETRY_AFTER_MS ? result.retryAfterMs : null;
+  }
+  return Math.min(MAX_BACKOFF_MS, BASE_BACKOFF_MS * 2 ** (retry - 1));
+}
+
+function defaultSleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    const timer = setTimeout(done, ms);
+    function done() {
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", done);
+      resolve();
+    }
+    signal?.addEventListener("abort", done, { once: true });
+  });
+}
+
+/**
+ * Run a request on each model of the chain in turn, retrying transient failures
+ * @param configs The primary model first, then the fallbacks in order
+ */
+export async function runWithFallback<T extends RetryableResult>(
+  configs: ModelConfig[],
+  run: (config: ModelConfig) => Promise<T>,
+  options: FallbackOptions = {}
+): Promise<T> {
+  const { maxAttempts = DEFAULT_MAX_ATTEMPTS, abortController, onRetry, sleep = defaultSleep } =
+    options;
+  const signal = abortController?.signal;
+  let result: T | undefined;
+
+  for (let i = 0; i < configs.length; i++) {
+    const config = configs[i];
+    for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+      result = await run(config);
+      if (result.success) {
+        return { ...result, model: config.model, usedFallback: i > 0 };
+      }
+      if (!result.errorKind || signal?.aborted) {
+        return result;
+      }
+      const delay = attempt < maxAttempts ? getRetryDelay(result, attempt) : null;
+      if (delay === null) break;
+
+      onRetry?.({
+        model: config.model,
+        attempt: attempt + 1,
+        delayMs: delay,
+        error: result.error || "",
+        failover: false,
+      });
+      await sleep(delay, signal);
+      if (signal?.aborted) {
+        return { ...result, errorKind: undefined, error: "已取消请求" };
+      }
+    }
+
+    const next = configs[i + 1];
+    if (next) {
+      onRetry?.({
+        model: next.model,
+        attempt: 1,
+        delayMs: 0,
+        error: result?.error || "",
+        failover: true,
+      });
+    }
+  }
+
+  if (result && configs.length > 1) {
+    return { ...result, error: `所有模型均请求失败（已尝试 ${configs.length} 个）：${result.error}` };
+  }
+  return result as T;
+}
+
+export const modelFallback = {
+  classifyStatus,
+  parseRetryAfter,
+  getRetryDelay,
+  runWithFallback,
+};
+
+export default modelFallback;
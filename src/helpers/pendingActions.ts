@@ -0,0 +1,364 @@
+/**
+ * Pending Actions - Queue between the LLM response and toolExecutor
+ *
+ * In "confirm" mode, document-changing tool calls are held here with a preview
+ * of the affected text until the user applies, edits or rejects them.
+ * Read-only tools always run immediately.
+ */
+
+import { ToolCall } from "../types/llm";
+import {
+  ToolName,
+  ToolResult,
+  READ_ONLY_TOOLS,
+  InsertTextArgs,
+  ReplaceParagraphArgs,
+  ReplaceTextInRangeArgs,
+  CommentOnMatchArgs,
+} from "../types/tools";
+import { ApplyMode } from "./sessionManager";
+import { executeToolCalls, getPositionLabel, ToolExecutionOptions } from "./toolExecutor";
+import { getSelectionText, getRangeText, RangeTarget } from "./wordBridge";
+
+/**
+ * A tool call waiting for the user's decision
+ */
+export interface PendingAction {
+  id: string;
+  toolCall: ToolCall;
+  name: ToolName;
+  /** Where the action applies, e.g. "选中内容" or "第 3 段" */
+  target: string;
+  /** Text the action affects, as it is in the document now */
+  original: string;
+  /** Text the action would write (the comment for comment tools) */
+  proposed: string;
+  /** Tool argument the user may edit before applying */
+  editableField?: "content" | "comment";
+  /** The proposed content is simplified markup (formatting-preserving mode) */
+  isMarkup?: boolean;
+  createdAt: number;
+}
+
+/**
+ * The user's decision on a pending action
+ */
+export type PendingDecision =
+  | { type: "apply"; editedValue?: string }
+  | { type: "reject"; reason?: string };
+
+type PendingActionListener = (actions: PendingAction[]) => void;
+
+/**
+ * Generate a unique action ID
+ */
+function generateActionId(): string {
+  return `action_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+}
+
+/**
+ * Queue of actions waiting for a decision
+ */
+export class PendingActionQueue {
+  private actions: PendingAction[] = [];
+  private resolvers: Map<string, (decision: PendingDecision) => void> = new Map();
+  private listeners: PendingActionListener[] = [];
+
+  /**
+   * Add an action and wait for the user's decision
+   */
+  enqueue(action: PendingAction): Promise<PendingDecision> {
+    return new Promise((resolve) => {
+      this.actions.push(action);
+      this.resolvers.set(action.id, resolve);
+      this.notify();
+    });
+  }
+
+  /**
+   * Resolve a pending action
+   * @returns false if the action is no longer pending
+   */
+  resolve(actionId: string, decision: PendingDecision): boolean {
+    const resolver = this.resolvers.get(actionId);
+    if (!resolver) return false;
+
+    this.resolvers.delete(actionId);
+    this.actions = this.actions.filter((a) => a.id !== actionId);
+    this.notify();
+    resolver(decision);
+    return true;
+  }
+
+  /**
+   * Reject every pending action (e.g. when the request is cancelled)
+   */
+  rejectAll(reason?: string): void {
+    this.actions.map((a) => a.id).forEach((id) => this.resolve(id, { type: "reject", reason }));
+  }
+
+  /**
+   * Get the actions currently waiting for a decision
+   */
+  getActions(): PendingAction[] {
+    return [...this.actions];
+  }
+
+  /**
+   * Listen for queue changes
+   * @returns Unsubscribe function
+   */
+  subscribe(listener: PendingActionListener): () => void {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter((l) => l !== listener);
+    };
+  }
+
+  private notify(): void {
+    const snapshot = this.getActions();
+    this.listeners.forEach((l) => l(snapshot));
+  }
+}
+
+/**
+ * Parse tool arguments, tolerating malformed JSON (the executor reports it later)
+ */
+function parseArgs<T>(argsString: string): Partial<T> {
+  try {
+    return JSON.parse(argsString || "{}") as Partial<T>;
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Build a range target from range tool arguments
+ */
+function toRangeTarget(args: Partial<ReplaceTextInRangeArgs>): RangeTarget {
+  return {
+    anchor: args.anchor || undefined,
+    paragraphIndex: typeof args.paragraph_index === "number" ? args.paragraph_index : undefined,
+    occurrence: typeof args.occurrence === "number" ? args.occurrence : undefined,
+    tag: args.tag || undefined,
+  };
+}
+
+/**
+ * Describe a range target for the preview header
+ */
+function describeRangeTarget(target: RangeTarget): string {
+  if (target.anchor) return `「${target.anchor}」`;
+  if (target.paragraphIndex !== undefined) return `第 ${target.paragraphIndex} 段`;
+  if (target.tag) return `内容控件「${target.tag}」`;
+  return "指定范围";
+}
+
+/**
+ * Build the preview for a document-changing tool call
+ * @returns null for tools that need no confirmation
+ */
+export async function buildPendingAction(
+  toolCall: ToolCall,
+  options: ToolExecutionOptions = {}
+): Promise<PendingAction | null> {
+  const name = toolCall.function.name as ToolName;
+  const isReplacement = ["replace_selection", "replace_paragraph", "replace_text_in_range"];
+  const base = {
+    id: generateActionId(),
+    toolCall,
+    name,
+    createdAt: Date.now(),
+    isMarkup: Boolean(options.preserveFormatting) && isReplacement.includes(name),
+  };
+
+  switch (name) {
+    case "replace_selection": {
+      const args = parseArgs<{ content: string }>(toolCall.function.arguments);
+      return {
+        ...base,
+        target: "选中内容",
+        original: await getSelectionText(options.selection),
+        proposed: args.content || "",
+        editableField: "content",
+      };
+    }
+
+    case "delete_selection":
+      return {
+        ...base,
+        target: "选中内容",
+        original: await getSelectionText(options.selection),
+        proposed: "",
+      };
+
+    case "insert_text": {
+      const args = parseArgs<InsertTextArgs>(toolCall.function.arguments);
+      return {
+        ...base,
+        target: args.position ? getPositionLabel(args.position) : "指定位置",
+        original: "",
+        proposed: args.content || "",
+        editableField: "content",
+      };
+    }
+
+    case "add_comment_to_selection": {
+      const args = parseArgs<{ comment: string }>(toolCall.function.arguments);
+      return {
+        ...base,
+        target: "选中内容",
+        original: await getSelectionText(options.selection),
+        proposed: args.comment || "",
+        editableField: "comment",
+      };
+    }
+
+    case "replace_paragraph": {
+      const args = parseArgs<ReplaceParagraphArgs>(toolCall.function.arguments);
+      const target = toRangeTarget({ paragraph_index: args.paragraph_index });
+      return {
+        ...base,
+        target: describeRangeTarget(target),
+        original: await getRangeText(target),
+        proposed: args.content || "",
+        editableField: "content",
+      };
+    }
+
+    case "replace_text_in_range": {
+      const args = parseArgs<ReplaceTextInRangeArgs>(toolCall.function.arguments);
+      const target = toRangeTarget(args);
+      return {
+        ...base,
+        target: describeRangeTarget(target),
+        original: await getRangeText(target),
+        proposed: args.content || "",
+        editableField: "content",
+      };
+    }
+
+    case "comment_on_match": {
+      const args = parseArgs<CommentOnMatchArgs>(toolCall.function.arguments);
+      const target = toRangeTarget(args);
+      return {
+        ...base,
+        target: describeRangeTarget(target),
+        original: await getRangeText(target),
+        proposed: args.comment || "",
+        editableField: "comment",
+      };
+    }
+
+    default:
+      return null;
+  }
+}
+
+/**
+ * Return a copy of the tool call with one argument replaced
+ */
+function withEditedArgument(toolCall: ToolCall, field: string, value: string): ToolCall {
+  const args = parseArgs<Record<string, unknown>>(toolCall.function.arguments);
+  return {
+    ...toolCall,
+    function: {
+      ...toolCall.function,
+      arguments: JSON.stringify({ ...args, [field]: value }),
+    },
+  };
+}
+
+/**
+ * Options for executing tool calls with approval
+ */
+export interface ApprovalOptions extends ToolExecutionOptions {
+  mode: ApplyMode;
+  queue: PendingActionQueue;
+}
+
+/**
+ * Execute tool calls, holding document-changing calls for approval in "confirm" mode
+ */
+export async function executeWithApproval(
+  toolCalls: ToolCall[],
+  options: ApprovalOptions
+): Promise<ToolResult[]> {
+  const { mode, queue } = options;
+
+  if (mode === "auto") {
+    return executeToolCalls(toolCalls, options);
+  }
+
+  const results: ToolResult[] = [];
+
+  for (const toolCall of toolCalls) {
+    const name = toolCall.function.name as ToolName;
+
+    if (READ_ONLY_TOOLS.includes(name)) {
+      results.push(...(await executeToolCalls([toolCall], options)));
+      continue;
+    }
+
+    let action: PendingAction | null;
+    try {
+      action = await buildPendingAction(toolCall, options);
+    } catch (error) {
+      // The target could not be read, so there is nothing to preview or apply
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      results.push({
+        toolCallId: toolCall.id,
+        name,
+        success: false,
+        message: `执行失败: ${errorMessage}`,
+        error: errorMessage,
+      });
+      continue;
+    }
+
+    if (!action) {
+      // Unknown tools: let the executor report them
+      results.push(...(await executeToolCalls([toolCall], options)));
+      continue;
+    }
+
+    const decision = await queue.enqueue(action);
+
+    if (decision.type === "reject") {
+      const reason = decision.reason || "用户已拒绝此操作";
+      results.push({
+        toolCallId: toolCall.id,
+        name,
+        success: false,
+        message: reason,
+        error: reason,
+      });
+      continue;
+    }
+
+    const edited =
+      decision.editedValue !== undefined &&
+      action.editableField !== undefined &&
+      decision.editedValue !== action.proposed;
+    const call = edited
+      ? withEditedArgument(toolCall, action.editableField!, decision.editedValue!)
+      : toolCall;
+
+    const [result] = await executeToolCalls([call], options);
+    if (edited && result.success) {
+      result.message += "（已按用户修改后的内容应用）";
+      // Tell the model what was actually written
+      result.data = `用户修改后的${action.editableField === "comment" ? "批注" : "内容"}：\n${decision.editedValue}`;
+    }
+    results.push(result);
+  }
+
+  return results;
+}
+
+export const pendingActions = {
+  buildPendingAction,
+  executeWithApproval,
+};
+
+export default pendingActions;
@@ -0,0 +1,159 @@
+/**
+ * Prompt Library - User-defined reusable instructions
+ *
+ * Prompts are templates with `{selection}`, `{language}` and
+ * `{document_title}` placeholders. Each one declares a tool policy that
+ * decides which tools the model gets: editing, comments only, or none.
+ * Prompts run from the chat quick-action bar and from the "Run Prompt"
+ * ribbon / context menu command.
+ */
+
+import {
+  PromptLibrary,
+  PromptTemplate,
+  PromptToolPolicy,
+  PromptVariables,
+  PROMPT_TOOL_POLICIES,
+  PROMPT_VARIABLES,
+  DEFAULT_PROMPT_LIBRARY,
+} from "../types/prompts";
+import { ToolDefinition, TOOL_DEFINITIONS, READ_ONLY_TOOLS } from "../types/tools";
+import { LanguageOption } from "../types/settings";
+
+const STORAGE_KEY = "word_copilot_prompt_library";
+
+/**
+ * Comment tools offered to "comment" prompts besides the read-only tools
+ */
+const COMMENT_TOOLS = ["add_comment_to_selection", "comment_on_match"];
+
+/**
+ * Save the prompt library
+ */
+export function savePromptLibrary(library: PromptLibrary): boolean {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(library));
+    return true;
+  } catch (error) {
+    console.error("Failed to save prompt library:", error);
+    return false;
+  }
+}
+
+/**
+ * Load the prompt library (the default prompts until it has been saved).
+ * Prompts without an id or template are dropped; unknown policies become "edit".
+ */
+export function loadPromptLibrary(): PromptLibrary {
+  let stored: Partial<PromptLibrary> | null = null;
+  try {
+    stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || "null");
+  } catch {
+    stored = null;
+  }
+  if (!stored || !Array.isArray(stored.prompts)) {
+    return {
+      ...DEFAULT_PROMPT_LIBRARY,
+      prompts: DEFAULT_PROMPT_LIBRARY.prompts.map((p) => ({ ...p })),
+    };
+  }
+
+  const prompts: PromptTemplate[] = stored.prompts
+    .filter((p) => p && typeof p.id === "string" && p.id && typeof p.template === "string")
+    .map((p) => ({
+      id: p.id,
+      name: typeof p.name === "string" && p.name.trim() ? p.name : p.id,
+      template: p.template,
+      toolPolicy: PROMPT_TOOL_POLICIES.includes(p.toolPolicy) ? p.toolPolicy : "edit",
+    }));
+  const ribbonPromptId = prompts.some((p) => p.id === stored?.ribbonPromptId)
+    ? stored.ribbonPromptId
+    : undefined;
+
+  return { prompts, ribbonPromptId };
+}
+
+/**
+ * Prompt run by the ribbon "Run Prompt" command
+ */
+export function getRibbonPrompt(library: PromptLibrary = loadPromptLibrary()): PromptTemplate | undefined {
+  return library.prompts.find((p) => p.id === library.ribbonPromptId);
+}
+
+/**
+ * Create an empty prompt with a unique id
+ */
+export function createPrompt(name: string): PromptTemplate {
+  return {
+    id: `prompt_${Date.now().toString(36)}${Math.random().toString(36).substr(2, 4)}`,
+    name,
+    template: "",
+    toolPolicy: "edit",
+  };
+}
+
+/**
+ * Fill in `{variable}` placeholders; unknown placeholders are left as written
+ */
+export function renderPrompt(template: string, variables: PromptVariables): string {
+  return template.replace(/\{(\w+)\}/g, (match, name: string) =>
+    (PROMPT_VARIABLES as string[]).includes(name)
+      ? variables[name as keyof PromptVariables]
+      : match
+  );
+}
+
+/**
+ * Whether a prompt needs selected text: edits and comments act on the
+ * selection, and answers need it when the template quotes it
+ */
+export function requiresSelection(prompt: PromptTemplate): boolean {
+  return prompt.toolPolicy !== "answer" || prompt.template.includes("{selection}");
+}
+
+/**
+ * Tools offered to a prompt; every policy keeps the read-only tools
+ */
+export function getPromptTools(policy: PromptToolPolicy): ToolDefinition[] {
+  switch (policy) {
+    case "edit":
+      return TOOL_DEFINITIONS;
+    case "comment":
+      return TOOL_DEFINITIONS.filter(
+        (tool) =>
+          COMMENT_TOOLS.includes(tool.function.name) ||
+          (READ_ONLY_TOOLS as string[]).includes(tool.function.name)
+      );
+    default:
+      return TOOL_DEFINITIONS.filter((tool) =>
+        (READ_ONLY_TOOLS as string[]).includes(tool.function.name)
+      );
+  }
+}
+
+/**
+ * Value of `{language}` for the language rule
+ */
+export function getLanguageName(language: LanguageOption): string {
+  switch (language) {
+    case "chinese":
+      return "中文";
+    case "english":
+      return "英文";
+    default:
+      return "与原文相同的语言";
+  }
+}
+
+export const promptLibrary = {
+  savePromptLibrary,
+  loadPromptLibrary,
+  getRibbonPrompt,
+  createPrompt,
+  renderPrompt,
+  requiresSelection,
+  getPromptTools,
+  getLanguageName,
+};
+
+export default promptLibrary;
@@ -0,0 +1,247 @@
+/**
+ * Anthropic Adapter - Native Anthropic Messages API
+ *
+ * The system prompt is a top-level field, tool calls are `tool_use` content
+ * blocks and tool results are `tool_result` blocks inside a user turn.
+ * Streaming sends typed events; tool input arrives as partial JSON per block.
+ */
+
+import { ChatMessage, LLMStreamChunk, LLMUsage } from "../../types/llm";
+import { ProviderAdapter, ProviderChatParams, ProviderHttpRequest } from "../../types/provider";
+import { trimBaseUrl, parseToolArguments, toToolCall, readErrorMessage, parseJsonPayload } from "./common";
+
+export const ANTHROPIC_VERSION = "2023-06-01";
+
+type AnthropicBlock =
+  | { type: "text"; text: string }
+  | { type: "tool_use"; id: string; name: string; input: unknown }
+  | { type: "tool_result"; tool_use_id: string; content: string };
+
+interface AnthropicMessage {
+  role: "user" | "assistant";
+  content: AnthropicBlock[];
+}
+
+interface AnthropicUsage {
+  input_tokens?: number;
+  output_tokens?: number;
+}
+
+interface AnthropicResponse {
+  content?: AnthropicBlock[];
+  stop_reason?: string | null;
+  usage?: AnthropicUsage;
+}
+
+interface AnthropicStreamEvent {
+  type: string;
+  index?: number;
+  message?: { usage?: AnthropicUsage };
+  content_block?: AnthropicBlock;
+  delta?: { type?: string; text?: string; partial_json?: string; stop_reason?: string | null };
+  usage?: AnthropicUsage;
+  error?: { type?: string; message?: string };
+}
+
+/**
+ * Build the Messages API endpoint URL
+ */
+export function buildAnthropicEndpoint(baseUrl: string): string {
+  const url = trimBaseUrl(baseUrl);
+  if (url.endsWith("/messages")) return url;
+  if (url.endsWith("/v1")) return `${url}/messages`;
+  return `${url}/v1/messages`;
+}
+
+/**
+ * Convert internal messages to Anthropic turns. Tool results become
+ * `tool_result` blocks of a user turn; consecutive turns of one role are merged.
+ */
+export function toAnthropicMessages(messages: ChatMessage[]): AnthropicMessage[] {
+  const turns: AnthropicMessage[] = [];
+  const push = (role: AnthropicMessage["role"], blocks: AnthropicBlock[]) => {
+    if (blocks.length === 0) return;
+    const last = turns[turns.length - 1];
+    if (last && last.role === role) {
+      last.content.push(...blocks);
+    } else {
+      turns.push({ role, content: blocks });
+    }
+  };
+
+  messages.forEach((message) => {
+    const text = message.content ? [{ type: "text" as const, text: message.content }] : [];
+    switch (message.role) {
+      case "assistant":
+        push("assistant", [
+          ...text,
+          ...(message.tool_calls || []).map((call) => ({
+            type: "tool_use" as const,
+            id: call.id,
+            name: call.function.name,
+            input: parseToolArguments(call.function.arguments),
+          })),
+        ]);
+        break;
+      case "tool":
+        push("user", [
+          {
+            type: "tool_result",
+            tool_use_id: message.tool_call_id || "",
+            content: message.content || "",
+          },
+        ]);
+        break;
+      default:
+        // Mid-conversation system messages are sent as user text
+        push("user", text);
+    }
+  });
+
+  return turns;
+}
+
+function buildRequest(params: ProviderChatParams): ProviderHttpRequest {
+  const { config, systemPrompt, messages, tools, toolChoice, temperature, maxTokens, stream } =
+    params;
+
+  const body: Record<string, unknown> = {
+    model: config.model,
+    system: systemPrompt,
+    messages: toAnthropicMessages(messages),
+    temperature,
+    max_tokens: maxTokens,
+    stream,
+  };
+  if (tools && tools.length > 0) {
+    body.tools = tools.map((tool) => ({
+      name: tool.function.name,
+      description: tool.function.description,
+      input_schema: tool.function.parameters,
+    }));
+    body.tool_choice = { type: toolChoice === "required" ? "any" : toolChoice };
+  }
+
+  return {
+    endpoint: buildAnthropicEndpoint(config.baseUrl),
+    headers: {
+      "Content-Type": "application/json",
+      "x-api-key": config.apiKey,
+      "anthropic-version": ANTHROPIC_VERSION,
+      // Required for requests made from a browser (the task pane)
+      "anthropic-dangerous-direct-browser-access": "true",
+    },
+    body,
+  };
+}
+
+function toUsage(usage?: AnthropicUsage): LLMUsage | undefined {
+  if (!usage) return undefined;
+  const prompt = usage.input_tokens || 0;
+  const completion = usage.output_tokens || 0;
+  return { prompt_tokens: prompt, completion_tokens: completion, total_tokens: prompt + completion };
+}
+
+const FINISH_REASONS: Record<string, "stop" | "tool_calls" | "length"> = {
+  end_turn: "stop",
+  stop_sequence: "stop",
+  tool_use: "tool_calls",
+  max_tokens: "length",
+};
+
+export const anthropicAdapter: ProviderAdapter = {
+  id: "anthropic",
+  name: "Anthropic",
+  defaultBaseUrl: "https://api.anthropic.com",
+  requiresApiKey: true,
+  streamFormat: "sse",
+  buildRequest,
+  parseResponse(data) {
+    const response = data as AnthropicResponse;
+    if (!response?.content) {
+      return { error: readErrorMessage(data) || "No response from model" };
+    }
+    const text = response.content
+      .map((block) => (block.type === "text" ? block.text : ""))
+      .join("");
+    const toolCalls = response.content
+      .filter((block): block is Extract<AnthropicBlock, { type: "tool_use" }> => block.type === "tool_use")
+      .map((block, i) => toToolCall(block.name, block.input, i, block.id));
+
+    const message: ChatMessage = { role: "assistant", content: text || null };
+    if (toolCalls.length > 0) {
+      message.tool_calls = toolCalls;
+    }
+    return { message, usage: toUsage(response.usage) };
+  },
+  createStreamTranslator() {
+    // Content block index -> tool call index, and usage split over start/delta events
+    const toolIndices = new Map<number, number>();
+    const usage: AnthropicUsage = {};
+
+    return (payload) => {
+      const event = parseJsonPayload<AnthropicStreamEvent>(payload);
+      if (!event) return [];
+      const chunk = (delta: NonNullable<LLMStreamChunk["choices"]>[number]["delta"]): LLMStreamChunk[] => [
+        { choices: [{ index: 0, delta }] },
+      ];
+
+      switch (event.type) {
+        case "message_start":
+          Object.assign(usage, event.message?.usage);
+          return [];
+        case "content_block_start": {
+          const block = event.content_block;
+          if (block?.type !== "tool_use" || event.index === undefined) return [];
+          const index = toolIndices.size;
+          toolIndices.set(event.index, index);
+          return chunk({
+            tool_calls: [{ index, id: block.id, type: "function", function: { name: block.name, arguments: "" } }],
+          });
+        }
+        case "content_block_delta": {
+          if (event.delta?.type === "text_delta" && event.delta.text) {
+            return chunk({ content: event.delta.text });
+          }
+          const index = event.index !== undefined ? toolIndices.get(event.index) : undefined;
+          if (event.delta?.type === "input_json_delta" && index !== undefined) {
+            return chunk({ tool_calls: [{ index, function: { arguments: event.delta.partial_json || "" } }] });
+          }
+          return [];
+        }
+        case "message_delta":
+          Object.assign(usage, event.usage);
+          return [
+            {
+              choices: [
+                {
+                  index: 0,
+                  delta: {},
+                  finish_reason: FINISH_REASONS[event.delta?.stop_reason || ""] || null,
+                },
+              ],
+              usage: toUsage(usage),
+            },
+          ];
+        case "message_stop":
+          return "done";
+        case "error":
+          return [
+            {
+              error: {
+                message: event.error?.message || "Stream error",
+                type: event.error?.type || "error",
+                code: null,
+              },
+            },
+          ];
+        default:
+          // ping, content_block_stop
+          return [];
+      }
+    };
+  },
+  parseError: readErrorMessage,
+};
+
+export default anthropicAdapter;
@@ -0,0 +1,86 @@
+/**
+ * Provider Common - Helpers shared by the provider adapters
+ */
+
+import { ChatMessage, ToolCall } from "../../types/llm";
+
+/**
+ * Remove trailing slashes from a base URL
+ */
+export function trimBaseUrl(baseUrl: string): string {
+  return baseUrl.trim().replace(/\/+$/, "");
+}
+
+/**
+ * Parse tool call arguments (a JSON string) into an object for native APIs
+ */
+export function parseToolArguments(args: string): Record<string, unknown> {
+  try {
+    const parsed = JSON.parse(args || "{}");
+    return parsed && typeof parsed === "object" && !Array.isArray(parsed) ? parsed : {};
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Generate an id for a tool call the provider sent without one. Unique across
+ * responses: tool results are matched to their call by id over the whole
+ * history of an agent run, whichever provider answers each step.
+ */
+export function generateToolCallId(index: number): string {
+  return `call_${index}_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+}
+
+/**
+ * Build an internal tool call, generating an id when the provider has none
+ */
+export function toToolCall(
+  name: string,
+  args: unknown,
+  index: number,
+  id?: string
+): ToolCall {
+  return {
+    id: id || generateToolCallId(index),
+    type: "function",
+    function: {
+      name,
+      arguments: typeof args === "string" ? args : JSON.stringify(args ?? {}),
+    },
+  };
+}
+
+/**
+ * Map tool call ids to tool names, for APIs that answer tool results by name
+ */
+export function collectToolNames(messages: ChatMessage[]): Map<string, string> {
+  const names = new Map<string, string>();
+  messages.forEach((message) => {
+    message.tool_calls?.forEach((call) => names.set(call.id, call.function.name));
+  });
+  return names;
+}
+
+/**
+ * The common `{ error: { message } }` / `{ error: "..." }` error shapes
+ */
+export function readErrorMessage(data: unknown): string | undefined {
+  const error = (data as { error?: unknown } | null)?.error;
+  if (typeof error === "string") return error;
+  const message = (error as { message?: unknown } | undefined)?.message;
+  return typeof message === "string" ? message : undefined;
+}
+
+/**
+ * Parse a streamed JSON payload, ignoring keep-alives and partial lines
+ */
+export function parseJsonPayload<T>(payload: string): T | null {
+  const trimmed = payload.trim();
+  if (!trimmed) return null;
+  try {
+    return JSON.parse(trimmed) as T;
+  } catch {
+    return null;
+  }
+}
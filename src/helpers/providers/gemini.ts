@@ -0,0 +1,244 @@
+/**
+ * Gemini Adapter - Native Google Gemini generateContent API
+ *
+ * The system prompt goes into `systemInstruction`, the assistant role is
+ * `model`, and tool calls and results are `functionCall` / `functionResponse`
+ * parts matched by function name. Streamed events are complete response
+ * objects, each carrying whole parts rather than fragments.
+ */
+
+import { ChatMessage, LLMChoice, LLMUsage } from "../../types/llm";
+import { ProviderAdapter, ProviderChatParams, ProviderHttpRequest } from "../../types/provider";
+import {
+  trimBaseUrl,
+  parseToolArguments,
+  toToolCall,
+  collectToolNames,
+  readErrorMessage,
+  parseJsonPayload,
+} from "./common";
+
+type GeminiPart =
+  | { text: string }
+  | { functionCall: { name: string; args?: Record<string, unknown>; id?: string } }
+  | { functionResponse: { name: string; response: Record<string, unknown> } };
+
+interface GeminiContent {
+  role: "user" | "model";
+  parts: GeminiPart[];
+}
+
+interface GeminiUsage {
+  promptTokenCount?: number;
+  candidatesTokenCount?: number;
+  totalTokenCount?: number;
+}
+
+interface GeminiResponse {
+  candidates?: Array<{ content?: { parts?: GeminiPart[] }; finishReason?: string }>;
+  usageMetadata?: GeminiUsage;
+  error?: { message?: string; status?: string };
+}
+
+/**
+ * Build the generateContent (or streamGenerateContent) endpoint URL
+ */
+export function buildGeminiEndpoint(baseUrl: string, model: string, stream: boolean): string {
+  const url = trimBaseUrl(baseUrl);
+  const root = /\/v1(beta)?$/.test(url) ? url : `${url}/v1beta`;
+  const name = model.replace(/^models\//, "");
+  return stream
+    ? `${root}/models/${name}:streamGenerateContent?alt=sse`
+    : `${root}/models/${name}:generateContent`;
+}
+
+/**
+ * Convert internal messages to Gemini contents. Tool results are answered by
+ * function name, looked up from the assistant call that requested them.
+ */
+export function toGeminiContents(messages: ChatMessage[]): GeminiContent[] {
+  const toolNames = collectToolNames(messages);
+  const contents: GeminiContent[] = [];
+  const push = (role: GeminiContent["role"], parts: GeminiPart[]) => {
+    if (parts.length === 0) return;
+    const last = contents[contents.length - 1];
+    if (last && last.role === role) {
+      last.parts.push(...parts);
+    } else {
+      contents.push({ role, parts });
+    }
+  };
+
+  messages.forEach((message) => {
+    const text: GeminiPart[] = message.content ? [{ text: message.content }] : [];
+    switch (message.role) {
+      case "assistant":
+        push("model", [
+          ...text,
+          ...(message.tool_calls || []).map((call) => ({
+            functionCall: {
+              name: call.function.name,
+              args: parseToolArguments(call.function.arguments),
+            },
+          })),
+        ]);
+        break;
+      case "tool":
+        push("user", [
+          {
+            functionResponse: {
+              name: toolNames.get(message.tool_call_id || "") || message.name || "",
+              response: { content: message.content || "" },
+            },
+          },
+        ]);
+        break;
+      default:
+        push("user", text);
+    }
+  });
+
+  return contents;
+}
+
+const FUNCTION_CALLING_MODES = { auto: "AUTO", required: "ANY", none: "NONE" };
+
+function buildRequest(params: ProviderChatParams): ProviderHttpRequest {
+  const { config, systemPrompt, messages, tools, toolChoice, temperature, maxTokens, stream } =
+    params;
+
+  const body: Record<string, unknown> = {
+    systemInstruction: { parts: [{ text: systemPrompt }] },
+    contents: toGeminiContents(messages),
+    generationConfig: { temperature, maxOutputTokens: maxTokens },
+  };
+  if (tools && tools.length > 0) {
+    body.tools = [
+      {
+        functionDeclarations: tools.map((tool) => ({
+          name: tool.function.name,
+          description: tool.function.description,
+          parameters: tool.function.parameters,
+        })),
+      },
+    ];
+    body.toolConfig = { functionCallingConfig: { mode: FUNCTION_CALLING_MODES[toolChoice] } };
+  }
+
+  return {
+    endpoint: buildGeminiEndpoint(config.baseUrl, config.model, stream),
+    headers: {
+      "Content-Type": "application/json",
+      "x-goog-api-key": config.apiKey,
+    },
+    body,
+  };
+}
+
+function toUsage(usage?: GeminiUsage): LLMUsage | undefined {
+  if (!usage) return undefined;
+  const prompt = usage.promptTokenCount || 0;
+  const completion = usage.candidatesTokenCount || 0;
+  return {
+    prompt_tokens: prompt,
+    completion_tokens: completion,
+    total_tokens: usage.totalTokenCount || prompt + completion,
+  };
+}
+
+function toFinishReason(reason?: string): LLMChoice["finish_reason"] {
+  switch (reason) {
+    case "STOP":
+      return "stop";
+    case "MAX_TOKENS":
+      return "length";
+    case "SAFETY":
+    case "RECITATION":
+    case "PROHIBITED_CONTENT":
+      return "content_filter";
+    default:
+      return null;
+  }
+}
+
+export const geminiAdapter: ProviderAdapter = {
+  id: "gemini",
+  name: "Google Gemini",
+  defaultBaseUrl: "https://generativelanguage.googleapis.com",
+  requiresApiKey: true,
+  streamFormat: "sse",
+  buildRequest,
+  parseResponse(data) {
+    const response = data as GeminiResponse;
+    const candidate = response?.candidates?.[0];
+    if (!candidate) {
+      return { error: readErrorMessage(data) || "No response from model" };
+    }
+    const parts = candidate.content?.parts || [];
+    const text = parts.map((part) => ("text" in part ? part.text : "")).join("");
+    const toolCalls = parts
+      .filter((part): part is Extract<GeminiPart, { functionCall: unknown }> => "functionCall" in part)
+      .map((part, i) => toToolCall(part.functionCall.name, part.functionCall.args, i, part.functionCall.id));
+
+    const message: ChatMessage = { role: "assistant", content: text || null };
+    if (toolCalls.length > 0) {
+      message.tool_calls = toolCalls;
+    }
+    return { message, usage: toUsage(response.usageMetadata) };
+  },
+  createStreamTranslator() {
+    // Function calls arrive whole, possibly over several events
+    let toolCount = 0;
+
+    return (payload) => {
+      const response = parseJsonPayload<GeminiResponse>(payload);
+      if (!response) return [];
+      if (response.error) {
+        return [
+          {
+            error: {
+              message: response.error.message || "Stream error",
+              type: response.error.status || "error",
+              code: null,
+            },
+          },
+        ];
+      }
+
+      const candidate = response.candidates?.[0];
+      const parts = candidate?.content?.parts || [];
+      const content = parts.map((part) => ("text" in part ? part.text : "")).join("");
+      const toolCalls = parts
+        .filter((part): part is Extract<GeminiPart, { functionCall: unknown }> => "functionCall" in part)
+        .map((part) => {
+          const index = toolCount++;
+          const call = toToolCall(part.functionCall.name, part.functionCall.args, index, part.functionCall.id);
+          return { index, ...call };
+        });
+
+      let finishReason = toFinishReason(candidate?.finishReason);
+      if (finishReason === "stop" && toolCount > 0) {
+        finishReason = "tool_calls";
+      }
+
+      return [
+        {
+          choices: [
+            {
+              index: 0,
+              delta: {
+                ...(content ? { content } : {}),
+                ...(toolCalls.length > 0 ? { tool_calls: toolCalls } : {}),
+              },
+              finish_reason: finishReason,
+            },
+          ],
+          usage: toUsage(response.usageMetadata),
+        },
+      ];
+    };
+  },
+  parseError: readErrorMessage,
+};
+
+export default geminiAdapter;
@@ -0,0 +1,46 @@
+/**
+ * Providers - Registry of chat API adapters
+ */
+
+import { ModelConfig, ProviderId } from "../../types/settings";
+import { ProviderAdapter } from "../../types/provider";
+import { openaiAdapter, llamaCppAdapter } from "./openai";
+import { anthropicAdapter } from "./anthropic";
+import { geminiAdapter } from "./gemini";
+import { ollamaAdapter } from "./ollama";
+
+/**
+ * All adapters, in the order shown in settings
+ */
+export const PROVIDER_ADAPTERS: ProviderAdapter[] = [
+  openaiAdapter,
+  anthropicAdapter,
+  geminiAdapter,
+  ollamaAdapter,
+  llamaCppAdapter,
+];
+
+/**
+ * Adapter for a provider id (OpenAI-compatible when unset or unknown)
+ */
+export function getProviderAdapter(id: ProviderId = "openai"): ProviderAdapter {
+  return PROVIDER_ADAPTERS.find((adapter) => adapter.id === id) || openaiAdapter;
+}
+
+/**
+ * Whether a model config has everything its provider needs
+ */
+export function isConfigComplete(config: ModelConfig): boolean {
+  if (!config.baseUrl || !config.model) {
+    return false;
+  }
+  return !getProviderAdapter(config.provider).requiresApiKey || !!config.apiKey;
+}
+
+export const providers = {
+  PROVIDER_ADAPTERS,
+  getProviderAdapter,
+  isConfigComplete,
+};
+
+export default providers;
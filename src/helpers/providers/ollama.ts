@@ -0,0 +1,172 @@
+/**
+ * Ollama Adapter - Native Ollama /api/chat API for local models
+ *
+ * Messages are OpenAI-like, but tool call arguments are objects, options such
+ * as temperature sit under `options`, and streaming sends one JSON object per
+ * line ending with a `done` object that carries the token counts.
+ */
+
+import { ChatMessage, LLMUsage } from "../../types/llm";
+import { ProviderAdapter, ProviderChatParams, ProviderHttpRequest } from "../../types/provider";
+import {
+  trimBaseUrl,
+  parseToolArguments,
+  toToolCall,
+  collectToolNames,
+  readErrorMessage,
+  parseJsonPayload,
+} from "./common";
+
+interface OllamaToolCall {
+  function: { name: string; arguments?: Record<string, unknown> | string };
+}
+
+interface OllamaMessage {
+  role: string;
+  content: string;
+  tool_calls?: OllamaToolCall[];
+  tool_name?: string;
+}
+
+interface OllamaResponse {
+  message?: OllamaMessage;
+  done?: boolean;
+  done_reason?: string;
+  prompt_eval_count?: number;
+  eval_count?: number;
+  error?: string;
+}
+
+/**
+ * Build the chat endpoint URL
+ */
+export function buildOllamaEndpoint(baseUrl: string): string {
+  const url = trimBaseUrl(baseUrl);
+  if (url.endsWith("/api/chat")) return url;
+  if (url.endsWith("/api")) return `${url}/chat`;
+  return `${url}/api/chat`;
+}
+
+/**
+ * Convert internal messages to Ollama messages
+ */
+export function toOllamaMessages(systemPrompt: string, messages: ChatMessage[]): OllamaMessage[] {
+  const toolNames = collectToolNames(messages);
+  return [
+    { role: "system", content: systemPrompt },
+    ...messages.map((message) => {
+      const converted: OllamaMessage = { role: message.role, content: message.content || "" };
+      if (message.tool_calls && message.tool_calls.length > 0) {
+        converted.tool_calls = message.tool_calls.map((call) => ({
+          function: {
+            name: call.function.name,
+            arguments: parseToolArguments(call.function.arguments),
+          },
+        }));
+      }
+      if (message.role === "tool") {
+        converted.tool_name = toolNames.get(message.tool_call_id || "") || message.name;
+      }
+      return converted;
+    }),
+  ];
+}
+
+function buildRequest(params: ProviderChatParams): ProviderHttpRequest {
+  const { config, systemPrompt, messages, tools, toolChoice, temperature, maxTokens, stream } =
+    params;
+
+  const body: Record<string, unknown> = {
+    model: config.model,
+    messages: toOllamaMessages(systemPrompt, messages),
+    options: { temperature, num_predict: maxTokens },
+    stream,
+  };
+  // Ollama has no tool_choice; "none" is expressed by not offering tools
+  if (tools && tools.length > 0 && toolChoice !== "none") {
+    body.tools = tools;
+  }
+
+  const headers: Record<string, string> = { "Content-Type": "application/json" };
+  if (config.apiKey) {
+    headers.Authorization = `Bearer ${config.apiKey}`;
+  }
+
+  return { endpoint: buildOllamaEndpoint(config.baseUrl), headers, body };
+}
+
+function toUsage(response: OllamaResponse): LLMUsage | undefined {
+  if (response.prompt_eval_count === undefined && response.eval_count === undefined) {
+    return undefined;
+  }
+  const prompt = response.prompt_eval_count || 0;
+  const completion = response.eval_count || 0;
+  return { prompt_tokens: prompt, completion_tokens: completion, total_tokens: prompt + completion };
+}
+
+export const ollamaAdapter: ProviderAdapter = {
+  id: "ollama",
+  name: "Ollama (local)",
+  defaultBaseUrl: "http://localhost:11434",
+  requiresApiKey: false,
+  streamFormat: "ndjson",
+  buildRequest,
+  parseResponse(data) {
+    const response = data as OllamaResponse;
+    if (!response?.message) {
+      return { error: readErrorMessage(data) || "No response from model" };
+    }
+    const message: ChatMessage = {
+      role: "assistant",
+      content: response.message.content || null,
+    };
+    const toolCalls = (response.message.tool_calls || []).map((call, i) =>
+      toToolCall(call.function.name, call.function.arguments, i)
+    );
+    if (toolCalls.length > 0) {
+      message.tool_calls = toolCalls;
+    }
+    return { message, usage: toUsage(response) };
+  },
+  createStreamTranslator() {
+    let toolCount = 0;
+
+    return (payload) => {
+      const response = parseJsonPayload<OllamaResponse>(payload);
+      if (!response) return [];
+      if (response.error) {
+        return [{ error: { message: response.error, type: "error", code: null } }];
+      }
+
+      const content = response.message?.content || "";
+      const toolCalls = (response.message?.tool_calls || []).map((call) => {
+        const index = toolCount++;
+        return { index, ...toToolCall(call.function.name, call.function.arguments, index) };
+      });
+      const delta = {
+        ...(content ? { content } : {}),
+        ...(toolCalls.length > 0 ? { tool_calls: toolCalls } : {}),
+      };
+
+      if (!response.done) {
+        return [{ choices: [{ index: 0, delta }] }];
+      }
+      return [
+        {
+          choices: [
+            {
+              index: 0,
+              delta,
+              finish_reason:
+                toolCount > 0 ? "tool_calls" : response.done_reason === "length" ? "length" : "stop",
+            },
+          ],
+          usage: toUsage(response),
+        },
+      ];
+    };
+  },
+  parseError: readErrorMessage,
+};
+
+export default ollamaAdapter;
@@ -0,0 +1,97 @@
+/**
+ * OpenAI Adapter - OpenAI Chat Completions and compatible endpoints
+ *
+ * The internal message types are OpenAI-shaped, so requests and responses
+ * pass through unchanged. Also used for llama.cpp's server, which speaks the
+ * same protocol and needs no API key.
+ */
+
+import { LLMErrorResponse, LLMResponse } from "../../types/llm";
+import { ProviderAdapter, ProviderChatParams, ProviderHttpRequest } from "../../types/provider";
+import { parseStreamPayload } from "../streamParser";
+import { trimBaseUrl } from "./common";
+
+/**
+ * Build the API endpoint URL
+ */
+export function buildOpenAIEndpoint(baseUrl: string): string {
+  const url = trimBaseUrl(baseUrl);
+
+  // If URL already contains the path, don't add it again
+  if (url.includes("/chat/completions")) {
+    return url;
+  }
+
+  // If URL ends with /v1, just add /chat/completions
+  if (url.endsWith("/v1")) {
+    return `${url}/chat/completions`;
+  }
+
+  // Otherwise add the full path
+  return `${url}/v1/chat/completions`;
+}
+
+function buildRequest(params: ProviderChatParams): ProviderHttpRequest {
+  const { config, systemPrompt, messages, tools, toolChoice, temperature, maxTokens, stream } =
+    params;
+
+  const body: Record<string, unknown> = {
+    model: config.model,
+    messages: [{ role: "system", content: systemPrompt }, ...messages],
+    temperature,
+    max_tokens: maxTokens,
+    stream,
+  };
+  if (stream) {
+    // Streams only report token usage (in a final chunk) when asked to
+    body.stream_options = { include_usage: true };
+  }
+  // Add tools if provided (some models may not support this)
+  if (tools && tools.length > 0) {
+    body.tools = tools;
+    body.tool_choice = toolChoice;
+  }
+
+  const headers: Record<string, string> = { "Content-Type": "application/json" };
+  if (config.apiKey) {
+    headers.Authorization = `Bearer ${config.apiKey}`;
+  }
+
+  return { endpoint: buildOpenAIEndpoint(config.baseUrl), headers, body };
+}
+
+export const openaiAdapter: ProviderAdapter = {
+  id: "openai",
+  name: "OpenAI Compatible",
+  defaultBaseUrl: "https://api.openai.com",
+  requiresApiKey: true,
+  streamFormat: "sse",
+  buildRequest,
+  parseResponse(data) {
+    const response = data as LLMResponse;
+    if (!response?.choices || response.choices.length === 0) {
+      return { error: "No response from model" };
+    }
+    return { message: response.choices[0].message, usage: response.usage };
+  },
+  createStreamTranslator() {
+    return (payload) => {
+      const chunk = parseStreamPayload(payload);
+      if (chunk === "done") return "done";
+      return chunk ? [chunk] : [];
+    };
+  },
+  parseError(data) {
+    return (data as LLMErrorResponse | null)?.error?.message || undefined;
+  },
+};
+
+export const llamaCppAdapter: ProviderAdapter = {
+  ...openaiAdapter,
+  id: "llamacpp",
+  name: "llama.cpp (local)",
+  defaultBaseUrl: "http://localhost:8080",
+  requiresApiKey: false,
+};
+
+export default openaiAdapter;
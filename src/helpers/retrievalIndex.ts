@@ -0,0 +1,245 @@
+/**
+ * Retrieval Index - Local BM25 index over the paragraphs of the open document
+ *
+ * Runs entirely in the task pane, so topic questions ("where do I discuss
+ * sample size?") work on long documents without an embedding service.
+ * Latin text is split into words; CJK text, which has no spaces, into
+ * overlapping character bigrams. The index is updated incrementally: only
+ * paragraphs whose text changed are re-tokenized.
+ */
+
+import { getParagraphs, ParagraphInfo } from "./wordBridge";
+import { DocumentChunk } from "./documentIndexer";
+
+/**
+ * A paragraph matching a query
+ */
+export interface RetrievalHit {
+  /** 0-based body paragraph index */
+  index: number;
+  score: number;
+  text: string;
+}
+
+/**
+ * Indexed paragraph
+ */
+interface IndexedParagraph {
+  text: string;
+  termFreq: Map<string, number>;
+  length: number;
+}
+
+/**
+ * BM25 parameters: term frequency saturation and length normalization
+ */
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+/**
+ * Tokenized texts kept for reuse when paragraphs move (e.g. after an insertion)
+ */
+const MAX_CACHED_TEXTS = 5000;
+
+const CJK_RUN_PATTERN = /[぀-ヿ㐀-䶿一-鿿가-힯豈-﫿]+/g;
+const WORD_PATTERN = /[a-z0-9À-ɏ]+/g;
+
+const STOP_WORDS = new Set([
+  "a", "an", "and", "are", "as", "at", "be", "by", "do", "does", "for", "from", "how", "i",
+  "in", "is", "it", "my", "of", "on", "or", "that", "the", "this", "to", "was", "we", "what",
+  "where", "which", "who", "why", "with",
+]);
+
+/**
+ * Split text into index terms: Latin words (without stop words) and CJK bigrams
+ */
+export function tokenize(text: string): string[] {
+  const lower = text.toLowerCase();
+  const terms: string[] = [];
+
+  (lower.match(WORD_PATTERN) || []).forEach((word) => {
+    if (!STOP_WORDS.has(word)) terms.push(word);
+  });
+  (lower.match(CJK_RUN_PATTERN) || []).forEach((run) => {
+    if (run.length === 1) {
+      terms.push(run);
+      return;
+    }
+    for (let i = 0; i < run.length - 1; i++) {
+      terms.push(run.slice(i, i + 2));
+    }
+  });
+
+  return terms;
+}
+
+/**
+ * Count term occurrences
+ */
+function countTerms(terms: string[]): Map<string, number> {
+  const counts = new Map<string, number>();
+  terms.forEach((term) => counts.set(term, (counts.get(term) || 0) + 1));
+  return counts;
+}
+
+/**
+ * BM25 index over document paragraphs
+ */
+export class RetrievalIndex {
+  private paragraphs: IndexedParagraph[] = [];
+  private docFreq: Map<string, number> = new Map();
+  private totalLength = 0;
+  private cache: Map<string, { termFreq: Map<string, number>; length: number }> = new Map();
+
+  /**
+   * Bring the index in line with the document; unchanged paragraphs are kept
+   * @returns Number of paragraphs that were (re)indexed
+   */
+  update(paragraphs: Array<Pick<ParagraphInfo, "index" | "text">>): number {
+    let changed = 0;
+
+    paragraphs.forEach(({ index, text }) => {
+      const existing = this.paragraphs[index];
+      if (existing && existing.text === text) return;
+
+      if (existing) this.remove(existing);
+      const entry = this.analyze(text);
+      this.paragraphs[index] = entry;
+      this.add(entry);
+      changed++;
+    });
+
+    // Paragraphs deleted from the end of the document
+    while (this.paragraphs.length > paragraphs.length) {
+      const removed = this.paragraphs.pop();
+      if (removed) this.remove(removed);
+      changed++;
+    }
+
+    return changed;
+  }
+
+  /**
+   * Number of indexed paragraphs
+   */
+  get size(): number {
+    return this.paragraphs.length;
+  }
+
+  /**
+   * BM25 score of every paragraph for a query
+   */
+  scoreParagraphs(query: string): number[] {
+    const terms = Array.from(new Set(tokenize(query)));
+    const count = this.paragraphs.length;
+    const averageLength = count > 0 ? this.totalLength / count : 0;
+
+    const idf = terms.map((term) => {
+      const df = this.docFreq.get(term) || 0;
+      return df === 0 ? 0 : Math.log(1 + (count - df + 0.5) / (df + 0.5));
+    });
+
+    return this.paragraphs.map((paragraph) => {
+      if (!paragraph || paragraph.length === 0) return 0;
+      const norm = 1 - BM25_B + (BM25_B * paragraph.length) / (averageLength || 1);
+      return terms.reduce((score, term, i) => {
+        const tf = paragraph.termFreq.get(term) || 0;
+        return tf === 0 ? score : score + (idf[i] * tf * (BM25_K1 + 1)) / (tf + BM25_K1 * norm);
+      }, 0);
+    });
+  }
+
+  /**
+   * Paragraphs most relevant to a query, best first
+   */
+  search(query: string, limit: number = 10): RetrievalHit[] {
+    return this.scoreParagraphs(query)
+      .map((score, index) => ({ index, score, text: this.paragraphs[index]?.text || "" }))
+      .filter((hit) => hit.score > 0)
+      .sort((a, b) => b.score - a.score || a.index - b.index)
+      .slice(0, limit);
+  }
+
+  /**
+   * Score chunks (paragraph ranges) by the summed score of their paragraphs
+   */
+  scoreChunks(chunks: DocumentChunk[], query: string): number[] {
+    const scores = this.scoreParagraphs(query);
+    return chunks.map((chunk) => {
+      let total = 0;
+      for (let i = chunk.startIndex; i <= chunk.endIndex; i++) {
+        total += scores[i] || 0;
+      }
+      return total;
+    });
+  }
+
+  /**
+   * Drop all indexed paragraphs
+   */
+  clear(): void {
+    this.paragraphs = [];
+    this.docFreq = new Map();
+    this.totalLength = 0;
+    this.cache.clear();
+  }
+
+  private analyze(text: string): IndexedParagraph {
+    let analyzed = this.cache.get(text);
+    if (!analyzed) {
+      const terms = tokenize(text);
+      analyzed = { termFreq: countTerms(terms), length: terms.length };
+      if (this.cache.size >= MAX_CACHED_TEXTS) this.cache.clear();
+      this.cache.set(text, analyzed);
+    }
+    return { text, ...analyzed };
+  }
+
+  private add(paragraph: IndexedParagraph): void {
+    this.totalLength += paragraph.length;
+    paragraph.termFreq.forEach((_, term) => {
+      this.docFreq.set(term, (this.docFreq.get(term) || 0) + 1);
+    });
+  }
+
+  private remove(paragraph: IndexedParagraph): void {
+    this.totalLength -= paragraph.length;
+    paragraph.termFreq.forEach((_, term) => {
+      const df = (this.docFreq.get(term) || 0) - 1;
+      if (df > 0) {
+        this.docFreq.set(term, df);
+      } else {
+        this.docFreq.delete(term);
+      }
+    });
+  }
+}
+
+/**
+ * Index of the open document, shared by the search tool and context selection
+ */
+let documentIndex: RetrievalIndex | null = null;
+
+export function getRetrievalIndex(): RetrievalIndex {
+  if (!documentIndex) {
+    documentIndex = new RetrievalIndex();
+  }
+  return documentIndex;
+}
+
+/**
+ * Rank the document's paragraphs by relevance to a query
+ */
+export async function searchByRelevance(query: string, limit: number = 10): Promise<RetrievalHit[]> {
+  const index = getRetrievalIndex();
+  index.update(await getParagraphs());
+  return index.search(query, limit);
+}
+
+export const retrievalIndex = {
+  tokenize,
+  getRetrievalIndex,
+  searchByRelevance,
+};
+
+export default retrievalIndex;
@@ -0,0 +1,371 @@
+/**
+ * Session Export - Move conversations between computers
+ *
+ * Sessions are exported as versioned JSON that can be imported again, or as a
+ * readable Markdown transcript (including tool results and applied edits),
+ * e.g. to attach an editing log to a manuscript submission.
+ */
+
+import { Session, SessionSummary } from "./sessionManager";
+import { ChatMessage, DisplayMessage, MessageRole, ToolCall } from "../types/llm";
+import { AppliedEdit } from "../types/tools";
+import { StructureIssue, StructureIssueSeverity } from "../types/structure";
+
+/**
+ * Identifies Word Copilot session exports
+ */
+export const SESSION_EXPORT_FORMAT = "word-copilot-sessions";
+
+/**
+ * Current export schema version. Version 0 is a bare array of sessions,
+ * as stored in localStorage before exports existed.
+ */
+export const SESSION_EXPORT_VERSION = 1;
+
+/**
+ * JSON session export
+ */
+export interface SessionExport {
+  format: typeof SESSION_EXPORT_FORMAT;
+  version: number;
+  exportedAt: number;
+  sessions: Session[];
+}
+
+export interface SessionParseResult {
+  success: boolean;
+  sessions?: Session[];
+  error?: string;
+}
+
+const ROLE_LABELS: Record<DisplayMessage["role"], string> = {
+  user: "用户",
+  assistant: "助手",
+  system: "系统",
+  tool_result: "工具结果",
+};
+
+/**
+ * Serialize sessions as a JSON export
+ */
+export function serializeSessions(sessions: Session[], now: number = Date.now()): string {
+  const data: SessionExport = {
+    format: SESSION_EXPORT_FORMAT,
+    version: SESSION_EXPORT_VERSION,
+    exportedAt: now,
+    sessions,
+  };
+  return JSON.stringify(data, null, 2);
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+const CHAT_ROLES: MessageRole[] = ["system", "user", "assistant", "tool"];
+const SEVERITIES: StructureIssueSeverity[] = ["error", "warning", "suggestion"];
+
+function isOptional(value: unknown, type: "string" | "number" | "boolean"): boolean {
+  return value === undefined || typeof value === type;
+}
+
+function isToolCall(value: unknown): value is ToolCall {
+  return (
+    isRecord(value) &&
+    typeof value.id === "string" &&
+    isRecord(value.function) &&
+    typeof value.function.name === "string" &&
+    typeof value.function.arguments === "string"
+  );
+}
+
+/**
+ * Absent, or an array whose items all pass the check
+ */
+function isOptionalList(value: unknown, isItem: (item: unknown) => boolean): boolean {
+  return value === undefined || (Array.isArray(value) && value.every(isItem));
+}
+
+function isChatMessage(value: unknown): value is ChatMessage {
+  return (
+    isRecord(value) &&
+    CHAT_ROLES.indexOf(value.role as MessageRole) !== -1 &&
+    (typeof value.content === "string" || value.content === null) &&
+    isOptionalList(value.tool_calls, isToolCall)
+  );
+}
+
+function isAppliedEdit(value: unknown): value is AppliedEdit {
+  return (
+    isRecord(value) &&
+    typeof value.id === "string" &&
+    typeof value.name === "string" &&
+    typeof value.newText === "string" &&
+    isOptional(value.toolCallId, "string") &&
+    isOptional(value.originalText, "string") &&
+    isOptional(value.originalMarkup, "string") &&
+    isOptional(value.tag, "string") &&
+    isOptional(value.commentId, "string") &&
+    isOptional(value.reverted, "boolean")
+  );
+}
+
+function isStructureIssue(value: unknown): value is StructureIssue {
+  return (
+    isRecord(value) &&
+    typeof value.description === "string" &&
+    SEVERITIES.indexOf(value.severity as StructureIssueSeverity) !== -1 &&
+    isOptional(value.location, "string") &&
+    isOptional(value.paragraphIndex, "number") &&
+    isOptional(value.quote, "string") &&
+    isOptional(value.suggestion, "string") &&
+    isOptional(value.rule, "string")
+  );
+}
+
+function isDisplayMessage(value: unknown): value is DisplayMessage {
+  return (
+    isRecord(value) &&
+    typeof value.id === "string" &&
+    Boolean(value.id) &&
+    typeof value.role === "string" &&
+    Object.prototype.hasOwnProperty.call(ROLE_LABELS, value.role) &&
+    typeof value.content === "string" &&
+    typeof value.timestamp === "number" &&
+    isOptionalList(value.toolCalls, isToolCall) &&
+    isOptional(value.agentStep, "number") &&
+    isOptional(value.answeredBy, "string") &&
+    (value.appliedEdits === undefined || Array.isArray(value.appliedEdits)) &&
+    (value.structureIssues === undefined || Array.isArray(value.structureIssues))
+  );
+}
+
+/**
+ * Valid display messages, without the applied edits and structure issues
+ * that are malformed
+ */
+function normalizeDisplayMessages(values: unknown[]): DisplayMessage[] {
+  return values.filter(isDisplayMessage).map((msg) => {
+    const normalized = { ...msg };
+    if (msg.appliedEdits) {
+      normalized.appliedEdits = (msg.appliedEdits as unknown[]).filter(isAppliedEdit);
+    }
+    if (msg.structureIssues) {
+      normalized.structureIssues = (msg.structureIssues as unknown[]).filter(isStructureIssue);
+    }
+    return normalized;
+  });
+}
+
+/**
+ * Valid chat messages; tool results are kept only after the assistant
+ * message that called them, as the model APIs require
+ */
+function normalizeChatMessages(values: unknown[]): ChatMessage[] {
+  const callIds: string[] = [];
+  return values.filter(isChatMessage).filter((msg) => {
+    if (msg.role === "tool") {
+      return typeof msg.tool_call_id === "string" && callIds.indexOf(msg.tool_call_id) !== -1;
+    }
+    msg.tool_calls?.forEach((call) => callIds.push(call.id));
+    return true;
+  });
+}
+
+function isSummary(value: unknown): value is SessionSummary {
+  return (
+    isRecord(value) &&
+    typeof value.content === "string" &&
+    typeof value.messageCount === "number" &&
+    isOptional(value.updatedAt, "number")
+  );
+}
+
+/**
+ * Check one imported session: keep only the known fields that are well
+ * formed, drop malformed messages and fill in fields missing from older exports
+ */
+function normalizeSession(value: unknown): Session | null {
+  if (
+    !isRecord(value) ||
+    typeof value.id !== "string" ||
+    !value.id ||
+    !Array.isArray(value.messages) ||
+    !Array.isArray(value.displayMessages)
+  ) {
+    return null;
+  }
+  const createdAt = typeof value.createdAt === "number" ? value.createdAt : Date.now();
+  const session: Session = {
+    id: value.id,
+    name: typeof value.name === "string" && value.name.trim() ? value.name : value.id,
+    createdAt,
+    updatedAt: typeof value.updatedAt === "number" ? value.updatedAt : createdAt,
+    messages: normalizeChatMessages(value.messages),
+    displayMessages: normalizeDisplayMessages(value.displayMessages),
+  };
+  if (value.applyMode === "auto" || value.applyMode === "confirm") {
+    session.applyMode = value.applyMode;
+  }
+  if (isSummary(value.summary)) {
+    session.summary = {
+      content: value.summary.content,
+      messageCount: value.summary.messageCount,
+      updatedAt: value.summary.updatedAt ?? session.updatedAt,
+    };
+  }
+  if (typeof value.documentId === "string" && value.documentId) {
+    session.documentId = value.documentId;
+    if (typeof value.documentTitle === "string") {
+      session.documentTitle = value.documentTitle;
+    }
+  }
+  return session;
+}
+
+/**
+ * Parse a JSON export (any supported version)
+ */
+export function parseSessionExport(json: string): SessionParseResult {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    return { success: false, error: "文件不是有效的 JSON" };
+  }
+
+  let sessions: unknown[];
+  if (Array.isArray(data)) {
+    // Version 0: the raw localStorage value
+    sessions = data;
+  } else if (isRecord(data) && data.format === SESSION_EXPORT_FORMAT) {
+    if (typeof data.version !== "number" || data.version > SESSION_EXPORT_VERSION) {
+      return {
+        success: false,
+        error: `导出文件的版本（${String(data.version)}）高于当前支持的版本（${SESSION_EXPORT_VERSION}），请先更新加载项`,
+      };
+    }
+    sessions = Array.isArray(data.sessions) ? data.sessions : [];
+  } else {
+    return { success: false, error: "不是 Word Copilot 对话导出文件" };
+  }
+
+  const valid = sessions.map(normalizeSession).filter((s): s is Session => s !== null);
+  if (valid.length === 0) {
+    return { success: false, error: "文件中没有可导入的对话" };
+  }
+  return { success: true, sessions: valid };
+}
+
+function formatTime(timestamp: number): string {
+  return new Date(timestamp).toLocaleString("zh-CN", { hour12: false });
+}
+
+// Keep multi-line text inside one list item
+function inline(text: string): string {
+  return text.replace(/\s*\n\s*/g, " ↵ ").trim();
+}
+
+function formatMessage(msg: DisplayMessage): string {
+  const step = msg.agentStep ? `（第 ${msg.agentStep} 步）` : "";
+  const lines = [`### ${ROLE_LABELS[msg.role]}${step} · ${formatTime(msg.timestamp)}`, ""];
+
+  if (msg.content) {
+    lines.push(msg.isError ? `> ⚠️ ${msg.content.replace(/\n/g, "\n> ")}` : msg.content, "");
+  }
+
+  if (msg.toolCalls && msg.toolCalls.length > 0) {
+    lines.push(
+      `调用工具：${msg.toolCalls.map((tc) => `\`${tc.function.name}\``).join("、")}`,
+      ""
+    );
+  }
+
+  if (msg.appliedEdits && msg.appliedEdits.length > 0) {
+    lines.push("修改记录：", "");
+    msg.appliedEdits.forEach((edit) => {
+      lines.push(`- \`${edit.name}\`${edit.reverted ? "（已撤销）" : ""}`);
+      if (edit.originalText) {
+        lines.push(`  - 原文：${inline(edit.originalText)}`);
+      }
+      if (edit.newText) {
+        lines.push(`  - ${edit.commentId ? "批注" : "修改为"}：${inline(edit.newText)}`);
+      }
+    });
+    lines.push("");
+  }
+
+  if (msg.structureIssues && msg.structureIssues.length > 0) {
+    msg.structureIssues.forEach((issue) => {
+      const location = issue.location ? `${issue.location}：` : "";
+      lines.push(`- [${issue.severity}] ${location}${inline(issue.description)}`);
+    });
+    lines.push("");
+  }
+
+  if (msg.answeredBy) {
+    lines.push(`*由备用模型 ${msg.answeredBy} 回答*`, "");
+  }
+
+  return lines.join("\n");
+}
+
+/**
+ * Readable Markdown transcript of a session
+ */
+export function formatSessionMarkdown(session: Session): string {
+  const parts = [
+    `# ${session.name}`,
+    "",
+    `- 创建时间：${formatTime(session.createdAt)}`,
+    `- 更新时间：${formatTime(session.updatedAt)}`,
+    `- 消息数：${session.displayMessages.length}`,
+    "",
+  ];
+
+  if (session.summary) {
+    parts.push("## 较早对话摘要", "", session.summary.content, "");
+  }
+
+  parts.push("## 对话记录", "");
+  session.displayMessages.forEach((msg) => parts.push(formatMessage(msg)));
+
+  return parts.join("\n").trimEnd() + "\n";
+}
+
+/**
+ * File name for an export: the session name, or "word-copilot-sessions" for all
+ */
+export function getExportFileName(
+  extension: "json" | "md",
+  session?: Pick<Session, "id" | "name">
+): string {
+  const base = session
+    ? session.name.replace(/[\\/:*?"<>|\s]+/g, "_").replace(/^_+|_+$/g, "") || session.id
+    : `${SESSION_EXPORT_FORMAT}-${new Date().toISOString().slice(0, 10)}`;
+  return `${base}.${extension}`;
+}
+
+/**
+ * Save text as a file through the WebView's download handling
+ */
+export function downloadTextFile(fileName: string, content: string, mimeType: string): void {
+  const url = URL.createObjectURL(new Blob([content], { type: `${mimeType};charset=utf-8` }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
+
+export const sessionExport = {
+  serializeSessions,
+  parseSessionExport,
+  formatSessionMarkdown,
+  getExportFileName,
+  downloadTextFile,
+};
+
+export default sessionExport;
@@ -1,8 +1,51 @@
 /**
  * Session Manager - Manages multiple conversation sessions
+ *
+ * Sessions are stored in IndexedDB, one record per session (see sessionStore).
+ * Only the list entries and the active session are kept in memory; other
+ * sessions are loaded when opened. Where IndexedDB is unavailable all
+ * sessions live in a single localStorage key, with tighter limits.
+ *
+ * Sessions record the document they were created in (see documentIdentity);
+ * the list shows and auto-selects the current document's sessions. Sessions
+ * from before that are shown for every document until one opens them.
  */
 
-import { ChatMessage, DisplayMessage } from "../types/llm";
+import { ChatMessage, DisplayMessage, DisplayMessageMeta } from "../types/llm";
+import { serializeSessions, parseSessionExport, formatSessionMarkdown } from "./sessionExport";
+import {
+  SessionSearchResult,
+  parseSearchQuery,
+  searchSession,
+  sortSearchResults,
+} from "./sessionSearch";
+import {
+  isSessionStoreSupported,
+  getSessionInfo,
+  loadSessionIndex,
+  loadStoredSession,
+  putStoredSessions,
+  deleteStoredSessions,
+  forEachStoredSession,
+} from "./sessionStore";
+import { DocumentIdentity, getDocumentIdentity } from "./documentIdentity";
+import { finalizeEdits } from "./wordBridge";
+
+/**
+ * How document-changing tool calls are applied:
+ * "auto" writes them immediately, "confirm" waits for Apply/Reject in the chat
+ */
+export type ApplyMode = "auto" | "confirm";
+
+/**
+ * Rolling summary of the turns condensed out of a session's history
+ */
+export interface SessionSummary {
+  content: string;
+  /** Messages condensed into the summary so far */
+  messageCount: number;
+  updatedAt: number;
+}
 
 /**
  * Session data structure
@@ -14,15 +57,63 @@ export interface Session {
   updatedAt: number;
   messages: ChatMessage[];
   displayMessages: DisplayMessage[];
+  /** Defaults to "auto" for sessions saved before this setting existed */
+  applyMode?: ApplyMode;
+  /** Summary of earlier turns, pinned to every request */
+  summary?: SessionSummary;
+  /** GUID of the document the session belongs to; unset for older sessions */
+  documentId?: string;
+  documentTitle?: string;
 }
 
 /**
- * Storage key for sessions
+ * Session list entry; available without loading the session's messages
+ */
+export interface SessionInfo {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  /** Number of display messages */
+  messageCount: number;
+  documentId?: string;
+  documentTitle?: string;
+}
+
+/**
+ * Sessions of the current document, or of all documents
+ */
+export type SessionScope = "document" | "all";
+
+/**
+ * Result of importing a session export
+ */
+export interface SessionImportResult {
+  success: boolean;
+  /** Sessions added */
+  imported: number;
+  /** Sessions that were already here unchanged */
+  skipped: number;
+  error?: string;
+}
+
+/**
+ * Called with the IDs of applied edits whose messages were cleared, trimmed or
+ * deleted; those edits can no longer be reverted from the chat
+ */
+export type EditsDroppedListener = (editIds: string[]) => void;
+
+/**
+ * Storage key for sessions (localStorage fallback, and the source of the IndexedDB migration)
  */
 const STORAGE_KEY = "word_copilot_sessions";
 const ACTIVE_SESSION_KEY = "word_copilot_active_session";
-const MAX_SESSIONS = 20;
-const MAX_MESSAGES_PER_SESSION = 50;
+
+/**
+ * Session and per-session message limits of each backend
+ */
+const LOCAL_STORAGE_LIMITS = { maxSessions: 20, maxMessages: 50 };
+const INDEXED_DB_LIMITS = { maxSessions: 500, maxMessages: 1000 };
 
 /**
  * Generate a unique session ID
@@ -46,15 +137,146 @@ function generateSessionName(): string {
   return `对话 ${now.toLocaleDateString("zh-CN", { month: "short", day: "numeric" })} ${now.toLocaleTimeString("zh-CN", { hour: "2-digit", minute: "2-digit" })}`;
 }
 
+/**
+ * IDs of the edits in these messages that can still be reverted
+ */
+function revertibleEditIds(messages: DisplayMessage[]): string[] {
+  const ids: string[] = [];
+  messages.forEach((msg) => {
+    msg.appliedEdits?.forEach((edit) => {
+      if (edit.tag && !edit.reverted) {
+        ids.push(edit.id);
+      }
+    });
+  });
+  return ids;
+}
+
 /**
  * Session Manager class
  */
 export class SessionManager {
+  /** Sessions loaded into memory (all of them with the localStorage backend) */
   private sessions: Map<string, Session> = new Map();
+  /** List entries of all sessions */
+  private index: Map<string, SessionInfo> = new Map();
   private activeSessionId: string | null = null;
+  /** Document the add-in is open in; null until init, or where it can't be identified */
+  private document: DocumentIdentity | null = null;
+  private useIndexedDB = isSessionStoreSupported();
+  private ready: Promise<void> | null = null;
+  // IndexedDB writes run in order, one session record at a time
+  private pendingWrites: Promise<void> = Promise.resolve();
+  private editsDroppedListeners: Set<EditsDroppedListener> = new Set();
 
   constructor() {
-    this.loadFromStorage();
+    // The IndexedDB backend loads asynchronously in init()
+    if (!this.useIndexedDB) {
+      this.loadFromStorage();
+    }
+  }
+
+  private get limits() {
+    return this.useIndexedDB ? INDEXED_DB_LIMITS : LOCAL_STORAGE_LIMITS;
+  }
+
+  /**
+   * Load the sessions: the list and the active session from IndexedDB,
+   * migrating sessions stored in localStorage by earlier versions first.
+   * Falls back to localStorage if IndexedDB cannot be opened.
+   * With a document, the active session is picked among its sessions.
+   * Safe to call repeatedly; later calls share the first load.
+   */
+  init(document?: DocumentIdentity | null): Promise<void> {
+    if (!this.ready) {
+      this.document = document || null;
+      const load = this.useIndexedDB
+        ? this.loadFromIndexedDB().catch((e) => {
+            console.warn("Failed to open session database, using localStorage:", e);
+            this.useIndexedDB = false;
+            this.loadFromStorage();
+          })
+        : Promise.resolve();
+      this.ready = load.then(() => this.selectDocumentSession());
+    }
+    return this.ready;
+  }
+
+  /**
+   * Document the sessions are shown for
+   */
+  getDocument(): DocumentIdentity | null {
+    return this.document;
+  }
+
+  /**
+   * Open the last active session if it belongs to the current document (or
+   * predates documents), else the document's most recent one, else the most
+   * recent older session; start one if there is none
+   */
+  private async selectDocumentSession(): Promise<void> {
+    const candidates = this.getSessionList();
+    const activeId = this.activeSessionId || localStorage.getItem(ACTIVE_SESSION_KEY);
+    const target =
+      candidates.find((s) => s.id === activeId) ||
+      (this.document && candidates.find((s) => s.documentId)) ||
+      candidates[0];
+    const session = target ? await this.loadSession(target.id) : null;
+    if (session) {
+      this.activeSessionId = session.id;
+      this.unloadInactive();
+      this.adoptOrPersist(session);
+      return;
+    }
+
+    // Adopt the empty session the localStorage backend starts with
+    const current = this.getActiveSession();
+    if (this.document && current && !current.documentId && current.displayMessages.length === 0) {
+      this.adoptOrPersist(current);
+    } else {
+      this.createSession();
+    }
+  }
+
+  /**
+   * Bind a session from before sessions were tied to documents to the current
+   * document, then save
+   */
+  private adoptOrPersist(session: Session): void {
+    if (this.document && !session.documentId) {
+      session.documentId = this.document.id;
+      session.documentTitle = this.document.title;
+      this.persist(session);
+    } else {
+      this.persist();
+    }
+  }
+
+  /**
+   * Move sessions from the localStorage key into IndexedDB
+   */
+  private async migrateFromLocalStorage(): Promise<void> {
+    const data = localStorage.getItem(STORAGE_KEY);
+    if (!data) return;
+
+    let sessions: Session[];
+    try {
+      sessions = JSON.parse(data);
+    } catch (e) {
+      console.warn("Failed to read sessions for migration:", e);
+      return;
+    }
+    if (Array.isArray(sessions) && sessions.length > 0) {
+      await putStoredSessions(sessions);
+    }
+    localStorage.removeItem(STORAGE_KEY);
+  }
+
+  private async loadFromIndexedDB(): Promise<void> {
+    await this.migrateFromLocalStorage();
+
+    const infos = await loadSessionIndex();
+    infos.forEach((info) => this.index.set(info.id, info));
   }
 
   /**
@@ -65,7 +287,10 @@ export class SessionManager {
       const data = localStorage.getItem(STORAGE_KEY);
       if (data) {
         const sessions: Session[] = JSON.parse(data);
-        sessions.forEach((s) => this.sessions.set(s.id, s));
+        sessions.forEach((s) => {
+          this.sessions.set(s.id, s);
+          this.index.set(s.id, getSessionInfo(s));
+        });
       }
 
       const activeId = localStorage.getItem(ACTIVE_SESSION_KEY);
@@ -98,6 +323,132 @@ export class SessionManager {
     }
   }
 
+  private queueWrite(write: () => Promise<void>): void {
+    this.pendingWrites = this.pendingWrites.then(write).catch((e) => {
+      console.warn("Failed to save session:", e);
+    });
+  }
+
+  /**
+   * Save a changed session (and the active session id)
+   */
+  private persist(session?: Session): void {
+    if (session) {
+      this.index.set(session.id, getSessionInfo(session));
+    }
+    if (!this.useIndexedDB) {
+      this.saveToStorage();
+      return;
+    }
+    try {
+      if (this.activeSessionId) {
+        localStorage.setItem(ACTIVE_SESSION_KEY, this.activeSessionId);
+      }
+    } catch (e) {
+      console.warn("Failed to save active session:", e);
+    }
+    if (session) {
+      this.queueWrite(() => putStoredSessions([session]));
+    }
+  }
+
+  /**
+   * Wait until changes have been written to IndexedDB
+   */
+  whenSaved(): Promise<void> {
+    return this.pendingWrites;
+  }
+
+  /**
+   * Full session, loading it from IndexedDB if needed
+   */
+  private async loadSession(sessionId: string): Promise<Session | null> {
+    const loaded = this.sessions.get(sessionId);
+    if (loaded) return loaded;
+    if (!this.useIndexedDB || !this.index.has(sessionId)) return null;
+
+    await this.pendingWrites;
+    const stored = await loadStoredSession(sessionId);
+    // Deleted while loading, or loaded by a concurrent call
+    if (!stored || !this.index.has(sessionId)) return null;
+    const current = this.sessions.get(sessionId);
+    if (current) return current;
+    this.sessions.set(sessionId, stored);
+    return stored;
+  }
+
+  /**
+   * Full session for reading (export), without keeping it loaded
+   */
+  private async readSession(sessionId: string): Promise<Session | null> {
+    const loaded = this.sessions.get(sessionId);
+    if (loaded) return loaded;
+    if (!this.useIndexedDB || !this.index.has(sessionId)) return null;
+    await this.pendingWrites;
+    return (await loadStoredSession(sessionId)) || null;
+  }
+
+  /**
+   * Keep only the active session in memory (IndexedDB backend)
+   */
+  private unloadInactive(): void {
+    if (!this.useIndexedDB) return;
+    Array.from(this.sessions.keys()).forEach((id) => {
+      if (id !== this.activeSessionId) {
+        this.sessions.delete(id);
+      }
+    });
+  }
+
+  /**
+   * Subscribe to edits that drop out of the sessions
+   * @returns Unsubscribe function
+   */
+  onEditsDropped(listener: EditsDroppedListener): () => void {
+    this.editsDroppedListeners.add(listener);
+    return () => {
+      this.editsDroppedListeners.delete(listener);
+    };
+  }
+
+  private dropEdits(messages: DisplayMessage[]): void {
+    const editIds = revertibleEditIds(messages);
+    if (editIds.length === 0) return;
+    this.editsDroppedListeners.forEach((listener) => {
+      try {
+        listener(editIds);
+      } catch (e) {
+        console.warn("Edits dropped listener failed:", e);
+      }
+    });
+  }
+
+  private removeSessions(sessionIds: string[]): void {
+    const unloaded: string[] = [];
+    sessionIds.forEach((id) => {
+      const session = this.sessions.get(id);
+      if (session) {
+        this.dropEdits(session.displayMessages);
+      } else {
+        unloaded.push(id);
+      }
+      this.sessions.delete(id);
+      this.index.delete(id);
+    });
+    if (this.useIndexedDB) {
+      this.queueWrite(async () => {
+        // Read the edits of unloaded sessions before their records go
+        const stored = await Promise.all(unloaded.map((id) => loadStoredSession(id)));
+        stored.forEach((session) => {
+          if (session) {
+            this.dropEdits(session.displayMessages);
+          }
+        });
+        await deleteStoredSessions(sessionIds);
+      });
+    }
+  }
+
   /**
    * Create a new session
    */
@@ -109,18 +460,22 @@ export class SessionManager {
       updatedAt: Date.now(),
       messages: [],
       displayMessages: [],
+      documentId: this.document?.id,
+      documentTitle: this.document?.title,
     };
 
     this.sessions.set(session.id, session);
+    this.index.set(session.id, getSessionInfo(session));
     this.activeSessionId = session.id;
 
     // Limit total number of sessions
-    if (this.sessions.size > MAX_SESSIONS) {
-      const oldest = this.getSessionList()[this.sessions.size - 1];
-      this.deleteSession(oldest.id);
+    if (this.index.size > this.limits.maxSessions) {
+      const oldest = this.getSessionList("all")[this.index.size - 1];
+      this.removeSessions([oldest.id]);
     }
 
-    this.saveToStorage();
+    this.unloadInactive();
+    this.persist(session);
     return session;
   }
 
@@ -138,23 +493,38 @@ export class SessionManager {
   }
 
   /**
-   * Set active session by ID
+   * Set active session by ID, loading it if needed. A session from before
+   * sessions were tied to documents is adopted by the current document.
    */
-  setActiveSession(sessionId: string): Session | null {
-    if (this.sessions.has(sessionId)) {
-      this.activeSessionId = sessionId;
-      this.saveToStorage();
-      return this.sessions.get(sessionId) || null;
+  async setActiveSession(sessionId: string): Promise<Session | null> {
+    const session = await this.loadSession(sessionId);
+    if (!session) {
+      return null;
     }
-    return null;
+    this.activeSessionId = sessionId;
+    this.unloadInactive();
+    this.adoptOrPersist(session);
+    return session;
   }
 
   /**
-   * Get all sessions sorted by updatedAt (newest first)
+   * Get sessions sorted by updatedAt (newest first)
+   * @param scope "document" lists the current document's sessions and those
+   *   from before sessions were tied to documents (all of them when the
+   *   document is unknown); "all" lists every session
    */
-  getSessionList(): Session[] {
-    return Array.from(this.sessions.values()).sort(
-      (a, b) => b.updatedAt - a.updatedAt
+  getSessionList(scope: SessionScope = "document"): SessionInfo[] {
+    return Array.from(this.index.values())
+      .filter((s) => this.inScope(s, scope))
+      .sort((a, b) => b.updatedAt - a.updatedAt);
+  }
+
+  private inScope(session: Pick<SessionInfo, "documentId">, scope: SessionScope): boolean {
+    return (
+      scope === "all" ||
+      !this.document ||
+      !session.documentId ||
+      session.documentId === this.document.id
     );
   }
 
@@ -162,91 +532,208 @@ export class SessionManager {
    * Rename a session
    */
   renameSession(sessionId: string, newName: string): boolean {
+    const info = this.index.get(sessionId);
+    if (!info) {
+      return false;
+    }
+    const name = newName.trim() || info.name;
+    const updatedAt = Date.now();
+
     const session = this.sessions.get(sessionId);
     if (session) {
-      session.name = newName.trim() || session.name;
-      session.updatedAt = Date.now();
-      this.saveToStorage();
-      return true;
+      session.name = name;
+      session.updatedAt = updatedAt;
+      this.persist(session);
+    } else {
+      // Not loaded: update the list entry now and the stored record in order
+      this.index.set(sessionId, { ...info, name, updatedAt });
+      this.queueWrite(async () => {
+        const stored = await loadStoredSession(sessionId);
+        if (stored) {
+          await putStoredSessions([{ ...stored, name, updatedAt }]);
+        }
+      });
     }
-    return false;
+    return true;
   }
 
   /**
-   * Delete a session
+   * Delete a session; deleting the active one switches to the most recent
+   * other session of the current document, or starts a new one
    */
-  deleteSession(sessionId: string): boolean {
-    if (this.sessions.size <= 1) {
+  async deleteSession(sessionId: string): Promise<boolean> {
+    if (this.index.size <= 1) {
       // Don't delete the last session, just clear it
-      const session = this.sessions.get(sessionId);
+      const session = await this.loadSession(sessionId);
       if (session) {
+        this.dropEdits(session.displayMessages);
         session.messages = [];
         session.displayMessages = [];
+        session.summary = undefined;
         session.updatedAt = Date.now();
-        this.saveToStorage();
+        this.persist(session);
       }
       return false;
     }
+    if (!this.index.has(sessionId)) {
+      return false;
+    }
 
-    const deleted = this.sessions.delete(sessionId);
-    if (deleted && this.activeSessionId === sessionId) {
+    const wasActive = this.activeSessionId === sessionId;
+    let nextSession: Session | null = null;
+    if (wasActive) {
       // Switch to another session
-      const first = this.sessions.values().next().value;
-      this.activeSessionId = first ? first.id : null;
+      const next = this.getSessionList().find((s) => s.id !== sessionId);
+      nextSession = next ? await this.loadSession(next.id) : null;
+      this.activeSessionId = nextSession ? nextSession.id : null;
     }
-    this.saveToStorage();
-    return deleted;
+    this.removeSessions([sessionId]);
+    if (wasActive && !nextSession) {
+      this.createSession();
+    } else if (nextSession) {
+      this.adoptOrPersist(nextSession);
+    } else {
+      this.persist();
+    }
+    return true;
   }
 
   /**
-   * Add a message to the active session
+   * Get the apply mode of the active session
    */
-  addMessage(message: ChatMessage): void {
+  getApplyMode(): ApplyMode {
+    return this.getActiveSession()?.applyMode || "auto";
+  }
+
+  /**
+   * Set the apply mode of the active session
+   */
+  setApplyMode(mode: ApplyMode): void {
     const session = this.getActiveSession();
     if (session) {
+      session.applyMode = mode;
+      this.persist(session);
+    }
+  }
+
+  /**
+   * Change a session: in memory when it is loaded, otherwise its stored record
+   * (queued behind earlier writes, so opening the session sees the change)
+   * @param sessionId Session to change; the active session when omitted
+   * @returns false if the session does not exist
+   */
+  private updateSession(
+    sessionId: string | undefined,
+    update: (session: Session) => void
+  ): boolean {
+    const session = sessionId ? this.sessions.get(sessionId) : this.getActiveSession();
+    if (session) {
+      update(session);
+      this.persist(session);
+      return true;
+    }
+    if (!sessionId || !this.useIndexedDB || !this.index.has(sessionId)) {
+      return false;
+    }
+    this.queueWrite(async () => {
+      const loaded = this.sessions.get(sessionId);
+      if (loaded) {
+        // Opened meanwhile
+        update(loaded);
+        this.persist(loaded);
+        return;
+      }
+      const stored = await loadStoredSession(sessionId);
+      if (!stored || !this.index.has(sessionId)) return;
+      update(stored);
+      this.index.set(sessionId, getSessionInfo(stored));
+      await putStoredSessions([stored]);
+    });
+    return true;
+  }
+
+  /**
+   * Add a message to the active session
+   * @param sessionId Session to add to instead, e.g. the one a running request was sent from
+   */
+  addMessage(message: ChatMessage, sessionId?: string): void {
+    this.updateSession(sessionId, (session) => {
       session.messages.push(message);
       session.updatedAt = Date.now();
 
       // Limit messages per session
-      if (session.messages.length > MAX_MESSAGES_PER_SESSION) {
-        session.messages = session.messages.slice(-MAX_MESSAGES_PER_SESSION);
+      if (session.messages.length > this.limits.maxMessages) {
+        session.messages = session.messages.slice(-this.limits.maxMessages);
+        // Drop tool results whose requesting assistant message was trimmed
+        while (session.messages.length > 0 && session.messages[0].role === "tool") {
+          session.messages.shift();
+        }
       }
-
-      this.saveToStorage();
-    }
+    });
   }
 
   /**
    * Add a display message to the active session
+   * @param sessionId Session to add to instead, e.g. the one a running request was sent from
    */
   addDisplayMessage(
     role: DisplayMessage["role"],
     content: string,
     toolCalls?: ChatMessage["tool_calls"],
-    isError?: boolean
+    isError?: boolean,
+    meta?: DisplayMessageMeta,
+    sessionId?: string
   ): DisplayMessage | null {
-    const session = this.getActiveSession();
-    if (session) {
-      const msg: DisplayMessage = {
-        id: generateMessageId(),
-        role,
-        content,
-        timestamp: Date.now(),
-        toolCalls,
-        isError,
-      };
+    const msg: DisplayMessage = {
+      ...meta,
+      id: generateMessageId(),
+      role,
+      content,
+      timestamp: Date.now(),
+      toolCalls,
+      isError,
+    };
+    const added = this.updateSession(sessionId, (session) => {
       session.displayMessages.push(msg);
       session.updatedAt = Date.now();
 
       // Limit display messages
-      if (session.displayMessages.length > MAX_MESSAGES_PER_SESSION) {
-        session.displayMessages = session.displayMessages.slice(-MAX_MESSAGES_PER_SESSION);
+      if (session.displayMessages.length > this.limits.maxMessages) {
+        const overflow = session.displayMessages.length - this.limits.maxMessages;
+        this.dropEdits(session.displayMessages.slice(0, overflow));
+        session.displayMessages = session.displayMessages.slice(overflow);
       }
+    });
+    return added ? msg : null;
+  }
 
-      this.saveToStorage();
-      return msg;
+  /**
+   * Mark applied edits as reverted in the active session's display messages
+   * @returns true if any edit was updated
+   */
+  markEditsReverted(editIds: string[]): boolean {
+    const session = this.getActiveSession();
+    if (!session) return false;
+
+    let updated = false;
+    session.displayMessages = session.displayMessages.map((msg) => {
+      if (!msg.appliedEdits?.some((e) => editIds.includes(e.id) && !e.reverted)) {
+        return msg;
+      }
+      updated = true;
+      return {
+        ...msg,
+        appliedEdits: msg.appliedEdits.map((e) =>
+          editIds.includes(e.id) ? { ...e, reverted: true } : e
+        ),
+      };
+    });
+
+    if (updated) {
+      session.updatedAt = Date.now();
+      this.persist(session);
     }
-    return null;
+    return updated;
   }
 
   /**
@@ -271,11 +758,160 @@ export class SessionManager {
   clearActiveSession(): void {
     const session = this.getActiveSession();
     if (session) {
+      this.dropEdits(session.displayMessages);
       session.messages = [];
       session.displayMessages = [];
+      session.summary = undefined;
       session.updatedAt = Date.now();
-      this.saveToStorage();
+      this.persist(session);
+    }
+  }
+
+  /**
+   * Get the summary of earlier turns in the active session
+   */
+  getSummary(): SessionSummary | undefined {
+    return this.getActiveSession()?.summary;
+  }
+
+  /**
+   * Replace a session's summary and drop the messages it now covers
+   * @param foldedCount Number of oldest messages condensed into the summary
+   * @param basedOn The session's messages when the summary was requested; if
+   *   they have changed since (a new turn, a trim), the summary is discarded
+   * @returns false if the session is not loaded or its messages changed
+   */
+  applySummary(
+    sessionId: string,
+    content: string,
+    foldedCount: number,
+    basedOn?: ChatMessage[]
+  ): boolean {
+    const session = this.sessions.get(sessionId);
+    if (!session) return false;
+    if (
+      basedOn &&
+      (basedOn.length !== session.messages.length ||
+        basedOn.some((msg, i) => msg !== session.messages[i]))
+    ) {
+      return false;
+    }
+
+    session.summary = {
+      content,
+      messageCount: (session.summary?.messageCount || 0) + foldedCount,
+      updatedAt: Date.now(),
+    };
+    session.messages = session.messages.slice(foldedCount);
+    // Drop tool results whose requesting assistant message was folded
+    while (session.messages.length > 0 && session.messages[0].role === "tool") {
+      session.messages.shift();
+    }
+    session.updatedAt = Date.now();
+    this.persist(session);
+    return true;
+  }
+
+  /**
+   * Export sessions as versioned JSON
+   * @param sessionIds Sessions to export (all when omitted)
+   */
+  async exportSessions(sessionIds?: string[]): Promise<string> {
+    const sessions: Session[] = [];
+    for (const info of this.getSessionList("all")) {
+      if (sessionIds && !sessionIds.includes(info.id)) continue;
+      const session = await this.readSession(info.id);
+      if (session) sessions.push(session);
+    }
+    return serializeSessions(sessions);
+  }
+
+  /**
+   * Export a session as a readable Markdown transcript
+   */
+  async exportSessionMarkdown(sessionId: string): Promise<string | null> {
+    const session = await this.readSession(sessionId);
+    return session ? formatSessionMarkdown(session) : null;
+  }
+
+  /**
+   * Import sessions from a JSON export. Sessions already here unchanged are
+   * skipped; an id clash with a different session gets a new id. The active
+   * session stays active.
+   */
+  importSessions(json: string): SessionImportResult {
+    const parsed = parseSessionExport(json);
+    if (!parsed.sessions) {
+      return { success: false, imported: 0, skipped: 0, error: parsed.error };
+    }
+
+    const { maxSessions, maxMessages } = this.limits;
+    const importedIds: string[] = [];
+    let skipped = 0;
+    parsed.sessions.forEach((session) => {
+      const existing = this.index.get(session.id);
+      if (existing && existing.updatedAt === session.updatedAt) {
+        skipped++;
+        return;
+      }
+      const id = existing ? generateSessionId() : session.id;
+      const imported: Session = {
+        ...session,
+        id,
+        messages: session.messages.slice(-maxMessages),
+        displayMessages: session.displayMessages.slice(-maxMessages),
+      };
+      this.sessions.set(id, imported);
+      this.persist(imported);
+      importedIds.push(id);
+    });
+
+    // Keep the newest sessions within the limit
+    const overflow = this.getSessionList("all")
+      .filter((s) => s.id !== this.activeSessionId)
+      .slice(maxSessions - 1);
+    if (overflow.length > 0) {
+      this.removeSessions(overflow.map((s) => s.id));
+    }
+
+    this.unloadInactive();
+    this.persist();
+    return {
+      success: true,
+      imported: importedIds.filter((id) => this.index.has(id)).length,
+      skipped,
+    };
+  }
+
+  /**
+   * Full-text search across session names and message contents
+   */
+  async searchSessions(
+    query: string,
+    scope: SessionScope = "document"
+  ): Promise<SessionSearchResult[]> {
+    const terms = parseSearchQuery(query);
+    if (terms.length === 0) {
+      return [];
     }
+
+    const results: SessionSearchResult[] = [];
+    const visit = (session: Session) => {
+      if (!this.inScope(session, scope)) return;
+      const result = searchSession(session, terms);
+      if (result) results.push(result);
+    };
+    this.sessions.forEach(visit);
+    if (this.useIndexedDB) {
+      await this.pendingWrites;
+      await forEachStoredSession((session) => {
+        // Loaded sessions were searched in memory
+        if (!this.sessions.has(session.id) && this.index.has(session.id)) {
+          visit(session);
+        }
+      });
+    }
+    return sortSearchResults(results);
   }
 
   /**
@@ -322,6 +958,25 @@ export function getSessionManager(): SessionManager {
   return sessionManagerInstance;
 }
 
+/**
+ * Unwrap the content controls of edits that can no longer be reverted
+ */
+function finalizeDroppedEdits(editIds: string[]): void {
+  finalizeEdits(editIds).catch((e) => {
+    console.warn("Failed to finalize edits:", e);
+  });
+}
+
+/**
+ * Identify the document and load its sessions before the chat is shown
+ */
+export async function initSessionManager(): Promise<void> {
+  const document = await getDocumentIdentity();
+  const manager = getSessionManager();
+  manager.onEditsDropped(finalizeDroppedEdits);
+  await manager.init(document);
+}
+
 export function resetSessionManager(): void {
   sessionManagerInstance = new SessionManager();
 }
@@ -0,0 +1,113 @@
+/**
+ * Session Search - Full-text search across conversation sessions
+ *
+ * A session matches when every search term occurs in its name or in one of
+ * its messages (case-insensitive). Matching messages are returned as short
+ * snippets around the first term they contain.
+ */
+
+import { Session } from "./sessionManager";
+import { DisplayMessage } from "../types/llm";
+
+/** Snippets returned per session */
+const MAX_MATCHES_PER_SESSION = 3;
+/** Characters of context on each side of a match */
+const SNIPPET_RADIUS = 40;
+
+export interface SessionSearchMatch {
+  messageId: string;
+  role: DisplayMessage["role"];
+  snippet: string;
+  timestamp: number;
+}
+
+export interface SessionSearchResult {
+  sessionId: string;
+  name: string;
+  updatedAt: number;
+  nameMatched: boolean;
+  /** Number of messages containing a search term */
+  matchCount: number;
+  matches: SessionSearchMatch[];
+}
+
+/**
+ * Split a query into lower-case terms
+ */
+export function parseSearchQuery(query: string): string[] {
+  return query
+    .toLowerCase()
+    .split(/\s+/)
+    .filter((term) => term.length > 0);
+}
+
+/**
+ * Text around the first occurrence of a term, on one line
+ */
+export function makeSnippet(text: string, term: string, radius: number = SNIPPET_RADIUS): string {
+  const flat = text.replace(/\s+/g, " ").trim();
+  const at = flat.toLowerCase().indexOf(term);
+  if (at === -1) {
+    return flat.length > radius * 2 ? `${flat.slice(0, radius * 2)}…` : flat;
+  }
+  const start = Math.max(0, at - radius);
+  const end = Math.min(flat.length, at + term.length + radius);
+  return `${start > 0 ? "…" : ""}${flat.slice(start, end)}${end < flat.length ? "…" : ""}`;
+}
+
+/**
+ * Match one session against the search terms
+ */
+export function searchSession(session: Session, terms: string[]): SessionSearchResult | null {
+  if (terms.length === 0) return null;
+
+  const name = session.name.toLowerCase();
+  const contents = session.displayMessages.map((msg) => msg.content.toLowerCase());
+  const allFound = terms.every(
+    (term) => name.includes(term) || contents.some((content) => content.includes(term))
+  );
+  if (!allFound) return null;
+
+  const matches: SessionSearchMatch[] = [];
+  let matchCount = 0;
+  session.displayMessages.forEach((msg, i) => {
+    const term = terms.find((t) => contents[i].includes(t));
+    if (!term) return;
+    matchCount++;
+    if (matches.length < MAX_MATCHES_PER_SESSION) {
+      matches.push({
+        messageId: msg.id,
+        role: msg.role,
+        snippet: makeSnippet(msg.content, term),
+        timestamp: msg.timestamp,
+      });
+    }
+  });
+
+  return {
+    sessionId: session.id,
+    name: session.name,
+    updatedAt: session.updatedAt,
+    nameMatched: terms.some((term) => name.includes(term)),
+    matchCount,
+    matches,
+  };
+}
+
+/**
+ * Order results: name matches first, then by most recent activity
+ */
+export function sortSearchResults(results: SessionSearchResult[]): SessionSearchResult[] {
+  return [...results].sort(
+    (a, b) => Number(b.nameMatched) - Number(a.nameMatched) || b.updatedAt - a.updatedAt
+  );
+}
+
+export const sessionSearch = {
+  parseSearchQuery,
+  makeSnippet,
+  searchSession,
+  sortSearchResults,
+};
+
+export default sessionSearch;
@@ -0,0 +1,155 @@
+/**
+ * Session Store - Conversation sessions in IndexedDB
+ *
+ * Each session is its own record, so saving a message writes one session
+ * instead of re-serializing all of them. A separate index store holds the
+ * name, timestamps and message count of every session, which is all the
+ * session list needs; full sessions are loaded when they are opened.
+ */
+
+import { Session, SessionInfo } from "./sessionManager";
+
+const DB_NAME = "word_copilot_sessions";
+const DB_VERSION = 1;
+const SESSIONS_STORE = "sessions";
+const INDEX_STORE = "session_index";
+
+let database: Promise<IDBDatabase> | null = null;
+
+/**
+ * Check whether IndexedDB is available in this WebView
+ */
+export function isSessionStoreSupported(): boolean {
+  return typeof indexedDB !== "undefined";
+}
+
+/**
+ * Open the database once per runtime and keep the connection for later writes
+ */
+function openDatabase(): Promise<IDBDatabase> {
+  if (!database) {
+    database = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(SESSIONS_STORE, { keyPath: "id" });
+        request.result.createObjectStore(INDEX_STORE, { keyPath: "id" });
+      };
+      request.onsuccess = () => {
+        const db = request.result;
+        // Let a newer version of the add-in upgrade the database
+        db.onversionchange = () => {
+          db.close();
+          database = null;
+        };
+        resolve(db);
+      };
+      request.onerror = () => reject(request.error);
+    }).catch((error) => {
+      database = null;
+      throw error;
+    });
+  }
+  return database;
+}
+
+function requestResult<T>(request: IDBRequest): Promise<T> {
+  return new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result as T);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+/**
+ * Summary of a session as shown in the session list
+ */
+export function getSessionInfo(session: Session): SessionInfo {
+  return {
+    id: session.id,
+    name: session.name,
+    createdAt: session.createdAt,
+    updatedAt: session.updatedAt,
+    messageCount: session.displayMessages.length,
+    documentId: session.documentId,
+    documentTitle: session.documentTitle,
+  };
+}
+
+/**
+ * Load the list entries of all stored sessions
+ */
+export async function loadSessionIndex(): Promise<SessionInfo[]> {
+  const db = await openDatabase();
+  return requestResult<SessionInfo[]>(
+    db.transaction(INDEX_STORE, "readonly").objectStore(INDEX_STORE).getAll()
+  );
+}
+
+/**
+ * Load one full session
+ */
+export async function loadStoredSession(id: string): Promise<Session | undefined> {
+  const db = await openDatabase();
+  return requestResult<Session | undefined>(
+    db.transaction(SESSIONS_STORE, "readonly").objectStore(SESSIONS_STORE).get(id)
+  );
+}
+
+/**
+ * Write sessions and their list entries in one transaction
+ */
+export async function putStoredSessions(sessions: Session[]): Promise<void> {
+  const db = await openDatabase();
+  const transaction = db.transaction([SESSIONS_STORE, INDEX_STORE], "readwrite");
+  sessions.forEach((session) => {
+    transaction.objectStore(SESSIONS_STORE).put(session);
+    transaction.objectStore(INDEX_STORE).put(getSessionInfo(session));
+  });
+  await transactionDone(transaction);
+}
+
+export async function deleteStoredSessions(ids: string[]): Promise<void> {
+  const db = await openDatabase();
+  const transaction = db.transaction([SESSIONS_STORE, INDEX_STORE], "readwrite");
+  ids.forEach((id) => {
+    transaction.objectStore(SESSIONS_STORE).delete(id);
+    transaction.objectStore(INDEX_STORE).delete(id);
+  });
+  await transactionDone(transaction);
+}
+
+/**
+ * Visit every stored session one at a time (for search), without keeping them loaded
+ */
+export async function forEachStoredSession(visit: (session: Session) => void): Promise<void> {
+  const db = await openDatabase();
+  const transaction = db.transaction(SESSIONS_STORE, "readonly");
+  const request = transaction.objectStore(SESSIONS_STORE).openCursor();
+  request.onsuccess = () => {
+    const cursor = request.result;
+    if (cursor) {
+      visit(cursor.value as Session);
+      cursor.continue();
+    }
+  };
+  await transactionDone(transaction);
+}
+
+export const sessionStore = {
+  isSessionStoreSupported,
+  getSessionInfo,
+  loadSessionIndex,
+  loadStoredSession,
+  putStoredSessions,
+  deleteStoredSessions,
+  forEachStoredSession,
+};
+
+export default sessionStore;
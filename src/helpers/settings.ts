@@ -1,20 +1,45 @@
 /**
  * Settings Manager - Handles persistence of model config and user rules
+ *
+ * API keys are kept in the encrypted key vault when WebCrypto is available;
+ * the stored model configs then carry an empty `apiKey`. Runtimes call
+ * `unlockApiKeys()` on start, and the ribbon commands before each command.
  */
 
 import {
   ModelConfig,
+  ModelProfile,
+  ModelProfiles,
+  ModelTask,
+  MODEL_TASKS,
+  DEFAULT_PROFILE_ID,
+  DEFAULT_MODEL_PROFILES,
   UserRules,
+  AgentConfig,
   DEFAULT_MODEL_CONFIG,
   DEFAULT_USER_RULES,
+  DEFAULT_AGENT_CONFIG,
+  AGENT_MAX_STEPS_LIMIT,
 } from "../types/settings";
+import { isConfigComplete } from "./providers";
+import {
+  isKeyVaultSupported,
+  unlockKeyVault,
+  getSecret,
+  getSecretIds,
+  setSecret,
+  whenSecretsSaved,
+  forgetKeyVault,
+} from "./keyVault";
 
 /**
  * Storage keys
  */
 const STORAGE_KEYS = {
   MODEL_CONFIG: "word_copilot_model_config",
+  MODEL_PROFILES: "word_copilot_model_profiles",
   USER_RULES: "word_copilot_user_rules",
+  AGENT_CONFIG: "word_copilot_agent_config",
 } as const;
 
 /**
@@ -43,6 +68,26 @@ function safeJsonParse<T>(value: string | null, fallback: T): T {
   }
 }
 
+/**
+ * Move the API key of a config into the key vault, returning the config to store.
+ * Without WebCrypto the key stays in the config (plain text, as before).
+ */
+function storeApiKey<T extends ModelConfig>(config: T, secretId: string): T {
+  if (!isKeyVaultSupported()) {
+    return config;
+  }
+  setSecret(secretId, config.apiKey);
+  return { ...config, apiKey: "" };
+}
+
+/**
+ * Fill in the API key of a stored config from the key vault
+ */
+function withApiKey<T extends ModelConfig>(config: T, secretId: string): T {
+  const apiKey = getSecret(secretId);
+  return apiKey !== undefined ? { ...config, apiKey } : config;
+}
+
 /**
  * Save model configuration
  */
@@ -53,7 +98,10 @@ export function saveModelConfig(config: ModelConfig): boolean {
   }
 
   try {
-    localStorage.setItem(STORAGE_KEYS.MODEL_CONFIG, JSON.stringify(config));
+    localStorage.setItem(
+      STORAGE_KEYS.MODEL_CONFIG,
+      JSON.stringify(storeApiKey(config, DEFAULT_PROFILE_ID))
+    );
     return true;
   } catch (error) {
     console.error("Failed to save model config:", error);
@@ -62,9 +110,9 @@ export function saveModelConfig(config: ModelConfig): boolean {
 }
 
 /**
- * Load model configuration
+ * Load the default model configuration
  */
-export function loadModelConfig(): ModelConfig {
+function loadDefaultModelConfig(): ModelConfig {
   if (!isLocalStorageAvailable()) {
     return { ...DEFAULT_MODEL_CONFIG };
   }
@@ -73,10 +121,108 @@ export function loadModelConfig(): ModelConfig {
   const config = safeJsonParse(stored, DEFAULT_MODEL_CONFIG);
 
   // Merge with defaults to ensure all fields exist
-  return {
-    ...DEFAULT_MODEL_CONFIG,
-    ...config,
-  };
+  return withApiKey({ ...DEFAULT_MODEL_CONFIG, ...config }, DEFAULT_PROFILE_ID);
+}
+
+/**
+ * Load model configuration, resolving the profile routed to a task
+ * (the default configuration when no task is given or it has no route)
+ */
+export function loadModelConfig(task?: ModelTask): ModelConfig {
+  if (task) {
+    const { profiles, routes } = loadModelProfiles();
+    const profile = profiles.find((p) => p.id === routes[task]);
+    if (profile) {
+      return { ...profile };
+    }
+  }
+  return loadDefaultModelConfig();
+}
+
+/**
+ * Save named model profiles and task routes
+ */
+export function saveModelProfiles(profiles: ModelProfiles): boolean {
+  if (!isLocalStorageAvailable()) {
+    console.warn("localStorage is not available");
+    return false;
+  }
+
+  try {
+    if (isKeyVaultSupported()) {
+      // Keys of deleted profiles are removed from the vault
+      getSecretIds().forEach((id) => {
+        if (id !== DEFAULT_PROFILE_ID && !profiles.profiles.some((p) => p.id === id)) {
+          setSecret(id, "");
+        }
+      });
+    }
+    localStorage.setItem(
+      STORAGE_KEYS.MODEL_PROFILES,
+      JSON.stringify({
+        ...profiles,
+        profiles: profiles.profiles.map((p) => storeApiKey(p, p.id)),
+      })
+    );
+    return true;
+  } catch (error) {
+    console.error("Failed to save model profiles:", error);
+    return false;
+  }
+}
+
+/**
+ * Load named model profiles and task routes.
+ * Routes to unknown tasks or deleted profiles are dropped.
+ */
+export function loadModelProfiles(): ModelProfiles {
+  if (!isLocalStorageAvailable()) {
+    return { profiles: [], routes: {}, fallbacks: [] };
+  }
+
+  const stored = safeJsonParse<Partial<ModelProfiles>>(
+    localStorage.getItem(STORAGE_KEYS.MODEL_PROFILES),
+    DEFAULT_MODEL_PROFILES
+  );
+  const profiles: ModelProfile[] = Array.isArray(stored.profiles)
+    ? stored.profiles
+        .filter((p) => p && typeof p.id === "string" && p.id && p.id !== DEFAULT_PROFILE_ID)
+        .map((p) => withApiKey({ ...DEFAULT_MODEL_CONFIG, ...p, name: p.name || p.id }, p.id))
+    : [];
+
+  const routes: ModelProfiles["routes"] = {};
+  const storedRoutes = (stored.routes || {}) as Record<string, unknown>;
+  MODEL_TASKS.forEach((task) => {
+    const id = storedRoutes[task];
+    if (typeof id === "string" && profiles.some((p) => p.id === id)) {
+      routes[task] = id;
+    }
+  });
+
+  const known = (id: unknown) =>
+    id === DEFAULT_PROFILE_ID || profiles.some((p) => p.id === id);
+  const fallbacks = Array.isArray(stored.fallbacks)
+    ? stored.fallbacks.filter((id, i, all) => known(id) && all.indexOf(id) === i)
+    : [];
+
+  return { profiles, routes, fallbacks };
+}
+
+/**
+ * Configurations of the fallback chain for a task, without the task's own
+ * profile and without profiles that are not fully configured
+ */
+export function loadFallbackConfigs(task?: ModelTask): ModelConfig[] {
+  const { profiles, routes, fallbacks } = loadModelProfiles();
+  const primary = (task && routes[task]) || DEFAULT_PROFILE_ID;
+  return fallbacks
+    .filter((id) => id !== primary)
+    .map((id) =>
+      id === DEFAULT_PROFILE_ID
+        ? loadDefaultModelConfig()
+        : { ...(profiles.find((p) => p.id === id) as ModelProfile) }
+    )
+    .filter(isConfigComplete);
 }
 
 /**
@@ -116,16 +262,157 @@ export function loadUserRules(): UserRules {
 }
 
 /**
- * Clear all settings
+ * Save agent configuration
+ */
+export function saveAgentConfig(config: AgentConfig): boolean {
+  if (!isLocalStorageAvailable()) {
+    console.warn("localStorage is not available");
+    return false;
+  }
+
+  try {
+    localStorage.setItem(STORAGE_KEYS.AGENT_CONFIG, JSON.stringify(config));
+    return true;
+  } catch (error) {
+    console.error("Failed to save agent config:", error);
+    return false;
+  }
+}
+
+/**
+ * Load agent configuration
+ */
+export function loadAgentConfig(): AgentConfig {
+  if (!isLocalStorageAvailable()) {
+    return { ...DEFAULT_AGENT_CONFIG };
+  }
+
+  const stored = localStorage.getItem(STORAGE_KEYS.AGENT_CONFIG);
+  const config = {
+    ...DEFAULT_AGENT_CONFIG,
+    ...safeJsonParse<Partial<AgentConfig>>(stored, {}),
+  };
+
+  // Clamp to a sane range in case of hand-edited storage
+  const steps = Math.round(Number(config.maxSteps));
+  config.maxSteps = Number.isFinite(steps)
+    ? Math.min(AGENT_MAX_STEPS_LIMIT.max, Math.max(AGENT_MAX_STEPS_LIMIT.min, steps))
+    : DEFAULT_AGENT_CONFIG.maxSteps;
+  config.preserveFormatting = config.preserveFormatting === true;
+
+  return config;
+}
+
+/**
+ * Move API keys still stored in plain text into the key vault; the plain
+ * text copy is only removed once the encrypted one has been written
+ * @returns false if a key could not be encrypted
+ */
+async function migratePlaintextKeys(): Promise<boolean> {
+  let migrated = true;
+
+  const config = safeJsonParse<ModelConfig | null>(
+    localStorage.getItem(STORAGE_KEYS.MODEL_CONFIG),
+    null
+  );
+  if (config?.apiKey) {
+    if (await setSecret(DEFAULT_PROFILE_ID, config.apiKey)) {
+      localStorage.setItem(STORAGE_KEYS.MODEL_CONFIG, JSON.stringify({ ...config, apiKey: "" }));
+    } else {
+      migrated = false;
+    }
+  }
+
+  const stored = safeJsonParse<ModelProfiles | null>(
+    localStorage.getItem(STORAGE_KEYS.MODEL_PROFILES),
+    null
+  );
+  const profiles = stored && Array.isArray(stored.profiles) ? stored.profiles : [];
+  const plaintext = profiles.filter((p) => p && typeof p.id === "string" && p.apiKey);
+  if (plaintext.length > 0) {
+    const saved = await Promise.all(plaintext.map((p) => setSecret(p.id, p.apiKey)));
+    if (saved.every(Boolean)) {
+      localStorage.setItem(
+        STORAGE_KEYS.MODEL_PROFILES,
+        JSON.stringify({ ...stored, profiles: profiles.map((p) => ({ ...p, apiKey: "" })) })
+      );
+    } else {
+      migrated = false;
+    }
+  }
+
+  return migrated;
+}
+
+/**
+ * Decrypt the stored API keys and migrate plain text ones.
+ * Call when a runtime starts, before loading model configs, and again before
+ * each ribbon command so keys saved in the task pane meanwhile are used.
+ * @returns false when keys are kept in plain text (no WebCrypto) or could not be unlocked
+ */
+export async function unlockApiKeys(): Promise<boolean> {
+  if (!isLocalStorageAvailable() || !(await unlockKeyVault())) {
+    return false;
+  }
+  try {
+    return await migratePlaintextKeys();
+  } catch (error) {
+    console.error("Failed to migrate API keys:", error);
+    return false;
+  }
+}
+
+/**
+ * Wait until API keys passed to the save functions are encrypted and stored
+ * @returns false if one of them could not be saved
+ */
+export function whenApiKeysSaved(): Promise<boolean> {
+  return isKeyVaultSupported() ? whenSecretsSaved() : Promise.resolve(true);
+}
+
+/**
+ * Forget all API keys, encrypted or in plain text; other settings are kept
+ */
+export async function forgetApiKeys(): Promise<void> {
+  await forgetKeyVault();
+  if (!isLocalStorageAvailable()) {
+    return;
+  }
+
+  const config = safeJsonParse<ModelConfig | null>(
+    localStorage.getItem(STORAGE_KEYS.MODEL_CONFIG),
+    null
+  );
+  if (config?.apiKey) {
+    localStorage.setItem(STORAGE_KEYS.MODEL_CONFIG, JSON.stringify({ ...config, apiKey: "" }));
+  }
+  const stored = safeJsonParse<ModelProfiles | null>(
+    localStorage.getItem(STORAGE_KEYS.MODEL_PROFILES),
+    null
+  );
+  if (stored && Array.isArray(stored.profiles) && stored.profiles.some((p) => p?.apiKey)) {
+    localStorage.setItem(
+      STORAGE_KEYS.MODEL_PROFILES,
+      JSON.stringify({ ...stored, profiles: stored.profiles.map((p) => ({ ...p, apiKey: "" })) })
+    );
+  }
+}
+
+/**
+ * Clear all settings, API keys included
+ * @returns Resolves once the keys are gone
  */
-export function clearAllSettings(): boolean {
+export async function clearAllSettings(): Promise<boolean> {
   if (!isLocalStorageAvailable()) {
     return false;
   }
 
   try {
     localStorage.removeItem(STORAGE_KEYS.MODEL_CONFIG);
+    localStorage.removeItem(STORAGE_KEYS.MODEL_PROFILES);
     localStorage.removeItem(STORAGE_KEYS.USER_RULES);
+    localStorage.removeItem(STORAGE_KEYS.AGENT_CONFIG);
+    await forgetKeyVault();
     return true;
   } catch (error) {
     console.error("Failed to clear settings:", error);
@@ -134,11 +421,11 @@ export function clearAllSettings(): boolean {
 }
 
 /**
- * Check if model is configured (has API key)
+ * Check if model is configured (has an API key when the provider needs one),
+ * for a task's profile or the default configuration
  */
-export function isModelConfigured(): boolean {
-  const config = loadModelConfig();
-  return Boolean(config.apiKey && config.baseUrl && config.model);
+export function isModelConfigured(task?: ModelTask): boolean {
+  return isConfigComplete(loadModelConfig(task));
 }
 
 /**
@@ -147,8 +434,16 @@ export function isModelConfigured(): boolean {
 export const settingsManager = {
   saveModelConfig,
   loadModelConfig,
+  saveModelProfiles,
+  loadModelProfiles,
+  loadFallbackConfigs,
   saveUserRules,
   loadUserRules,
+  saveAgentConfig,
+  loadAgentConfig,
+  unlockApiKeys,
+  whenApiKeysSaved,
+  forgetApiKeys,
   clearAllSettings,
   isModelConfigured,
 };
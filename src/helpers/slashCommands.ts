@@ -0,0 +1,148 @@
+/**
+ * Slash Commands - Explicit chat commands with autocomplete
+ *
+ * `/polish`, `/translate en`, `/comment`, `/summarize after`, `/outline` and
+ * `/analyze` each map to a fixed system prompt suffix, tool subset and tool
+ * choice, instead of guessing the intent of free text. Anything after the
+ * command (and its argument) is sent as an extra instruction.
+ */
+
+import { SlashCommand, SlashCommandName, SLASH_COMMANDS } from "../types/slashCommands";
+import { ToolDefinition, TOOL_DEFINITIONS } from "../types/tools";
+
+/**
+ * Instruction sent when the command is typed without one
+ */
+const DEFAULT_INSTRUCTIONS: Record<SlashCommandName, string> = {
+  polish: "润色选中内容",
+  translate: "翻译选中内容",
+  comment: "为选中内容添加批注建议",
+  summarize: "撰写摘要",
+  outline: "整理文档大纲",
+  analyze: "分析结构与论证",
+};
+
+/**
+ * A slash command typed in the chat input
+ */
+export interface ParsedSlashCommand {
+  command: SlashCommand;
+  /** Argument, or the command's default */
+  arg?: string;
+  /** Text after the command and argument (may be empty) */
+  instruction: string;
+}
+
+export interface SlashParseResult {
+  success: boolean;
+  parsed?: ParsedSlashCommand;
+  error?: string;
+}
+
+/**
+ * Autocomplete entry for the chat input
+ */
+export interface SlashSuggestion {
+  command: SlashCommandName;
+  arg?: string;
+  /** Input text after accepting the suggestion */
+  completion: string;
+}
+
+export function getSlashCommand(name: string): SlashCommand | undefined {
+  return SLASH_COMMANDS.find((c) => c.name === name.toLowerCase());
+}
+
+/**
+ * Whether the input should be handled as a slash command
+ */
+export function isSlashCommand(input: string): boolean {
+  return /^\/\w/.test(input.trim());
+}
+
+/**
+ * Parse `/name [argument] [instruction]`. The first word is taken as the
+ * argument only if the command accepts it; otherwise it starts the instruction.
+ */
+export function parseSlashCommand(input: string): SlashParseResult {
+  const match = input.trim().match(/^\/(\w+)(?:\s+([\s\S]*))?$/);
+  if (!match) {
+    return { success: false, error: "不是有效的命令" };
+  }
+
+  const command = getSlashCommand(match[1]);
+  if (!command) {
+    return {
+      success: false,
+      error: `未知命令 /${match[1]}。可用命令：${SLASH_COMMANDS.map((c) => `/${c.name}`).join("、")}`,
+    };
+  }
+
+  let rest = (match[2] || "").trim();
+  let arg = command.defaultArg;
+  if (command.args) {
+    const [first] = rest.split(/\s+/);
+    if (first && command.args.includes(first.toLowerCase())) {
+      arg = first.toLowerCase();
+      rest = rest.slice(first.length).trim();
+    }
+  }
+
+  return { success: true, parsed: { command, arg, instruction: rest } };
+}
+
+/**
+ * Message sent to the model for a parsed command
+ */
+export function getSlashInstruction(parsed: ParsedSlashCommand): string {
+  return parsed.instruction || DEFAULT_INSTRUCTIONS[parsed.command.name];
+}
+
+/**
+ * Tools offered to the model for a command
+ */
+export function getSlashCommandTools(command: SlashCommand): ToolDefinition[] {
+  return TOOL_DEFINITIONS.filter((tool) =>
+    (command.tools as string[]).includes(tool.function.name)
+  );
+}
+
+/**
+ * Autocomplete for the chat input: command names while the first word is
+ * typed, then the command's arguments
+ */
+export function getSlashSuggestions(input: string): SlashSuggestion[] {
+  const nameMatch = input.match(/^\/(\w*)$/);
+  if (nameMatch) {
+    const prefix = nameMatch[1].toLowerCase();
+    return SLASH_COMMANDS.filter((c) => c.name.startsWith(prefix)).map((c) => ({
+      command: c.name,
+      completion: `/${c.name} `,
+    }));
+  }
+
+  const argMatch = input.match(/^\/(\w+) (\w*)$/);
+  const command = argMatch ? getSlashCommand(argMatch[1]) : undefined;
+  if (!argMatch || !command?.args) {
+    return [];
+  }
+  const prefix = argMatch[2].toLowerCase();
+  return command.args
+    .filter((arg) => arg.startsWith(prefix))
+    .map((arg) => ({
+      command: command.name,
+      arg,
+      completion: `/${command.name} ${arg} `,
+    }));
+}
+
+export const slashCommands = {
+  getSlashCommand,
+  isSlashCommand,
+  parseSlashCommand,
+  getSlashInstruction,
+  getSlashCommandTools,
+  getSlashSuggestions,
+};
+
+export default slashCommands;
@@ -0,0 +1,222 @@
+/**
+ * Stream Parser - Incremental parsing of OpenAI-style SSE chat completion streams
+ * (and of newline-delimited JSON streams from local model servers)
+ */
+
+import { ChatMessage, LLMStreamChunk, LLMUsage, ToolCall } from "../types/llm";
+import { generateToolCallId } from "./providers/common";
+
+/**
+ * Splits raw SSE text into `data:` payloads.
+ * Text may arrive in arbitrary fragments, so incomplete lines are buffered
+ * until the next push (or flush at end of stream).
+ */
+export class SSELineBuffer {
+  private buffer = "";
+  private dataLines: string[] = [];
+
+  /**
+   * Feed a decoded text fragment, returning every completed event payload
+   */
+  push(text: string): string[] {
+    this.buffer += text;
+    const events: string[] = [];
+
+    let newlineIndex = this.buffer.search(/\r?\n/);
+    while (newlineIndex !== -1) {
+      const line = this.buffer.slice(0, newlineIndex);
+      const newlineLength = this.buffer[newlineIndex] === "\r" ? 2 : 1;
+      this.buffer = this.buffer.slice(newlineIndex + newlineLength);
+      this.consumeLine(line, events);
+      newlineIndex = this.buffer.search(/\r?\n/);
+    }
+
+    return events;
+  }
+
+  /**
+   * Flush any trailing event that was not terminated by a blank line
+   */
+  flush(): string[] {
+    const events: string[] = [];
+    if (this.buffer) {
+      this.consumeLine(this.buffer, events);
+      this.buffer = "";
+    }
+    this.consumeLine("", events);
+    return events;
+  }
+
+  private consumeLine(line: string, events: string[]): void {
+    // A blank line dispatches the current event
+    if (line === "") {
+      if (this.dataLines.length > 0) {
+        events.push(this.dataLines.join("\n"));
+        this.dataLines = [];
+      }
+      return;
+    }
+
+    // Comments (keep-alives such as ": OPENROUTER PROCESSING")
+    if (line.startsWith(":")) return;
+
+    if (line.startsWith("data:")) {
+      this.dataLines.push(line.slice(5).replace(/^ /, ""));
+    }
+    // Other fields (event:, id:, retry:) are not needed for chat completions
+  }
+}
+
+/**
+ * Splits raw newline-delimited JSON (one object per line) into line payloads.
+ * Same interface as SSELineBuffer, so the stream reader can use either.
+ */
+export class NDJSONLineBuffer {
+  private buffer = "";
+
+  /**
+   * Feed a decoded text fragment, returning every completed non-empty line
+   */
+  push(text: string): string[] {
+    this.buffer += text;
+    const lines = this.buffer.split(/\r?\n/);
+    this.buffer = lines.pop() || "";
+    return lines.filter((line) => line.trim() !== "");
+  }
+
+  /**
+   * Flush a trailing line that was not terminated by a newline
+   */
+  flush(): string[] {
+    const rest = this.buffer.trim();
+    this.buffer = "";
+    return rest ? [rest] : [];
+  }
+}
+
+/**
+ * Incremental change produced by a single stream chunk
+ */
+export interface StreamDelta {
+  /** Newly received text (may be empty) */
+  content: string;
+  /** True when this chunk touched tool call names or arguments */
+  toolCallsChanged: boolean;
+}
+
+/**
+ * Accumulates streamed chunks into a complete assistant message.
+ * Tool call argument fragments are concatenated by their `index`.
+ */
+export class ChatStreamAccumulator {
+  private content = "";
+  private toolCalls: ToolCall[] = [];
+  private usage: LLMUsage | undefined;
+  private finishReason: string | null = null;
+
+  /**
+   * Apply a parsed chunk and return what changed
+   */
+  apply(chunk: LLMStreamChunk): StreamDelta {
+    const delta: StreamDelta = { content: "", toolCallsChanged: false };
+
+    if (chunk.usage) {
+      this.usage = chunk.usage;
+    }
+
+    const choice = chunk.choices && chunk.choices[0];
+    if (!choice) return delta;
+
+    if (choice.finish_reason) {
+      this.finishReason = choice.finish_reason;
+    }
+
+    const piece = choice.delta || {};
+    if (typeof piece.content === "string" && piece.content) {
+      this.content += piece.content;
+      delta.content = piece.content;
+    }
+
+    if (piece.tool_calls) {
+      for (const tc of piece.tool_calls) {
+        const index = typeof tc.index === "number" ? tc.index : this.toolCalls.length;
+        if (!this.toolCalls[index]) {
+          this.toolCalls[index] = {
+            id: tc.id || "",
+            type: "function",
+            function: { name: "", arguments: "" },
+          };
+        }
+        const target = this.toolCalls[index];
+        if (tc.id) target.id = tc.id;
+        if (tc.function?.name) target.function.name += tc.function.name;
+        if (tc.function?.arguments) target.function.arguments += tc.function.arguments;
+        delta.toolCallsChanged = true;
+      }
+    }
+
+    return delta;
+  }
+
+  /**
+   * Text received so far
+   */
+  getContent(): string {
+    return this.content;
+  }
+
+  /**
+   * Tool calls received so far (arguments may still be incomplete JSON)
+   */
+  getToolCalls(): ToolCall[] {
+    return this.toolCalls.filter(Boolean).map((tc) => ({
+      ...tc,
+      function: { ...tc.function },
+    }));
+  }
+
+  getUsage(): LLMUsage | undefined {
+    return this.usage;
+  }
+
+  getFinishReason(): string | null {
+    return this.finishReason;
+  }
+
+  /**
+   * Build the final assistant message
+   */
+  toMessage(): ChatMessage {
+    // Some providers omit ids in streamed tool calls; the API still needs them on
+    // follow-ups. Generated once, so repeated calls return the same ids.
+    this.toolCalls.forEach((tc, i) => {
+      if (tc && !tc.id) {
+        tc.id = generateToolCallId(i);
+      }
+    });
+    const toolCalls = this.getToolCalls();
+    const message: ChatMessage = {
+      role: "assistant",
+      content: this.content || null,
+    };
+    if (toolCalls.length > 0) {
+      message.tool_calls = toolCalls;
+    }
+    return message;
+  }
+}
+
+/**
+ * Parse a single SSE data payload into a chunk.
+ * Returns "done" for the terminating `[DONE]` marker and null for unparsable payloads.
+ */
+export function parseStreamPayload(payload: string): LLMStreamChunk | "done" | null {
+  const trimmed = payload.trim();
+  if (!trimmed) return null;
+  if (trimmed === "[DONE]") return "done";
+  try {
+    return JSON.parse(trimmed) as LLMStreamChunk;
+  } catch {
+    return null;
+  }
+}
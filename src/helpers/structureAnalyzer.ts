@@ -1,32 +1,64 @@
 /**
  * Structure Analyzer - Analyzes document structure and identifies issues
+ *
+ * Mechanical checks run locally (see structureRules). The optional deep
+ * review sends the document as indexed paragraphs and the model answers with
+ * JSON issues; each issue is validated and resolved to a real paragraph so the
+ * task pane can jump to it.
  */
 
 import { sendChat } from "./llmClient";
-import { loadModelConfig } from "./settings";
-import { getDocumentText } from "./wordBridge";
+import { loadModelConfig, loadFallbackConfigs } from "./settings";
+import { isConfigComplete } from "./providers";
+import { checkUsageBudget, estimateCost, formatBudgetWarning } from "./usageTracker";
+import { countTokens } from "./tokenBudget";
+import { BudgetWarning } from "../types/usage";
+import { getParagraphs, selectRange, ParagraphInfo } from "./wordBridge";
+import { runStructureRules, sortStructureIssues, describeParagraphLocation } from "./structureRules";
+import {
+  StructureIssue,
+  StructureIssueType,
+  StructureIssueSeverity,
+} from "../types/structure";
+
+export type { StructureIssue } from "../types/structure";
 
 /**
  * Structure analysis result
  */
 export interface StructureAnalysisResult {
   success: boolean;
+  /** Full Markdown report, including the issues */
   report?: string;
+  /** Markdown report without the issue list (shown next to the structured issues) */
+  overview?: string;
   issues?: StructureIssue[];
   error?: string;
 }
 
 /**
- * A specific structural issue found
+ * Analysis as returned by the model
  */
-export interface StructureIssue {
-  type: "heading" | "section" | "paragraph" | "citation" | "other";
-  severity: "error" | "warning" | "suggestion";
-  description: string;
-  location?: string;
-  suggestion?: string;
+interface ParsedStructureAnalysis {
+  overview: string;
+  strengths: string[];
+  issues: StructureIssue[];
+  summary: string;
 }
 
+const ISSUE_TYPES: StructureIssueType[] = ["heading", "section", "paragraph", "citation", "other"];
+const SEVERITIES: StructureIssueSeverity[] = ["error", "warning", "suggestion"];
+
+/**
+ * Characters of document text sent for analysis
+ */
+const MAX_ANALYSIS_CHARS = 15000;
+
+/**
+ * Word limits search strings to 255 characters, so longer quotes cannot be selected
+ */
+const MAX_QUOTE_LENGTH = 255;
+
 /**
  * System prompt for structure analysis
  */
@@ -53,39 +85,280 @@ const STRUCTURE_ANALYSIS_PROMPT = `你是一个专业的学术文档结构审查
    - 是否存在需要添加引用但缺失的陈述
    - 引用格式是否统一
 
-## 输出格式
-
-请以结构化的方式输出分析报告：
+## 文档格式
 
-### 📊 文档结构概览
-（简要描述文档的整体结构）
+文档按段落给出，每行格式为 "[段落索引] 内容"，标题段落带有 <H1>、<H2> 等标记。
 
-### ✅ 合格项
-- 列出做得好的方面
+## 输出格式
 
-### ⚠️ 问题与建议
-按严重程度排列，格式如下：
-- **[严重程度]** 问题描述
-  - 位置：（如果可以定位）
-  - 建议：具体改进建议
+只返回一个 JSON 对象，不要添加其他内容：
 
-### 📝 总结
-简要总结主要问题和改进优先级
+{
+  "overview": "文档整体结构的简要描述",
+  "strengths": ["做得好的方面"],
+  "issues": [
+    {
+      "type": "heading | section | paragraph | citation | other",
+      "severity": "error | warning | suggestion",
+      "description": "问题描述",
+      "paragraph_index": 12,
+      "quote": "该段落中能定位问题的原文片段，逐字复制，不超过 50 字",
+      "suggestion": "具体改进建议"
+    }
+  ],
+  "summary": "主要问题和改进优先级"
+}
 
 注意：
+- paragraph_index 必须是文档中出现过的段落索引；问题无法定位到具体段落时（如缺少某个模块）省略 paragraph_index 和 quote
+- issues 按严重程度排列：error 为必须修改，warning 为建议修改，suggestion 为可选优化
 - 如果文档很短或不是学术文档，请适当调整检查标准
 - 给出的建议要具体可执行
-- 用中文回复`;
+- 用中文填写所有文字内容`;
 
 /**
- * Analyze document structure
+ * Format paragraphs as indexed lines for the model
  */
-export async function analyzeDocumentStructure(): Promise<StructureAnalysisResult> {
+export function formatParagraphsForAnalysis(
+  paragraphs: ParagraphInfo[],
+  maxChars: number = MAX_ANALYSIS_CHARS
+): string {
+  const lines: string[] = [];
+  let length = 0;
+
+  for (const paragraph of paragraphs) {
+    const text = paragraph.text.trim();
+    if (!text) continue;
+
+    const marker = paragraph.headingLevel ? `<H${paragraph.headingLevel}> ` : "";
+    const line = `[${paragraph.index}] ${marker}${text}`;
+    if (length + line.length > maxChars) {
+      lines.push("…（文档其余部分已省略）");
+      break;
+    }
+    lines.push(line);
+    length += line.length + 1;
+  }
+
+  return lines.join("\n");
+}
+
+/**
+ * Extract the JSON object from a model response (tolerating code fences)
+ */
+function extractJson(content: string): unknown {
+  const match = content.match(/\{[\s\S]*\}/);
+  if (!match) return null;
   try {
-    // Get document content
-    const documentText = await getDocumentText(15000); // Get more text for structure analysis
+    return JSON.parse(match[0]);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Validate one issue from the model and resolve its location against the document
+ * @returns null when the issue is unusable
+ */
+function toStructureIssue(raw: unknown, paragraphs: ParagraphInfo[]): StructureIssue | null {
+  if (!raw || typeof raw !== "object") return null;
+  const item = raw as Record<string, unknown>;
 
-    if (!documentText || documentText.trim().length < 100) {
+  const description = typeof item.description === "string" ? item.description.trim() : "";
+  if (!description) return null;
+
+  const issue: StructureIssue = {
+    type: ISSUE_TYPES.includes(item.type as StructureIssueType)
+      ? (item.type as StructureIssueType)
+      : "other",
+    severity: SEVERITIES.includes(item.severity as StructureIssueSeverity)
+      ? (item.severity as StructureIssueSeverity)
+      : "suggestion",
+    description,
+  };
+  if (typeof item.suggestion === "string" && item.suggestion.trim()) {
+    issue.suggestion = item.suggestion.trim();
+  }
+
+  const quote =
+    typeof item.quote === "string" && item.quote.trim().length <= MAX_QUOTE_LENGTH
+      ? item.quote.trim()
+      : "";
+  const rawIndex = item.paragraph_index;
+  const claimedIndex =
+    typeof rawIndex === "number" &&
+    Number.isInteger(rawIndex) &&
+    rawIndex >= 0 &&
+    rawIndex < paragraphs.length
+      ? rawIndex
+      : undefined;
+
+  // Trust the quote over the index: models often miscount paragraphs
+  let index = claimedIndex;
+  if (quote && (index === undefined || !paragraphs[index].text.includes(quote))) {
+    const found = paragraphs.find((p) => p.text.includes(quote));
+    if (found) index = found.index;
+  }
+
+  if (index !== undefined) {
+    issue.paragraphIndex = index;
+    issue.location = describeParagraphLocation(paragraphs, index);
+    if (quote && paragraphs[index].text.includes(quote)) {
+      issue.quote = quote;
+    }
+  }
+  return issue;
+}
+
+/**
+ * Validate the issues returned by the model
+ * @param raw The "issues" value of the model's JSON
+ * @param paragraphs Document paragraphs, to resolve locations
+ */
+export function parseStructureIssues(raw: unknown, paragraphs: ParagraphInfo[]): StructureIssue[] {
+  if (!Array.isArray(raw)) return [];
+  return sortStructureIssues(
+    raw
+      .map((item) => toStructureIssue(item, paragraphs))
+      .filter((issue): issue is StructureIssue => issue !== null)
+  );
+}
+
+/**
+ * Parse the model's JSON analysis
+ * @returns null if the response is not the expected JSON
+ */
+export function parseStructureAnalysis(
+  content: string,
+  paragraphs: ParagraphInfo[]
+): ParsedStructureAnalysis | null {
+  const json = extractJson(content);
+  if (!json || typeof json !== "object" || !Array.isArray((json as { issues?: unknown }).issues)) {
+    return null;
+  }
+
+  const data = json as Record<string, unknown>;
+  const text = (value: unknown) => (typeof value === "string" ? value.trim() : "");
+  return {
+    overview: text(data.overview),
+    strengths: Array.isArray(data.strengths)
+      ? data.strengths.filter((s): s is string => typeof s === "string" && s.trim() !== "")
+      : [],
+    issues: parseStructureIssues(data.issues, paragraphs),
+    summary: text(data.summary),
+  };
+}
+
+const SEVERITY_LABELS: Record<StructureIssueSeverity, string> = {
+  error: "错误",
+  warning: "警告",
+  suggestion: "建议",
+};
+
+/**
+ * Build the Markdown report
+ * @param includeIssues Whether to list the issues (omitted when they are shown separately)
+ */
+export function formatStructureReport(
+  analysis: ParsedStructureAnalysis,
+  includeIssues: boolean = true
+): string {
+  const sections: string[] = [];
+
+  if (analysis.overview) {
+    sections.push(`### 📊 文档结构概览\n${analysis.overview}`);
+  }
+  if (analysis.strengths.length > 0) {
+    sections.push(`### ✅ 合格项\n${analysis.strengths.map((s) => `- ${s}`).join("\n")}`);
+  }
+  if (includeIssues) {
+    const issues = analysis.issues.map((issue) => {
+      const lines = [`- **[${SEVERITY_LABELS[issue.severity]}]** ${issue.description}`];
+      if (issue.location) lines.push(`  - 位置：${issue.location}`);
+      if (issue.suggestion) lines.push(`  - 建议：${issue.suggestion}`);
+      return lines.join("\n");
+    });
+    sections.push(`### ⚠️ 问题与建议\n${issues.join("\n") || "未发现明显问题"}`);
+  }
+  if (analysis.summary) {
+    sections.push(`### 📝 总结\n${analysis.summary}`);
+  }
+
+  return sections.join("\n\n");
+}
+
+/**
+ * Options for structure analysis
+ */
+export interface StructureAnalysisOptions {
+  /** Add the LLM review on top of the local rule checks */
+  deep?: boolean;
+  /**
+   * Called before the LLM review when it would go over a usage budget;
+   * return false to hold the review back. Without it the review goes ahead.
+   */
+  onBudgetExceeded?: (warning: BudgetWarning) => boolean;
+}
+
+/**
+ * Merge model issues into the local ones, dropping model findings a rule already reported
+ */
+function mergeIssues(local: StructureIssue[], model: StructureIssue[]): StructureIssue[] {
+  const reported = new Set(local.map((issue) => `${issue.type}:${issue.paragraphIndex}`));
+  return sortStructureIssues([
+    ...local,
+    ...model.filter(
+      (issue) =>
+        issue.paragraphIndex === undefined ||
+        !reported.has(`${issue.type}:${issue.paragraphIndex}`)
+    ),
+  ]);
+}
+
+/**
+ * Build the result for an analysis
+ */
+function toAnalysisResult(analysis: ParsedStructureAnalysis): StructureAnalysisResult {
+  return {
+    success: true,
+    report: formatStructureReport(analysis),
+    overview: formatStructureReport(analysis, false),
+    issues: analysis.issues,
+  };
+}
+
+/**
+ * Analyze document structure: local rule checks, plus an LLM review when `deep` is set
+ */
+export async function analyzeDocumentStructure(
+  options: StructureAnalysisOptions = {}
+): Promise<StructureAnalysisResult> {
+  try {
+    // Get document content as indexed paragraphs so issues can be located
+    const paragraphs = await getParagraphs();
+    const textLength = paragraphs.map((p) => p.text).join("").trim().length;
+
+    if (textLength === 0) {
+      return {
+        success: false,
+        error: "文档为空，无法进行结构检查",
+      };
+    }
+
+    const localIssues = runStructureRules(paragraphs);
+    const headingCount = paragraphs.filter((p) => p.headingLevel).length;
+    const local: ParsedStructureAnalysis = {
+      overview: `本地检查：${headingCount} 个标题、${paragraphs.length - headingCount} 个段落，发现 ${localIssues.length} 个问题。`,
+      strengths: [],
+      issues: localIssues,
+      summary: "",
+    };
+
+    if (!options.deep) {
+      return toAnalysisResult(local);
+    }
+
+    if (textLength < 100) {
       return {
         success: false,
         error: "文档内容太少，无法进行结构分析",
@@ -93,9 +366,9 @@ export async function analyzeDocumentStructure(): Promise<StructureAnalysisResul
     }
 
     // Load model config
-    const config = loadModelConfig();
+    const config = loadModelConfig("structure");
 
-    if (!config.apiKey || !config.baseUrl) {
+    if (!isConfigComplete(config)) {
       return {
         success: false,
         error: "请先在设置中配置 API Key",
@@ -103,17 +376,26 @@ export async function analyzeDocumentStructure(): Promise<StructureAnalysisResul
     }
 
     // Send to LLM for analysis
+    const documentText = formatParagraphsForAnalysis(paragraphs);
+    const content = `请分析以下文档的结构。标题跳级、空标题、过长段落和引用编号缺失已由本地规则检查，请侧重模块完整性、逻辑和引用规范等需要理解内容的问题：\n\n${documentText}`;
+
+    const promptTokens = countTokens(STRUCTURE_ANALYSIS_PROMPT) + countTokens(content);
+    const budgetWarning = checkUsageBudget(estimateCost(config.model, promptTokens) || 0);
+    if (budgetWarning && options.onBudgetExceeded?.(budgetWarning) === false) {
+      return {
+        success: false,
+        error: formatBudgetWarning(budgetWarning),
+      };
+    }
+
     const result = await sendChat({
       config,
+      fallbacks: loadFallbackConfigs("structure"),
       systemPrompt: STRUCTURE_ANALYSIS_PROMPT,
-      messages: [
-        {
-          role: "user",
-          content: `请分析以下文档的结构：\n\n${documentText}`,
-        },
-      ],
+      messages: [{ role: "user", content }],
       temperature: 0.3, // Lower temperature for more consistent analysis
       maxTokens: 4096,
+      usageContext: { task: "structure" },
     });
 
     if (!result.success || !result.message?.content) {
@@ -123,13 +405,20 @@ export async function analyzeDocumentStructure(): Promise<StructureAnalysisResul
       };
     }
 
-    // Parse the response
-    const report = result.message.content;
+    const reply = result.message.content;
+    const analysis = parseStructureAnalysis(reply, paragraphs);
 
-    return {
-      success: true,
-      report,
-    };
+    if (!analysis) {
+      // The model ignored the JSON format; still show what it wrote
+      return {
+        success: true,
+        report: `${formatStructureReport(local)}\n\n${reply}`,
+        overview: reply,
+        issues: localIssues,
+      };
+    }
+
+    return toAnalysisResult({ ...analysis, issues: mergeIssues(localIssues, analysis.issues) });
   } catch (error) {
     return {
       success: false,
@@ -138,6 +427,22 @@ export async function analyzeDocumentStructure(): Promise<StructureAnalysisResul
   }
 }
 
+/**
+ * Select the text an issue points to in the document
+ */
+export async function goToIssue(issue: StructureIssue): Promise<void> {
+  if (issue.paragraphIndex === undefined) {
+    throw new Error("该问题没有可定位的段落");
+  }
+  try {
+    await selectRange({ paragraphIndex: issue.paragraphIndex, anchor: issue.quote });
+  } catch (error) {
+    // The quote may no longer match exactly; fall back to the whole paragraph
+    if (!issue.quote) throw error;
+    await selectRange({ paragraphIndex: issue.paragraphIndex });
+  }
+}
+
 /**
  * Quick structure check for specific issues
  */
@@ -154,4 +459,5 @@ export async function quickStructureCheck(): Promise<string> {
 export default {
   analyzeDocumentStructure,
   quickStructureCheck,
+  goToIssue,
 };
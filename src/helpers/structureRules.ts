@@ -0,0 +1,313 @@
+/**
+ * Structure Rules - Deterministic structure checks that run locally
+ *
+ * Mechanical problems (heading level jumps, long paragraphs, citations with no
+ * reference entry) are found from paragraph styles and text alone, instantly
+ * and without a model. The LLM review in structureAnalyzer is an optional
+ * deeper pass on top.
+ */
+
+import { ParagraphInfo } from "./wordBridge";
+import { StructureIssue, StructureIssueSeverity } from "../types/structure";
+
+/**
+ * A local structure check
+ */
+export interface StructureRule {
+  id: string;
+  check(paragraphs: ParagraphInfo[]): StructureIssue[];
+}
+
+/**
+ * Body paragraphs longer than this are flagged
+ */
+export const MAX_PARAGRAPH_LENGTH = 200;
+
+const SEVERITY_ORDER: StructureIssueSeverity[] = ["error", "warning", "suggestion"];
+
+/**
+ * Headings that start the reference list
+ */
+const REFERENCE_HEADING_PATTERN = /^(\d+[.、\s]*)?(参考文献|引用文献|references|bibliography|works cited)\s*$/i;
+
+/**
+ * Numeric citation markers such as [3], [1, 4] or [2-5]
+ */
+const CITATION_PATTERN = /\[(\d+(?:\s*[-–—,，、]\s*\d+)*)\]/g;
+
+/**
+ * Ranges longer than this are treated as typos rather than expanded
+ */
+const MAX_CITATION_RANGE = 50;
+
+/**
+ * Describe a paragraph for the issue list, with the heading it belongs to
+ */
+export function describeParagraphLocation(paragraphs: ParagraphInfo[], index: number): string {
+  for (let i = index; i >= 0; i--) {
+    const paragraph = paragraphs[i];
+    if (paragraph && paragraph.headingLevel) {
+      if (i === index) return `第 ${index} 段（标题）`;
+      const heading = paragraph.text.trim();
+      const label = heading.length > 30 ? `${heading.slice(0, 30)}…` : heading;
+      return `${label} › 第 ${index} 段`;
+    }
+  }
+  return `第 ${index} 段`;
+}
+
+/**
+ * Build an issue located at a paragraph
+ */
+function issueAt(
+  paragraphs: ParagraphInfo[],
+  paragraph: ParagraphInfo,
+  issue: Omit<StructureIssue, "paragraphIndex" | "location">
+): StructureIssue {
+  return {
+    ...issue,
+    paragraphIndex: paragraph.index,
+    location: describeParagraphLocation(paragraphs, paragraph.index),
+  };
+}
+
+/**
+ * Shorten text for a quote Word can search for
+ */
+function toQuote(text: string): string {
+  const trimmed = text.trim();
+  return trimmed.length > 40 ? trimmed.slice(0, 40) : trimmed;
+}
+
+/**
+ * Headings must not skip levels (e.g. H1 followed directly by H3)
+ */
+export const headingLevelRule: StructureRule = {
+  id: "heading-level",
+  check(paragraphs) {
+    const issues: StructureIssue[] = [];
+    let previousLevel = 0;
+
+    paragraphs.forEach((paragraph) => {
+      const level = paragraph.headingLevel;
+      if (!level) return;
+
+      if (previousLevel > 0 && level > previousLevel + 1) {
+        issues.push(
+          issueAt(paragraphs, paragraph, {
+            type: "heading",
+            severity: "warning",
+            description: `标题层级跳级：H${previousLevel} 之后直接出现 H${level}`,
+            quote: toQuote(paragraph.text) || undefined,
+            suggestion: `将此标题改为 H${previousLevel + 1}，或补充中间层级的标题`,
+          })
+        );
+      }
+      previousLevel = level;
+    });
+
+    return issues;
+  },
+};
+
+/**
+ * Heading paragraphs must have text
+ */
+export const emptyHeadingRule: StructureRule = {
+  id: "empty-heading",
+  check(paragraphs) {
+    return paragraphs
+      .filter((p) => p.headingLevel && !p.text.trim())
+      .map((paragraph) =>
+        issueAt(paragraphs, paragraph, {
+          type: "heading",
+          severity: "warning",
+          description: "空标题：段落使用了标题样式但没有文字",
+          suggestion: "删除该段落或改为正文样式",
+        })
+      );
+  },
+};
+
+/**
+ * Body paragraphs should stay under MAX_PARAGRAPH_LENGTH characters
+ */
+export const longParagraphRule: StructureRule = {
+  id: "long-paragraph",
+  check(paragraphs) {
+    return paragraphs
+      .filter(
+        (p) =>
+          !p.headingLevel &&
+          !p.inTable &&
+          !p.isListItem &&
+          p.text.trim().length > MAX_PARAGRAPH_LENGTH
+      )
+      .map((paragraph) =>
+        issueAt(paragraphs, paragraph, {
+          type: "paragraph",
+          severity: "suggestion",
+          description: `段落过长（${paragraph.text.trim().length} 字，建议不超过 ${MAX_PARAGRAPH_LENGTH} 字）`,
+          quote: toQuote(paragraph.text),
+          suggestion: "按论点拆分为多个段落",
+        })
+      );
+  },
+};
+
+/**
+ * Expand a citation marker body such as "1, 3-5" to its numbers
+ */
+export function parseCitationNumbers(marker: string): number[] {
+  const numbers: number[] = [];
+  marker.split(/\s*[,，、]\s*/).forEach((part) => {
+    const range = part.split(/\s*[-–—]\s*/).map((n) => parseInt(n, 10));
+    if (range.length === 2 && range[1] >= range[0] && range[1] - range[0] <= MAX_CITATION_RANGE) {
+      for (let n = range[0]; n <= range[1]; n++) numbers.push(n);
+    } else {
+      range.filter((n) => !isNaN(n)).forEach((n) => numbers.push(n));
+    }
+  });
+  return numbers;
+}
+
+/**
+ * Find the reference list: the paragraphs after a "参考文献" / "References" heading
+ * @returns Index range of the entries, or null if there is no reference section
+ */
+function findReferenceSection(
+  paragraphs: ParagraphInfo[]
+): { headingIndex: number; start: number; end: number } | null {
+  const heading = paragraphs.find(
+    (p) => p.headingLevel && REFERENCE_HEADING_PATTERN.test(p.text.trim())
+  );
+  if (!heading) return null;
+
+  const position = paragraphs.indexOf(heading);
+  let end = paragraphs.length;
+  for (let i = position + 1; i < paragraphs.length; i++) {
+    const level = paragraphs[i].headingLevel;
+    if (level && level <= (heading.headingLevel || 1)) {
+      end = i;
+      break;
+    }
+  }
+  return { headingIndex: position, start: position + 1, end };
+}
+
+/**
+ * Numbers of the reference entries: "[n]" or "n." prefixes, or the position of
+ * auto-numbered list items
+ */
+function getReferenceNumbers(entries: ParagraphInfo[]): Set<number> {
+  const numbers = new Set<number>();
+  let listPosition = 0;
+
+  entries.forEach((entry) => {
+    const text = entry.text.trim();
+    if (!text) return;
+
+    const explicit = text.match(/^\[(\d+)\]|^(\d+)[.、)）]/);
+    if (explicit) {
+      numbers.add(parseInt(explicit[1] || explicit[2], 10));
+    } else if (entry.isListItem) {
+      listPosition++;
+      numbers.add(listPosition);
+    }
+  });
+  return numbers;
+}
+
+/**
+ * Every numeric citation [n] needs a matching reference entry
+ */
+export const citationReferenceRule: StructureRule = {
+  id: "citation-reference",
+  check(paragraphs) {
+    const section = findReferenceSection(paragraphs);
+    const body = section ? paragraphs.slice(0, section.headingIndex) : paragraphs;
+    const cited = body.filter((p) => !p.headingLevel && p.text.search(CITATION_PATTERN) >= 0);
+
+    if (cited.length === 0) return [];
+
+    if (!section) {
+      return [
+        issueAt(paragraphs, cited[0], {
+          type: "citation",
+          severity: "error",
+          description: "正文中有编号引用，但未找到「参考文献」部分",
+          quote: (cited[0].text.match(CITATION_PATTERN) || [])[0],
+          suggestion: "在文末添加以「参考文献」或 \"References\" 为标题的参考文献列表",
+        }),
+      ];
+    }
+
+    const references = getReferenceNumbers(paragraphs.slice(section.start, section.end));
+    const issues: StructureIssue[] = [];
+
+    cited.forEach((paragraph) => {
+      const markers = paragraph.text.match(CITATION_PATTERN) || [];
+      markers.forEach((marker) => {
+        const missing = parseCitationNumbers(marker.slice(1, -1)).filter(
+          (n) => !references.has(n)
+        );
+        if (missing.length === 0) return;
+        issues.push(
+          issueAt(paragraphs, paragraph, {
+            type: "citation",
+            severity: "error",
+            description: `引用 ${marker} 中的 ${missing.map((n) => `[${n}]`).join("、")} 在参考文献中没有对应条目`,
+            quote: marker,
+            suggestion: "补充对应的参考文献条目，或修正引用编号",
+          })
+        );
+      });
+    });
+
+    return issues;
+  },
+};
+
+/**
+ * Rules run by the local structure check
+ */
+export const DEFAULT_STRUCTURE_RULES: StructureRule[] = [
+  headingLevelRule,
+  emptyHeadingRule,
+  longParagraphRule,
+  citationReferenceRule,
+];
+
+/**
+ * Sort issues from most to least severe, then by position
+ */
+export function sortStructureIssues(issues: StructureIssue[]): StructureIssue[] {
+  return [...issues].sort(
+    (a, b) =>
+      SEVERITY_ORDER.indexOf(a.severity) - SEVERITY_ORDER.indexOf(b.severity) ||
+      (a.paragraphIndex ?? -1) - (b.paragraphIndex ?? -1)
+  );
+}
+
+/**
+ * Run structure rules on the document paragraphs
+ */
+export function runStructureRules(
+  paragraphs: ParagraphInfo[],
+  rules: StructureRule[] = DEFAULT_STRUCTURE_RULES
+): StructureIssue[] {
+  const issues: StructureIssue[] = [];
+  rules.forEach((rule) => {
+    rule.check(paragraphs).forEach((issue) => issues.push({ ...issue, rule: rule.id }));
+  });
+  return sortStructureIssues(issues);
+}
+
+export const structureRules = {
+  runStructureRules,
+  sortStructureIssues,
+  parseCitationNumbers,
+  describeParagraphLocation,
+};
+
+export default structureRules;
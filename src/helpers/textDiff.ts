@@ -0,0 +1,123 @@
+/**
+ * Text Diff - Word-level diff for previewing proposed edits
+ *
+ * CJK text has no spaces, so each CJK character is its own token; Latin text
+ * is split into words, whitespace runs and punctuation.
+ */
+
+/**
+ * A run of text that is unchanged, added or removed
+ */
+export interface DiffSegment {
+  type: "equal" | "insert" | "delete";
+  text: string;
+}
+
+/**
+ * Above this many token pairs the LCS table gets too large for the task pane;
+ * the diff falls back to "delete all, insert all".
+ */
+const MAX_DIFF_CELLS = 1_000_000;
+
+const TOKEN_PATTERN =
+  /[぀-ヿ㐀-䶿一-鿿가-힯豈-﫿]|[A-Za-z0-9À-ɏ_']+|\s+|[^\sA-Za-z0-9À-ɏ_'぀-ヿ㐀-䶿一-鿿가-힯豈-﫿]/g;
+
+/**
+ * Split text into diff tokens
+ */
+export function tokenize(text: string): string[] {
+  return text.match(TOKEN_PATTERN) || [];
+}
+
+/**
+ * Append text to the segment list, merging with the previous segment of the same type
+ */
+function pushSegment(segments: DiffSegment[], type: DiffSegment["type"], text: string): void {
+  if (!text) return;
+  const last = segments[segments.length - 1];
+  if (last && last.type === type) {
+    last.text += text;
+  } else {
+    segments.push({ type, text });
+  }
+}
+
+/**
+ * Compute a token-level diff between two texts
+ */
+export function diffText(original: string, proposed: string): DiffSegment[] {
+  const a = tokenize(original);
+  const b = tokenize(proposed);
+  const segments: DiffSegment[] = [];
+
+  // Strip common prefix and suffix to keep the LCS table small
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) {
+    start++;
+  }
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  pushSegment(segments, "equal", a.slice(0, start).join(""));
+
+  const midA = a.slice(start, endA);
+  const midB = b.slice(start, endB);
+
+  if (midA.length * midB.length > MAX_DIFF_CELLS) {
+    pushSegment(segments, "delete", midA.join(""));
+    pushSegment(segments, "insert", midB.join(""));
+  } else {
+    // lcs[i][j] = LCS length of midA[i:] and midB[j:]
+    const rows = midA.length + 1;
+    const cols = midB.length + 1;
+    const lcs = new Uint32Array(rows * cols);
+    for (let i = midA.length - 1; i >= 0; i--) {
+      for (let j = midB.length - 1; j >= 0; j--) {
+        lcs[i * cols + j] =
+          midA[i] === midB[j]
+            ? lcs[(i + 1) * cols + j + 1] + 1
+            : Math.max(lcs[(i + 1) * cols + j], lcs[i * cols + j + 1]);
+      }
+    }
+
+    let i = 0;
+    let j = 0;
+    while (i < midA.length && j < midB.length) {
+      if (midA[i] === midB[j]) {
+        pushSegment(segments, "equal", midA[i]);
+        i++;
+        j++;
+      } else if (lcs[(i + 1) * cols + j] >= lcs[i * cols + j + 1]) {
+        pushSegment(segments, "delete", midA[i]);
+        i++;
+      } else {
+        pushSegment(segments, "insert", midB[j]);
+        j++;
+      }
+    }
+    pushSegment(segments, "delete", midA.slice(i).join(""));
+    pushSegment(segments, "insert", midB.slice(j).join(""));
+  }
+
+  pushSegment(segments, "equal", a.slice(endA).join(""));
+  return segments;
+}
+
+/**
+ * Check whether a diff contains any change
+ */
+export function hasChanges(segments: DiffSegment[]): boolean {
+  return segments.some((s) => s.type !== "equal");
+}
+
+export const textDiff = {
+  tokenize,
+  diffText,
+  hasChanges,
+};
+
+export default textDiff;
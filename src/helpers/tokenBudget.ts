@@ -0,0 +1,316 @@
+/**
+ * Token Budget - Token counting and context planning per model
+ *
+ * Counts are estimated the way BPE tokenizers split text (words, digit groups,
+ * punctuation, one token per CJK character), which is far closer than request
+ * size in characters. The planner decides how much rules, selection, document
+ * and history fit the model's context window and reports what was left out.
+ */
+
+import { ChatMessage } from "../types/llm";
+import { ToolDefinition } from "../types/tools";
+import { ModelConfig, COMMON_MODELS } from "../types/settings";
+import { ContextBudgetItem, ContextBudgetReport } from "../types/context";
+
+/**
+ * Context window assumed for custom models without a configured one
+ */
+export const DEFAULT_CONTEXT_WINDOW = 32_000;
+
+/**
+ * Tokens kept free for the response (matches the default max_tokens)
+ */
+export const DEFAULT_RESPONSE_TOKENS = 4096;
+
+/**
+ * Upper bound on request input regardless of the model: large payloads
+ * frequently fail in Office WebViews ("Load failed") long before a 1M window
+ */
+export const MAX_REQUEST_TOKENS = 50_000;
+
+/**
+ * Per-message framing (role, separators) added by chat APIs
+ */
+const MESSAGE_OVERHEAD = 4;
+
+/**
+ * [TAG]…[/TAG] wrapper around each context section of the user message
+ */
+const SECTION_OVERHEAD = 12;
+
+/**
+ * Largest share of the free budget the selection may take before it is truncated
+ */
+const SELECTION_SHARE = 0.5;
+
+/**
+ * Share of the free budget history may claim before the document is sized;
+ * history also gets whatever the document leaves unused
+ */
+const HISTORY_SHARE = 0.4;
+
+/**
+ * Letters per token for Latin words (common words are a single token)
+ */
+const CHARS_PER_WORD_TOKEN = 6;
+
+const TOKEN_PIECE_PATTERN =
+  /[぀-ヿ㐀-䶿一-鿿가-힯豈-﫿]|[A-Za-zÀ-ɏ]+|\d{1,3}|\s+|[^\sA-Za-z\d]/g;
+
+/**
+ * Tokens of one piece produced by TOKEN_PIECE_PATTERN
+ */
+function pieceTokens(piece: string): number {
+  if (/^\s+$/.test(piece)) {
+    // A single space is merged into the following word
+    return piece === " " ? 0 : 1;
+  }
+  if (/^[A-Za-zÀ-ɏ]+$/.test(piece)) {
+    return Math.ceil(piece.length / CHARS_PER_WORD_TOKEN);
+  }
+  return 1;
+}
+
+/**
+ * Estimate the number of tokens in a text
+ */
+export function countTokens(text: string): number {
+  let count = 0;
+  (text.match(TOKEN_PIECE_PATTERN) || []).forEach((piece) => {
+    count += pieceTokens(piece);
+  });
+  return count;
+}
+
+/**
+ * Cut a text to at most maxTokens tokens, at a token boundary
+ */
+export function truncateToTokens(text: string, maxTokens: number): string {
+  const pattern = new RegExp(TOKEN_PIECE_PATTERN.source, "g");
+  let count = 0;
+  let end = 0;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(text)) !== null) {
+    const tokens = pieceTokens(match[0]);
+    count += tokens;
+    if (count > maxTokens) break;
+    // Spaces merged into the next word are only kept together with it
+    if (tokens > 0) end = match.index + match[0].length;
+  }
+  return text.slice(0, end);
+}
+
+/**
+ * Tokens of one chat message, tool calls included
+ */
+function messageTokens(message: ChatMessage): number {
+  let count = MESSAGE_OVERHEAD + countTokens(message.content || "");
+  message.tool_calls?.forEach((call) => {
+    count += MESSAGE_OVERHEAD + countTokens(call.function.name) + countTokens(call.function.arguments);
+  });
+  return count;
+}
+
+/**
+ * Estimate the tokens of a list of chat messages
+ */
+export function countMessageTokens(messages: ChatMessage[]): number {
+  return messages.reduce((sum, message) => sum + messageTokens(message), 0);
+}
+
+/**
+ * Estimate the tokens of tool definitions (sent as JSON schema)
+ */
+export function countToolTokens(tools?: ToolDefinition[]): number {
+  return tools && tools.length > 0 ? countTokens(JSON.stringify(tools)) : 0;
+}
+
+/**
+ * Context window of the configured model
+ */
+export function getContextWindow(config: Pick<ModelConfig, "model" | "contextWindow">): number {
+  if (config.contextWindow && config.contextWindow > 0) {
+    return config.contextWindow;
+  }
+  const preset = COMMON_MODELS.find((m) => m.apiName === config.model);
+  return preset ? preset.contextWindow : DEFAULT_CONTEXT_WINDOW;
+}
+
+/**
+ * Input tokens available for a request, leaving room for the response
+ */
+export function getInputTokenLimit(
+  config: Pick<ModelConfig, "model" | "contextWindow">,
+  responseTokens: number = DEFAULT_RESPONSE_TOKENS
+): number {
+  const window = getContextWindow(config);
+  return Math.min(MAX_REQUEST_TOKENS, Math.max(window - responseTokens, Math.floor(window / 2)));
+}
+
+/**
+ * Keep the most recent messages that fit the budget. A kept slice never starts
+ * with tool results whose requesting assistant message was dropped.
+ */
+export function trimHistory(
+  messages: ChatMessage[],
+  budget: number
+): { messages: ChatMessage[]; dropped: number } {
+  let used = 0;
+  let start = messages.length;
+  for (let i = messages.length - 1; i >= 0; i--) {
+    const tokens = messageTokens(messages[i]);
+    if (used + tokens > budget) break;
+    used += tokens;
+    start = i;
+  }
+  while (start < messages.length && messages[start].role === "tool") {
+    start++;
+  }
+  return { messages: messages.slice(start), dropped: start };
+}
+
+/**
+ * Format a token count for display, e.g. 850, 12.3K
+ */
+export function formatTokens(tokens: number): string {
+  if (tokens < 1000) return String(tokens);
+  const thousands = tokens / 1000;
+  return `${thousands >= 100 ? Math.round(thousands) : Math.round(thousands * 10) / 10}K`;
+}
+
+/**
+ * Document context built for a token budget
+ */
+export interface BudgetedDocument {
+  text: string;
+  /** Chunks in the document and chunks left out (0 when sent whole) */
+  chunkCount: number;
+  omittedCount: number;
+}
+
+/**
+ * Everything that may go into a request
+ */
+export interface ContextPlanInput {
+  config: Pick<ModelConfig, "model" | "contextWindow">;
+  systemPrompt: string;
+  /** Messages pinned after the system prompt (the conversation summary) */
+  pinnedMessages?: ChatMessage[];
+  tools?: ToolDefinition[];
+  userInput: string;
+  rulesText?: string;
+  selection?: string;
+  /** Earlier conversation, oldest first */
+  history: ChatMessage[];
+  /** Builds the [DOCUMENT] context within a token budget */
+  buildDocument?: (budget: number) => BudgetedDocument;
+  /** Tokens kept free for the response */
+  responseTokens?: number;
+}
+
+/**
+ * What fits in the request, with a report of how the budget was spent
+ */
+export interface ContextPlan {
+  rulesText?: string;
+  selection: string;
+  documentText: string;
+  history: ChatMessage[];
+  report: ContextBudgetReport;
+}
+
+/**
+ * Decide how much rules, selection, document and history fit the model's
+ * context window. System prompt, pinned summary, tools and the user's input always go in;
+ * then the selection (truncated past half the free budget), the rules, the
+ * document and the most recent history.
+ */
+export function planContext(input: ContextPlanInput): ContextPlan {
+  const limit = getInputTokenLimit(input.config, input.responseTokens);
+  const items: ContextBudgetItem[] = [
+    { part: "system", tokens: countTokens(input.systemPrompt) + MESSAGE_OVERHEAD },
+    { part: "summary", tokens: countMessageTokens(input.pinnedMessages || []) },
+    { part: "tools", tokens: countToolTokens(input.tools) },
+    { part: "input", tokens: countTokens(input.userInput) + MESSAGE_OVERHEAD },
+  ];
+  let remaining = limit - items.reduce((sum, item) => sum + item.tokens, 0);
+
+  // Selection: what the user is pointing at, so it comes before everything optional
+  let selection = (input.selection || "").trim();
+  if (selection) {
+    const full = countTokens(selection);
+    const cap = Math.max(0, Math.floor(remaining * SELECTION_SHARE) - SECTION_OVERHEAD);
+    const item: ContextBudgetItem = { part: "selection", tokens: full };
+    if (full > cap) {
+      selection = truncateToTokens(selection, cap);
+      item.tokens = countTokens(selection);
+      item.dropped = full - item.tokens;
+      item.total = full;
+    }
+    item.tokens += SECTION_OVERHEAD;
+    items.push(item);
+    remaining -= item.tokens;
+  }
+
+  let rulesText = input.rulesText;
+  if (rulesText) {
+    const tokens = countTokens(rulesText) + SECTION_OVERHEAD;
+    if (tokens <= remaining) {
+      items.push({ part: "rules", tokens });
+      remaining -= tokens;
+    } else {
+      items.push({ part: "rules", tokens: 0, dropped: 1, total: 1 });
+      rulesText = undefined;
+    }
+  }
+
+  // Document gets what history does not claim; history then gets the rest
+  let documentText = "";
+  if (input.buildDocument) {
+    const historyClaim = Math.min(
+      countMessageTokens(input.history),
+      Math.floor(Math.max(0, remaining) * HISTORY_SHARE)
+    );
+    const document = input.buildDocument(Math.max(0, remaining - historyClaim - SECTION_OVERHEAD));
+    documentText = document.text.trim();
+    const tokens = documentText ? countTokens(documentText) + SECTION_OVERHEAD : 0;
+    items.push({
+      part: "document",
+      tokens,
+      ...(document.omittedCount > 0
+        ? { dropped: document.omittedCount, total: document.chunkCount }
+        : {}),
+    });
+    remaining -= tokens;
+  }
+
+  const trimmed = trimHistory(input.history, Math.max(0, remaining));
+  items.push({
+    part: "history",
+    tokens: countMessageTokens(trimmed.messages),
+    ...(trimmed.dropped > 0 ? { dropped: trimmed.dropped, total: input.history.length } : {}),
+  });
+
+  return {
+    rulesText,
+    selection,
+    documentText,
+    history: trimmed.messages,
+    report: {
+      limit,
+      total: items.reduce((sum, item) => sum + item.tokens, 0),
+      items: items.filter((item) => item.tokens > 0 || item.dropped),
+    },
+  };
+}
+
+export const tokenBudget = {
+  countTokens,
+  countMessageTokens,
+  getContextWindow,
+  getInputTokenLimit,
+  trimHistory,
+  planContext,
+};
+
+export default tokenBudget;
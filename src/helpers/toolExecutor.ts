@@ -10,14 +10,58 @@ import {
   InsertTextArgs,
   DeleteSelectionArgs,
   AddCommentToSelectionArgs,
+  GetParagraphsArgs,
+  SearchDocumentArgs,
+  ReplaceParagraphArgs,
+  ReplaceTextInRangeArgs,
+  CommentOnMatchArgs,
   InsertPosition,
+  AppliedEdit,
 } from "../types/tools";
 import {
   replaceSelection,
   insertText,
+  insertMarkdown,
   deleteSelection,
   addCommentToSelection,
+  getParagraphs,
+  getOutline,
+  searchDocument,
+  replaceRange,
+  addCommentToRange,
+  replaceSelectionWithMarkup,
+  replaceRangeWithMarkup,
+  ParagraphInfo,
+  RangeTarget,
+  CapturedSelection,
+  EditRecord,
 } from "./wordBridge";
+import { stripMarkup } from "./formatMarkup";
+import { hasMarkdownSyntax } from "./markdown";
+import { searchByRelevance } from "./retrievalIndex";
+
+/**
+ * Read tool limits, to keep tool results within a reasonable request size
+ */
+const DEFAULT_PARAGRAPH_COUNT = 20;
+const MAX_PARAGRAPH_COUNT = 100;
+const MAX_TOOL_DATA_CHARS = 20000;
+
+/**
+ * Options for executing tool calls
+ */
+export interface ToolExecutionOptions {
+  /**
+   * Selection captured when the request started. Selection tools act on it
+   * instead of wherever the cursor is by the time the tool runs.
+   */
+  selection?: CapturedSelection;
+  /**
+   * Treat replacement content as simplified markup and write it with
+   * insertHtml, so inline formatting survives (see formatMarkup)
+   */
+  preserveFormatting?: boolean;
+}
 
 /**
  * Parse tool arguments from JSON string
@@ -30,10 +74,72 @@ function parseToolArgs<T>(argsString: string): T {
   }
 }
 
+/**
+ * Truncate tool output that would bloat the follow-up request
+ */
+function limitToolData(data: string): string {
+  if (data.length <= MAX_TOOL_DATA_CHARS) return data;
+  return data.substring(0, MAX_TOOL_DATA_CHARS) + "\n...[内容过长已截断，请缩小读取范围]...";
+}
+
+/**
+ * Format a paragraph as "[index] (style) text" for the model
+ */
+function formatParagraphLine(p: ParagraphInfo): string {
+  const tags = [p.style];
+  if (p.headingLevel !== undefined) tags.push(`H${p.headingLevel}`);
+  if (p.isListItem) tags.push("list");
+  if (p.inTable) tags.push("table");
+  return `[${p.index}] (${tags.filter(Boolean).join(", ")}) ${p.text}`;
+}
+
+/**
+ * Turn the location of an applied edit into an undo record
+ * @returns undefined when the edit cannot be found again
+ */
+function toAppliedEdit(
+  record: EditRecord,
+  toolCall: ToolCall,
+  newText: string
+): AppliedEdit | undefined {
+  if (!record.tag && !record.commentId) return undefined;
+  return {
+    ...record,
+    toolCallId: toolCall.id,
+    name: toolCall.function.name as ToolName,
+    newText,
+  };
+}
+
+/**
+ * Build a range target from tool arguments
+ */
+function toRangeTarget(args: {
+  anchor?: string;
+  paragraph_index?: number;
+  occurrence?: number;
+  tag?: string;
+}): RangeTarget {
+  return {
+    anchor: args.anchor || undefined,
+    paragraphIndex:
+      typeof args.paragraph_index === "number" ? Math.floor(args.paragraph_index) : undefined,
+    occurrence:
+      typeof args.occurrence === "number" ? Math.max(0, Math.floor(args.occurrence)) : undefined,
+    tag: args.tag || undefined,
+  };
+}
+
 /**
  * Execute a single tool call
  */
-async function executeSingleToolCall(toolCall: ToolCall): Promise<ToolResult> {
+async function executeSingleToolCall(
+  toolCall: ToolCall,
+  options: ToolExecutionOptions
+): Promise<ToolResult> {
+  const { selection, preserveFormatting = false } = options;
+  // Text actually written, for undo records
+  const writtenText = (content: string) => (preserveFormatting ? stripMarkup(content) : content);
   const { id, function: fn } = toolCall;
   const toolName = fn.name as ToolName;
 
@@ -44,12 +150,15 @@ async function executeSingleToolCall(toolCall: ToolCall): Promise<ToolResult> {
         if (!args.content) {
           throw new Error("replace_selection requires content parameter");
         }
-        await replaceSelection(args.content);
+        const record = preserveFormatting
+          ? await replaceSelectionWithMarkup(args.content, true, selection)
+          : await replaceSelection(args.content, true, selection);
         return {
           toolCallId: id,
           name: toolName,
           success: true,
           message: args.comment || "已替换选中内容",
+          appliedEdit: toAppliedEdit(record, toolCall, writtenText(args.content)),
         };
       }
 
@@ -67,24 +176,29 @@ async function executeSingleToolCall(toolCall: ToolCall): Promise<ToolResult> {
         if (!validPositions.includes(args.position)) {
           throw new Error(`Invalid insert position: ${args.position}`);
         }
-        await insertText(args.position, args.content);
+        // Markdown is written as native headings, lists and tables
+        const record = hasMarkdownSyntax(args.content)
+          ? await insertMarkdown(args.position, args.content, selection)
+          : await insertText(args.position, args.content, selection);
         const positionLabel = getPositionLabel(args.position);
         return {
           toolCallId: id,
           name: toolName,
           success: true,
           message: args.comment || `已在${positionLabel}插入内容`,
+          appliedEdit: toAppliedEdit(record, toolCall, args.content),
         };
       }
 
       case "delete_selection": {
         const args = parseToolArgs<DeleteSelectionArgs>(fn.arguments);
-        await deleteSelection();
+        const record = await deleteSelection(selection);
         return {
           toolCallId: id,
           name: toolName,
           success: true,
           message: args.comment || "已删除选中内容",
+          appliedEdit: toAppliedEdit(record, toolCall, ""),
         };
       }
 
@@ -93,12 +207,156 @@ async function executeSingleToolCall(toolCall: ToolCall): Promise<ToolResult> {
         if (!args.comment) {
           throw new Error("add_comment_to_selection requires comment parameter");
         }
-        await addCommentToSelection(args.comment);
+        const record = await addCommentToSelection(args.comment, selection);
         return {
           toolCallId: id,
           name: toolName,
           success: true,
           message: "已添加批注",
+          appliedEdit: toAppliedEdit(record, toolCall, args.comment),
+        };
+      }
+
+      case "get_paragraphs": {
+        const args = parseToolArgs<GetParagraphsArgs>(fn.arguments || "{}");
+        const start = Math.max(0, Math.floor(args.start_index ?? 0));
+        const count = Math.min(
+          MAX_PARAGRAPH_COUNT,
+          Math.max(1, Math.floor(args.count ?? DEFAULT_PARAGRAPH_COUNT))
+        );
+        const allParagraphs = await getParagraphs();
+        const total = allParagraphs.length;
+        const paragraphs = allParagraphs.slice(start, start + count);
+        const lines = paragraphs.map(formatParagraphLine);
+        const end = start + paragraphs.length - 1;
+        return {
+          toolCallId: id,
+          name: toolName,
+          success: true,
+          message:
+            paragraphs.length > 0
+              ? `已读取第 ${start}–${end} 段（共 ${total} 段）`
+              : `没有可读取的段落（共 ${total} 段）`,
+          data: limitToolData(
+            [`共 ${total} 段，以下为第 ${start}–${end} 段：`, ...lines].join("\n")
+          ),
+        };
+      }
+
+      case "get_outline": {
+        const outline = await getOutline();
+        const lines = outline.map(
+          (h) => `${"  ".repeat(h.level - 1)}H${h.level} [${h.paragraphIndex}] ${h.text}`
+        );
+        return {
+          toolCallId: id,
+          name: toolName,
+          success: true,
+          message: `已读取文档大纲（${outline.length} 个标题）`,
+          data: limitToolData(
+            outline.length > 0 ? lines.join("\n") : "文档中没有使用标题样式的段落"
+          ),
+        };
+      }
+
+      case "search_document": {
+        const args = parseToolArgs<SearchDocumentArgs>(fn.arguments);
+        if (!args.query) {
+          throw new Error("search_document requires query parameter");
+        }
+        const maxResults = Math.min(50, Math.max(1, Math.floor(args.max_results ?? 20)));
+        if (args.mode !== "relevance") {
+          const matches = await searchDocument(args.query, {
+            matchCase: args.match_case,
+            matchWildcards: args.match_wildcards,
+            maxResults,
+          });
+          // Wildcard patterns are not topics; report them as not found
+          if (matches.length > 0 || args.match_wildcards) {
+            const lines = matches.map(
+              (m) =>
+                `[${m.paragraphIndex}] #${m.occurrence} "${m.text}" — ${m.paragraphText}`
+            );
+            return {
+              toolCallId: id,
+              name: toolName,
+              success: true,
+              message: `搜索「${args.query}」找到 ${matches.length} 处`,
+              data: limitToolData(
+                matches.length > 0
+                  ? `格式：[段落索引] #段内序号 "匹配文本" — 段落全文\n${lines.join("\n")}`
+                  : "未找到匹配内容"
+              ),
+            };
+          }
+        }
+
+        const hits = await searchByRelevance(args.query, maxResults);
+        const fallback = args.mode !== "relevance" ? "未找到原文匹配，以下为按相关度排序的段落\n" : "";
+        return {
+          toolCallId: id,
+          name: toolName,
+          success: true,
+          message: `按相关度搜索「${args.query}」找到 ${hits.length} 段`,
+          data: limitToolData(
+            hits.length > 0
+              ? `${fallback}格式：[段落索引] 段落全文（按相关度从高到低）\n${hits
+                  .map((hit) => `[${hit.index}] ${hit.text}`)
+                  .join("\n")}`
+              : "未找到相关内容"
+          ),
+        };
+      }
+
+      case "replace_paragraph": {
+        const args = parseToolArgs<ReplaceParagraphArgs>(fn.arguments);
+        if (typeof args.paragraph_index !== "number" || args.content === undefined) {
+          throw new Error("replace_paragraph requires paragraph_index and content parameters");
+        }
+        const target = toRangeTarget({ paragraph_index: args.paragraph_index });
+        const record = preserveFormatting
+          ? await replaceRangeWithMarkup(target, args.content)
+          : await replaceRange(target, args.content);
+        return {
+          toolCallId: id,
+          name: toolName,
+          success: true,
+          message: args.comment || `已替换第 ${args.paragraph_index} 段`,
+          appliedEdit: toAppliedEdit(record, toolCall, writtenText(args.content)),
+        };
+      }
+
+      case "replace_text_in_range": {
+        const args = parseToolArgs<ReplaceTextInRangeArgs>(fn.arguments);
+        if (args.content === undefined) {
+          throw new Error("replace_text_in_range requires content parameter");
+        }
+        const target = toRangeTarget(args);
+        const record = preserveFormatting
+          ? await replaceRangeWithMarkup(target, args.content)
+          : await replaceRange(target, args.content);
+        return {
+          toolCallId: id,
+          name: toolName,
+          success: true,
+          message:
+            args.comment || (target.anchor ? `已替换「${target.anchor}」` : "已替换指定范围"),
+          appliedEdit: toAppliedEdit(record, toolCall, writtenText(args.content)),
+        };
+      }
+
+      case "comment_on_match": {
+        const args = parseToolArgs<CommentOnMatchArgs>(fn.arguments);
+        if (!args.anchor || !args.comment) {
+          throw new Error("comment_on_match requires anchor and comment parameters");
+        }
+        const record = await addCommentToRange(toRangeTarget(args), args.comment);
+        return {
+          toolCallId: id,
+          name: toolName,
+          success: true,
+          message: `已为「${args.anchor}」添加批注`,
+          appliedEdit: toAppliedEdit(record, toolCall, args.comment),
         };
       }
 
@@ -132,7 +390,7 @@ async function executeSingleToolCall(toolCall: ToolCall): Promise<ToolResult> {
 /**
  * Get human-readable position label
  */
-function getPositionLabel(position: InsertPosition): string {
+export function getPositionLabel(position: InsertPosition): string {
   switch (position) {
     case "before_selection":
       return "选区前";
@@ -151,12 +409,13 @@ function getPositionLabel(position: InsertPosition): string {
  * Execute multiple tool calls sequentially
  */
 export async function executeToolCalls(
-  toolCalls: ToolCall[]
+  toolCalls: ToolCall[],
+  options: ToolExecutionOptions = {}
 ): Promise<ToolResult[]> {
   const results: ToolResult[] = [];
 
   for (const toolCall of toolCalls) {
-    const result = await executeSingleToolCall(toolCall);
+    const result = await executeSingleToolCall(toolCall, options);
     results.push(result);
 
     // If a tool call fails, we might want to stop execution
@@ -201,7 +460,9 @@ export function toolResultsToMessages(
   return results.map((r) => ({
     toolCallId: r.toolCallId,
     result: r.success
-      ? `成功: ${r.message}`
+      ? r.data
+        ? `成功: ${r.message}\n${r.data}`
+        : `成功: ${r.message}`
       : `失败: ${r.error || r.message}`,
   }));
 }
@@ -214,6 +475,7 @@ export const toolExecutor = {
   hasToolCalls,
   formatToolResults,
   toolResultsToMessages,
+  getPositionLabel,
 };
 
 export default toolExecutor;
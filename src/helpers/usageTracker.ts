@@ -0,0 +1,269 @@
+/**
+ * Usage Tracker - Persists token usage per request and estimates its cost
+ *
+ * Every successful model request is recorded with the model that answered,
+ * the task and the chat session. Costs are estimated from the list prices of
+ * the model presets; custom models without a price table count tokens only.
+ * Budgets are soft: callers check them before a request and warn the user.
+ */
+
+import { COMMON_MODELS, ModelPricing } from "../types/settings";
+import {
+  UsageContext,
+  UsageRecord,
+  UsagePeriod,
+  UsageSummary,
+  ModelUsageTotal,
+  UsageBudget,
+  BudgetWarning,
+} from "../types/usage";
+
+const STORAGE_KEY = "word_copilot_usage";
+const BUDGET_KEY = "word_copilot_usage_budget";
+
+/**
+ * Records older than this are dropped (covers the current and previous month)
+ */
+const RETENTION_MS = 62 * 24 * 60 * 60 * 1000;
+
+/**
+ * Upper bound on stored records, so a busy month cannot fill localStorage
+ */
+const MAX_RECORDS = 5000;
+
+function safeJsonParse<T>(value: string | null, fallback: T): T {
+  if (!value) return fallback;
+  try {
+    return JSON.parse(value) as T;
+  } catch {
+    return fallback;
+  }
+}
+
+/**
+ * Price table of a model, matched by API name or preset id
+ */
+export function getModelPricing(model: string): ModelPricing | undefined {
+  const preset = COMMON_MODELS.find((m) => m.apiName === model || m.id === model);
+  return preset?.pricing;
+}
+
+/**
+ * Estimated cost in USD, or undefined for models without a price table
+ */
+export function estimateCost(
+  model: string,
+  promptTokens: number,
+  completionTokens: number = 0
+): number | undefined {
+  const pricing = getModelPricing(model);
+  if (!pricing) return undefined;
+  return (promptTokens * pricing.input + completionTokens * pricing.output) / 1_000_000;
+}
+
+/**
+ * Format a USD amount, keeping small amounts readable
+ */
+export function formatCost(usd: number): string {
+  if (usd === 0) return "$0";
+  if (usd < 0.01) return `$${usd.toFixed(4)}`;
+  return `$${usd.toFixed(2)}`;
+}
+
+/**
+ * All stored usage records, oldest first
+ */
+export function getUsageRecords(): UsageRecord[] {
+  try {
+    const records = safeJsonParse<UsageRecord[]>(localStorage.getItem(STORAGE_KEY), []);
+    return Array.isArray(records) ? records : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Record the tokens of one successful request
+ */
+export function recordUsage(
+  context: UsageContext,
+  model: string,
+  usage: { promptTokens: number; completionTokens: number },
+  now: number = Date.now()
+): UsageRecord {
+  const record: UsageRecord = {
+    timestamp: now,
+    model,
+    task: context.task,
+    promptTokens: usage.promptTokens,
+    completionTokens: usage.completionTokens,
+  };
+  if (context.sessionId) {
+    record.sessionId = context.sessionId;
+  }
+  const cost = estimateCost(model, usage.promptTokens, usage.completionTokens);
+  if (cost !== undefined) {
+    record.cost = cost;
+  }
+
+  const records = getUsageRecords().filter((r) => now - r.timestamp < RETENTION_MS);
+  records.push(record);
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(records.slice(-MAX_RECORDS)));
+  } catch (error) {
+    console.warn("Failed to save usage:", error);
+  }
+  return record;
+}
+
+/**
+ * Delete all usage records
+ */
+export function clearUsage(): void {
+  try {
+    localStorage.removeItem(STORAGE_KEY);
+  } catch {
+    // Nothing to clear
+  }
+}
+
+/**
+ * Start of the current local day or month
+ */
+export function getPeriodStart(period: UsagePeriod, now: number = Date.now()): number {
+  const date = new Date(now);
+  const start =
+    period === "day"
+      ? new Date(date.getFullYear(), date.getMonth(), date.getDate())
+      : new Date(date.getFullYear(), date.getMonth(), 1);
+  return start.getTime();
+}
+
+/**
+ * Tokens and estimated cost of the current day or month
+ */
+export function summarizeUsage(
+  period: UsagePeriod,
+  now: number = Date.now(),
+  records: UsageRecord[] = getUsageRecords()
+): UsageSummary {
+  const start = getPeriodStart(period, now);
+  const summary: UsageSummary = {
+    period,
+    requests: 0,
+    promptTokens: 0,
+    completionTokens: 0,
+    totalTokens: 0,
+    cost: 0,
+    unpricedRequests: 0,
+    byModel: [],
+  };
+  const byModel = new Map<string, ModelUsageTotal>();
+
+  records.forEach((record) => {
+    if (record.timestamp < start || record.timestamp > now) return;
+    summary.requests++;
+    summary.promptTokens += record.promptTokens;
+    summary.completionTokens += record.completionTokens;
+    summary.cost += record.cost || 0;
+    if (record.cost === undefined) {
+      summary.unpricedRequests++;
+    }
+
+    let total = byModel.get(record.model);
+    if (!total) {
+      total = { model: record.model, requests: 0, promptTokens: 0, completionTokens: 0, cost: 0 };
+      byModel.set(record.model, total);
+    }
+    total.requests++;
+    total.promptTokens += record.promptTokens;
+    total.completionTokens += record.completionTokens;
+    total.cost += record.cost || 0;
+  });
+
+  summary.totalTokens = summary.promptTokens + summary.completionTokens;
+  byModel.forEach((total) => summary.byModel.push(total));
+  summary.byModel.sort(
+    (a, b) =>
+      b.cost - a.cost ||
+      b.promptTokens + b.completionTokens - (a.promptTokens + a.completionTokens)
+  );
+  return summary;
+}
+
+/**
+ * Save the soft budgets
+ */
+export function saveUsageBudget(budget: UsageBudget): boolean {
+  try {
+    localStorage.setItem(BUDGET_KEY, JSON.stringify(budget));
+    return true;
+  } catch (error) {
+    console.error("Failed to save usage budget:", error);
+    return false;
+  }
+}
+
+/**
+ * Load the soft budgets; limits that are not positive numbers are dropped
+ */
+export function loadUsageBudget(): UsageBudget {
+  let stored: UsageBudget = {};
+  try {
+    stored = safeJsonParse<UsageBudget>(localStorage.getItem(BUDGET_KEY), {}) || {};
+  } catch {
+    return {};
+  }
+  const budget: UsageBudget = {};
+  if (typeof stored.daily === "number" && stored.daily > 0) budget.daily = stored.daily;
+  if (typeof stored.monthly === "number" && stored.monthly > 0) budget.monthly = stored.monthly;
+  return budget;
+}
+
+/**
+ * Check whether a request of the given estimated cost would go over a budget
+ * @returns The first budget exceeded (daily before monthly), or null
+ */
+export function checkUsageBudget(
+  estimatedCost: number = 0,
+  now: number = Date.now()
+): BudgetWarning | null {
+  const budget = loadUsageBudget();
+  const periods: Array<[UsagePeriod, number | undefined]> = [
+    ["day", budget.daily],
+    ["month", budget.monthly],
+  ];
+  for (const [period, limit] of periods) {
+    if (limit === undefined) continue;
+    const spent = summarizeUsage(period, now).cost;
+    if (spent + estimatedCost >= limit) {
+      return { period, spent, limit };
+    }
+  }
+  return null;
+}
+
+/**
+ * User-facing budget warning
+ */
+export function formatBudgetWarning(warning: BudgetWarning): string {
+  const label = warning.period === "day" ? "今日" : "本月";
+  return `${label}预计费用 ${formatCost(warning.spent)} 已接近或超过预算 ${formatCost(warning.limit)}`;
+}
+
+export const usageTracker = {
+  getModelPricing,
+  estimateCost,
+  formatCost,
+  getUsageRecords,
+  recordUsage,
+  clearUsage,
+  getPeriodStart,
+  summarizeUsage,
+  saveUsageBudget,
+  loadUsageBudget,
+  checkUsageBudget,
+  formatBudgetWarning,
+};
+
+export default usageTracker;
@@ -2,18 +2,27 @@
  * Word Bridge - Encapsulates Office.js Word API operations
  */
 
-import { InsertPosition } from "../types/tools";
+import { InsertPosition, AppliedEdit } from "../types/tools";
+import {
+  simplifyHtml,
+  validateMarkup,
+  hasMarkupTags,
+  markupToHtml,
+  findProtectedContent,
+  MarkupBaseStyle,
+} from "./formatMarkup";
+import { markdownToHtml, getMarkdownHeadings } from "./markdown";
 
 /**
  * Get the currently selected text in Word
+ * @param selection Captured selection to read instead of the live selection
  * @returns The selected text or empty string if nothing selected
  */
-export async function getSelectionText(): Promise<string> {
-  return Word.run(async (context) => {
-    const selection = context.document.getSelection();
-    selection.load("text");
+export async function getSelectionText(selection?: CapturedSelection): Promise<string> {
+  return runOnSelection(selection, async (context, range) => {
+    range.load("text");
     await context.sync();
-    return selection.text || "";
+    return range.text || "";
   });
 }
 
@@ -36,6 +45,211 @@ export async function getDocumentText(maxLength: number = 10000): Promise<string
   });
 }
 
+/**
+ * Document title: the Title property, else the file name without extension
+ * (empty for unsaved documents without a title)
+ */
+export async function getDocumentTitle(): Promise<string> {
+  const title = await Word.run(async (context) => {
+    const properties = context.document.properties;
+    properties.load("title");
+    await context.sync();
+    return properties.title || "";
+  });
+  if (title.trim()) {
+    return title.trim();
+  }
+  const url = Office.context.document?.url || "";
+  let fileName = url.split(/[\\/]/).pop() || "";
+  try {
+    fileName = decodeURIComponent(fileName);
+  } catch {
+    // Keep the encoded name
+  }
+  return fileName.replace(/\.[^.]+$/, "");
+}
+
+/**
+ * Paragraph snapshot returned by the read tools
+ */
+export interface ParagraphInfo {
+  /** 0-based index in document body order */
+  index: number;
+  text: string;
+  /** Style name as shown in Word (may be localized, e.g. "标题 1") */
+  style: string;
+  /** Heading level 1-9, or undefined for body text */
+  headingLevel?: number;
+  isListItem: boolean;
+  /** True when the paragraph is inside a table */
+  inTable: boolean;
+}
+
+/**
+ * Heading entry in the document outline
+ */
+export interface OutlineEntry {
+  paragraphIndex: number;
+  level: number;
+  text: string;
+}
+
+/**
+ * Options for searchDocument
+ */
+export interface SearchOptions {
+  matchCase?: boolean;
+  matchWildcards?: boolean;
+  matchWholeWord?: boolean;
+  /** Stop after this many matches (default: 20) */
+  maxResults?: number;
+}
+
+/**
+ * A single search hit, addressed by paragraph and occurrence within it
+ */
+export interface SearchMatch {
+  paragraphIndex: number;
+  /** 0-based occurrence of the query within the paragraph */
+  occurrence: number;
+  /** The matched text */
+  text: string;
+  /** Full text of the containing paragraph */
+  paragraphText: string;
+}
+
+/**
+ * Word limits search strings to 255 characters
+ */
+const MAX_SEARCH_LENGTH = 255;
+
+/**
+ * Determine heading level from built-in style or outline level
+ */
+function getHeadingLevel(paragraph: Word.Paragraph): number | undefined {
+  const builtIn = String(paragraph.styleBuiltIn || "");
+  const builtInMatch = builtIn.match(/^Heading(\d)$/);
+  if (builtInMatch) {
+    return parseInt(builtInMatch[1], 10);
+  }
+  if (builtIn === "Title") {
+    return 1;
+  }
+  // Custom heading styles still carry an outline level (10 = body text)
+  const level = paragraph.outlineLevel;
+  if (typeof level === "number" && level >= 1 && level <= 9) {
+    return level;
+  }
+  return undefined;
+}
+
+/**
+ * Load all body paragraphs with the properties used by ParagraphInfo
+ */
+async function loadBodyParagraphs(
+  context: Word.RequestContext
+): Promise<Word.ParagraphCollection> {
+  const paragraphs = context.document.body.paragraphs;
+  paragraphs.load(
+    "items/text,items/style,items/styleBuiltIn,items/outlineLevel,items/isListItem,items/tableNestingLevel"
+  );
+  await context.sync();
+  return paragraphs;
+}
+
+function toParagraphInfo(paragraph: Word.Paragraph, index: number): ParagraphInfo {
+  return {
+    index,
+    text: paragraph.text || "",
+    style: paragraph.style || "",
+    headingLevel: getHeadingLevel(paragraph),
+    isListItem: Boolean(paragraph.isListItem),
+    inTable: (paragraph.tableNestingLevel || 0) > 0,
+  };
+}
+
+/**
+ * Get body paragraphs with their indices and styles
+ * @param start Index of the first paragraph to return (default: 0)
+ * @param count Number of paragraphs to return (default: all remaining)
+ */
+export async function getParagraphs(
+  start: number = 0,
+  count?: number
+): Promise<ParagraphInfo[]> {
+  return Word.run(async (context) => {
+    const paragraphs = await loadBodyParagraphs(context);
+    const end = count === undefined ? paragraphs.items.length : start + count;
+    return paragraphs.items
+      .slice(Math.max(0, start), end)
+      .map((p, i) => toParagraphInfo(p, Math.max(0, start) + i));
+  });
+}
+
+/**
+ * Get the heading outline of the document
+ */
+export async function getOutline(): Promise<OutlineEntry[]> {
+  return Word.run(async (context) => {
+    const paragraphs = await loadBodyParagraphs(context);
+    const outline: OutlineEntry[] = [];
+    paragraphs.items.forEach((p, index) => {
+      const level = getHeadingLevel(p);
+      if (level !== undefined && p.text.trim()) {
+        outline.push({ paragraphIndex: index, level, text: p.text.trim() });
+      }
+    });
+    return outline;
+  });
+}
+
+/**
+ * Search the document body for text or a Word wildcard pattern.
+ * Each paragraph is searched separately so matches can be addressed by paragraph index.
+ */
+export async function searchDocument(
+  query: string,
+  options: SearchOptions = {}
+): Promise<SearchMatch[]> {
+  if (!query) {
+    throw new Error("Search query is empty");
+  }
+  if (query.length > MAX_SEARCH_LENGTH) {
+    throw new Error(`Search query is longer than ${MAX_SEARCH_LENGTH} characters`);
+  }
+
+  const { matchCase = false, matchWildcards = false, matchWholeWord = false, maxResults = 20 } =
+    options;
+
+  return Word.run(async (context) => {
+    const paragraphs = context.document.body.paragraphs;
+    paragraphs.load("items/text");
+    await context.sync();
+
+    const searches = paragraphs.items.map((p) => {
+      const results = p.search(query, { matchCase, matchWildcards, matchWholeWord });
+      results.load("items/text");
+      return results;
+    });
+    await context.sync();
+
+    const matches: SearchMatch[] = [];
+    for (let i = 0; i < searches.length && matches.length < maxResults; i++) {
+      searches[i].items.forEach((range, occurrence) => {
+        if (matches.length < maxResults) {
+          matches.push({
+            paragraphIndex: i,
+            occurrence,
+            text: range.text,
+            paragraphText: paragraphs.items[i].text,
+          });
+        }
+      });
+    }
+    return matches;
+  });
+}
+
 /**
  * Small delay helper for retry logic
  */
@@ -44,77 +258,32 @@ function delay(ms: number): Promise<void> {
 }
 
 /**
- * Replace the current selection with new content using Track Changes
- * This enables revision mode so users can Accept/Reject changes
- * @param content The new text to replace selection with
- * @param useTrackChanges Whether to use track changes mode (default: true)
+ * Check whether an error is Word's transient GeneralException
  */
-export async function replaceSelection(
-  content: string,
-  useTrackChanges: boolean = true
-): Promise<void> {
+function isGeneralException(error: unknown): boolean {
+  return (
+    error instanceof Error &&
+    (error.message.includes("GeneralException") ||
+      error.name === "GeneralException" ||
+      (error as { code?: string }).code === "GeneralException")
+  );
+}
+
+/**
+ * Run a Word operation, retrying on GeneralException (concurrent edits, busy host)
+ * @param label Operation name for logging
+ */
+async function withRetry<T>(label: string, operation: () => Promise<T>): Promise<T> {
   const MAX_RETRIES = 3;
   const RETRY_DELAY_MS = 500;
 
-  for (let attempt = 1; attempt <= MAX_RETRIES; attempt++) {
+  for (let attempt = 1; ; attempt++) {
     try {
-      await Word.run(async (context) => {
-        // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        let originalMode: any = null;
-        let shouldRestore = false;
-
-        // Save and set track changes mode if requested
-        if (useTrackChanges) {
-          try {
-            // Load current tracking mode to restore later
-            context.document.load("changeTrackingMode");
-            await context.sync();
-            originalMode = context.document.changeTrackingMode;
-            shouldRestore = true;
-
-            // Enable track all mode for this operation
-            context.document.changeTrackingMode = Word.ChangeTrackingMode.trackAll;
-            await context.sync();
-          } catch (e) {
-            // Track changes might not be supported in all versions
-            console.warn("Track changes not supported, falling back to direct replace:", e);
-            shouldRestore = false;
-          }
-        }
-
-        try {
-          // Perform the replacement
-          const selection = context.document.getSelection();
-          selection.load("text");
-          await context.sync();
-
-          selection.insertText(content, Word.InsertLocation.replace);
-          await context.sync();
-        } finally {
-          // Restore original tracking mode (turn off if it was off)
-          if (shouldRestore && originalMode !== null) {
-            try {
-              context.document.changeTrackingMode = originalMode;
-              await context.sync();
-            } catch (e) {
-              // Ignore restore errors
-              console.warn("Failed to restore tracking mode:", e);
-            }
-          }
-        }
-      });
-      // Success — exit retry loop
-      return;
+      return await operation();
     } catch (error) {
-      const isGeneralException =
-        error instanceof Error &&
-        (error.message.includes("GeneralException") ||
-          error.name === "GeneralException" ||
-          (error as { code?: string }).code === "GeneralException");
-
-      if (isGeneralException && attempt < MAX_RETRIES) {
+      if (isGeneralException(error) && attempt < MAX_RETRIES) {
         console.warn(
-          `replaceSelection attempt ${attempt} failed with GeneralException, retrying in ${RETRY_DELAY_MS}ms...`
+          `${label} attempt ${attempt} failed with GeneralException, retrying in ${RETRY_DELAY_MS * attempt}ms...`
         );
         await delay(RETRY_DELAY_MS * attempt);
         continue;
@@ -125,6 +294,504 @@ export async function replaceSelection(
   }
 }
 
+/**
+ * Run an edit with Track Changes enabled, restoring the original mode afterwards
+ */
+async function withTrackChanges<T>(
+  context: Word.RequestContext,
+  useTrackChanges: boolean,
+  edit: () => Promise<T>
+): Promise<T> {
+  return withTrackingMode(
+    context,
+    useTrackChanges ? Word.ChangeTrackingMode.trackAll : null,
+    edit
+  );
+}
+
+/**
+ * Run an edit with the given change tracking mode, restoring the original mode afterwards
+ * @param mode Mode to use, or null to leave the document's mode unchanged
+ */
+async function withTrackingMode<T>(
+  context: Word.RequestContext,
+  mode: Word.ChangeTrackingMode | null,
+  edit: () => Promise<T>
+): Promise<T> {
+  let originalMode: Word.ChangeTrackingMode | string | null = null;
+  let shouldRestore = false;
+
+  // Save and set track changes mode if requested
+  if (mode !== null) {
+    try {
+      // Load current tracking mode to restore later
+      context.document.load("changeTrackingMode");
+      await context.sync();
+      originalMode = context.document.changeTrackingMode;
+      shouldRestore = true;
+
+      // Switch mode for this operation
+      context.document.changeTrackingMode = mode;
+      await context.sync();
+    } catch (e) {
+      // Track changes might not be supported in all versions
+      console.warn("Track changes not supported, falling back to direct replace:", e);
+      shouldRestore = false;
+    }
+  }
+
+  try {
+    return await edit();
+  } finally {
+    // Restore original tracking mode (turn off if it was off)
+    if (shouldRestore && originalMode !== null) {
+      try {
+        context.document.changeTrackingMode = originalMode as Word.ChangeTrackingMode;
+        await context.sync();
+      } catch (e) {
+        // Ignore restore errors
+        console.warn("Failed to restore tracking mode:", e);
+      }
+    }
+  }
+}
+
+/**
+ * Selection captured when a request starts.
+ * The range is a tracked object, so it keeps pointing at the text the user
+ * asked about even if they click elsewhere while the model is working.
+ */
+export interface CapturedSelection {
+  range: Word.Range;
+  text: string;
+}
+
+/**
+ * Capture the current selection as a tracked range
+ */
+export async function captureSelection(): Promise<CapturedSelection> {
+  return Word.run(async (context) => {
+    const range = context.document.getSelection();
+    range.load("text");
+    context.trackedObjects.add(range);
+    await context.sync();
+    return { range, text: range.text || "" };
+  });
+}
+
+/**
+ * Release a captured selection once the request is finished
+ */
+export async function releaseSelection(selection: CapturedSelection): Promise<void> {
+  try {
+    await Word.run(selection.range, async (context) => {
+      context.trackedObjects.remove(selection.range);
+      await context.sync();
+    });
+  } catch (e) {
+    // The range may already be invalid (e.g. document closed)
+    console.warn("Failed to release captured selection:", e);
+  }
+}
+
+/**
+ * Run a batch against the captured selection, or the live selection if none was captured
+ */
+async function runOnSelection<T>(
+  selection: CapturedSelection | undefined,
+  batch: (context: Word.RequestContext, range: Word.Range) => Promise<T>
+): Promise<T> {
+  if (selection) {
+    return Word.run(selection.range, (context) => batch(context, selection.range));
+  }
+  return Word.run((context) => batch(context, context.document.getSelection()));
+}
+
+/**
+ * Point a captured selection at the range produced by an edit, so later
+ * tool calls in the same request act on the new text.
+ */
+function retargetSelection(
+  context: Word.RequestContext,
+  selection: CapturedSelection | undefined,
+  newRange: Word.Range
+): void {
+  if (!selection || selection.range === newRange) return;
+  context.trackedObjects.add(newRange);
+  context.trackedObjects.remove(selection.range);
+  selection.range = newRange;
+}
+
+/**
+ * Tag prefix of the hidden content controls that wrap Copilot edits
+ */
+export const EDIT_TAG_PREFIX = "word-copilot-edit:";
+
+/**
+ * Where an applied edit can be found again, so it can be reverted
+ */
+export type EditRecord = Pick<
+  AppliedEdit,
+  "id" | "tag" | "commentId" | "originalText" | "originalMarkup"
+>;
+
+/**
+ * Generate a unique edit ID
+ */
+function generateEditId(): string {
+  return `edit_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+}
+
+/**
+ * Wrap a range in a hidden content control so the edit can be found again.
+ * A retried edit reuses the control its failed attempt already inserted.
+ * Returns null when Word refuses (e.g. the range partially overlaps another
+ * content control); the edit is then applied without being revertible.
+ */
+async function wrapForRevert(
+  context: Word.RequestContext,
+  range: Word.Range,
+  editId: string
+): Promise<Word.ContentControl | null> {
+  const tag = `${EDIT_TAG_PREFIX}${editId}`;
+  try {
+    const existing = context.document.contentControls.getByTag(tag);
+    existing.load("items/tag");
+    await context.sync();
+    if (existing.items.length > 0) {
+      return existing.items[0];
+    }
+
+    const control = range.insertContentControl();
+    control.tag = tag;
+    control.title = "Word Copilot";
+    control.appearance = Word.ContentControlAppearance.hidden;
+    await context.sync();
+    return control;
+  } catch (e) {
+    console.warn("Could not wrap edit in a content control, it will not be revertible:", e);
+    return null;
+  }
+}
+
+/**
+ * Address of a range for range-addressed tools.
+ * Locators narrow each other: a content control tag or paragraph index picks the
+ * container, an anchor picks text inside it (or in the whole body).
+ */
+export interface RangeTarget {
+  /** 0-based body paragraph index (see getParagraphs) */
+  paragraphIndex?: number;
+  /** Exact text to find */
+  anchor?: string;
+  /** 0-based occurrence of the anchor within the container (default: 0) */
+  occurrence?: number;
+  /** Content control tag */
+  tag?: string;
+}
+
+/**
+ * Describe a target for error messages
+ */
+function describeTarget(target: RangeTarget): string {
+  const parts: string[] = [];
+  if (target.tag) parts.push(`内容控件「${target.tag}」`);
+  if (target.paragraphIndex !== undefined) parts.push(`第 ${target.paragraphIndex} 段`);
+  if (target.anchor) parts.push(`文本「${target.anchor.slice(0, 40)}」`);
+  return parts.join(" 中的 ");
+}
+
+/**
+ * Resolve a RangeTarget to a range within the given context
+ */
+async function resolveTargetRange(
+  context: Word.RequestContext,
+  target: RangeTarget
+): Promise<Word.Range> {
+  const { paragraphIndex, anchor, occurrence = 0, tag } = target;
+
+  if (paragraphIndex === undefined && !anchor && !tag) {
+    throw new Error("需要指定 paragraph_index、anchor 或 tag 来定位文本");
+  }
+  if (anchor && anchor.length > MAX_SEARCH_LENGTH) {
+    throw new Error(`anchor 不能超过 ${MAX_SEARCH_LENGTH} 个字符，请改用更短的唯一片段`);
+  }
+
+  let container: Word.Range | Word.Paragraph | Word.Body = context.document.body;
+
+  if (tag) {
+    const controls = context.document.contentControls.getByTag(tag);
+    controls.load("items");
+    await context.sync();
+    if (controls.items.length === 0) {
+      throw new Error(`未找到内容控件「${tag}」`);
+    }
+    container = controls.items[0].getRange(Word.RangeLocation.content);
+  }
+
+  if (paragraphIndex !== undefined) {
+    const paragraphs = container.paragraphs;
+    paragraphs.load("items");
+    await context.sync();
+    if (paragraphIndex < 0 || paragraphIndex >= paragraphs.items.length) {
+      throw new Error(
+        `段落索引 ${paragraphIndex} 超出范围（共 ${paragraphs.items.length} 段）`
+      );
+    }
+    container = paragraphs.items[paragraphIndex];
+  }
+
+  if (!anchor) {
+    return container.getRange(Word.RangeLocation.content);
+  }
+
+  const matches = container.search(anchor, { matchCase: true });
+  matches.load("items");
+  await context.sync();
+  if (matches.items.length <= occurrence) {
+    throw new Error(
+      matches.items.length === 0
+        ? `未找到${describeTarget(target)}`
+        : `${describeTarget(target)}只出现 ${matches.items.length} 次，无法定位第 ${occurrence} 处`
+    );
+  }
+  return matches.items[occurrence];
+}
+
+/**
+ * Select a target range in the document and scroll it into view
+ */
+export async function selectRange(target: RangeTarget): Promise<void> {
+  return Word.run(async (context) => {
+    const range = await resolveTargetRange(context, target);
+    range.select();
+    await context.sync();
+  });
+}
+
+/**
+ * Get the text of a target range (for previews and diffs)
+ */
+export async function getRangeText(target: RangeTarget): Promise<string> {
+  return Word.run(async (context) => {
+    const range = await resolveTargetRange(context, target);
+    range.load("text");
+    await context.sync();
+    return range.text || "";
+  });
+}
+
+/**
+ * Replace an addressed range with new content using Track Changes
+ * @param target Where to replace
+ * @param content The new text
+ * @param useTrackChanges Whether to use track changes mode (default: true)
+ */
+export async function replaceRange(
+  target: RangeTarget,
+  content: string,
+  useTrackChanges: boolean = true
+): Promise<EditRecord> {
+  const id = generateEditId();
+  return withRetry("replaceRange", () =>
+    Word.run(async (context) => {
+      const range = await resolveTargetRange(context, target);
+      range.load("text");
+      await context.sync();
+
+      const originalText = range.text || "";
+      const control = await wrapForRevert(context, range, id);
+      await withTrackChanges(context, useTrackChanges, async () => {
+        (control || range).insertText(content, Word.InsertLocation.replace);
+        await context.sync();
+      });
+      return { id, tag: control?.tag, originalText };
+    })
+  );
+}
+
+/**
+ * Add a comment to an addressed range
+ * @param target Where to comment
+ * @param comment The comment text to add
+ */
+export async function addCommentToRange(
+  target: RangeTarget,
+  comment: string
+): Promise<EditRecord> {
+  return withRetry("addCommentToRange", () =>
+    Word.run(async (context) => {
+      const range = await resolveTargetRange(context, target);
+      const inserted = range.insertComment(comment);
+      inserted.load("id");
+      await context.sync();
+      return { id: generateEditId(), commentId: inserted.id, originalText: "" };
+    })
+  );
+}
+
+/**
+ * Replace the current selection with new content using Track Changes
+ * This enables revision mode so users can Accept/Reject changes
+ * @param content The new text to replace selection with
+ * @param useTrackChanges Whether to use track changes mode (default: true)
+ * @param selection Captured selection to edit instead of the live selection
+ */
+export async function replaceSelection(
+  content: string,
+  useTrackChanges: boolean = true,
+  selection?: CapturedSelection
+): Promise<EditRecord> {
+  const id = generateEditId();
+  return withRetry("replaceSelection", () =>
+    runOnSelection(selection, async (context, range) => {
+      range.load("text");
+      await context.sync();
+
+      const originalText = range.text || "";
+      const control = await wrapForRevert(context, range, id);
+      await withTrackChanges(context, useTrackChanges, async () => {
+        // Perform the replacement
+        const newRange = control
+          ? control.insertText(content, Word.InsertLocation.replace)
+          : range.insertText(content, Word.InsertLocation.replace);
+        retargetSelection(context, selection, newRange);
+        await context.sync();
+      });
+      return { id, tag: control?.tag, originalText };
+    })
+  );
+}
+
+/**
+ * Selection read as simplified markup (formatting-preserving mode)
+ */
+export interface SelectionMarkup {
+  text: string;
+  markup: string;
+  /** Labels of content that an HTML round-trip would destroy (footnotes, fields, equations) */
+  protectedContent: string[];
+}
+
+/**
+ * Read the selection as simplified markup
+ * @param selection Captured selection to read instead of the live selection
+ */
+export async function getSelectionMarkup(selection?: CapturedSelection): Promise<SelectionMarkup> {
+  return runOnSelection(selection, async (context, range) => {
+    range.load("text");
+    const html = range.getHtml();
+    const ooxml = range.getOoxml();
+    await context.sync();
+    return {
+      text: range.text || "",
+      markup: simplifyHtml(html.value),
+      protectedContent: findProtectedContent(ooxml.value),
+    };
+  });
+}
+
+/**
+ * Replace a range with simplified markup via insertHtml, wrapped for revert
+ */
+async function replaceWithMarkup(
+  context: Word.RequestContext,
+  range: Word.Range,
+  markup: string,
+  useTrackChanges: boolean,
+  id: string
+): Promise<{ record: EditRecord; newRange: Word.Range }> {
+  const validation = validateMarkup(markup);
+  if (!validation.valid) {
+    throw new Error(`标记格式无效：${validation.error}`);
+  }
+
+  range.load("text");
+  range.font.load("name,size,color");
+  const html = range.getHtml();
+  const ooxml = range.getOoxml();
+  await context.sync();
+
+  const protectedContent = findProtectedContent(ooxml.value);
+  if (protectedContent.length > 0) {
+    throw new Error(
+      `目标文本包含${protectedContent.join("、")}，保留格式模式下无法整体替换；请改用 replace_text_in_range 只替换不含这些内容的片段`
+    );
+  }
+
+  const base: MarkupBaseStyle = {
+    fontName: range.font.name || undefined,
+    fontSize: range.font.size || undefined,
+    color: range.font.color || undefined,
+  };
+  const record: EditRecord = {
+    id,
+    originalText: range.text || "",
+    originalMarkup: simplifyHtml(html.value),
+  };
+
+  const control = await wrapForRevert(context, range, id);
+  record.tag = control?.tag;
+  let newRange: Word.Range = range;
+  await withTrackChanges(context, useTrackChanges, async () => {
+    newRange = (control || range).insertHtml(
+      markupToHtml(markup, base),
+      Word.InsertLocation.replace
+    );
+    await context.sync();
+  });
+  return { record, newRange };
+}
+
+/**
+ * Replace the selection with simplified markup, keeping inline formatting
+ * @param markup Simplified markup (see formatMarkup)
+ * @param useTrackChanges Whether to use track changes mode (default: true)
+ * @param selection Captured selection to edit instead of the live selection
+ */
+export async function replaceSelectionWithMarkup(
+  markup: string,
+  useTrackChanges: boolean = true,
+  selection?: CapturedSelection
+): Promise<EditRecord> {
+  const id = generateEditId();
+  return withRetry("replaceSelectionWithMarkup", () =>
+    runOnSelection(selection, async (context, range) => {
+      const { record, newRange } = await replaceWithMarkup(
+        context,
+        range,
+        markup,
+        useTrackChanges,
+        id
+      );
+      retargetSelection(context, selection, newRange);
+      await context.sync();
+      return record;
+    })
+  );
+}
+
+/**
+ * Replace an addressed range with simplified markup, keeping inline formatting
+ * @param target Where to replace
+ * @param markup Simplified markup (see formatMarkup)
+ * @param useTrackChanges Whether to use track changes mode (default: true)
+ */
+export async function replaceRangeWithMarkup(
+  target: RangeTarget,
+  markup: string,
+  useTrackChanges: boolean = true
+): Promise<EditRecord> {
+  const id = generateEditId();
+  return withRetry("replaceRangeWithMarkup", () =>
+    Word.run(async (context) => {
+      const range = await resolveTargetRange(context, target);
+      const { record } = await replaceWithMarkup(context, range, markup, useTrackChanges, id);
+      return record;
+    })
+  );
+}
+
 /**
  * Replace the current selection directly without track changes
  * @param content The new text to replace selection with
@@ -141,138 +808,273 @@ export async function replaceSelectionDirect(content: string): Promise<void> {
  * Insert text at a specified position
  * @param position Where to insert the text
  * @param content The text to insert
+ * @param selection Captured selection for the *_selection positions
  */
 export async function insertText(
   position: InsertPosition,
-  content: string
-): Promise<void> {
-  const MAX_RETRIES = 3;
-  const RETRY_DELAY_MS = 500;
+  content: string,
+  selection?: CapturedSelection
+): Promise<EditRecord> {
+  const id = generateEditId();
+  return withRetry("insertText", () =>
+    runOnSelection(selection, async (context, selectionRange) => {
+      let range: Word.Range;
+      let inserted: Word.Range;
 
-  for (let attempt = 1; attempt <= MAX_RETRIES; attempt++) {
-    try {
-      await Word.run(async (context) => {
-        let range: Word.Range;
-
-        switch (position) {
-          case "before_selection":
-            range = context.document.getSelection();
-            range.insertText(content, Word.InsertLocation.before);
-            break;
-
-          case "after_selection":
-            range = context.document.getSelection();
-            range.insertText(content, Word.InsertLocation.after);
-            break;
-
-          case "document_start":
-            range = context.document.body.getRange(Word.RangeLocation.start);
-            range.insertText(content + "\n\n", Word.InsertLocation.before);
-            break;
-
-          case "document_end":
-            range = context.document.body.getRange(Word.RangeLocation.end);
-            range.insertText("\n\n" + content, Word.InsertLocation.after);
-            break;
-
-          default:
-            throw new Error(`Unknown insert position: ${position}`);
-        }
+      switch (position) {
+        case "before_selection":
+          inserted = selectionRange.insertText(content, Word.InsertLocation.before);
+          break;
 
-        await context.sync();
-      });
-      return;
-    } catch (error) {
-      const isGeneralException =
-        error instanceof Error &&
-        (error.message.includes("GeneralException") ||
-          error.name === "GeneralException" ||
-          (error as { code?: string }).code === "GeneralException");
+        case "after_selection":
+          inserted = selectionRange.insertText(content, Word.InsertLocation.after);
+          break;
 
-      if (isGeneralException && attempt < MAX_RETRIES) {
-        console.warn(
-          `insertText attempt ${attempt} failed with GeneralException, retrying...`
-        );
-        await delay(RETRY_DELAY_MS * attempt);
-        continue;
+        case "document_start":
+          range = context.document.body.getRange(Word.RangeLocation.start);
+          inserted = range.insertText(content + "\n\n", Word.InsertLocation.before);
+          break;
+
+        case "document_end":
+          range = context.document.body.getRange(Word.RangeLocation.end);
+          inserted = range.insertText("\n\n" + content, Word.InsertLocation.after);
+          break;
+
+        default:
+          throw new Error(`Unknown insert position: ${position}`);
       }
-      throw error;
-    }
-  }
+
+      await context.sync();
+
+      const control = await wrapForRevert(context, inserted, id);
+      return { id, tag: control?.tag, originalText: "" };
+    })
+  );
 }
 
 /**
- * Delete the current selection
+ * Insert Markdown as native Word content: headings get Word heading styles,
+ * lists become Word lists, pipe tables become tables
+ * @param position Where to insert the content
+ * @param content Markdown to insert
+ * @param selection Captured selection for the *_selection positions
  */
-export async function deleteSelection(): Promise<void> {
-  const MAX_RETRIES = 3;
-  const RETRY_DELAY_MS = 500;
+export async function insertMarkdown(
+  position: InsertPosition,
+  content: string,
+  selection?: CapturedSelection
+): Promise<EditRecord> {
+  const id = generateEditId();
+  return withRetry("insertMarkdown", () =>
+    runOnSelection(selection, async (context, selectionRange) => {
+      const body = context.document.body;
+      // Body text takes the font of the text next to it instead of the HTML defaults
+      const neighbour =
+        position === "document_start"
+          ? body.paragraphs.getFirst()
+          : position === "document_end"
+            ? body.paragraphs.getLast()
+            : selectionRange;
+      neighbour.font.load("name,size,color");
+      await context.sync();
 
-  for (let attempt = 1; attempt <= MAX_RETRIES; attempt++) {
-    try {
-      await Word.run(async (context) => {
-        const selection = context.document.getSelection();
-        selection.delete();
-        await context.sync();
+      const html = markdownToHtml(content, {
+        fontName: neighbour.font.name || undefined,
+        fontSize: neighbour.font.size || undefined,
+        color: neighbour.font.color || undefined,
       });
-      return;
-    } catch (error) {
-      const isGeneralException =
-        error instanceof Error &&
-        (error.message.includes("GeneralException") ||
-          error.name === "GeneralException" ||
-          (error as { code?: string }).code === "GeneralException");
 
-      if (isGeneralException && attempt < MAX_RETRIES) {
-        console.warn(
-          `deleteSelection attempt ${attempt} failed with GeneralException, retrying...`
-        );
-        await delay(RETRY_DELAY_MS * attempt);
-        continue;
+      let inserted: Word.Range;
+      switch (position) {
+        case "before_selection":
+          inserted = selectionRange.insertHtml(html, Word.InsertLocation.before);
+          break;
+
+        case "after_selection":
+          inserted = selectionRange.insertHtml(html, Word.InsertLocation.after);
+          break;
+
+        case "document_start":
+          inserted = body.insertHtml(html, Word.InsertLocation.start);
+          break;
+
+        case "document_end":
+          inserted = body.insertHtml(html, Word.InsertLocation.end);
+          break;
+
+        default:
+          throw new Error(`Unknown insert position: ${position}`);
       }
-      throw error;
-    }
-  }
+
+      // insertHtml maps <h1>-<h6> to direct formatting; apply the real heading styles
+      const headings = getMarkdownHeadings(content);
+      if (headings.length > 0) {
+        const paragraphs = inserted.paragraphs;
+        paragraphs.load("items/text");
+        await context.sync();
+
+        let next = 0;
+        paragraphs.items.forEach((paragraph) => {
+          if (next < headings.length && paragraph.text.trim() === headings[next].text.trim()) {
+            paragraph.styleBuiltIn = `Heading${headings[next].level}` as Word.BuiltInStyleName;
+            next++;
+          }
+        });
+      }
+      await context.sync();
+
+      const control = await wrapForRevert(context, inserted, id);
+      return { id, tag: control?.tag, originalText: "" };
+    })
+  );
+}
+
+/**
+ * Delete the current selection
+ * @param selection Captured selection to delete instead of the live selection
+ */
+export async function deleteSelection(selection?: CapturedSelection): Promise<EditRecord> {
+  const id = generateEditId();
+  return withRetry("deleteSelection", () =>
+    runOnSelection(selection, async (context, range) => {
+      range.load("text");
+      await context.sync();
+
+      const originalText = range.text || "";
+      // Keep an empty content control at the deletion point so the text can be restored
+      const control = await wrapForRevert(context, range, id);
+      if (control) {
+        control.clear();
+      } else {
+        range.delete();
+      }
+      await context.sync();
+      return { id, tag: control?.tag, originalText };
+    })
+  );
 }
 
 /**
  * Add a comment to the current selection
  * @param comment The comment text to add
+ * @param selection Captured selection to comment on instead of the live selection
  */
-export async function addCommentToSelection(comment: string): Promise<void> {
-  const MAX_RETRIES = 3;
-  const RETRY_DELAY_MS = 500;
+export async function addCommentToSelection(
+  comment: string,
+  selection?: CapturedSelection
+): Promise<EditRecord> {
+  return withRetry("addCommentToSelection", () =>
+    runOnSelection(selection, async (context, range) => {
+      // Word.js API for comments
+      // Note: Comments API requires Word API 1.4+
+      const commentRange = range.getRange();
+      const inserted = commentRange.insertComment(comment);
+      inserted.load("id");
 
-  for (let attempt = 1; attempt <= MAX_RETRIES; attempt++) {
-    try {
-      await Word.run(async (context) => {
-        const selection = context.document.getSelection();
+      await context.sync();
+      return { id: generateEditId(), commentId: inserted.id, originalText: "" };
+    })
+  );
+}
+
+/**
+ * Revert an applied edit: restore the original text inside its content control
+ * (with Track Changes off, so the document ends up exactly as before) or delete
+ * its comment.
+ * @returns IDs of other Copilot edits nested inside this one, which are reverted with it
+ */
+export async function revertEdit(
+  edit: Pick<AppliedEdit, "tag" | "commentId" | "originalText" | "originalMarkup">
+): Promise<string[]> {
+  return withRetry("revertEdit", () =>
+    Word.run(async (context) => {
+      if (edit.commentId) {
+        const comments = context.document.body.getComments();
+        comments.load("items/id");
+        await context.sync();
+        const comment = comments.items.find((c) => c.id === edit.commentId);
+        if (!comment) {
+          throw new Error("未找到该批注，可能已被删除");
+        }
+        comment.delete();
+        await context.sync();
+        return [];
+      }
+
+      if (!edit.tag) {
+        throw new Error("该修改无法撤销");
+      }
+
+      const controls = context.document.contentControls.getByTag(edit.tag);
+      controls.load("items");
+      await context.sync();
+      if (controls.items.length === 0) {
+        throw new Error("未找到该修改的位置，可能已被删除或被之后的修改覆盖");
+      }
 
-        // Word.js API for comments
-        // Note: Comments API requires Word API 1.4+
-        const commentRange = selection.getRange();
-        commentRange.insertComment(comment);
+      const control = controls.items[0];
+      const nested = control.contentControls;
+      nested.load("items/tag");
+      control.font.load("name,size,color");
+      await context.sync();
+      const nestedIds = nested.items
+        .map((c) => c.tag || "")
+        .filter((tag) => tag.indexOf(EDIT_TAG_PREFIX) === 0)
+        .map((tag) => tag.slice(EDIT_TAG_PREFIX.length));
 
+      await withTrackingMode(context, Word.ChangeTrackingMode.off, async () => {
+        if (edit.originalMarkup && hasMarkupTags(edit.originalMarkup)) {
+          // Formatting-preserving edit: restore the formatted original
+          const base: MarkupBaseStyle = {
+            fontName: control.font.name || undefined,
+            fontSize: control.font.size || undefined,
+            color: control.font.color || undefined,
+          };
+          control.insertHtml(markupToHtml(edit.originalMarkup, base), Word.InsertLocation.replace);
+          control.delete(true);
+        } else if (edit.originalText) {
+          control.insertText(edit.originalText, Word.InsertLocation.replace);
+          control.delete(true);
+        } else {
+          // Insertion: remove the control together with its content
+          control.delete(false);
+        }
         await context.sync();
       });
-      return;
-    } catch (error) {
-      const isGeneralException =
-        error instanceof Error &&
-        (error.message.includes("GeneralException") ||
-          error.name === "GeneralException" ||
-          (error as { code?: string }).code === "GeneralException");
+      return nestedIds;
+    })
+  );
+}
 
-      if (isGeneralException && attempt < MAX_RETRIES) {
-        console.warn(
-          `addCommentToSelection attempt ${attempt} failed with GeneralException, retrying...`
-        );
-        await delay(RETRY_DELAY_MS * attempt);
-        continue;
-      }
-      throw error;
-    }
-  }
+/**
+ * Remove the content controls of Copilot edits that can no longer be reverted,
+ * keeping their content. The edits stay in the document (and their tracked
+ * changes in Word's Review tab) but drop out of the revisions panel.
+ * @param editIds Edits to finalize; all Copilot edits in the document when omitted
+ * @returns Number of content controls removed
+ */
+export async function finalizeEdits(editIds?: string[]): Promise<number> {
+  if (editIds && editIds.length === 0) return 0;
+  return withRetry("finalizeEdits", () =>
+    Word.run(async (context) => {
+      const controls = context.document.contentControls;
+      controls.load("items/tag");
+      await context.sync();
+
+      const tags = editIds?.map((id) => `${EDIT_TAG_PREFIX}${id}`);
+      const finalized = controls.items.filter((c) =>
+        tags ? tags.includes(c.tag) : (c.tag || "").indexOf(EDIT_TAG_PREFIX) === 0
+      );
+      if (finalized.length === 0) return 0;
+
+      // Unwrapping is not a document change; keep it out of the tracked changes
+      await withTrackingMode(context, Word.ChangeTrackingMode.off, async () => {
+        finalized.forEach((c) => c.delete(true));
+        await context.sync();
+      });
+      return finalized.length;
+    })
+  );
 }
 
 /**
@@ -340,40 +1142,210 @@ export function showNotification(
 }
 
 /**
- * Accept all tracked changes in the document
+ * Message shown when the host lacks the TrackedChange API
+ */
+export const TRACKED_CHANGES_UNSUPPORTED_MESSAGE =
+  "当前 Word 版本不支持修订 API（需要 WordApi 1.6），请在 Word 的「审阅」选项卡中接受或拒绝修订。";
+
+/**
+ * A tracked change inside a Copilot edit
+ */
+export interface CopilotRevision {
+  /** `${editId}:${index}` */
+  id: string;
+  /** ID of the Copilot edit whose content control contains the change */
+  editId: string;
+  /** Position among the tracked changes of that edit */
+  index: number;
+  type: "Added" | "Deleted" | "Formatted" | "None";
+  text: string;
+  author: string;
+  date?: number;
+}
+
+/**
+ * Check whether the host supports the TrackedChange API (WordApi 1.6)
+ */
+export function isTrackedChangeApiSupported(): boolean {
+  try {
+    return Boolean(Office.context.requirements?.isSetSupported("WordApi", "1.6"));
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Throw the capability message on hosts without the TrackedChange API
+ */
+function assertTrackedChangeApi(): void {
+  if (!isTrackedChangeApiSupported()) {
+    throw new Error(TRACKED_CHANGES_UNSUPPORTED_MESSAGE);
+  }
+}
+
+/**
+ * Load the tracked changes of every Copilot edit content control
+ */
+async function loadCopilotTrackedChanges(
+  context: Word.RequestContext
+): Promise<Array<{ editId: string; changes: Word.TrackedChangeCollection }>> {
+  const controls = context.document.contentControls;
+  controls.load("items/tag");
+  await context.sync();
+
+  const edits = controls.items
+    .filter((c) => (c.tag || "").indexOf(EDIT_TAG_PREFIX) === 0)
+    .map((c) => {
+      const changes = c.getRange(Word.RangeLocation.whole).getTrackedChanges();
+      changes.load("items/author,items/date,items/text,items/type");
+      return { editId: c.tag.slice(EDIT_TAG_PREFIX.length), changes };
+    });
+  await context.sync();
+  return edits;
+}
+
+/**
+ * List the tracked changes Copilot created, identified by the content controls
+ * that wrap its edits
  */
-export async function acceptAllChanges(): Promise<void> {
+export async function getCopilotRevisions(): Promise<CopilotRevision[]> {
+  assertTrackedChangeApi();
   return Word.run(async (context) => {
-    try {
-      // Get all tracked changes and accept them
-      const body = context.document.body;
-      body.load("text");
-      await context.sync();
-      
-      // Note: There's no direct API to accept all changes in current Word.js
-      // Users need to use Word UI (Review tab) to accept/reject changes
-      console.log("Please use Word's Review tab to accept/reject changes");
-    } catch (e) {
-      console.warn("Could not process tracked changes:", e);
-    }
+    const edits = await loadCopilotTrackedChanges(context);
+    const revisions: CopilotRevision[] = [];
+    edits.forEach(({ editId, changes }) => {
+      changes.items.forEach((change, index) => {
+        revisions.push({
+          id: `${editId}:${index}`,
+          editId,
+          index,
+          type: change.type as CopilotRevision["type"],
+          text: change.text || "",
+          author: change.author || "",
+          date: change.date ? new Date(change.date).getTime() : undefined,
+        });
+      });
+    });
+    return revisions;
   });
 }
 
+/**
+ * Accept or reject a single Copilot revision
+ */
+export async function resolveCopilotRevision(
+  revision: CopilotRevision,
+  action: "accept" | "reject"
+): Promise<void> {
+  assertTrackedChangeApi();
+  await withRetry("resolveCopilotRevision", () =>
+    Word.run(async (context) => {
+      const controls = context.document.contentControls.getByTag(
+        `${EDIT_TAG_PREFIX}${revision.editId}`
+      );
+      controls.load("items");
+      await context.sync();
+      if (controls.items.length === 0) {
+        throw new Error("未找到该修订所在的修改，可能已被删除");
+      }
+
+      const changes = controls.items[0].getRange(Word.RangeLocation.whole).getTrackedChanges();
+      changes.load("items/text,items/type");
+      await context.sync();
+
+      // Tracked changes have no stable ID; make sure the list is still current
+      const change = changes.items[revision.index];
+      if (!change || change.type !== revision.type || change.text !== revision.text) {
+        throw new Error("修订已发生变化，请刷新列表后重试");
+      }
+
+      if (action === "accept") {
+        change.accept();
+      } else {
+        change.reject();
+      }
+      await context.sync();
+    })
+  );
+}
+
+/**
+ * Accept or reject all Copilot revisions
+ * @returns Number of revisions resolved
+ */
+export async function resolveAllCopilotRevisions(action: "accept" | "reject"): Promise<number> {
+  assertTrackedChangeApi();
+  return withRetry("resolveAllCopilotRevisions", () =>
+    Word.run(async (context) => {
+      const edits = await loadCopilotTrackedChanges(context);
+      let count = 0;
+      edits.forEach(({ changes }) => {
+        count += changes.items.length;
+        if (changes.items.length === 0) return;
+        if (action === "accept") {
+          changes.acceptAll();
+        } else {
+          changes.rejectAll();
+        }
+      });
+      await context.sync();
+      return count;
+    })
+  );
+}
+
+/**
+ * Accept all tracked changes Copilot made in the document
+ * @returns Number of revisions accepted
+ */
+export async function acceptAllChanges(): Promise<number> {
+  return resolveAllCopilotRevisions("accept");
+}
+
+/**
+ * Reject all tracked changes Copilot made in the document
+ * @returns Number of revisions rejected
+ */
+export async function rejectAllChanges(): Promise<number> {
+  return resolveAllCopilotRevisions("reject");
+}
+
 /**
  * Word Bridge API object for easy import
  */
 export const wordBridge = {
   getSelectionText,
   getDocumentText,
+  getDocumentTitle,
+  getParagraphs,
+  getOutline,
+  searchDocument,
+  captureSelection,
+  releaseSelection,
+  getRangeText,
+  selectRange,
+  replaceRange,
+  addCommentToRange,
   replaceSelection,
+  getSelectionMarkup,
+  replaceSelectionWithMarkup,
+  replaceRangeWithMarkup,
   replaceSelectionDirect,
   insertText,
+  insertMarkdown,
   deleteSelection,
   addCommentToSelection,
+  revertEdit,
+  finalizeEdits,
   hasSelection,
   getSelectionContext,
   showNotification,
+  isTrackedChangeApiSupported,
+  getCopilotRevisions,
+  resolveCopilotRevision,
+  resolveAllCopilotRevisions,
   acceptAllChanges,
+  rejectAllChanges,
 };
 
 export default wordBridge;
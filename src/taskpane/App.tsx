@@ -3,19 +3,29 @@ import { useState, useEffect } from "react";
 import ChatPanel from "./components/ChatPanel";
 import PlanPanel from "./components/PlanPanel";
 import SettingsPanel from "./components/SettingsPanel";
-import { isModelConfigured } from "../helpers/settings";
+import RevisionsPanel from "./components/RevisionsPanel";
+import { isModelConfigured, unlockApiKeys } from "../helpers/settings";
+import { initSessionManager } from "../helpers/sessionManager";
 import { t, loadLanguage, Language } from "../helpers/i18n";
 
-type TabType = "chat" | "plan" | "settings";
+type TabType = "chat" | "plan" | "revisions" | "settings";
 
 const App: React.FC = () => {
   const [activeTab, setActiveTab] = useState<TabType>("chat");
   const [isConfigured, setIsConfigured] = useState(false);
+  // Stored API keys are decrypted once when the task pane opens
+  const [keysReady, setKeysReady] = useState(false);
+  // Sessions are loaded from IndexedDB before the chat is shown
+  const [sessionsReady, setSessionsReady] = useState(false);
   const [, setLang] = useState<Language>(loadLanguage());
 
   useEffect(() => {
-    // Check if model is configured on mount
-    setIsConfigured(isModelConfigured());
+    // Unlock the API keys, then check if model is configured
+    unlockApiKeys().finally(() => {
+      setKeysReady(true);
+      setIsConfigured(isModelConfigured());
+    });
+    initSessionManager().finally(() => setSessionsReady(true));
   }, []);
 
   const handleSettingsSaved = () => {
@@ -52,6 +62,12 @@ const App: React.FC = () => {
           >
             {i18n.tabPlan}
           </button>
+          <button
+            className={activeTab === "revisions" ? "active" : ""}
+            onClick={() => setActiveTab("revisions")}
+          >
+            {i18n.tabRevisions}
+          </button>
           <button
             className={activeTab === "settings" ? "active" : ""}
             onClick={() => setActiveTab("settings")}
@@ -68,17 +84,18 @@ const App: React.FC = () => {
       <main className="main-content">
         {activeTab === "chat" && (
           <>
-            {!isConfigured && (
+            {keysReady && !isConfigured && (
               <div className="config-status">
                 <span>⚠️</span>
                 <span>{i18n.configRequired}</span>
               </div>
             )}
-            <ChatPanel isConfigured={isConfigured} />
+            {sessionsReady && <ChatPanel isConfigured={isConfigured} />}
           </>
         )}
         {activeTab === "plan" && <PlanPanel isConfigured={isConfigured} />}
-        {activeTab === "settings" && (
+        {activeTab === "revisions" && <RevisionsPanel />}
+        {activeTab === "settings" && keysReady && (
           <SettingsPanel
             onSaved={handleSettingsSaved}
             onLanguageChange={handleLanguageChange}
@@ -1,22 +1,79 @@
 import * as React from "react";
 import { useState, useRef, useEffect, useCallback } from "react";
-import { DisplayMessage } from "../../types/llm";
-import { TOOL_DEFINITIONS } from "../../types/tools";
-import { loadModelConfig, loadUserRules } from "../../helpers/settings";
+import { DisplayMessage, ToolCall } from "../../types/llm";
+import { TOOL_DEFINITIONS, AppliedEdit } from "../../types/tools";
+import { PromptTemplate } from "../../types/prompts";
+import { ModelTask } from "../../types/settings";
+import { BudgetWarning } from "../../types/usage";
+import {
+  loadModelConfig,
+  loadFallbackConfigs,
+  loadUserRules,
+  loadAgentConfig,
+} from "../../helpers/settings";
 import { formatUserRules } from "../../helpers/contextManager";
-import { getSessionManager, SessionManager, Session } from "../../helpers/sessionManager";
-import { sendChat } from "../../helpers/llmClient";
-import { SYSTEM_PROMPT } from "../../helpers/systemPrompt";
 import {
-  executeToolCalls,
-  hasToolCalls,
-  formatToolResults,
-} from "../../helpers/toolExecutor";
-import { getSelectionText, getDocumentText } from "../../helpers/wordBridge";
+  getSessionManager,
+  SessionManager,
+  SessionInfo,
+  SessionScope,
+  SessionSummary,
+  ApplyMode,
+} from "../../helpers/sessionManager";
+import { runAgentLoop } from "../../helpers/agentLoop";
+import {
+  getSystemPrompt,
+  getSystemPromptForPolicy,
+  getSystemPromptForSlashCommand,
+} from "../../helpers/systemPrompt";
+import { formatToolResults } from "../../helpers/toolExecutor";
+import {
+  PendingAction,
+  PendingActionQueue,
+  PendingDecision,
+  executeWithApproval,
+} from "../../helpers/pendingActions";
+import {
+  captureSelection,
+  releaseSelection,
+  getParagraphs,
+  getSelectionMarkup,
+  getDocumentTitle,
+  revertEdit,
+  CapturedSelection,
+  ParagraphInfo,
+} from "../../helpers/wordBridge";
+import { composeDocumentContext } from "../../helpers/documentIndexer";
+import { planContext } from "../../helpers/tokenBudget";
+import {
+  checkUsageBudget,
+  estimateCost,
+  formatCost,
+  getPeriodStart,
+} from "../../helpers/usageTracker";
+import {
+  loadPromptLibrary,
+  renderPrompt,
+  requiresSelection as promptRequiresSelection,
+  getPromptTools,
+  getLanguageName,
+} from "../../helpers/promptLibrary";
+import {
+  ParsedSlashCommand,
+  SlashSuggestion,
+  isSlashCommand,
+  parseSlashCommand,
+  getSlashInstruction,
+  getSlashCommandTools,
+  getSlashSuggestions,
+} from "../../helpers/slashCommands";
+import { refreshSessionSummary, buildSummaryMessage } from "../../helpers/conversationSummary";
 import { analyzeDocumentStructure } from "../../helpers/structureAnalyzer";
+import { downloadTextFile, getExportFileName } from "../../helpers/sessionExport";
 import { t } from "../../helpers/i18n";
 import MessageItem from "./MessageItem";
 import SessionList from "./SessionList";
+import SlashCommandMenu from "./SlashCommandMenu";
 
 interface ChatPanelProps {
   isConfigured: boolean;
@@ -24,8 +81,8 @@ interface ChatPanelProps {
 
 const ChatPanel: React.FC<ChatPanelProps> = ({ isConfigured }) => {
   const sessionManagerRef = useRef<SessionManager>(getSessionManager());
-  const [sessions, setSessions] = useState<Session[]>(() =>
-    sessionManagerRef.current.getSessionList()
+  const [sessions, setSessions] = useState<SessionInfo[]>(() =>
+    sessionManagerRef.current.getSessionList("document")
   );
   const [activeSessionId, setActiveSessionId] = useState<string | null>(() =>
     sessionManagerRef.current.getActiveSession()?.id || null
@@ -33,9 +90,33 @@ const ChatPanel: React.FC<ChatPanelProps> = ({ isConfigured }) => {
   const [messages, setMessages] = useState<DisplayMessage[]>(() =>
     sessionManagerRef.current.getDisplayMessages()
   );
+  const [summary, setSummary] = useState<SessionSummary | undefined>(() =>
+    sessionManagerRef.current.getSummary()
+  );
+  // True while older turns are being condensed into the session summary
+  const [isSummarizing, setIsSummarizing] = useState(false);
   const [inputValue, setInputValue] = useState("");
   const [isLoading, setIsLoading] = useState(false);
+  // Partial assistant output while a streamed response is arriving
+  const [streamingText, setStreamingText] = useState("");
+  const [streamingToolCalls, setStreamingToolCalls] = useState<ToolCall[]>([]);
+  // Current agent step (1-based) while a multi-step request is running
+  const [agentStep, setAgentStep] = useState(0);
+  // Tool calls waiting for Apply/Edit/Reject (confirm mode)
+  const [pendingActions, setPendingActions] = useState<PendingAction[]>([]);
+  const [applyMode, setApplyModeState] = useState<ApplyMode>(() =>
+    sessionManagerRef.current.getApplyMode()
+  );
   const [showSessionList, setShowSessionList] = useState(false);
+  // The session list shows the current document's sessions unless switched to all
+  const [sessionScope, setSessionScope] = useState<SessionScope>("document");
+  // Re-read on mount, so prompts edited in settings show up after a tab switch
+  const [quickPrompts] = useState<PromptTemplate[]>(() =>
+    loadPromptLibrary().prompts.filter((p) => p.template.trim())
+  );
+  // Highlighted slash command suggestion; Escape hides the list until the input changes
+  const [slashIndex, setSlashIndex] = useState(0);
+  const [slashDismissed, setSlashDismissed] = useState(false);
   const [toast, setToast] = useState<{ message: string; type: "success" | "error" } | null>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const messagesContainerRef = useRef<HTMLDivElement>(null);
@@ -45,6 +126,9 @@ const ChatPanel: React.FC<ChatPanelProps> = ({ isConfigured }) => {
   const requestIdRef = useRef(0);
   const activeRequestIdRef = useRef<number | null>(null);
   const sendInProgressRef = useRef(false);
+  const pendingQueueRef = useRef<PendingActionQueue>(new PendingActionQueue());
+  // Budget period the user already chose to go over ("day:<start>" / "month:<start>")
+  const budgetAcknowledgedRef = useRef<string | null>(null);
 
   const i18n = t();
 
@@ -81,33 +165,74 @@ const ChatPanel: React.FC<ChatPanelProps> = ({ isConfigured }) => {
   // Refresh sessions list
   const refreshSessions = useCallback(() => {
     const sm = sessionManagerRef.current;
-    setSessions(sm.getSessionList());
+    setSessions(sm.getSessionList(sessionScope));
     setActiveSessionId(sm.getActiveSession()?.id || null);
     setMessages(sm.getDisplayMessages());
-  }, []);
+    setSummary(sm.getSummary());
+    setApplyModeState(sm.getApplyMode());
+  }, [sessionScope]);
 
   // Restore messages when component mounts (e.g., after tab switch)
   useEffect(() => {
     refreshSessions();
   }, [refreshSessions]);
 
+  // Mirror the pending-action queue into state. The queue is gone once the panel
+  // unmounts (tab switch), so end the running request with it instead of leaving
+  // the agent loop waiting for a decision nobody can make.
+  useEffect(() => {
+    const queue = pendingQueueRef.current;
+    const unsubscribe = queue.subscribe(setPendingActions);
+    return () => {
+      unsubscribe();
+      abortControllerRef.current?.abort();
+      queue.rejectAll("已离开对话页面，请求已取消");
+    };
+  }, []);
+
   // Auto-scroll to bottom when messages change
   useEffect(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
-  }, [messages]);
+  }, [messages, pendingActions]);
 
   // Cancel current request
   const handleCancel = () => {
+    pendingQueueRef.current.rejectAll("已取消请求");
     if (abortControllerRef.current) {
       abortControllerRef.current.abort();
       abortControllerRef.current = null;
     }
   };
 
+  const handleResolveAction = (actionId: string, decision: PendingDecision) => {
+    pendingQueueRef.current.resolve(actionId, decision);
+  };
+
+  const handleRevertEdit = async (edit: AppliedEdit) => {
+    const sm = sessionManagerRef.current;
+    try {
+      const nestedIds = await revertEdit(edit);
+      sm.markEditsReverted([edit.id, ...nestedIds]);
+      setMessages(sm.getDisplayMessages());
+      showToast(i18n.actionRevertSuccess);
+    } catch (error) {
+      showToast(error instanceof Error ? error.message : String(error), "error");
+    }
+  };
+
+  const handleToggleApplyMode = () => {
+    const sm = sessionManagerRef.current;
+    const next: ApplyMode = applyMode === "auto" ? "confirm" : "auto";
+    sm.setApplyMode(next);
+    setApplyModeState(next);
+  };
+
   // Session management handlers
-  const handleSelectSession = (sessionId: string) => {
+  const handleSelectSession = async (sessionId: string) => {
     const sm = sessionManagerRef.current;
-    sm.setActiveSession(sessionId);
+    if (!(await sm.setActiveSession(sessionId))) {
+      showToast("无法打开该对话", "error");
+    }
     refreshSessions();
     setShowSessionList(false);
   };
@@ -120,9 +245,9 @@ const ChatPanel: React.FC<ChatPanelProps> = ({ isConfigured }) => {
     showToast(`✓ 已创建新对话: ${newSession.name}`);
   };
 
-  const handleDeleteSession = (sessionId: string) => {
+  const handleDeleteSession = async (sessionId: string) => {
     const sm = sessionManagerRef.current;
-    const deleted = sm.deleteSession(sessionId);
+    const deleted = await sm.deleteSession(sessionId);
     refreshSessions();
     if (deleted) {
       showToast("已删除对话");
@@ -137,11 +262,108 @@ const ChatPanel: React.FC<ChatPanelProps> = ({ isConfigured }) => {
     refreshSessions();
   };
 
-  const handleSend = async () => {
-    if (!inputValue.trim() || isLoading || !isConfigured || sendInProgressRef.current) return;
+  const handleExportSession = async (sessionId: string, format: "markdown" | "json") => {
+    const sm = sessionManagerRef.current;
+    const session = sm.getSessionList("all").find((s) => s.id === sessionId);
+    if (!session) return;
+    try {
+      if (format === "markdown") {
+        downloadTextFile(
+          getExportFileName("md", session),
+          (await sm.exportSessionMarkdown(sessionId)) || "",
+          "text/markdown"
+        );
+      } else {
+        downloadTextFile(
+          getExportFileName("json", session),
+          await sm.exportSessions([sessionId]),
+          "application/json"
+        );
+      }
+    } catch (error) {
+      console.error("Failed to export session:", error);
+      showToast("导出失败", "error");
+    }
+  };
 
-    const userInput = inputValue.trim();
-    setInputValue("");
+  const handleExportAll = async () => {
+    try {
+      downloadTextFile(
+        getExportFileName("json"),
+        await sessionManagerRef.current.exportSessions(),
+        "application/json"
+      );
+    } catch (error) {
+      console.error("Failed to export sessions:", error);
+      showToast("导出失败", "error");
+    }
+  };
+
+  // Stable, so re-renders while a reply streams in don't restart the search
+  const handleSearchSessions = useCallback(
+    (query: string) => sessionManagerRef.current.searchSessions(query, sessionScope),
+    [sessionScope]
+  );
+
+  const handleImportSessions = (json: string) => {
+    const result = sessionManagerRef.current.importSessions(json);
+    if (!result.success) {
+      showToast(result.error || "导入失败", "error");
+      return;
+    }
+    refreshSessions();
+    showToast(
+      result.skipped > 0
+        ? `已导入 ${result.imported} 个对话，跳过 ${result.skipped} 个已存在的对话`
+        : `已导入 ${result.imported} 个对话`
+    );
+  };
+
+  /**
+   * Budgets are soft: the first request over a budget is held back with a
+   * warning, sending it again goes ahead
+   * @returns The warning to show when the request is held back, else null
+   */
+  const holdBackOverBudget = (warning: BudgetWarning | null): string | null => {
+    if (!warning) return null;
+    const budgetKey = `${warning.period}:${getPeriodStart(warning.period)}`;
+    if (budgetAcknowledgedRef.current === budgetKey) return null;
+    budgetAcknowledgedRef.current = budgetKey;
+    return i18n.chatBudgetExceeded
+      .replace("{period}", warning.period === "day" ? i18n.usageToday : i18n.usageThisMonth)
+      .replace("{spent}", formatCost(warning.spent))
+      .replace("{limit}", formatCost(warning.limit));
+  };
+
+  /**
+   * Send the typed message, or run a library prompt (the typed text is kept).
+   * Library prompts and slash commands fix the tools and tool choice;
+   * for free text they are guessed from the wording.
+   */
+  const handleSend = async (prompt?: PromptTemplate) => {
+    if (isLoading || !isConfigured || sendInProgressRef.current) return;
+    if (prompt ? !prompt.template.trim() : !inputValue.trim()) return;
+
+    const sm = sessionManagerRef.current;
+    const typedInput = prompt ? "" : inputValue.trim();
+    let slash: ParsedSlashCommand | undefined;
+    if (!prompt && isSlashCommand(typedInput)) {
+      const parsed = parseSlashCommand(typedInput);
+      if (!parsed.parsed) {
+        // Keep the input so the command can be corrected
+        sm.addDisplayMessage("assistant", parsed.error || "无效的命令", undefined, true);
+        setMessages(sm.getDisplayMessages());
+        return;
+      }
+      slash = parsed.parsed;
+    }
+
+    let userInput = slash ? getSlashInstruction(slash) : typedInput;
+    // The reply belongs to this session even if another one is opened meanwhile
+    const sessionId = sm.getActiveSession()?.id;
+    if (!prompt) {
+      setInputValue("");
+    }
     setIsLoading(true);
     sendInProgressRef.current = true;
     const requestId = ++requestIdRef.current;
@@ -149,32 +371,63 @@ const ChatPanel: React.FC<ChatPanelProps> = ({ isConfigured }) => {
 
     // Create new AbortController for this request
     abortControllerRef.current = new AbortController();
-    const sm = sessionManagerRef.current;
+    let capturedSelection: CapturedSelection | undefined;
+    const { maxSteps, preserveFormatting } = loadAgentConfig();
 
     try {
       // Get current selection and document context
       let selection = "";
-      let documentText = "";
+      let paragraphs: ParagraphInfo[] = [];
+      let documentTitle = "";
 
       try {
-        selection = await getSelectionText();
-        documentText = await getDocumentText(5000);
+        // Track the selection so edits land on it even if the user clicks elsewhere meanwhile
+        capturedSelection = await captureSelection();
+        selection = capturedSelection.text;
+        paragraphs = await getParagraphs();
+        if (prompt) {
+          documentTitle = await getDocumentTitle();
+        }
       } catch (error) {
         console.warn("Could not get Word context:", error);
       }
 
+      if (preserveFormatting && capturedSelection && selection.trim()) {
+        try {
+          // Send the selection with its inline formatting as simplified markup
+          const { markup } = await getSelectionMarkup(capturedSelection);
+          selection = markup || selection;
+        } catch (error) {
+          console.warn("Could not read selection markup:", error);
+        }
+      }
+
       if (activeRequestIdRef.current !== requestId) {
         return;
       }
 
+      if (prompt) {
+        userInput = renderPrompt(prompt.template, {
+          selection: capturedSelection?.text || "",
+          language: getLanguageName(loadUserRules().language),
+          document_title: documentTitle,
+        }).trim();
+      }
+
       const selectionText = selection.trim();
-      const shouldRequireSelection = requiresSelection(userInput);
+      const shouldRequireSelection = prompt
+        ? promptRequiresSelection(prompt)
+        : slash
+        ? slash.command.requiresSelection
+        : requiresSelection(userInput);
       if (shouldRequireSelection && !selectionText) {
         sm.addDisplayMessage(
           "assistant",
           "未检测到选中内容，请先选中文本再执行该操作。",
           undefined,
-          true
+          true,
+          undefined,
+          sessionId
         );
         setMessages(sm.getDisplayMessages());
         refreshSessions();
@@ -182,114 +435,197 @@ const ChatPanel: React.FC<ChatPanelProps> = ({ isConfigured }) => {
       }
 
       // Load settings
-      const config = loadModelConfig();
+      // Library prompts and slash commands use the model routed to their task
+      const task: ModelTask = prompt ? "prompt" : slash ? slash.command.task : "chat";
+      const config = loadModelConfig(task);
       const userRules = loadUserRules();
       const userRulesText = formatUserRules(userRules);
+      const systemPrompt = prompt
+        ? getSystemPromptForPolicy(prompt.toolPolicy, { preserveFormatting })
+        : slash
+        ? getSystemPromptForSlashCommand(slash.command.name, slash.arg, { preserveFormatting })
+        : getSystemPrompt({ preserveFormatting });
+      const tools = prompt
+        ? getPromptTools(prompt.toolPolicy)
+        : slash
+        ? getSlashCommandTools(slash.command)
+        : TOOL_DEFINITIONS;
+
+      // Condense older turns into the session summary once history outgrows its budget
+      setIsSummarizing(true);
+      try {
+        if (await refreshSessionSummary(sm, config, abortControllerRef.current)) {
+          setSummary(sm.getSummary());
+        }
+      } finally {
+        setIsSummarizing(false);
+      }
+      if (activeRequestIdRef.current !== requestId) {
+        return;
+      }
+      if (sm.getActiveSession()?.id !== sessionId) {
+        // Switched to another session before anything was sent
+        if (!prompt) {
+          setInputValue(typedInput);
+        }
+        showToast("已切换对话，请求未发送", "error");
+        return;
+      }
+      const sessionSummary = sm.getSummary();
+      const pinnedMessages = sessionSummary ? [buildSummaryMessage(sessionSummary.content)] : [];
+
+      // Fit selection, rules, document and history into the model's context window;
+      // long documents are sent as the outline plus the chunks relevant to this request
+      const plan = planContext({
+        config,
+        systemPrompt,
+        pinnedMessages,
+        tools,
+        userInput,
+        rulesText: userRulesText,
+        selection,
+        history: sm.getMessages(),
+        buildDocument:
+          paragraphs.length > 0
+            ? (budget) =>
+                composeDocumentContext(paragraphs, {
+                  query: userInput,
+                  selection: capturedSelection?.text,
+                  budget,
+                })
+            : undefined,
+      });
+
+      const budgetNotice = holdBackOverBudget(
+        checkUsageBudget(estimateCost(config.model, plan.report.total) || 0)
+      );
+      if (budgetNotice) {
+        sm.addDisplayMessage("assistant", budgetNotice, undefined, true);
+        setMessages(sm.getDisplayMessages());
+        if (!prompt) {
+          setInputValue(typedInput);
+        }
+        return;
+      }
 
       // Build user message
       const userMessage = sm.buildUserMessage(
         userInput,
-        selection,
-        documentText,
-        userRulesText
+        plan.selection,
+        plan.documentText,
+        plan.rulesText
       );
 
       // Add to session
       sm.addMessage(userMessage);
-      sm.addDisplayMessage("user", userInput);
+      sm.addDisplayMessage("user", slash ? typedInput : userInput, undefined, false, {
+        contextBudget: plan.report,
+      });
       setMessages(sm.getDisplayMessages());
 
-      const requestChatWithTools = async (toolChoice: "auto" | "required") => {
-        let result = await sendChat({
-          config,
-          systemPrompt: SYSTEM_PROMPT,
-          messages: sm.getMessages(),
-          tools: TOOL_DEFINITIONS,
-          toolChoice,
-          abortController: abortControllerRef.current!,
-        });
-
-        if (!result.success && result.error?.includes("400") && toolChoice === "auto") {
-          console.warn("Retrying without tools due to 400 error");
-          result = await sendChat({
-            config,
-            systemPrompt: SYSTEM_PROMPT,
-            messages: sm.getMessages(),
-            abortController: abortControllerRef.current!,
-          });
-        }
-
-        return result;
-      };
-
-      // Send to LLM
-      let result = await requestChatWithTools("auto");
-
-      if (activeRequestIdRef.current !== requestId) {
+      // Render partial output only while this request is still the active one
+      const isActive = () => activeRequestIdRef.current === requestId;
+
+      const run = await runAgentLoop({
+        config,
+        fallbacks: loadFallbackConfigs(task),
+        systemPrompt,
+        pinnedMessages,
+        messages: [...plan.history, userMessage],
+        tools,
+        maxSteps,
+        requireToolCall: prompt
+          ? prompt.toolPolicy !== "answer"
+          : slash
+          ? slash.command.toolChoice === "required"
+          : shouldForceToolCall(userInput),
+        usageContext: { task, sessionId },
+        executeTools: (toolCalls) =>
+          executeWithApproval(toolCalls, {
+            selection: capturedSelection,
+            preserveFormatting,
+            mode: sm.getApplyMode(),
+            queue: pendingQueueRef.current,
+          }),
+        abortController: abortControllerRef.current!,
+        onStepStart: (step) => {
+          if (!isActive()) return;
+          setStreamingText("");
+          setStreamingToolCalls([]);
+          setAgentStep(step);
+        },
+        onToken: (_token, accumulated) => {
+          if (isActive()) setStreamingText(accumulated);
+        },
+        onToolCallDelta: (toolCalls) => {
+          if (isActive()) setStreamingToolCalls(toolCalls);
+        },
+        onRetry: () => {
+          // A retried request streams again from the start
+          if (!isActive()) return;
+          setStreamingText("");
+          setStreamingToolCalls([]);
+        },
+        onStep: (step) => {
+          // Per-step trace: what the model said and what each tool did
+          if (step.content) {
+            sm.addDisplayMessage(
+              "assistant",
+              step.content,
+              undefined,
+              false,
+              { agentStep: step.index },
+              sessionId
+            );
+          }
+          sm.addDisplayMessage(
+            "tool_result",
+            formatToolResults(step.results),
+            step.toolCalls,
+            step.results.some((r) => !r.success),
+            {
+              agentStep: step.index,
+              appliedEdits: step.results
+                .map((r) => r.appliedEdit)
+                .filter((e): e is AppliedEdit => Boolean(e)),
+            },
+            sessionId
+          );
+          if (isActive()) setMessages(sm.getDisplayMessages());
+        },
+      });
+
+      // Keep the tool exchange in history even if the run stopped early,
+      // so follow-up requests know which edits were already applied.
+      run.newMessages.forEach((m) => sm.addMessage(m, sessionId));
+
+      if (!isActive()) {
         return;
       }
 
-      if (!result.success || !result.message) {
-        throw new Error(result.error || "Failed to get response from AI");
+      if (!run.success) {
+        throw new Error(run.error || "Failed to get response from AI");
       }
 
-      let message = result.message;
-      const needsToolCall = shouldForceToolCall(userInput);
-      if (needsToolCall && !hasToolCalls(message)) {
-        const retryResult = await requestChatWithTools("required");
-        if (
-          retryResult.success &&
-          retryResult.message &&
-          hasToolCalls(retryResult.message)
-        ) {
-          result = retryResult;
-          message = retryResult.message;
-        } else {
-          const errorText =
-            retryResult.error ||
-            "未能触发文档操作工具，请重试或简化指令。";
-          sm.addDisplayMessage("assistant", errorText, undefined, true);
-          setMessages(sm.getDisplayMessages());
-          refreshSessions();
-          return;
-        }
+      if (run.finalMessage?.content) {
+        sm.addDisplayMessage(
+          "assistant",
+          run.finalMessage.content,
+          undefined,
+          false,
+          run.fallbackModel ? { answeredBy: run.fallbackModel } : undefined,
+          sessionId
+        );
       }
-
-      // Handle tool calls if present
-      if (hasToolCalls(message)) {
-        const toolCalls = message.tool_calls!;
-
-        // Execute tool calls
-        const toolResults = await executeToolCalls(toolCalls);
-        const toolResultText = formatToolResults(toolResults);
-
-        // Add tool result to display
+      if (run.hitStepLimit) {
         sm.addDisplayMessage(
-          "tool_result",
-          toolResultText,
+          "assistant",
+          i18n.chatStepLimitReached.replace("{n}", String(maxSteps)),
+          undefined,
+          true,
           undefined,
-          toolResults.some((r) => !r.success)
+          sessionId
         );
-
-        // Add natural language response if present
-        if (message.content) {
-          sm.addMessage({
-            role: "assistant",
-            content: message.content,
-          });
-          sm.addDisplayMessage("assistant", message.content);
-        } else {
-          sm.addMessage({
-            role: "assistant",
-            content: `[已执行操作: ${toolResultText}]`,
-          });
-        }
-      } else if (message.content) {
-        sm.addMessage({
-          role: "assistant",
-          content: message.content,
-        });
-        sm.addDisplayMessage("assistant", message.content);
       }
 
       setMessages(sm.getDisplayMessages());
@@ -297,11 +633,17 @@ const ChatPanel: React.FC<ChatPanelProps> = ({ isConfigured }) => {
     } catch (error) {
       const errorMessage =
         error instanceof Error ? error.message : "An error occurred";
-      sm.addDisplayMessage("assistant", errorMessage, undefined, true);
+      sm.addDisplayMessage("assistant", errorMessage, undefined, true, undefined, sessionId);
       setMessages(sm.getDisplayMessages());
     } finally {
+      if (capturedSelection) {
+        releaseSelection(capturedSelection);
+      }
       if (activeRequestIdRef.current === requestId) {
         setIsLoading(false);
+        setStreamingText("");
+        setStreamingToolCalls([]);
+        setAgentStep(0);
         abortControllerRef.current = null;
         sendInProgressRef.current = false;
         activeRequestIdRef.current = null;
@@ -309,7 +651,40 @@ const ChatPanel: React.FC<ChatPanelProps> = ({ isConfigured }) => {
     }
   };
 
+  const slashSuggestions: SlashSuggestion[] =
+    isLoading || slashDismissed ? [] : getSlashSuggestions(inputValue);
+
+  const handleInputChange = (value: string) => {
+    setInputValue(value);
+    setSlashIndex(0);
+    setSlashDismissed(false);
+  };
+
+  const acceptSuggestion = (suggestion: SlashSuggestion) => {
+    handleInputChange(suggestion.completion);
+  };
+
   const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (slashSuggestions.length > 0) {
+      const active = slashSuggestions[Math.min(slashIndex, slashSuggestions.length - 1)];
+      if (e.key === "ArrowDown" || e.key === "ArrowUp") {
+        e.preventDefault();
+        const step = e.key === "ArrowDown" ? 1 : -1;
+        setSlashIndex((slashIndex + step + slashSuggestions.length) % slashSuggestions.length);
+        return;
+      }
+      if (e.key === "Escape") {
+        e.preventDefault();
+        setSlashDismissed(true);
+        return;
+      }
+      // Enter completes a partly typed word; after a space it sends
+      if (e.key === "Tab" || (e.key === "Enter" && !e.shiftKey && !inputValue.endsWith(" "))) {
+        e.preventDefault();
+        acceptSuggestion(active);
+        return;
+      }
+    }
     if (e.key === "Enter" && !e.shiftKey) {
       e.preventDefault();
       handleSend();
@@ -321,24 +696,43 @@ const ChatPanel: React.FC<ChatPanelProps> = ({ isConfigured }) => {
     refreshSessions();
   };
 
-  // Structure analysis handler
-  const handleStructureAnalysis = async () => {
-    if (!isConfigured || isLoading) return;
+  // Structure analysis handler: local rule checks, plus an LLM review when deep
+  const handleStructureAnalysis = async (deep: boolean) => {
+    if ((deep && !isConfigured) || isLoading) return;
 
     setIsLoading(true);
     const sm = sessionManagerRef.current;
 
     try {
-      sm.addDisplayMessage("user", "📊 执行文档结构检查...");
+      sm.addDisplayMessage("user", deep ? "🔍 执行深度结构分析..." : "📊 执行文档结构检查...");
       setMessages(sm.getDisplayMessages());
 
-      const result = await analyzeDocumentStructure();
+      let budgetNotice: string | null = null;
+      const result = await analyzeDocumentStructure({
+        deep,
+        onBudgetExceeded: (warning) => {
+          budgetNotice = holdBackOverBudget(warning);
+          return !budgetNotice;
+        },
+      });
 
       if (result.success && result.report) {
         sm.addMessage({ role: "assistant", content: result.report });
-        sm.addDisplayMessage("assistant", result.report);
+        if (result.issues && result.issues.length > 0) {
+          // The issues are listed separately with filters and "go to" buttons
+          sm.addDisplayMessage("assistant", result.overview || "", undefined, false, {
+            structureIssues: result.issues,
+          });
+        } else {
+          sm.addDisplayMessage("assistant", result.report);
+        }
       } else {
-        sm.addDisplayMessage("assistant", result.error || "结构分析失败", undefined, true);
+        sm.addDisplayMessage(
+          "assistant",
+          budgetNotice || result.error || "结构分析失败",
+          undefined,
+          true
+        );
       }
 
       setMessages(sm.getDisplayMessages());
@@ -352,7 +746,9 @@ const ChatPanel: React.FC<ChatPanelProps> = ({ isConfigured }) => {
     }
   };
 
-  const activeSession = sessions.find((s) => s.id === activeSessionId);
+  // Not looked up in the list: a session opened from another document isn't in it
+  const activeSession = sessionManagerRef.current.getActiveSession();
+  const currentDocument = sessionManagerRef.current.getDocument();
 
   return (
     <div className="chat-panel">
@@ -379,6 +775,13 @@ const ChatPanel: React.FC<ChatPanelProps> = ({ isConfigured }) => {
         >
           +
         </button>
+        <button
+          className={`apply-mode-btn ${applyMode}`}
+          onClick={handleToggleApplyMode}
+          title={i18n.chatApplyModeHint}
+        >
+          {applyMode === "auto" ? i18n.chatApplyModeAuto : i18n.chatApplyModeConfirm}
+        </button>
       </div>
 
       {/* Session List Dropdown */}
@@ -390,11 +793,26 @@ const ChatPanel: React.FC<ChatPanelProps> = ({ isConfigured }) => {
           onNewSession={handleNewSession}
           onDeleteSession={handleDeleteSession}
           onRenameSession={handleRenameSession}
+          onExportSession={handleExportSession}
+          onExportAll={handleExportAll}
+          onImportSessions={handleImportSessions}
+          onSearch={handleSearchSessions}
+          scope={currentDocument ? sessionScope : undefined}
+          onScopeChange={setSessionScope}
         />
       )}
 
       {/* Messages Area */}
       <div className="messages-container" ref={messagesContainerRef}>
+        {summary && (
+          <details className="session-summary">
+            <summary>
+              {i18n.chatSummaryTitle.replace("{n}", String(summary.messageCount))}
+            </summary>
+            <div className="session-summary-content">{summary.content}</div>
+          </details>
+        )}
+
         {messages.length === 0 ? (
           <div className="empty-state">
             <h3>{i18n.chatEmpty}</h3>
@@ -402,21 +820,69 @@ const ChatPanel: React.FC<ChatPanelProps> = ({ isConfigured }) => {
             <div className="quick-actions">
               <button
                 className="quick-action-btn"
-                onClick={handleStructureAnalysis}
-                disabled={!isConfigured || isLoading}
+                onClick={() => handleStructureAnalysis(false)}
+                disabled={isLoading}
               >
                 {i18n.chatStructureCheck}
               </button>
+              <button
+                className="quick-action-btn"
+                onClick={() => handleStructureAnalysis(true)}
+                disabled={!isConfigured || isLoading}
+              >
+                {i18n.chatStructureDeepCheck}
+              </button>
             </div>
           </div>
         ) : (
-          messages.map((msg) => <MessageItem key={msg.id} message={msg} />)
+          messages.map((msg) => (
+            <MessageItem key={msg.id} message={msg} onRevertEdit={handleRevertEdit} />
+          ))
+        )}
+
+        {pendingActions.map((action) => (
+          <MessageItem
+            key={action.id}
+            message={{
+              id: action.id,
+              role: "tool_result",
+              content: i18n.actionPendingTitle
+                .replace("{tool}", action.name)
+                .replace("{target}", action.target),
+              timestamp: action.createdAt,
+            }}
+            pendingAction={action}
+            onResolveAction={handleResolveAction}
+          />
+        ))}
+
+        {isLoading && streamingText && pendingActions.length === 0 && (
+          <MessageItem
+            message={{
+              id: "streaming",
+              role: "assistant",
+              content: streamingText,
+              timestamp: Date.now(),
+            }}
+          />
         )}
 
         {isLoading && (
           <div className="loading">
             <div className="loading-spinner" />
-            <span>{i18n.chatThinking}</span>
+            <span>
+              {agentStep > 1 && `${i18n.chatStep.replace("{n}", String(agentStep))} · `}
+              {isSummarizing
+                ? i18n.chatSummarizing
+                : pendingActions.length > 0
+                ? i18n.chatAwaitingApproval
+                : streamingToolCalls.length > 0
+                ? `${i18n.chatPreparingTools}: ${streamingToolCalls
+                    .map((tc) => tc.function.name)
+                    .filter(Boolean)
+                    .join(", ")}`
+                : i18n.chatThinking}
+            </span>
             <button className="cancel-button" onClick={handleCancel}>
               {i18n.chatStop}
             </button>
@@ -448,10 +914,33 @@ const ChatPanel: React.FC<ChatPanelProps> = ({ isConfigured }) => {
 
       {/* Input Area */}
       <div className="input-area">
+        {quickPrompts.length > 0 && (
+          <div className="prompt-bar" role="toolbar" aria-label={i18n.chatPromptBar}>
+            {quickPrompts.map((prompt) => (
+              <button
+                key={prompt.id}
+                className="prompt-chip"
+                onClick={() => handleSend(prompt)}
+                disabled={isLoading || !isConfigured}
+                title={prompt.template}
+              >
+                {prompt.name}
+              </button>
+            ))}
+          </div>
+        )}
+        {slashSuggestions.length > 0 && (
+          <SlashCommandMenu
+            suggestions={slashSuggestions}
+            activeIndex={Math.min(slashIndex, slashSuggestions.length - 1)}
+            onSelect={acceptSuggestion}
+            onHover={setSlashIndex}
+          />
+        )}
         <div className="input-row">
           <textarea
             value={inputValue}
-            onChange={(e) => setInputValue(e.target.value)}
+            onChange={(e) => handleInputChange(e.target.value)}
             onKeyDown={handleKeyDown}
             placeholder={
               isConfigured
@@ -462,7 +951,7 @@ const ChatPanel: React.FC<ChatPanelProps> = ({ isConfigured }) => {
           />
           <button
             className="send-button"
-            onClick={handleSend}
+            onClick={() => handleSend()}
             disabled={!inputValue.trim() || isLoading || !isConfigured}
           >
             {i18n.chatSend}
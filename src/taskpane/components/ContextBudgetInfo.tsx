@@ -0,0 +1,83 @@
+import * as React from "react";
+import { useState } from "react";
+import { ContextBudgetItem, ContextBudgetReport, ContextPart } from "../../types/context";
+import { formatTokens } from "../../helpers/tokenBudget";
+import { t, Translations } from "../../helpers/i18n";
+
+interface ContextBudgetInfoProps {
+  report: ContextBudgetReport;
+}
+
+function partLabel(part: ContextPart, i18n: Translations): string {
+  switch (part) {
+    case "system":
+      return i18n.contextPartSystem;
+    case "summary":
+      return i18n.contextPartSummary;
+    case "tools":
+      return i18n.contextPartTools;
+    case "input":
+      return i18n.contextPartInput;
+    case "rules":
+      return i18n.contextPartRules;
+    case "selection":
+      return i18n.contextPartSelection;
+    case "document":
+      return i18n.contextPartDocument;
+    default:
+      return i18n.contextPartHistory;
+  }
+}
+
+function describeDropped(item: ContextBudgetItem, i18n: Translations): string {
+  const fill = (template: string) =>
+    template
+      .replace("{n}", String(item.dropped))
+      .replace("{total}", String(item.total ?? item.dropped));
+  switch (item.part) {
+    case "history":
+      return fill(i18n.contextDroppedHistory);
+    case "document":
+      return fill(i18n.contextDroppedDocument);
+    case "selection":
+      return fill(i18n.contextDroppedSelection);
+    default:
+      return partLabel(item.part, i18n);
+  }
+}
+
+/**
+ * Token usage of a request, with what was left out and a per-part breakdown
+ */
+const ContextBudgetInfo: React.FC<ContextBudgetInfoProps> = ({ report }) => {
+  const i18n = t();
+  const [expanded, setExpanded] = useState(false);
+  const dropped = report.items.filter((item) => item.dropped);
+
+  return (
+    <div className="context-budget">
+      <button className="context-budget-summary" onClick={() => setExpanded(!expanded)}>
+        {i18n.contextBudgetSummary
+          .replace("{used}", formatTokens(report.total))
+          .replace("{limit}", formatTokens(report.limit))}
+        {dropped.length > 0 &&
+          ` · ${i18n.contextBudgetDropped.replace(
+            "{items}",
+            dropped.map((item) => describeDropped(item, i18n)).join(i18n.contextListSeparator)
+          )}`}
+      </button>
+      {expanded && (
+        <ul className="context-budget-breakdown">
+          {report.items.map((item) => (
+            <li key={item.part}>
+              <span>{partLabel(item.part, i18n)}</span>
+              <span>{formatTokens(item.tokens)}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default ContextBudgetInfo;
@@ -0,0 +1,40 @@
+import * as React from "react";
+import { useMemo } from "react";
+import { diffText, hasChanges } from "../../helpers/textDiff";
+import { t } from "../../helpers/i18n";
+
+interface DiffViewProps {
+  original: string;
+  proposed: string;
+}
+
+/**
+ * Inline diff of the original text and a proposed replacement
+ */
+const DiffView: React.FC<DiffViewProps> = ({ original, proposed }) => {
+  const segments = useMemo(() => diffText(original, proposed), [original, proposed]);
+
+  if (!hasChanges(segments)) {
+    return <div className="diff-view diff-empty">{t().actionNoChanges}</div>;
+  }
+
+  return (
+    <div className="diff-view">
+      {segments.map((segment, index) =>
+        segment.type === "equal" ? (
+          <span key={index}>{segment.text}</span>
+        ) : segment.type === "insert" ? (
+          <ins key={index} className="diff-insert">
+            {segment.text}
+          </ins>
+        ) : (
+          <del key={index} className="diff-delete">
+            {segment.text}
+          </del>
+        )
+      )}
+    </div>
+  );
+};
+
+export default DiffView;
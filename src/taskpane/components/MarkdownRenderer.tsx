@@ -1,4 +1,5 @@
 import * as React from "react";
+import { parseMarkdown, inlineToText, MarkdownInline } from "../../helpers/markdown";
 
 interface MarkdownRendererProps {
   content: string;
@@ -6,170 +7,123 @@ interface MarkdownRendererProps {
 
 /**
  * Simple Markdown renderer without external dependencies
- * Supports: bold, italic, code, links, lists, headers, blockquotes, horizontal rules
+ * Supports: bold, italic, code, links, lists, headers, blockquotes, horizontal rules,
+ * tables and code blocks (parsing is shared with the Word converter in helpers/markdown)
  */
 const MarkdownRenderer: React.FC<MarkdownRendererProps> = ({ content }) => {
-  const renderMarkdown = (text: string): React.ReactNode[] => {
-    const lines = text.split("\n");
-    const elements: React.ReactNode[] = [];
-    let listItems: React.ReactNode[] = [];
-    let inList = false;
-    let listType: "ul" | "ol" = "ul";
-
-    const processInline = (line: string): React.ReactNode => {
-      // Process inline elements
-      const parts: React.ReactNode[] = [];
-      let remaining = line;
-      let key = 0;
-
-      while (remaining.length > 0) {
-        // Code (inline)
-        const codeMatch = remaining.match(/^`([^`]+)`/);
-        if (codeMatch) {
-          parts.push(<code key={key++} className="md-code">{codeMatch[1]}</code>);
-          remaining = remaining.slice(codeMatch[0].length);
-          continue;
-        }
-
-        // Bold
-        const boldMatch = remaining.match(/^\*\*([^*]+)\*\*/);
-        if (boldMatch) {
-          parts.push(<strong key={key++}>{boldMatch[1]}</strong>);
-          remaining = remaining.slice(boldMatch[0].length);
-          continue;
-        }
-
-        // Italic
-        const italicMatch = remaining.match(/^\*([^*]+)\*/);
-        if (italicMatch) {
-          parts.push(<em key={key++}>{italicMatch[1]}</em>);
-          remaining = remaining.slice(italicMatch[0].length);
-          continue;
-        }
-
-        // Links
-        const linkMatch = remaining.match(/^\[([^\]]+)\]\(([^)]+)\)/);
-        if (linkMatch) {
-          parts.push(
-            <a key={key++} href={linkMatch[2]} target="_blank" rel="noopener noreferrer">
-              {linkMatch[1]}
+  const renderInline = (parts: MarkdownInline[]): React.ReactNode => {
+    const nodes = parts.map((part, key) => {
+      switch (part.type) {
+        case "code":
+          return (
+            <code key={key} className="md-code">
+              {part.text}
+            </code>
+          );
+        case "bold":
+          return <strong key={key}>{part.text}</strong>;
+        case "italic":
+          return <em key={key}>{part.text}</em>;
+        case "link":
+          return (
+            <a key={key} href={part.href} target="_blank" rel="noopener noreferrer">
+              {part.text}
             </a>
           );
-          remaining = remaining.slice(linkMatch[0].length);
-          continue;
-        }
-
-        // Regular text (take one character)
-        parts.push(remaining[0]);
-        remaining = remaining.slice(1);
+        default:
+          return part.text;
       }
+    });
 
-      return parts.length === 1 && typeof parts[0] === "string" ? parts[0] : <>{parts}</>;
-    };
+    return nodes.length === 1 && typeof nodes[0] === "string" ? nodes[0] : <>{nodes}</>;
+  };
 
-    const flushList = () => {
-      if (listItems.length > 0) {
-        if (listType === "ul") {
-          elements.push(<ul key={`list-${elements.length}`} className="md-list">{listItems}</ul>);
-        } else {
-          elements.push(<ol key={`list-${elements.length}`} className="md-list">{listItems}</ol>);
+  const renderMarkdown = (text: string): React.ReactNode[] =>
+    parseMarkdown(text).map((block, index) => {
+      switch (block.type) {
+        case "blank":
+          return <div key={index} className="md-spacer" />;
+
+        case "rule":
+          return <hr key={index} className="md-hr" />;
+
+        case "heading": {
+          const HeaderTag = `h${block.level}` as keyof JSX.IntrinsicElements;
+          return (
+            <HeaderTag key={index} className={`md-h${block.level}`}>
+              {renderInline(block.content)}
+            </HeaderTag>
+          );
         }
-        listItems = [];
-        inList = false;
-      }
-    };
-
-    lines.forEach((line, index) => {
-      const trimmedLine = line.trim();
-
-      // Empty line
-      if (trimmedLine === "") {
-        flushList();
-        elements.push(<div key={index} className="md-spacer" />);
-        return;
-      }
 
-      // Horizontal rule
-      if (/^(-{3,}|_{3,}|\*{3,})$/.test(trimmedLine)) {
-        flushList();
-        elements.push(<hr key={index} className="md-hr" />);
-        return;
-      }
+        case "blockquote":
+          return (
+            <blockquote key={index} className="md-blockquote">
+              {renderInline(block.content)}
+            </blockquote>
+          );
 
-      // Headers
-      const headerMatch = trimmedLine.match(/^(#{1,6})\s+(.+)$/);
-      if (headerMatch) {
-        flushList();
-        const level = headerMatch[1].length;
-        const HeaderTag = `h${level}` as keyof JSX.IntrinsicElements;
-        elements.push(
-          <HeaderTag key={index} className={`md-h${level}`}>
-            {processInline(headerMatch[2])}
-          </HeaderTag>
-        );
-        return;
-      }
+        case "list": {
+          const items = block.items.map((item, i) => <li key={i}>{renderInline(item)}</li>);
+          return block.ordered ? (
+            <ol key={index} className="md-list">
+              {items}
+            </ol>
+          ) : (
+            <ul key={index} className="md-list">
+              {items}
+            </ul>
+          );
+        }
 
-      // Blockquote
-      if (trimmedLine.startsWith(">")) {
-        flushList();
-        const quoteContent = trimmedLine.slice(1).trim();
-        elements.push(
-          <blockquote key={index} className="md-blockquote">
-            {processInline(quoteContent)}
-          </blockquote>
-        );
-        return;
-      }
+        case "table":
+          return (
+            <table key={index} className="md-table">
+              <thead>
+                <tr>
+                  {block.header.map((cell, i) => (
+                    <th key={i}>{renderInline(cell)}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {block.rows.map((row, r) => (
+                  <tr key={r}>
+                    {row.map((cell, i) => (
+                      <td key={i}>{renderInline(cell)}</td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          );
 
-      // Unordered list
-      const ulMatch = trimmedLine.match(/^[-*+]\s+(.+)$/);
-      if (ulMatch) {
-        if (!inList || listType !== "ul") {
-          flushList();
-          inList = true;
-          listType = "ul";
-        }
-        listItems.push(<li key={index}>{processInline(ulMatch[1])}</li>);
-        return;
-      }
+        case "code":
+          return (
+            <pre key={index} className="md-code-block">
+              {block.text}
+            </pre>
+          );
 
-      // Ordered list
-      const olMatch = trimmedLine.match(/^\d+\.\s+(.+)$/);
-      if (olMatch) {
-        if (!inList || listType !== "ol") {
-          flushList();
-          inList = true;
-          listType = "ol";
+        default: {
+          // Checkbox (✅ or ❌)
+          const plain = inlineToText(block.content);
+          if (plain.startsWith("✅") || plain.startsWith("❌")) {
+            return (
+              <div key={index} className="md-checkbox">
+                {renderInline(block.content)}
+              </div>
+            );
+          }
+          return (
+            <p key={index} className="md-paragraph">
+              {renderInline(block.content)}
+            </p>
+          );
         }
-        listItems.push(<li key={index}>{processInline(olMatch[1])}</li>);
-        return;
-      }
-
-      // Checkbox (✅ or ❌)
-      if (trimmedLine.startsWith("✅") || trimmedLine.startsWith("❌")) {
-        flushList();
-        elements.push(
-          <div key={index} className="md-checkbox">
-            {processInline(trimmedLine)}
-          </div>
-        );
-        return;
       }
-
-      // Regular paragraph
-      flushList();
-      elements.push(
-        <p key={index} className="md-paragraph">
-          {processInline(trimmedLine)}
-        </p>
-      );
     });
 
-    flushList();
-    return elements;
-  };
-
   return <div className="markdown-content">{renderMarkdown(content)}</div>;
 };
 
@@ -1,11 +1,94 @@
 import * as React from "react";
+import { useState } from "react";
 import { DisplayMessage } from "../../types/llm";
+import { AppliedEdit } from "../../types/tools";
+import { PendingAction, PendingDecision } from "../../helpers/pendingActions";
+import { stripMarkup } from "../../helpers/formatMarkup";
 import MarkdownRenderer from "./MarkdownRenderer";
+import StructureIssueList from "./StructureIssueList";
+import ContextBudgetInfo from "./ContextBudgetInfo";
+import DiffView from "./DiffView";
+import { t } from "../../helpers/i18n";
 
 interface MessageItemProps {
   message: DisplayMessage;
+  /** Tool call waiting for Apply/Edit/Reject */
+  pendingAction?: PendingAction;
+  onResolveAction?: (actionId: string, decision: PendingDecision) => void;
+  onRevertEdit?: (edit: AppliedEdit) => void;
+}
+
+interface PendingActionViewProps {
+  action: PendingAction;
+  onResolve?: (actionId: string, decision: PendingDecision) => void;
 }
 
+/**
+ * Preview of a pending tool call with Apply / Edit / Reject buttons
+ */
+const PendingActionView: React.FC<PendingActionViewProps> = ({ action, onResolve }) => {
+  const [isEditing, setIsEditing] = useState(false);
+  const [draft, setDraft] = useState(action.proposed);
+  const i18n = t();
+
+  const value = isEditing ? draft : action.proposed;
+  const isComment = action.editableField === "comment";
+
+  const handleApply = () => {
+    onResolve?.(action.id, isEditing ? { type: "apply", editedValue: draft } : { type: "apply" });
+  };
+
+  const handleToggleEdit = () => {
+    setDraft(action.proposed);
+    setIsEditing(!isEditing);
+  };
+
+  return (
+    <div className="pending-action">
+      {isComment ? (
+        <>
+          {action.original && (
+            <blockquote className="pending-action-quote">{action.original}</blockquote>
+          )}
+          <div className="pending-action-label">{i18n.actionComment}</div>
+          {!isEditing && <div className="pending-action-comment">{value}</div>}
+        </>
+      ) : (
+        <DiffView
+          original={action.original}
+          proposed={action.isMarkup ? stripMarkup(value) : value}
+        />
+      )}
+
+      {isEditing && (
+        <textarea
+          className="pending-action-editor"
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          rows={Math.min(10, Math.max(3, draft.split("\n").length))}
+        />
+      )}
+
+      <div className="pending-action-buttons">
+        <button className="pending-action-btn apply" onClick={handleApply}>
+          {i18n.actionApply}
+        </button>
+        {action.editableField && (
+          <button className="pending-action-btn" onClick={handleToggleEdit}>
+            {isEditing ? i18n.actionCancelEdit : i18n.actionEdit}
+          </button>
+        )}
+        <button
+          className="pending-action-btn reject"
+          onClick={() => onResolve?.(action.id, { type: "reject" })}
+        >
+          {i18n.actionReject}
+        </button>
+      </div>
+    </div>
+  );
+};
+
 /**
  * Format timestamp to readable time
  */
@@ -17,14 +100,33 @@ function formatTime(timestamp: number): string {
   });
 }
 
-const MessageItem: React.FC<MessageItemProps> = ({ message }) => {
-  const { role, content, timestamp, isError } = message;
+const MessageItem: React.FC<MessageItemProps> = ({
+  message,
+  pendingAction,
+  onResolveAction,
+  onRevertEdit,
+}) => {
+  const {
+    role,
+    content,
+    timestamp,
+    isError,
+    agentStep,
+    appliedEdits,
+    structureIssues,
+    contextBudget,
+    answeredBy,
+  } = message;
+  const i18n = t();
 
   // Build class names
   const classNames = ["message-item", role];
   if (isError) {
     classNames.push("error");
   }
+  if (pendingAction) {
+    classNames.push("pending");
+  }
 
   // Use Markdown renderer for assistant messages
   const shouldRenderMarkdown = role === "assistant" && !isError;
@@ -37,8 +139,43 @@ const MessageItem: React.FC<MessageItemProps> = ({ message }) => {
         ) : (
           content
         )}
+        {structureIssues && <StructureIssueList issues={structureIssues} />}
+        {contextBudget && <ContextBudgetInfo report={contextBudget} />}
+        {answeredBy && (
+          <div className="answered-by">{i18n.chatAnsweredBy.replace("{model}", answeredBy)}</div>
+        )}
+        {pendingAction && (
+          <PendingActionView
+            key={pendingAction.id}
+            action={pendingAction}
+            onResolve={onResolveAction}
+          />
+        )}
+        {appliedEdits && appliedEdits.length > 0 && onRevertEdit && (
+          <div className="revert-edits">
+            {appliedEdits.map((edit, index) => (
+              <button
+                key={edit.id}
+                className="revert-edit-btn"
+                disabled={edit.reverted}
+                onClick={() => onRevertEdit(edit)}
+                title={edit.newText.slice(0, 200)}
+              >
+                {edit.reverted ? i18n.actionReverted : i18n.actionRevert}
+                {appliedEdits.length > 1 && ` (${index + 1})`}
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+      <div className="timestamp">
+        {agentStep !== undefined && (
+          <span className="agent-step-badge">
+            {i18n.chatStep.replace("{n}", String(agentStep))}
+          </span>
+        )}
+        {formatTime(timestamp)}
       </div>
-      <div className="timestamp">{formatTime(timestamp)}</div>
     </div>
   );
 };
@@ -1,8 +1,15 @@
 import * as React from "react";
 import { useState, useRef, useMemo } from "react";
-import { sendChat } from "../../helpers/llmClient";
-import { loadModelConfig, loadUserRules } from "../../helpers/settings";
-import { insertText } from "../../helpers/wordBridge";
+import { sendChat, streamChat } from "../../helpers/llmClient";
+import { loadModelConfig, loadFallbackConfigs, loadUserRules } from "../../helpers/settings";
+import { insertMarkdown } from "../../helpers/wordBridge";
+import { countTokens } from "../../helpers/tokenBudget";
+import {
+  checkUsageBudget,
+  estimateCost,
+  formatCost,
+  getPeriodStart,
+} from "../../helpers/usageTracker";
 import { t } from "../../helpers/i18n";
 
 // Plan workflow steps
@@ -41,6 +48,12 @@ const QUESTION_KEYS: Array<{
   { id: "extra", questionKey: "planExtra", placeholderKey: "planExtraPlaceholder" },
 ];
 
+const SYSTEM_PROMPT = "你是一个专业的文档写作助手。";
+
+// Section title as a Word heading, followed by the generated Markdown content
+const toSectionMarkdown = (section: OutlineSection): string =>
+  `## ${section.title.replace(/^#+\s*/, "")}\n\n${section.content}`;
+
 const PlanPanel: React.FC<PlanPanelProps> = ({ isConfigured }) => {
   const i18n = t();
 
@@ -62,6 +75,8 @@ const PlanPanel: React.FC<PlanPanelProps> = ({ isConfigured }) => {
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const abortControllerRef = useRef<AbortController | null>(null);
+  // Budget period the user already chose to go over ("day:<start>" / "month:<start>")
+  const budgetAcknowledgedRef = useRef<string | null>(null);
 
   // Update question answer
   const updateAnswer = (id: string, answer: string) => {
@@ -70,6 +85,24 @@ const PlanPanel: React.FC<PlanPanelProps> = ({ isConfigured }) => {
     );
   };
 
+  // Budgets are soft: the first request over a budget is held back with a
+  // warning, trying again goes ahead
+  const holdBackOverBudget = (model: string, prompt: string): boolean => {
+    const tokens = countTokens(SYSTEM_PROMPT) + countTokens(prompt);
+    const warning = checkUsageBudget(estimateCost(model, tokens) || 0);
+    if (!warning) return false;
+    const budgetKey = `${warning.period}:${getPeriodStart(warning.period)}`;
+    if (budgetAcknowledgedRef.current === budgetKey) return false;
+    budgetAcknowledgedRef.current = budgetKey;
+    setError(
+      i18n.planBudgetExceeded
+        .replace("{period}", warning.period === "day" ? i18n.usageToday : i18n.usageThisMonth)
+        .replace("{spent}", formatCost(warning.spent))
+        .replace("{limit}", formatCost(warning.limit))
+    );
+    return true;
+  };
+
   // Generate outline from questions
   const generateOutline = async () => {
     if (!isConfigured) {
@@ -81,7 +114,7 @@ const PlanPanel: React.FC<PlanPanelProps> = ({ isConfigured }) => {
     setError(null);
     abortControllerRef.current = new AbortController();
 
-    const config = loadModelConfig();
+    const config = loadModelConfig("planOutline");
     const userRules = loadUserRules();
 
     // Build context from questions
@@ -108,12 +141,20 @@ ${context}
   ]
 }`;
 
+    if (holdBackOverBudget(config.model, prompt)) {
+      setIsLoading(false);
+      abortControllerRef.current = null;
+      return;
+    }
+
     try {
       const result = await sendChat({
         config,
-        systemPrompt: "你是一个专业的文档写作助手。",
+        fallbacks: loadFallbackConfigs("planOutline"),
+        systemPrompt: SYSTEM_PROMPT,
         messages: [{ role: "user", content: prompt }],
         abortController: abortControllerRef.current,
+        usageContext: { task: "planOutline" },
       });
 
       if (!result.success || !result.message) {
@@ -158,14 +199,7 @@ ${context}
     const section = outline.find((s) => s.id === sectionId);
     if (!section || !isConfigured) return;
 
-    setOutline((prev) =>
-      prev.map((s) =>
-        s.id === sectionId ? { ...s, status: "generating" } : s
-      )
-    );
-
-    abortControllerRef.current = new AbortController();
-    const config = loadModelConfig();
+    const config = loadModelConfig("planSection");
     const userRules = loadUserRules();
 
     // Build context
@@ -205,12 +239,32 @@ ${outlineContext}
 2. 与其他章节逻辑连贯
 3. 符合上述写作规则`;
 
+    if (holdBackOverBudget(config.model, prompt)) return;
+
+    setOutline((prev) =>
+      prev.map((s) =>
+        s.id === sectionId ? { ...s, status: "generating" } : s
+      )
+    );
+
+    abortControllerRef.current = new AbortController();
+
     try {
-      const result = await sendChat({
+      const result = await streamChat({
         config,
-        systemPrompt: "你是一个专业的文档写作助手。",
+        fallbacks: loadFallbackConfigs("planSection"),
+        systemPrompt: SYSTEM_PROMPT,
         messages: [{ role: "user", content: prompt }],
         abortController: abortControllerRef.current,
+        usageContext: { task: "planSection" },
+        // Show the section text as it is being written
+        onToken: (_token, accumulated) => {
+          setOutline((prev) =>
+            prev.map((s) =>
+              s.id === sectionId ? { ...s, content: accumulated } : s
+            )
+          );
+        },
       });
 
       if (!result.success || !result.message) {
@@ -226,7 +280,7 @@ ${outlineContext}
     } catch (err) {
       setOutline((prev) =>
         prev.map((s) =>
-          s.id === sectionId ? { ...s, status: "error" } : s
+          s.id === sectionId ? { ...s, status: "error", content: "" } : s
         )
       );
       setError(err instanceof Error ? err.message : i18n.planContentFailed);
@@ -241,8 +295,7 @@ ${outlineContext}
     if (!section || !section.content) return;
 
     try {
-      const fullContent = `\n${section.title}\n\n${section.content}\n`;
-      await insertText("document_end", fullContent);
+      await insertMarkdown("document_end", toSectionMarkdown(section));
     } catch {
       setError(i18n.planInsertFailed);
     }
@@ -258,8 +311,7 @@ ${outlineContext}
 
     try {
       for (const section of completedSections) {
-        const fullContent = `\n${section.title}\n\n${section.content}\n`;
-        await insertText("document_end", fullContent);
+        await insertMarkdown("document_end", toSectionMarkdown(section));
       }
     } catch {
       setError(i18n.planInsertFailed);
@@ -383,13 +435,22 @@ ${outlineContext}
             )}
 
             {section.status === "generating" && (
-              <div className="plan-section-loading">
-                <span className="button-spinner" />
-                {i18n.loading}
-                <button className="plan-btn text small" onClick={handleCancel}>
-                  {i18n.cancel}
-                </button>
-              </div>
+              <>
+                {section.content && (
+                  <div className="plan-section-preview streaming">
+                    {section.content.length > 400
+                      ? `...${section.content.slice(-400)}`
+                      : section.content}
+                  </div>
+                )}
+                <div className="plan-section-loading">
+                  <span className="button-spinner" />
+                  {i18n.loading}
+                  <button className="plan-btn text small" onClick={handleCancel}>
+                    {i18n.cancel}
+                  </button>
+                </div>
+              </>
             )}
 
             {section.status === "done" && section.content && (
@@ -0,0 +1,122 @@
+import * as React from "react";
+import { PromptLibrary, PromptTemplate, PromptToolPolicy } from "../../types/prompts";
+import { createPrompt } from "../../helpers/promptLibrary";
+import { t, Translations } from "../../helpers/i18n";
+
+interface PromptLibraryEditorProps {
+  library: PromptLibrary;
+  onChange: (library: PromptLibrary) => void;
+  disabled?: boolean;
+}
+
+const getPolicyLabels = (i18n: Translations): Record<PromptToolPolicy, string> => ({
+  edit: i18n.promptPolicyEdit,
+  comment: i18n.promptPolicyComment,
+  answer: i18n.promptPolicyAnswer,
+});
+
+/**
+ * Edit the prompts of the library and pick the one the ribbon command runs
+ */
+const PromptLibraryEditor: React.FC<PromptLibraryEditorProps> = ({
+  library,
+  onChange,
+  disabled,
+}) => {
+  const i18n = t();
+  const policyLabels = getPolicyLabels(i18n);
+
+  const updatePrompt = (id: string, changes: Partial<PromptTemplate>) => {
+    onChange({
+      ...library,
+      prompts: library.prompts.map((p) => (p.id === id ? { ...p, ...changes } : p)),
+    });
+  };
+
+  const deletePrompt = (id: string) => {
+    onChange({
+      prompts: library.prompts.filter((p) => p.id !== id),
+      ribbonPromptId: library.ribbonPromptId === id ? undefined : library.ribbonPromptId,
+    });
+  };
+
+  const addPrompt = () => {
+    const prompt = createPrompt(
+      i18n.settingsPromptNewName.replace("{n}", String(library.prompts.length + 1))
+    );
+    onChange({ ...library, prompts: [...library.prompts, prompt] });
+  };
+
+  return (
+    <>
+      {library.prompts.map((prompt) => (
+        <div className="prompt-card" key={prompt.id}>
+          <div className="form-group profile-row">
+            <input
+              type="text"
+              value={prompt.name}
+              onChange={(e) => updatePrompt(prompt.id, { name: e.target.value })}
+              placeholder={i18n.settingsPromptName}
+              aria-label={i18n.settingsPromptName}
+              disabled={disabled}
+            />
+            <select
+              className="model-select"
+              value={prompt.toolPolicy}
+              onChange={(e) =>
+                updatePrompt(prompt.id, { toolPolicy: e.target.value as PromptToolPolicy })
+              }
+              aria-label={i18n.settingsPromptPolicy}
+              disabled={disabled}
+            >
+              {(Object.keys(policyLabels) as PromptToolPolicy[]).map((policy) => (
+                <option key={policy} value={policy}>
+                  {policyLabels[policy]}
+                </option>
+              ))}
+            </select>
+            <button
+              className="clear-button"
+              onClick={() => deletePrompt(prompt.id)}
+              disabled={disabled}
+            >
+              {i18n.settingsProfileDelete}
+            </button>
+          </div>
+          <div className="form-group">
+            <textarea
+              value={prompt.template}
+              onChange={(e) => updatePrompt(prompt.id, { template: e.target.value })}
+              placeholder={i18n.settingsPromptTemplate}
+              aria-label={i18n.settingsPromptTemplate}
+              disabled={disabled}
+            />
+          </div>
+        </div>
+      ))}
+
+      <button className="clear-button" onClick={addPrompt} disabled={disabled}>
+        {i18n.settingsPromptAdd}
+      </button>
+
+      <div className="form-group prompt-ribbon">
+        <label>{i18n.settingsPromptRibbon}</label>
+        <select
+          className="model-select"
+          value={library.ribbonPromptId || ""}
+          onChange={(e) => onChange({ ...library, ribbonPromptId: e.target.value || undefined })}
+          disabled={disabled}
+        >
+          <option value="">{i18n.settingsPromptRibbonNone}</option>
+          {library.prompts.map((prompt) => (
+            <option key={prompt.id} value={prompt.id}>
+              {prompt.name || prompt.id}
+            </option>
+          ))}
+        </select>
+      </div>
+    </>
+  );
+};
+
+export default PromptLibraryEditor;
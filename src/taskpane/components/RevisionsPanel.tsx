@@ -0,0 +1,157 @@
+import * as React from "react";
+import { useState, useEffect, useCallback } from "react";
+import {
+  CopilotRevision,
+  isTrackedChangeApiSupported,
+  getCopilotRevisions,
+  resolveCopilotRevision,
+  resolveAllCopilotRevisions,
+  finalizeEdits,
+} from "../../helpers/wordBridge";
+import { t } from "../../helpers/i18n";
+
+/**
+ * Revisions Panel - Accept or reject the tracked changes Copilot created
+ */
+const RevisionsPanel: React.FC = () => {
+  const i18n = t();
+  const isSupported = isTrackedChangeApiSupported();
+
+  const [revisions, setRevisions] = useState<CopilotRevision[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    if (!isSupported) {
+      setIsLoading(false);
+      return;
+    }
+    setIsLoading(true);
+    setError(null);
+    try {
+      setRevisions(await getCopilotRevisions());
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [isSupported]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  // Run an accept/reject operation, then reload the list (indices shift after each change)
+  const runAndRefresh = async (operation: () => Promise<unknown>) => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      await operation();
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    }
+    await refresh();
+  };
+
+  const finalizeButton = (
+    <button
+      className="plan-btn text small"
+      onClick={() => runAndRefresh(() => finalizeEdits())}
+      disabled={isLoading}
+      title={i18n.revisionsFinalizeHint}
+    >
+      {i18n.revisionsFinalize}
+    </button>
+  );
+
+  const typeLabel = (type: CopilotRevision["type"]): string => {
+    switch (type) {
+      case "Added":
+        return i18n.revisionAdded;
+      case "Deleted":
+        return i18n.revisionDeleted;
+      case "Formatted":
+        return i18n.revisionFormatted;
+      default:
+        return type;
+    }
+  };
+
+  if (!isSupported) {
+    return (
+      <div className="revisions-panel">
+        <h3>{i18n.revisionsTitle}</h3>
+        <div className="config-status">
+          <span>⚠️</span>
+          <span>{i18n.revisionsUnsupported}</span>
+        </div>
+        <div className="revisions-actions">{finalizeButton}</div>
+        {error && <div className="plan-error">{error}</div>}
+      </div>
+    );
+  }
+
+  return (
+    <div className="revisions-panel">
+      <h3>{i18n.revisionsTitle}</h3>
+      <p className="plan-hint">{i18n.revisionsHint}</p>
+
+      <div className="revisions-actions">
+        <button
+          className="plan-btn primary small"
+          onClick={() => runAndRefresh(() => resolveAllCopilotRevisions("accept"))}
+          disabled={isLoading || revisions.length === 0}
+        >
+          {i18n.revisionsAcceptAll}
+        </button>
+        <button
+          className="plan-btn secondary small"
+          onClick={() => runAndRefresh(() => resolveAllCopilotRevisions("reject"))}
+          disabled={isLoading || revisions.length === 0}
+        >
+          {i18n.revisionsRejectAll}
+        </button>
+        <button className="plan-btn text small" onClick={refresh} disabled={isLoading}>
+          {i18n.revisionsRefresh}
+        </button>
+        {finalizeButton}
+      </div>
+
+      {error && <div className="plan-error">{error}</div>}
+
+      {!isLoading && revisions.length === 0 && !error && (
+        <p className="revisions-empty">{i18n.revisionsEmpty}</p>
+      )}
+
+      <ul className="revision-list">
+        {revisions.map((revision) => (
+          <li key={revision.id} className={`revision-item ${revision.type.toLowerCase()}`}>
+            <div className="revision-meta">
+              <span className="revision-type">{typeLabel(revision.type)}</span>
+              {revision.author && <span className="revision-author">{revision.author}</span>}
+            </div>
+            <div className="revision-text">{revision.text}</div>
+            <div className="revision-actions">
+              <button
+                className="pending-action-btn apply"
+                onClick={() => runAndRefresh(() => resolveCopilotRevision(revision, "accept"))}
+                disabled={isLoading}
+              >
+                {i18n.revisionAccept}
+              </button>
+              <button
+                className="pending-action-btn reject"
+                onClick={() => runAndRefresh(() => resolveCopilotRevision(revision, "reject"))}
+                disabled={isLoading}
+              >
+                {i18n.revisionReject}
+              </button>
+            </div>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default RevisionsPanel;
@@ -1,14 +1,39 @@
 import * as React from "react";
-import { useState } from "react";
-import { Session } from "../../helpers/sessionManager";
+import { useState, useRef, useEffect } from "react";
+import { SessionInfo, SessionScope } from "../../helpers/sessionManager";
+import { SessionSearchResult, parseSearchQuery } from "../../helpers/sessionSearch";
+
+/** Delay before searching while the query is typed */
+const SEARCH_DEBOUNCE_MS = 250;
+
+// Wrap the search terms in <mark>
+function highlight(text: string, terms: string[]): React.ReactNode {
+  if (terms.length === 0) return text;
+  const pattern = new RegExp(
+    `(${terms.map((t) => t.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")).join("|")})`,
+    "gi"
+  );
+  return text
+    .split(pattern)
+    .map((part, i) => (i % 2 === 1 ? <mark key={i}>{part}</mark> : part));
+}
 
 interface SessionListProps {
-  sessions: Session[];
+  sessions: SessionInfo[];
   activeSessionId: string | null;
   onSelectSession: (sessionId: string) => void;
   onNewSession: () => void;
   onDeleteSession: (sessionId: string) => void;
   onRenameSession: (sessionId: string, newName: string) => void;
+  /** Export one session as a Markdown transcript or JSON, or all sessions as JSON */
+  onExportSession: (sessionId: string, format: "markdown" | "json") => void;
+  onExportAll: () => void;
+  onImportSessions: (json: string) => void;
+  /** Full-text search across session names and messages */
+  onSearch: (query: string) => Promise<SessionSearchResult[]>;
+  /** Current document or all documents; omitted when the document is unknown */
+  scope?: SessionScope;
+  onScopeChange: (scope: SessionScope) => void;
 }
 
 const SessionList: React.FC<SessionListProps> = ({
@@ -18,12 +43,44 @@ const SessionList: React.FC<SessionListProps> = ({
   onNewSession,
   onDeleteSession,
   onRenameSession,
+  onExportSession,
+  onExportAll,
+  onImportSessions,
+  onSearch,
+  scope,
+  onScopeChange,
 }) => {
   const [editingId, setEditingId] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [query, setQuery] = useState("");
+  // null while no search is active
+  const [results, setResults] = useState<SessionSearchResult[] | null>(null);
+
+  useEffect(() => {
+    if (!query.trim()) {
+      setResults(null);
+      return;
+    }
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      onSearch(query)
+        .then((found) => {
+          if (!cancelled) setResults(found);
+        })
+        .catch((error) => {
+          console.warn("Session search failed:", error);
+          if (!cancelled) setResults([]);
+        });
+    }, SEARCH_DEBOUNCE_MS);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [query, onSearch]);
   const [editName, setEditName] = useState("");
   const [deleteConfirmId, setDeleteConfirmId] = useState<string | null>(null);
 
-  const handleStartEdit = (session: Session, e: React.MouseEvent) => {
+  const handleStartEdit = (session: SessionInfo, e: React.MouseEvent) => {
     e.stopPropagation();
     setEditingId(session.id);
     setEditName(session.name);
@@ -62,6 +119,20 @@ const SessionList: React.FC<SessionListProps> = ({
     setDeleteConfirmId(null);
   };
 
+  const handleExport = (sessionId: string, format: "markdown" | "json", e: React.MouseEvent) => {
+    e.stopPropagation();
+    onExportSession(sessionId, format);
+  };
+
+  const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Allow picking the same file again
+    e.target.value = "";
+    if (file) {
+      onImportSessions(await file.text());
+    }
+  };
+
   const formatTime = (timestamp: number) => {
     const date = new Date(timestamp);
     const now = new Date();
@@ -83,75 +154,176 @@ const SessionList: React.FC<SessionListProps> = ({
     <div className="session-list">
       <div className="session-list-header">
         <span>会话列表</span>
-        <button className="new-session-button" onClick={onNewSession} title="新建对话">
-          +
-        </button>
+        <div className="session-list-tools">
+          <button
+            className="session-action-btn"
+            onClick={() => fileInputRef.current?.click()}
+            title="导入对话（JSON）"
+          >
+            📥
+          </button>
+          <button className="session-action-btn" onClick={onExportAll} title="导出全部对话（JSON）">
+            📤
+          </button>
+          <button className="new-session-button" onClick={onNewSession} title="新建对话">
+            +
+          </button>
+        </div>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".json,application/json"
+          className="session-import-input"
+          onChange={handleImportFile}
+        />
       </div>
 
-      <div className="session-items">
-        {sessions.map((session) => (
-          <div
-            key={session.id}
-            className={`session-item ${activeSessionId === session.id ? "active" : ""}`}
-            onClick={() => onSelectSession(session.id)}
+      {scope && (
+        <div className="session-scope" role="tablist">
+          <button
+            className={`session-scope-btn ${scope === "document" ? "active" : ""}`}
+            onClick={() => onScopeChange("document")}
+            role="tab"
+            aria-selected={scope === "document"}
           >
-            {editingId === session.id ? (
-              <input
-                type="text"
-                className="session-name-input"
-                value={editName}
-                onChange={(e) => setEditName(e.target.value)}
-                onBlur={() => handleSaveEdit(session.id)}
-                onKeyDown={(e) => handleKeyDown(e, session.id)}
-                onClick={(e) => e.stopPropagation()}
-                autoFocus
-              />
-            ) : deleteConfirmId === session.id ? (
-              // Inline delete confirmation (no confirm() needed)
-              <div className="delete-confirm">
-                <span>确定删除？</span>
-                <button
-                  className="confirm-btn yes"
-                  onClick={(e) => handleConfirmDelete(session.id, e)}
-                >
-                  是
-                </button>
-                <button
-                  className="confirm-btn no"
-                  onClick={handleCancelDelete}
-                >
-                  否
-                </button>
-              </div>
-            ) : (
-              <>
+            当前文档
+          </button>
+          <button
+            className={`session-scope-btn ${scope === "all" ? "active" : ""}`}
+            onClick={() => onScopeChange("all")}
+            role="tab"
+            aria-selected={scope === "all"}
+          >
+            所有文档
+          </button>
+        </div>
+      )}
+
+      <div className="session-search">
+        <input
+          type="search"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="搜索对话名称和内容"
+          aria-label="搜索对话"
+        />
+      </div>
+
+      {results !== null ? (
+        <div className="session-items">
+          {results.length === 0 && (
+            <div className="session-search-empty">没有找到匹配的对话</div>
+          )}
+          {results.map((result) => {
+            const terms = parseSearchQuery(query);
+            return (
+              <div
+                key={result.sessionId}
+                className={`session-item search-result ${
+                  activeSessionId === result.sessionId ? "active" : ""
+                }`}
+                onClick={() => onSelectSession(result.sessionId)}
+              >
                 <div className="session-info">
-                  <span className="session-name">{session.name}</span>
+                  <span className="session-name">{highlight(result.name, terms)}</span>
                   <span className="session-meta">
-                    {session.displayMessages.length} 条消息 · {formatTime(session.updatedAt)}
+                    {result.matchCount} 条消息匹配 · {formatTime(result.updatedAt)}
                   </span>
+                  {result.matches.map((match) => (
+                    <span key={match.messageId} className="search-snippet">
+                      {highlight(match.snippet, terms)}
+                    </span>
+                  ))}
                 </div>
-                <div className="session-actions">
+              </div>
+            );
+          })}
+        </div>
+      ) : (
+        <div className="session-items">
+          {sessions.map((session) => (
+            <div
+              key={session.id}
+              className={`session-item ${activeSessionId === session.id ? "active" : ""}`}
+              onClick={() => onSelectSession(session.id)}
+            >
+              {editingId === session.id ? (
+                <input
+                  type="text"
+                  className="session-name-input"
+                  value={editName}
+                  onChange={(e) => setEditName(e.target.value)}
+                  onBlur={() => handleSaveEdit(session.id)}
+                  onKeyDown={(e) => handleKeyDown(e, session.id)}
+                  onClick={(e) => e.stopPropagation()}
+                  autoFocus
+                />
+              ) : deleteConfirmId === session.id ? (
+                // Inline delete confirmation (no confirm() needed)
+                <div className="delete-confirm">
+                  <span>确定删除？</span>
                   <button
-                    className="session-action-btn"
-                    onClick={(e) => handleStartEdit(session, e)}
-                    title="重命名"
+                    className="confirm-btn yes"
+                    onClick={(e) => handleConfirmDelete(session.id, e)}
                   >
-                    ✏️
+                    是
                   </button>
                   <button
-                    className="session-action-btn delete"
-                    onClick={(e) => handleDeleteClick(session.id, e)}
-                    title="删除"
+                    className="confirm-btn no"
+                    onClick={handleCancelDelete}
                   >
-                    🗑️
+                    否
                   </button>
                 </div>
-              </>
-            )}
-          </div>
-        ))}
-      </div>
+              ) : (
+                <>
+                  <div className="session-info">
+                    <span className="session-name">{session.name}</span>
+                    <span className="session-meta">
+                      {session.messageCount} 条消息 · {formatTime(session.updatedAt)}
+                    </span>
+                    {scope === "all" && (
+                      <span className="session-document">
+                        📄 {session.documentId ? session.documentTitle || "未命名文档" : "未关联文档"}
+                      </span>
+                    )}
+                  </div>
+                  <div className="session-actions">
+                    <button
+                      className="session-action-btn"
+                      onClick={(e) => handleStartEdit(session, e)}
+                      title="重命名"
+                    >
+                      ✏️
+                    </button>
+                    <button
+                      className="session-action-btn"
+                      onClick={(e) => handleExport(session.id, "markdown", e)}
+                      title="导出为 Markdown"
+                    >
+                      📝
+                    </button>
+                    <button
+                      className="session-action-btn"
+                      onClick={(e) => handleExport(session.id, "json", e)}
+                      title="导出为 JSON"
+                    >
+                      💾
+                    </button>
+                    <button
+                      className="session-action-btn delete"
+                      onClick={(e) => handleDeleteClick(session.id, e)}
+                      title="删除"
+                    >
+                      🗑️
+                    </button>
+                  </div>
+                </>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
     </div>
   );
 };
@@ -2,7 +2,15 @@ import * as React from "react";
 import { useState, useEffect, useMemo } from "react";
 import {
   ModelConfig,
+  ModelProfile,
+  ModelProfiles,
+  ModelTask,
+  MODEL_TASKS,
+  DEFAULT_PROFILE_ID,
+  DEFAULT_MODEL_PROFILES,
+  ProviderId,
   UserRules,
+  AgentConfig,
   ScenarioOption,
   StyleOption,
   ToneOption,
@@ -11,16 +19,38 @@ import {
   SCENARIO_PRESETS,
   DEFAULT_MODEL_CONFIG,
   DEFAULT_USER_RULES,
+  DEFAULT_AGENT_CONFIG,
+  AGENT_MAX_STEPS_LIMIT,
   COMMON_MODELS,
   CUSTOM_MODEL_ID,
 } from "../../types/settings";
+import { UsageBudget } from "../../types/usage";
+import { PromptLibrary, DEFAULT_PROMPT_LIBRARY } from "../../types/prompts";
 import {
   loadModelConfig,
   saveModelConfig,
+  loadModelProfiles,
+  saveModelProfiles,
   loadUserRules,
   saveUserRules,
+  loadAgentConfig,
+  saveAgentConfig,
+  whenApiKeysSaved,
+  forgetApiKeys,
 } from "../../helpers/settings";
+import { isKeyVaultSupported } from "../../helpers/keyVault";
 import { t, Language, getLanguage, saveLanguage, Translations } from "../../helpers/i18n";
+import { getContextWindow, DEFAULT_CONTEXT_WINDOW } from "../../helpers/tokenBudget";
+import { sendChat } from "../../helpers/llmClient";
+import { loadUsageBudget, saveUsageBudget } from "../../helpers/usageTracker";
+import { loadPromptLibrary, savePromptLibrary } from "../../helpers/promptLibrary";
+import UsageOverview from "./UsageOverview";
+import PromptLibraryEditor from "./PromptLibraryEditor";
+import {
+  PROVIDER_ADAPTERS,
+  getProviderAdapter,
+  isConfigComplete,
+} from "../../helpers/providers";
 
 // Helper to get scenario labels from i18n
 const getScenarioLabels = (i18n: Translations): Record<ScenarioOption, string> => ({
@@ -61,6 +91,18 @@ const getLanguageLabels = (i18n: Translations): Record<LanguageOption, string> =
   follow_document: i18n.langFollowDoc,
 });
 
+// Helper to get task labels from i18n
+const getTaskLabels = (i18n: Translations): Record<ModelTask, string> => ({
+  chat: i18n.taskChat,
+  polish: i18n.taskPolish,
+  translate: i18n.taskTranslate,
+  comment: i18n.taskComment,
+  structure: i18n.taskStructure,
+  planOutline: i18n.taskPlanOutline,
+  planSection: i18n.taskPlanSection,
+  prompt: i18n.taskPrompt,
+});
+
 interface SettingsPanelProps {
   onSaved?: () => void;
   onLanguageChange?: () => void;
@@ -77,59 +119,33 @@ interface Status {
  * Test API connection by sending a simple request
  */
 async function testConnection(config: ModelConfig): Promise<{ success: boolean; error?: string }> {
-  if (!config.baseUrl || !config.apiKey || !config.model) {
-    return { success: false, error: "请填写完整的 URL、API Key 和模型名称" };
-  }
-
-  // Build endpoint
-  let url = config.baseUrl.replace(/\/+$/, "");
-  if (url.includes("/chat/completions")) {
-    // URL already contains path
-  } else if (url.endsWith("/v1")) {
-    url = `${url}/chat/completions`;
-  } else {
-    url = `${url}/v1/chat/completions`;
+  if (!isConfigComplete(config)) {
+    return {
+      success: false,
+      error: getProviderAdapter(config.provider).requiresApiKey
+        ? "请填写完整的 URL、API Key 和模型名称"
+        : "请填写完整的 URL 和模型名称",
+    };
   }
 
-  try {
-    const response = await fetch(url, {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        Authorization: `Bearer ${config.apiKey}`,
-      },
-      body: JSON.stringify({
-        model: config.model,
-        messages: [{ role: "user", content: "Hi" }],
-        max_tokens: 5,
-      }),
-    });
-
-    if (response.ok) {
-      return { success: true };
-    }
-
-    // Try to get error message
-    let errorMsg = `HTTP ${response.status}`;
-    try {
-      const data = await response.json();
-      if (data?.error?.message) {
-        errorMsg = data.error.message;
-      }
-    } catch {
-      // Ignore parse errors
-    }
-
-    return { success: false, error: errorMsg };
-  } catch (error) {
-    const msg = error instanceof Error ? error.message : "网络错误";
-    return { success: false, error: msg };
-  }
+  const result = await sendChat({
+    config,
+    systemPrompt: "Reply briefly.",
+    messages: [{ role: "user", content: "Hi" }],
+    maxTokens: 5,
+    maxAttempts: 1,
+  });
+  return result.success ? { success: true } : { success: false, error: result.error };
 }
 
 const SettingsPanel: React.FC<SettingsPanelProps> = ({ onSaved, onLanguageChange }) => {
   const [modelConfig, setModelConfig] = useState<ModelConfig>(DEFAULT_MODEL_CONFIG);
+  const [modelProfiles, setModelProfiles] = useState<ModelProfiles>(DEFAULT_MODEL_PROFILES);
+  const [activeProfileId, setActiveProfileId] = useState(DEFAULT_PROFILE_ID);
   const [userRules, setUserRules] = useState<UserRules>(DEFAULT_USER_RULES);
+  const [agentConfig, setAgentConfig] = useState<AgentConfig>(DEFAULT_AGENT_CONFIG);
+  const [usageBudget, setUsageBudget] = useState<UsageBudget>({});
+  const [promptLibrary, setPromptLibrary] = useState<PromptLibrary>(DEFAULT_PROMPT_LIBRARY);
   const [status, setStatus] = useState<Status | null>(null);
   const [isProcessing, setIsProcessing] = useState(false);
   const [customModelInput, setCustomModelInput] = useState("");
@@ -142,12 +158,31 @@ const SettingsPanel: React.FC<SettingsPanelProps> = ({ onSaved, onLanguageChange
   const toneLabels = useMemo(() => getToneLabels(i18n), [i18n]);
   const lengthLabels = useMemo(() => getLengthLabels(i18n), [i18n]);
   const languageLabels = useMemo(() => getLanguageLabels(i18n), [i18n]);
+  const taskLabels = useMemo(() => getTaskLabels(i18n), [i18n]);
+
+  // The form edits either the default configuration or a named profile
+  const activeProfile = modelProfiles.profiles.find((p) => p.id === activeProfileId);
+  const currentConfig: ModelConfig = activeProfile || modelConfig;
+  const setCurrentConfig = (config: ModelConfig) => {
+    if (activeProfile) {
+      setModelProfiles({
+        ...modelProfiles,
+        profiles: modelProfiles.profiles.map((p) =>
+          p.id === activeProfile.id ? { ...activeProfile, ...config } : p
+        ),
+      });
+    } else {
+      setModelConfig(config);
+    }
+  };
+
+  const adapter = getProviderAdapter(currentConfig.provider);
 
   // Determine if current model is a preset or custom
   const selectedModelId = useMemo(() => {
-    const found = COMMON_MODELS.find((m) => m.apiName === modelConfig.model);
+    const found = COMMON_MODELS.find((m) => m.apiName === currentConfig.model);
     return found ? found.id : CUSTOM_MODEL_ID;
-  }, [modelConfig.model]);
+  }, [currentConfig.model]);
 
   // Group models by provider for the dropdown
   const modelsByProvider = useMemo(() => {
@@ -161,18 +196,74 @@ const SettingsPanel: React.FC<SettingsPanelProps> = ({ onSaved, onLanguageChange
     return grouped;
   }, []);
 
+  // Custom model input shows the model name when it is not a preset
+  const syncCustomModelInput = (config: ModelConfig) => {
+    const isPreset = COMMON_MODELS.some((m) => m.apiName === config.model);
+    setCustomModelInput(!isPreset && config.model ? config.model : "");
+  };
+
   // Load settings on mount
   useEffect(() => {
     const config = loadModelConfig();
     setModelConfig(config);
+    setModelProfiles(loadModelProfiles());
     setUserRules(loadUserRules());
+    setAgentConfig(loadAgentConfig());
+    setUsageBudget(loadUsageBudget());
+    setPromptLibrary(loadPromptLibrary());
+    syncCustomModelInput(config);
+  }, []);
 
-    // If model is custom, set the input value
-    const isPreset = COMMON_MODELS.some((m) => m.apiName === config.model);
-    if (!isPreset && config.model) {
-      setCustomModelInput(config.model);
+  const selectProfile = (id: string) => {
+    setActiveProfileId(id);
+    syncCustomModelInput(modelProfiles.profiles.find((p) => p.id === id) || modelConfig);
+  };
+
+  // New profiles start as a copy of the configuration being edited
+  const addProfile = () => {
+    const profile: ModelProfile = {
+      ...currentConfig,
+      id: `profile_${Date.now().toString(36)}`,
+      name: i18n.settingsProfileNewName.replace("{n}", String(modelProfiles.profiles.length + 1)),
+    };
+    setModelProfiles({ ...modelProfiles, profiles: [...modelProfiles.profiles, profile] });
+    setActiveProfileId(profile.id);
+  };
+
+  // Tasks routed to a deleted profile use the default configuration again
+  const deleteProfile = (id: string) => {
+    const routes: ModelProfiles["routes"] = {};
+    MODEL_TASKS.forEach((task) => {
+      if (modelProfiles.routes[task] && modelProfiles.routes[task] !== id) {
+        routes[task] = modelProfiles.routes[task];
+      }
+    });
+    setModelProfiles({
+      profiles: modelProfiles.profiles.filter((p) => p.id !== id),
+      routes,
+      fallbacks: modelProfiles.fallbacks.filter((f) => f !== id),
+    });
+    selectProfile(DEFAULT_PROFILE_ID);
+  };
+
+  const setTaskRoute = (task: ModelTask, id: string) => {
+    const routes = { ...modelProfiles.routes };
+    if (id === DEFAULT_PROFILE_ID) {
+      delete routes[task];
+    } else {
+      routes[task] = id;
     }
-  }, []);
+    setModelProfiles({ ...modelProfiles, routes });
+  };
+
+  const profileOptions = [
+    { id: DEFAULT_PROFILE_ID, name: i18n.settingsProfileDefault },
+    ...modelProfiles.profiles.map((p) => ({ id: p.id, name: p.name || p.id })),
+  ];
+
+  const setFallbacks = (fallbacks: string[]) => {
+    setModelProfiles({ ...modelProfiles, fallbacks });
+  };
 
   const handleSave = async () => {
     if (isProcessing) return;
@@ -181,7 +272,7 @@ const SettingsPanel: React.FC<SettingsPanelProps> = ({ onSaved, onLanguageChange
     setStatus({ type: "testing", message: "正在测试 API 连接..." });
 
     // Test connection first
-    const testResult = await testConnection(modelConfig);
+    const testResult = await testConnection(currentConfig);
 
     if (!testResult.success) {
       setStatus({
@@ -196,9 +287,20 @@ const SettingsPanel: React.FC<SettingsPanelProps> = ({ onSaved, onLanguageChange
     setStatus({ type: "saving", message: "正在保存设置..." });
 
     const configSaved = saveModelConfig(modelConfig);
+    const profilesSaved = saveModelProfiles({
+      ...modelProfiles,
+      profiles: modelProfiles.profiles.map((p) => ({ ...p, name: p.name.trim() || p.id })),
+    });
     const rulesSaved = saveUserRules(userRules);
+    const agentSaved = saveAgentConfig(agentConfig);
+    const budgetSaved = saveUsageBudget(usageBudget);
+    const promptsSaved = savePromptLibrary({
+      ...promptLibrary,
+      prompts: promptLibrary.prompts.map((p) => ({ ...p, name: p.name.trim() || p.id })),
+    });
+    const keysSaved = await whenApiKeysSaved();
 
-    if (configSaved && rulesSaved) {
+    if (configSaved && profilesSaved && rulesSaved && agentSaved && budgetSaved && promptsSaved && keysSaved) {
       setStatus({ type: "success", message: "✓ 连接成功，设置已保存！" });
       onSaved?.();
 
@@ -253,6 +355,34 @@ const SettingsPanel: React.FC<SettingsPanelProps> = ({ onSaved, onLanguageChange
     }
   };
 
+  // An empty budget field removes that limit
+  const setBudgetLimit = (period: keyof UsageBudget, value: string) => {
+    const limit = parseFloat(value);
+    const next = { ...usageBudget };
+    if (Number.isNaN(limit) || limit <= 0) {
+      delete next[period];
+    } else {
+      next[period] = limit;
+    }
+    setUsageBudget(next);
+  };
+
+  // Deletes the stored keys right away; the rest of the form is kept
+  const handleForgetKeys = async () => {
+    if (isProcessing) return;
+    setIsProcessing(true);
+    await forgetApiKeys();
+    setModelConfig({ ...modelConfig, apiKey: "" });
+    setModelProfiles({
+      ...modelProfiles,
+      profiles: modelProfiles.profiles.map((p) => ({ ...p, apiKey: "" })),
+    });
+    setStatus({ type: "success", message: i18n.settingsForgetKeysDone });
+    setTimeout(() => setStatus(null), 3000);
+    setIsProcessing(false);
+    onSaved?.();
+  };
+
   const handleLanguageChange = (lang: Language) => {
     setUiLanguage(lang);
     saveLanguage(lang);
@@ -294,15 +424,91 @@ const SettingsPanel: React.FC<SettingsPanelProps> = ({ onSaved, onLanguageChange
       <section className="settings-section">
         <h3>{i18n.settingsModelConfig}</h3>
 
+        <div className="form-group">
+          <label>{i18n.settingsProfile}</label>
+          <div className="profile-row">
+            <select
+              className="model-select"
+              value={activeProfileId}
+              onChange={(e) => selectProfile(e.target.value)}
+              disabled={isProcessing}
+            >
+              <option value={DEFAULT_PROFILE_ID}>{i18n.settingsProfileDefault}</option>
+              {modelProfiles.profiles.map((p) => (
+                <option key={p.id} value={p.id}>
+                  {p.name || p.id}
+                </option>
+              ))}
+            </select>
+            <button className="clear-button" onClick={addProfile} disabled={isProcessing}>
+              {i18n.settingsProfileAdd}
+            </button>
+            {activeProfile && (
+              <button
+                className="clear-button"
+                onClick={() => deleteProfile(activeProfile.id)}
+                disabled={isProcessing}
+              >
+                {i18n.settingsProfileDelete}
+              </button>
+            )}
+          </div>
+        </div>
+
+        {activeProfile && (
+          <div className="form-group">
+            <label>{i18n.settingsProfileName}</label>
+            <input
+              type="text"
+              value={activeProfile.name}
+              onChange={(e) =>
+                setModelProfiles({
+                  ...modelProfiles,
+                  profiles: modelProfiles.profiles.map((p) =>
+                    p.id === activeProfile.id ? { ...p, name: e.target.value } : p
+                  ),
+                })
+              }
+              disabled={isProcessing}
+            />
+          </div>
+        )}
+
+        <div className="form-group">
+          <label>{i18n.settingsProvider}</label>
+          <select
+            value={adapter.id}
+            onChange={(e) => {
+              const next = getProviderAdapter(e.target.value as ProviderId);
+              // Replace the base URL only if it is empty or another provider's default
+              const isDefaultUrl =
+                !currentConfig.baseUrl ||
+                PROVIDER_ADAPTERS.some((a) => a.defaultBaseUrl === currentConfig.baseUrl);
+              setCurrentConfig({
+                ...currentConfig,
+                provider: next.id,
+                baseUrl: isDefaultUrl ? next.defaultBaseUrl : currentConfig.baseUrl,
+              });
+            }}
+            disabled={isProcessing}
+          >
+            {PROVIDER_ADAPTERS.map((a) => (
+              <option key={a.id} value={a.id}>
+                {a.name}
+              </option>
+            ))}
+          </select>
+        </div>
+
         <div className="form-group">
           <label>{i18n.settingsBaseUrl}</label>
           <input
             type="text"
-            value={modelConfig.baseUrl}
+            value={currentConfig.baseUrl}
             onChange={(e) =>
-              setModelConfig({ ...modelConfig, baseUrl: e.target.value })
+              setCurrentConfig({ ...currentConfig, baseUrl: e.target.value })
             }
-            placeholder="https://api.openai.com"
+            placeholder={adapter.defaultBaseUrl}
             disabled={isProcessing}
           />
         </div>
@@ -311,13 +517,19 @@ const SettingsPanel: React.FC<SettingsPanelProps> = ({ onSaved, onLanguageChange
           <label>{i18n.settingsApiKey}</label>
           <input
             type="password"
-            value={modelConfig.apiKey}
+            value={currentConfig.apiKey}
             onChange={(e) =>
-              setModelConfig({ ...modelConfig, apiKey: e.target.value })
+              setCurrentConfig({ ...currentConfig, apiKey: e.target.value })
             }
-            placeholder="sk-..."
+            placeholder={adapter.requiresApiKey ? "sk-..." : i18n.settingsApiKeyOptional}
             disabled={isProcessing}
           />
+          <div className="form-hint">
+            {isKeyVaultSupported() ? i18n.settingsApiKeyEncrypted : i18n.settingsApiKeyPlaintext}
+          </div>
+          <button className="clear-button" onClick={handleForgetKeys} disabled={isProcessing}>
+            {i18n.settingsForgetKeys}
+          </button>
         </div>
 
         <div className="form-group">
@@ -329,14 +541,15 @@ const SettingsPanel: React.FC<SettingsPanelProps> = ({ onSaved, onLanguageChange
               const id = e.target.value;
               if (id === CUSTOM_MODEL_ID) {
                 // Switch to custom, use the current custom input or empty
-                setModelConfig({
-                  ...modelConfig,
+                setCurrentConfig({
+                  ...currentConfig,
                   model: customModelInput || "",
                 });
               } else {
                 const preset = COMMON_MODELS.find((m) => m.id === id);
                 if (preset) {
-                  setModelConfig({ ...modelConfig, model: preset.apiName });
+                  // Presets define their own context window
+                  setCurrentConfig({ ...currentConfig, model: preset.apiName, contextWindow: undefined });
                 }
               }
             }}
@@ -364,15 +577,119 @@ const SettingsPanel: React.FC<SettingsPanelProps> = ({ onSaved, onLanguageChange
               value={customModelInput}
               onChange={(e) => {
                 setCustomModelInput(e.target.value);
-                setModelConfig({ ...modelConfig, model: e.target.value });
+                setCurrentConfig({ ...currentConfig, model: e.target.value });
               }}
               placeholder={i18n.settingsCustomModelPlaceholder}
               disabled={isProcessing}
             />
           )}
+          {selectedModelId !== CUSTOM_MODEL_ID && (
+            <div className="form-hint">
+              {i18n.settingsContextWindowPreset.replace(
+                "{n}",
+                getContextWindow(currentConfig).toLocaleString()
+              )}
+            </div>
+          )}
         </div>
+
+        {selectedModelId === CUSTOM_MODEL_ID && (
+          <div className="form-group">
+            <label>{i18n.settingsContextWindow}</label>
+            <input
+              type="number"
+              min={1000}
+              step={1000}
+              value={currentConfig.contextWindow ?? ""}
+              placeholder={String(DEFAULT_CONTEXT_WINDOW)}
+              onChange={(e) => {
+                const value = parseInt(e.target.value, 10);
+                setCurrentConfig({
+                  ...currentConfig,
+                  contextWindow: Number.isNaN(value) || value <= 0 ? undefined : value,
+                });
+              }}
+              disabled={isProcessing}
+            />
+            <div className="form-hint">{i18n.settingsContextWindowHint}</div>
+          </div>
+        )}
       </section>
 
+      {/* Task Routing */}
+      <section className="settings-section">
+        <h3>{i18n.settingsTaskRouting}</h3>
+        {modelProfiles.profiles.length === 0 ? (
+          <div className="form-hint">{i18n.settingsTaskRoutingHint}</div>
+        ) : (
+          MODEL_TASKS.map((task) => (
+            <div className="form-group task-route" key={task}>
+              <label>{taskLabels[task]}</label>
+              <select
+                className="model-select"
+                value={modelProfiles.routes[task] || DEFAULT_PROFILE_ID}
+                onChange={(e) => setTaskRoute(task, e.target.value)}
+                disabled={isProcessing}
+              >
+                {profileOptions.map((option) => (
+                  <option key={option.id} value={option.id}>
+                    {option.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+          ))
+        )}
+      </section>
+
+      {/* Fallback Chain */}
+      {modelProfiles.profiles.length > 0 && (
+        <section className="settings-section">
+          <h3>{i18n.settingsFallback}</h3>
+          <div className="form-hint">{i18n.settingsFallbackHint}</div>
+          {modelProfiles.fallbacks.map((id, index) => (
+            <div className="form-group profile-row fallback-row" key={`${id}-${index}`}>
+              <span className="fallback-index">{index + 1}.</span>
+              <select
+                className="model-select"
+                value={id}
+                onChange={(e) => {
+                  const next = [...modelProfiles.fallbacks];
+                  next[index] = e.target.value;
+                  setFallbacks(next.filter((f, i) => next.indexOf(f) === i));
+                }}
+                disabled={isProcessing}
+              >
+                {profileOptions.map((option) => (
+                  <option key={option.id} value={option.id}>
+                    {option.name}
+                  </option>
+                ))}
+              </select>
+              <button
+                className="clear-button"
+                onClick={() => setFallbacks(modelProfiles.fallbacks.filter((_, i) => i !== index))}
+                disabled={isProcessing}
+              >
+                {i18n.settingsProfileDelete}
+              </button>
+            </div>
+          ))}
+          {modelProfiles.fallbacks.length < profileOptions.length && (
+            <button
+              className="clear-button"
+              onClick={() => {
+                const unused = profileOptions.find((o) => !modelProfiles.fallbacks.includes(o.id));
+                if (unused) setFallbacks([...modelProfiles.fallbacks, unused.id]);
+              }}
+              disabled={isProcessing}
+            >
+              {i18n.settingsFallbackAdd}
+            </button>
+          )}
+        </section>
+      )}
+
       {/* User Rules */}
       <section className="settings-section">
         <h3>{i18n.settingsWritingRules}</h3>
@@ -476,6 +793,94 @@ const SettingsPanel: React.FC<SettingsPanelProps> = ({ onSaved, onLanguageChange
         </div>
       </section>
 
+      {/* Prompt Library */}
+      <section className="settings-section">
+        <h3>{i18n.settingsPrompts}</h3>
+        <div className="form-hint">{i18n.settingsPromptsHint}</div>
+        <PromptLibraryEditor
+          library={promptLibrary}
+          onChange={setPromptLibrary}
+          disabled={isProcessing}
+        />
+      </section>
+
+      {/* Agent */}
+      <section className="settings-section">
+        <h3>{i18n.settingsAgent}</h3>
+
+        <div className="form-group">
+          <label>{i18n.settingsMaxSteps}</label>
+          <input
+            type="number"
+            min={AGENT_MAX_STEPS_LIMIT.min}
+            max={AGENT_MAX_STEPS_LIMIT.max}
+            value={agentConfig.maxSteps}
+            onChange={(e) => {
+              const value = parseInt(e.target.value, 10);
+              if (!Number.isNaN(value)) {
+                setAgentConfig({
+                  ...agentConfig,
+                  maxSteps: Math.min(
+                    AGENT_MAX_STEPS_LIMIT.max,
+                    Math.max(AGENT_MAX_STEPS_LIMIT.min, value)
+                  ),
+                });
+              }
+            }}
+            disabled={isProcessing}
+          />
+          <div className="form-hint">{i18n.settingsMaxStepsHint}</div>
+        </div>
+
+        <div className="form-group">
+          <label className="checkbox-option">
+            <input
+              type="checkbox"
+              checked={agentConfig.preserveFormatting}
+              onChange={(e) =>
+                setAgentConfig({ ...agentConfig, preserveFormatting: e.target.checked })
+              }
+              disabled={isProcessing}
+            />
+            {i18n.settingsPreserveFormatting}
+          </label>
+          <div className="form-hint">{i18n.settingsPreserveFormattingHint}</div>
+        </div>
+      </section>
+
+      {/* Usage & Cost */}
+      <section className="settings-section">
+        <h3>{i18n.settingsUsage}</h3>
+        <div className="form-hint">{i18n.settingsUsageHint}</div>
+        <UsageOverview disabled={isProcessing} />
+
+        <div className="form-group budget-row">
+          <div>
+            <label>{i18n.settingsBudgetDaily}</label>
+            <input
+              type="number"
+              min={0}
+              step={0.01}
+              value={usageBudget.daily ?? ""}
+              onChange={(e) => setBudgetLimit("daily", e.target.value)}
+              disabled={isProcessing}
+            />
+          </div>
+          <div>
+            <label>{i18n.settingsBudgetMonthly}</label>
+            <input
+              type="number"
+              min={0}
+              step={0.01}
+              value={usageBudget.monthly ?? ""}
+              onChange={(e) => setBudgetLimit("monthly", e.target.value)}
+              disabled={isProcessing}
+            />
+          </div>
+        </div>
+        <div className="form-hint">{i18n.settingsBudgetHint}</div>
+      </section>
+
       {/* Status Message */}
       {status && (
         <div className={getStatusClassName()} role="status" aria-live="polite">
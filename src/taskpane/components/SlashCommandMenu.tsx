@@ -0,0 +1,60 @@
+import * as React from "react";
+import { SlashCommandName } from "../../types/slashCommands";
+import { SlashSuggestion } from "../../helpers/slashCommands";
+import { t, Translations } from "../../helpers/i18n";
+
+interface SlashCommandMenuProps {
+  suggestions: SlashSuggestion[];
+  activeIndex: number;
+  onSelect: (suggestion: SlashSuggestion) => void;
+  onHover: (index: number) => void;
+}
+
+const getDescriptions = (i18n: Translations): Record<SlashCommandName, string> => ({
+  polish: i18n.slashPolish,
+  translate: i18n.slashTranslate,
+  comment: i18n.slashComment,
+  summarize: i18n.slashSummarize,
+  outline: i18n.slashOutline,
+  analyze: i18n.slashAnalyze,
+});
+
+/**
+ * Autocomplete list shown above the chat input while a slash command is typed
+ */
+const SlashCommandMenu: React.FC<SlashCommandMenuProps> = ({
+  suggestions,
+  activeIndex,
+  onSelect,
+  onHover,
+}) => {
+  const i18n = t();
+  const descriptions = getDescriptions(i18n);
+
+  return (
+    <ul className="slash-menu" role="listbox" aria-label={i18n.chatSlashMenu}>
+      {suggestions.map((suggestion, index) => (
+        <li
+          key={suggestion.completion}
+          role="option"
+          aria-selected={index === activeIndex}
+          className={`slash-item${index === activeIndex ? " active" : ""}`}
+          // Keep focus in the textarea
+          onMouseDown={(e) => {
+            e.preventDefault();
+            onSelect(suggestion);
+          }}
+          onMouseEnter={() => onHover(index)}
+        >
+          <span className="slash-name">
+            /{suggestion.command}
+            {suggestion.arg && ` ${suggestion.arg}`}
+          </span>
+          <span className="slash-description">{descriptions[suggestion.command]}</span>
+        </li>
+      ))}
+    </ul>
+  );
+};
+
+export default SlashCommandMenu;
@@ -0,0 +1,108 @@
+import * as React from "react";
+import { useState } from "react";
+import { StructureIssue, StructureIssueSeverity } from "../../types/structure";
+import { goToIssue } from "../../helpers/structureAnalyzer";
+import { t } from "../../helpers/i18n";
+
+interface StructureIssueListProps {
+  issues: StructureIssue[];
+}
+
+type SeverityFilter = "all" | StructureIssueSeverity;
+
+const SEVERITIES: StructureIssueSeverity[] = ["error", "warning", "suggestion"];
+
+/**
+ * Structure issues with severity filters and a "go to" button per issue
+ */
+const StructureIssueList: React.FC<StructureIssueListProps> = ({ issues }) => {
+  const i18n = t();
+  const [filter, setFilter] = useState<SeverityFilter>("all");
+  const [error, setError] = useState<string | null>(null);
+
+  const severityLabel = (severity: StructureIssueSeverity): string => {
+    switch (severity) {
+      case "error":
+        return i18n.severityError;
+      case "warning":
+        return i18n.severityWarning;
+      default:
+        return i18n.severitySuggestion;
+    }
+  };
+
+  const handleGoTo = async (issue: StructureIssue) => {
+    setError(null);
+    try {
+      await goToIssue(issue);
+    } catch {
+      setError(i18n.structureGoToFailed);
+    }
+  };
+
+  const visible = filter === "all" ? issues : issues.filter((i) => i.severity === filter);
+  const count = (severity: StructureIssueSeverity) =>
+    issues.filter((i) => i.severity === severity).length;
+
+  return (
+    <div className="structure-issues">
+      <div className="structure-issues-title">
+        {i18n.structureIssuesTitle.replace("{count}", String(issues.length))}
+      </div>
+
+      <div className="structure-filters">
+        <button
+          className={`structure-filter ${filter === "all" ? "active" : ""}`}
+          onClick={() => setFilter("all")}
+        >
+          {i18n.structureFilterAll} {issues.length}
+        </button>
+        {SEVERITIES.map((severity) => (
+          <button
+            key={severity}
+            className={`structure-filter ${severity} ${filter === severity ? "active" : ""}`}
+            onClick={() => setFilter(severity)}
+            disabled={count(severity) === 0}
+          >
+            {severityLabel(severity)} {count(severity)}
+          </button>
+        ))}
+      </div>
+
+      {error && <div className="plan-error">{error}</div>}
+
+      {visible.length === 0 ? (
+        <p className="structure-empty">{i18n.structureNoMatch}</p>
+      ) : (
+        <ul className="structure-issue-list">
+          {visible.map((issue, index) => (
+            <li key={index} className={`structure-issue ${issue.severity}`}>
+              <div className="structure-issue-header">
+                <span className={`severity-badge ${issue.severity}`}>
+                  {severityLabel(issue.severity)}
+                </span>
+                {issue.location && (
+                  <span className="structure-issue-location">{issue.location}</span>
+                )}
+                {issue.paragraphIndex !== undefined && (
+                  <button className="structure-goto-btn" onClick={() => handleGoTo(issue)}>
+                    {i18n.structureGoTo}
+                  </button>
+                )}
+              </div>
+              <div className="structure-issue-description">{issue.description}</div>
+              {issue.suggestion && (
+                <div className="structure-issue-suggestion">
+                  {i18n.structureSuggestion}
+                  {issue.suggestion}
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default StructureIssueList;
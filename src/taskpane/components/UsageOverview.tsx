@@ -0,0 +1,76 @@
+import * as React from "react";
+import { useState } from "react";
+import { UsageSummary } from "../../types/usage";
+import { summarizeUsage, clearUsage, formatCost, getModelPricing } from "../../helpers/usageTracker";
+import { formatTokens } from "../../helpers/tokenBudget";
+import { t } from "../../helpers/i18n";
+
+interface UsageOverviewProps {
+  disabled?: boolean;
+}
+
+/**
+ * Tokens, requests and estimated cost of today and this month, with a per-model breakdown
+ */
+const UsageOverview: React.FC<UsageOverviewProps> = ({ disabled }) => {
+  const i18n = t();
+  const [summaries, setSummaries] = useState(() => ({
+    day: summarizeUsage("day"),
+    month: summarizeUsage("month"),
+  }));
+
+  const handleClear = () => {
+    clearUsage();
+    setSummaries({ day: summarizeUsage("day"), month: summarizeUsage("month") });
+  };
+
+  const renderPeriod = (label: string, summary: UsageSummary) => (
+    <div className="usage-period">
+      <div className="usage-period-label">{label}</div>
+      <div className="usage-cost">{formatCost(summary.cost)}</div>
+      <div className="usage-detail">
+        {formatTokens(summary.totalTokens)} tokens ·{" "}
+        {i18n.usageRequests.replace("{n}", String(summary.requests))}
+      </div>
+    </div>
+  );
+
+  const { day, month } = summaries;
+
+  if (month.requests === 0) {
+    return <div className="form-hint">{i18n.usageEmpty}</div>;
+  }
+
+  return (
+    <div className="usage-overview">
+      <div className="usage-periods">
+        {renderPeriod(i18n.usageToday, day)}
+        {renderPeriod(i18n.usageThisMonth, month)}
+      </div>
+      {month.unpricedRequests > 0 && (
+        <div className="form-hint">
+          {i18n.usageUnpriced.replace("{n}", String(month.unpricedRequests))}
+        </div>
+      )}
+
+      <div className="usage-by-model-title">{i18n.usageByModel}</div>
+      <ul className="usage-by-model">
+        {month.byModel.map((total) => (
+          <li key={total.model}>
+            <span className="usage-model">{total.model}</span>
+            <span>
+              {formatTokens(total.promptTokens + total.completionTokens)} ·{" "}
+              {getModelPricing(total.model) ? formatCost(total.cost) : "—"}
+            </span>
+          </li>
+        ))}
+      </ul>
+
+      <button className="clear-button" onClick={handleClear} disabled={disabled}>
+        {i18n.usageClear}
+      </button>
+    </div>
+  );
+};
+
+export default UsageOverview;
@@ -0,0 +1,38 @@
+/**
+ * Part of a request that competes for the model's context window
+ */
+export type ContextPart =
+  | "system"
+  | "summary"
+  | "tools"
+  | "input"
+  | "rules"
+  | "selection"
+  | "document"
+  | "history";
+
+/**
+ * Tokens spent on one part of the request and what was left out of it
+ */
+export interface ContextBudgetItem {
+  part: ContextPart;
+  tokens: number;
+  /**
+   * Units left out: messages for history, chunks for the document, tokens
+   * for a truncated selection, 1 for dropped rules
+   */
+  dropped?: number;
+  /** Units available before trimming (same unit as dropped) */
+  total?: number;
+}
+
+/**
+ * How the context budget of a request was spent
+ */
+export interface ContextBudgetReport {
+  /** Input tokens available (context window minus the response reserve) */
+  limit: number;
+  /** Estimated input tokens used */
+  total: number;
+  items: ContextBudgetItem[];
+}
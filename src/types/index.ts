@@ -1,3 +1,9 @@
 export * from "./llm";
 export * from "./tools";
 export * from "./settings";
+export * from "./structure";
+export * from "./context";
+export * from "./provider";
+export * from "./usage";
+export * from "./prompts";
+export * from "./slashCommands";
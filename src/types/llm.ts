@@ -1,3 +1,7 @@
+import { AppliedEdit } from "./tools";
+import { StructureIssue } from "./structure";
+import { ContextBudgetReport } from "./context";
+
 /**
  * Message role types
  */
@@ -56,6 +60,43 @@ export interface LLMResponse {
   usage?: LLMUsage;
 }
 
+/**
+ * Streamed tool call fragment (arguments arrive in pieces)
+ */
+export interface LLMStreamToolCallDelta {
+  index: number;
+  id?: string;
+  type?: "function";
+  function?: {
+    name?: string;
+    arguments?: string;
+  };
+}
+
+/**
+ * LLM API streaming chunk (one SSE `data:` payload)
+ */
+export interface LLMStreamChunk {
+  id?: string;
+  model?: string;
+  choices?: Array<{
+    index: number;
+    delta?: {
+      role?: MessageRole;
+      content?: string | null;
+      tool_calls?: LLMStreamToolCallDelta[];
+    };
+    finish_reason?: LLMChoice["finish_reason"];
+  }>;
+  usage?: LLMUsage;
+  error?: LLMErrorResponse["error"];
+}
+
+/**
+ * Transient failure classes that are retried or handed to a fallback model
+ */
+export type ChatErrorKind = "rate_limit" | "server" | "timeout" | "network";
+
 /**
  * LLM API error response
  */
@@ -80,10 +121,26 @@ export interface ChatCompletionRequest {
   stream?: boolean;
 }
 
+/**
+ * Optional metadata attached to a display message
+ */
+export interface DisplayMessageMeta {
+  /** Agent step (1-based) that produced this message */
+  agentStep?: number;
+  /** Revertible edits applied by the tool calls of this message */
+  appliedEdits?: AppliedEdit[];
+  /** Issues from a structure analysis, listed with severity filters */
+  structureIssues?: StructureIssue[];
+  /** Token budget of the request sent for this user message */
+  contextBudget?: ContextBudgetReport;
+  /** Fallback model that produced this answer when the configured model failed */
+  answeredBy?: string;
+}
+
 /**
  * Display message for UI
  */
-export interface DisplayMessage {
+export interface DisplayMessage extends DisplayMessageMeta {
   id: string;
   role: "user" | "assistant" | "system" | "tool_result";
   content: string;
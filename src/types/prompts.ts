@@ -0,0 +1,67 @@
+/**
+ * What a library prompt may do to the document:
+ * "edit" rewrites or inserts text, "comment" only adds comments,
+ * "answer" replies in text and leaves the document untouched
+ */
+export type PromptToolPolicy = "edit" | "comment" | "answer";
+
+export const PROMPT_TOOL_POLICIES: PromptToolPolicy[] = ["edit", "comment", "answer"];
+
+/**
+ * Variables a prompt template can use, written as `{name}`
+ */
+export type PromptVariable = "selection" | "language" | "document_title";
+
+export const PROMPT_VARIABLES: PromptVariable[] = ["selection", "language", "document_title"];
+
+export type PromptVariables = Record<PromptVariable, string>;
+
+/**
+ * A reusable instruction from the prompt library
+ */
+export interface PromptTemplate {
+  id: string;
+  name: string;
+  /** Instruction sent to the model, with `{variable}` placeholders */
+  template: string;
+  toolPolicy: PromptToolPolicy;
+}
+
+/**
+ * User-editable prompt library
+ */
+export interface PromptLibrary {
+  prompts: PromptTemplate[];
+  /** Prompt run by the ribbon / context menu "Run Prompt" command */
+  ribbonPromptId?: string;
+}
+
+export const DEFAULT_PROMPT_LIBRARY: PromptLibrary = {
+  prompts: [
+    {
+      id: "passive_voice",
+      name: "改为被动语态",
+      template: "请将选中的文本改写为被动语态，保持原意和术语不变。",
+      toolPolicy: "edit",
+    },
+    {
+      id: "shorten_150",
+      name: "缩写到 150 词",
+      template: "请将选中的文本精简到 150 词（或 150 字）以内，保留关键信息，用{language}输出。",
+      toolPolicy: "edit",
+    },
+    {
+      id: "reviewer_comments",
+      name: "审稿意见",
+      template: "请以审稿人的角度审阅《{document_title}》中选中的段落，针对论证和表达提出批注意见。",
+      toolPolicy: "comment",
+    },
+    {
+      id: "explain",
+      name: "解释选中内容",
+      template: "请用{language}简要解释以下内容的含义：\n{selection}",
+      toolPolicy: "answer",
+    },
+  ],
+  ribbonPromptId: "passive_voice",
+};
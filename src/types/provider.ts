@@ -0,0 +1,61 @@
+import { ChatMessage, LLMStreamChunk, LLMUsage } from "./llm";
+import { ToolDefinition } from "./tools";
+import { ModelConfig, ProviderId } from "./settings";
+
+/**
+ * A chat request in internal (OpenAI-shaped) types, handed to a provider adapter
+ */
+export interface ProviderChatParams {
+  config: ModelConfig;
+  systemPrompt: string;
+  /** Conversation without the system prompt */
+  messages: ChatMessage[];
+  tools?: ToolDefinition[];
+  toolChoice: "auto" | "none" | "required";
+  temperature: number;
+  maxTokens: number;
+  stream: boolean;
+}
+
+/**
+ * HTTP request produced by a provider adapter
+ */
+export interface ProviderHttpRequest {
+  endpoint: string;
+  headers: Record<string, string>;
+  body: Record<string, unknown>;
+}
+
+/**
+ * A provider response mapped to internal types
+ */
+export interface ProviderChatResponse {
+  message?: ChatMessage;
+  usage?: LLMUsage;
+  error?: string;
+}
+
+/**
+ * Converts one streamed payload (SSE data or JSON line) into OpenAI-style chunks.
+ * Created per request, since some providers spread a tool call over several events.
+ */
+export type StreamTranslator = (payload: string) => LLMStreamChunk[] | "done";
+
+/**
+ * Maps a provider's native chat API to the internal ChatMessage and ToolCall types
+ */
+export interface ProviderAdapter {
+  id: ProviderId;
+  /** Display name */
+  name: string;
+  /** Base URL suggested when the provider is selected */
+  defaultBaseUrl: string;
+  requiresApiKey: boolean;
+  /** Framing of streamed responses: SSE `data:` events or one JSON object per line */
+  streamFormat: "sse" | "ndjson";
+  buildRequest(params: ProviderChatParams): ProviderHttpRequest;
+  parseResponse(data: unknown): ProviderChatResponse;
+  createStreamTranslator(): StreamTranslator;
+  /** Readable message from an error response body, if it has one */
+  parseError(data: unknown): string | undefined;
+}
@@ -1,10 +1,67 @@
+/**
+ * API protocol spoken by the model endpoint
+ */
+export type ProviderId = "openai" | "anthropic" | "gemini" | "ollama" | "llamacpp";
+
 /**
  * Model configuration for LLM API
  */
 export interface ModelConfig {
+  /** Defaults to "openai" (any OpenAI-compatible endpoint) */
+  provider?: ProviderId;
   baseUrl: string;
   apiKey: string;
   model: string;
+  /** Context window in tokens for custom models (presets define their own) */
+  contextWindow?: number;
+}
+
+/**
+ * A named model configuration that tasks can be routed to
+ */
+export interface ModelProfile extends ModelConfig {
+  id: string;
+  name: string;
+}
+
+/**
+ * Tasks that can each use their own model profile
+ */
+export type ModelTask =
+  | "chat"
+  | "polish"
+  | "translate"
+  | "comment"
+  | "structure"
+  | "planOutline"
+  | "planSection"
+  | "prompt";
+
+export const MODEL_TASKS: ModelTask[] = [
+  "chat",
+  "polish",
+  "translate",
+  "comment",
+  "prompt",
+  "structure",
+  "planOutline",
+  "planSection",
+];
+
+/**
+ * Id of the default profile: the model configuration stored as before
+ */
+export const DEFAULT_PROFILE_ID = "default";
+
+/**
+ * Named profiles besides the default one, and the profile used per task
+ * (tasks without a route use the default profile)
+ */
+export interface ModelProfiles {
+  profiles: ModelProfile[];
+  routes: Partial<Record<ModelTask, string>>;
+  /** Profile ids tried in order when a task's model keeps failing */
+  fallbacks: string[];
 }
 
 /**
@@ -49,12 +106,23 @@ export interface UserRules {
   custom: string;
 }
 
+/**
+ * Agent behaviour configuration
+ */
+export interface AgentConfig {
+  /** Maximum number of tool-calling rounds per request */
+  maxSteps: number;
+  /** Rewrite text as simplified HTML markup so inline formatting survives */
+  preserveFormatting: boolean;
+}
+
 /**
  * Complete settings object
  */
 export interface Settings {
   modelConfig: ModelConfig;
   userRules: UserRules;
+  agentConfig: AgentConfig;
 }
 
 /**
@@ -78,6 +146,36 @@ export const DEFAULT_MODEL_CONFIG: ModelConfig = {
   model: "gpt-5",
 };
 
+/**
+ * Default model profiles (only the default configuration)
+ */
+export const DEFAULT_MODEL_PROFILES: ModelProfiles = {
+  profiles: [],
+  routes: {},
+  fallbacks: [],
+};
+
+/**
+ * Default agent config
+ */
+export const DEFAULT_AGENT_CONFIG: AgentConfig = {
+  maxSteps: 6,
+  preserveFormatting: false,
+};
+
+/**
+ * Allowed range for AgentConfig.maxSteps
+ */
+export const AGENT_MAX_STEPS_LIMIT = { min: 1, max: 20 };
+
+/**
+ * Model list price in USD per million tokens
+ */
+export interface ModelPricing {
+  input: number;
+  output: number;
+}
+
 /**
  * Common model presets with display name and API name
  * Grouped by provider for better organization
@@ -87,40 +185,42 @@ export interface ModelPreset {
   name: string;      // Display name
   apiName: string;   // Actual API model name
   provider: string;  // Provider name for grouping
+  contextWindow: number; // Input + output tokens the model accepts
+  pricing?: ModelPricing; // List price, used for cost estimates
 }
 
 export const COMMON_MODELS: ModelPreset[] = [
   // OpenAI
-  { id: "gpt-5", name: "GPT-5", apiName: "gpt-5", provider: "OpenAI" },
-  { id: "gpt-5-mini", name: "GPT-5 Mini", apiName: "gpt-5-mini", provider: "OpenAI" },
-  { id: "gpt-4.1", name: "GPT-4.1", apiName: "gpt-4.1", provider: "OpenAI" },
-  { id: "gpt-4.1-mini", name: "GPT-4.1 Mini", apiName: "gpt-4.1-mini", provider: "OpenAI" },
-  { id: "gpt-4.1-nano", name: "GPT-4.1 Nano", apiName: "gpt-4.1-nano", provider: "OpenAI" },
-  { id: "o3", name: "o3", apiName: "o3", provider: "OpenAI" },
-  { id: "o4-mini", name: "o4-mini", apiName: "o4-mini", provider: "OpenAI" },
+  { id: "gpt-5", name: "GPT-5", apiName: "gpt-5", provider: "OpenAI", contextWindow: 400_000, pricing: { input: 1.25, output: 10 } },
+  { id: "gpt-5-mini", name: "GPT-5 Mini", apiName: "gpt-5-mini", provider: "OpenAI", contextWindow: 400_000, pricing: { input: 0.25, output: 2 } },
+  { id: "gpt-4.1", name: "GPT-4.1", apiName: "gpt-4.1", provider: "OpenAI", contextWindow: 1_047_576, pricing: { input: 2, output: 8 } },
+  { id: "gpt-4.1-mini", name: "GPT-4.1 Mini", apiName: "gpt-4.1-mini", provider: "OpenAI", contextWindow: 1_047_576, pricing: { input: 0.4, output: 1.6 } },
+  { id: "gpt-4.1-nano", name: "GPT-4.1 Nano", apiName: "gpt-4.1-nano", provider: "OpenAI", contextWindow: 1_047_576, pricing: { input: 0.1, output: 0.4 } },
+  { id: "o3", name: "o3", apiName: "o3", provider: "OpenAI", contextWindow: 200_000, pricing: { input: 2, output: 8 } },
+  { id: "o4-mini", name: "o4-mini", apiName: "o4-mini", provider: "OpenAI", contextWindow: 200_000, pricing: { input: 1.1, output: 4.4 } },
   // Anthropic
-  { id: "claude-sonnet-4-6", name: "Claude Sonnet 4.6", apiName: "claude-sonnet-4-6-20260217", provider: "Anthropic" },
-  { id: "claude-opus-4-5", name: "Claude Opus 4.5", apiName: "claude-opus-4-5-20251101", provider: "Anthropic" },
-  { id: "claude-sonnet-4-5", name: "Claude Sonnet 4.5", apiName: "claude-sonnet-4-5-20241022", provider: "Anthropic" },
-  { id: "claude-haiku-4-5", name: "Claude Haiku 4.5", apiName: "claude-haiku-4-5-20241022", provider: "Anthropic" },
+  { id: "claude-sonnet-4-6", name: "Claude Sonnet 4.6", apiName: "claude-sonnet-4-6-20260217", provider: "Anthropic", contextWindow: 200_000, pricing: { input: 3, output: 15 } },
+  { id: "claude-opus-4-5", name: "Claude Opus 4.5", apiName: "claude-opus-4-5-20251101", provider: "Anthropic", contextWindow: 200_000, pricing: { input: 5, output: 25 } },
+  { id: "claude-sonnet-4-5", name: "Claude Sonnet 4.5", apiName: "claude-sonnet-4-5-20241022", provider: "Anthropic", contextWindow: 200_000, pricing: { input: 3, output: 15 } },
+  { id: "claude-haiku-4-5", name: "Claude Haiku 4.5", apiName: "claude-haiku-4-5-20241022", provider: "Anthropic", contextWindow: 200_000, pricing: { input: 1, output: 5 } },
   // Google
-  { id: "gemini-2.5-pro", name: "Gemini 2.5 Pro", apiName: "gemini-2.5-pro", provider: "Google" },
-  { id: "gemini-2.5-flash", name: "Gemini 2.5 Flash", apiName: "gemini-2.5-flash", provider: "Google" },
+  { id: "gemini-2.5-pro", name: "Gemini 2.5 Pro", apiName: "gemini-2.5-pro", provider: "Google", contextWindow: 1_048_576, pricing: { input: 1.25, output: 10 } },
+  { id: "gemini-2.5-flash", name: "Gemini 2.5 Flash", apiName: "gemini-2.5-flash", provider: "Google", contextWindow: 1_048_576, pricing: { input: 0.3, output: 2.5 } },
   // DeepSeek
-  { id: "deepseek-chat", name: "DeepSeek V3", apiName: "deepseek-chat", provider: "DeepSeek" },
-  { id: "deepseek-reasoner", name: "DeepSeek R1", apiName: "deepseek-reasoner", provider: "DeepSeek" },
+  { id: "deepseek-chat", name: "DeepSeek V3", apiName: "deepseek-chat", provider: "DeepSeek", contextWindow: 128_000, pricing: { input: 0.28, output: 0.42 } },
+  { id: "deepseek-reasoner", name: "DeepSeek R1", apiName: "deepseek-reasoner", provider: "DeepSeek", contextWindow: 128_000, pricing: { input: 0.28, output: 0.42 } },
   // 智谱 (Zhipu AI / Z.ai)
-  { id: "glm-5", name: "GLM-5", apiName: "glm-5", provider: "智谱" },
-  { id: "glm-4.7", name: "GLM-4.7", apiName: "glm-4.7", provider: "智谱" },
-  { id: "glm-4.7-flash", name: "GLM-4.7 Flash", apiName: "glm-4.7-flash", provider: "智谱" },
+  { id: "glm-5", name: "GLM-5", apiName: "glm-5", provider: "智谱", contextWindow: 200_000, pricing: { input: 1, output: 3.2 } },
+  { id: "glm-4.7", name: "GLM-4.7", apiName: "glm-4.7", provider: "智谱", contextWindow: 200_000, pricing: { input: 0.6, output: 2.2 } },
+  { id: "glm-4.7-flash", name: "GLM-4.7 Flash", apiName: "glm-4.7-flash", provider: "智谱", contextWindow: 128_000, pricing: { input: 0, output: 0 } },
   // 阿里云 (DashScope)
-  { id: "qwen3.5-plus", name: "通义千问 3.5 Plus", apiName: "qwen3.5-plus", provider: "阿里云" },
-  { id: "qwen-max", name: "通义千问 Max", apiName: "qwen-max", provider: "阿里云" },
-  { id: "qwen-plus", name: "通义千问 Plus", apiName: "qwen-plus", provider: "阿里云" },
-  { id: "qwen-turbo", name: "通义千问 Turbo", apiName: "qwen-turbo", provider: "阿里云" },
+  { id: "qwen3.5-plus", name: "通义千问 3.5 Plus", apiName: "qwen3.5-plus", provider: "阿里云", contextWindow: 1_000_000, pricing: { input: 0.4, output: 2.4 } },
+  { id: "qwen-max", name: "通义千问 Max", apiName: "qwen-max", provider: "阿里云", contextWindow: 32_768, pricing: { input: 1.6, output: 6.4 } },
+  { id: "qwen-plus", name: "通义千问 Plus", apiName: "qwen-plus", provider: "阿里云", contextWindow: 131_072, pricing: { input: 0.4, output: 1.2 } },
+  { id: "qwen-turbo", name: "通义千问 Turbo", apiName: "qwen-turbo", provider: "阿里云", contextWindow: 1_000_000, pricing: { input: 0.05, output: 0.2 } },
   // MiniMax
-  { id: "minimax-m2.5", name: "MiniMax M2.5", apiName: "MiniMax-M2.5", provider: "MiniMax" },
-  { id: "minimax-m2.5-highspeed", name: "MiniMax M2.5 Highspeed", apiName: "MiniMax-M2.5-highspeed", provider: "MiniMax" },
+  { id: "minimax-m2.5", name: "MiniMax M2.5", apiName: "MiniMax-M2.5", provider: "MiniMax", contextWindow: 204_800, pricing: { input: 0.3, output: 1.2 } },
+  { id: "minimax-m2.5-highspeed", name: "MiniMax M2.5 Highspeed", apiName: "MiniMax-M2.5-highspeed", provider: "MiniMax", contextWindow: 204_800, pricing: { input: 0.6, output: 2.4 } },
 ];
 
 /**
@@ -0,0 +1,104 @@
+import { ToolName } from "./tools";
+import { ModelTask } from "./settings";
+
+/**
+ * Commands typed in the chat input as `/name [argument] [instruction]`
+ */
+export type SlashCommandName =
+  | "polish"
+  | "translate"
+  | "comment"
+  | "summarize"
+  | "outline"
+  | "analyze";
+
+/**
+ * A slash command with fixed tools and tool choice, so its behaviour does not
+ * depend on guessing the intent of the message
+ */
+export interface SlashCommand {
+  name: SlashCommandName;
+  /** Allowed argument values (none when the command takes no argument) */
+  args?: string[];
+  /** Argument used when none is given; without one the user rules decide */
+  defaultArg?: string;
+  /** Model route for the request */
+  task: ModelTask;
+  /** Tools offered to the model */
+  tools: ToolName[];
+  /** "required" makes the first response call one of the tools */
+  toolChoice: "auto" | "required";
+  requiresSelection: boolean;
+}
+
+/**
+ * Target languages of `/translate <code>`
+ */
+export const TRANSLATE_TARGETS: Record<string, string> = {
+  zh: "中文",
+  en: "英文",
+  ja: "日文",
+  ko: "韩文",
+  fr: "法文",
+  de: "德文",
+  es: "西班牙文",
+  ru: "俄文",
+};
+
+/**
+ * Where `/summarize <position>` inserts the summary (insert_text positions)
+ */
+export const SUMMARY_POSITIONS: Record<string, string> = {
+  after: "after_selection",
+  before: "before_selection",
+  start: "document_start",
+  end: "document_end",
+};
+
+export const SLASH_COMMANDS: SlashCommand[] = [
+  {
+    name: "polish",
+    task: "polish",
+    tools: ["replace_selection"],
+    toolChoice: "required",
+    requiresSelection: true,
+  },
+  {
+    name: "translate",
+    args: Object.keys(TRANSLATE_TARGETS),
+    task: "translate",
+    tools: ["replace_selection"],
+    toolChoice: "required",
+    requiresSelection: true,
+  },
+  {
+    name: "comment",
+    task: "comment",
+    tools: ["add_comment_to_selection"],
+    toolChoice: "required",
+    requiresSelection: true,
+  },
+  {
+    name: "summarize",
+    args: Object.keys(SUMMARY_POSITIONS),
+    defaultArg: "after",
+    task: "chat",
+    tools: ["insert_text", "get_paragraphs", "get_outline"],
+    toolChoice: "required",
+    requiresSelection: false,
+  },
+  {
+    name: "outline",
+    task: "chat",
+    tools: ["get_outline", "get_paragraphs"],
+    toolChoice: "required",
+    requiresSelection: false,
+  },
+  {
+    name: "analyze",
+    task: "structure",
+    tools: ["get_outline", "get_paragraphs", "search_document"],
+    toolChoice: "auto",
+    requiresSelection: false,
+  },
+];
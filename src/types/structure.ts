@@ -0,0 +1,27 @@
+/**
+ * Category of a structural issue
+ */
+export type StructureIssueType = "heading" | "section" | "paragraph" | "citation" | "other";
+
+/**
+ * How serious a structural issue is
+ */
+export type StructureIssueSeverity = "error" | "warning" | "suggestion";
+
+/**
+ * A specific structural issue found
+ */
+export interface StructureIssue {
+  type: StructureIssueType;
+  severity: StructureIssueSeverity;
+  description: string;
+  /** Human-readable location, e.g. "方法 › 第 12 段" */
+  location?: string;
+  /** 0-based body paragraph index the issue points to (see getParagraphs) */
+  paragraphIndex?: number;
+  /** Exact text inside that paragraph to select when jumping to the issue */
+  quote?: string;
+  suggestion?: string;
+  /** ID of the local rule that found the issue (absent for model findings) */
+  rule?: string;
+}
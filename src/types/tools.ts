@@ -63,6 +63,68 @@ export interface AddCommentToSelectionArgs {
   comment: string;
 }
 
+/**
+ * Arguments for get_paragraphs tool
+ */
+export interface GetParagraphsArgs {
+  start_index?: number;
+  count?: number;
+}
+
+/**
+ * Arguments for get_outline tool
+ */
+export type GetOutlineArgs = Record<string, never>;
+
+/**
+ * How search_document matches the query
+ */
+export type SearchMode = "exact" | "relevance";
+
+/**
+ * Arguments for search_document tool
+ */
+export interface SearchDocumentArgs {
+  query: string;
+  /** "exact" finds the text itself, "relevance" ranks paragraphs by topic */
+  mode?: SearchMode;
+  match_case?: boolean;
+  match_wildcards?: boolean;
+  max_results?: number;
+}
+
+/**
+ * Arguments for replace_paragraph tool
+ */
+export interface ReplaceParagraphArgs {
+  paragraph_index: number;
+  content: string;
+  comment?: string;
+}
+
+/**
+ * Arguments for replace_text_in_range tool
+ */
+export interface ReplaceTextInRangeArgs {
+  content: string;
+  anchor?: string;
+  paragraph_index?: number;
+  occurrence?: number;
+  tag?: string;
+  comment?: string;
+}
+
+/**
+ * Arguments for comment_on_match tool
+ */
+export interface CommentOnMatchArgs {
+  anchor: string;
+  comment: string;
+  paragraph_index?: number;
+  occurrence?: number;
+  tag?: string;
+}
+
 /**
  * Union type for all tool arguments
  */
@@ -70,7 +132,13 @@ export type ToolArgs =
   | ReplaceSelectionArgs
   | InsertTextArgs
   | DeleteSelectionArgs
-  | AddCommentToSelectionArgs;
+  | AddCommentToSelectionArgs
+  | GetParagraphsArgs
+  | GetOutlineArgs
+  | SearchDocumentArgs
+  | ReplaceParagraphArgs
+  | ReplaceTextInRangeArgs
+  | CommentOnMatchArgs;
 
 /**
  * Tool names
@@ -79,7 +147,42 @@ export type ToolName =
   | "replace_selection"
   | "insert_text"
   | "delete_selection"
-  | "add_comment_to_selection";
+  | "add_comment_to_selection"
+  | "get_paragraphs"
+  | "get_outline"
+  | "search_document"
+  | "replace_paragraph"
+  | "replace_text_in_range"
+  | "comment_on_match";
+
+/**
+ * Tools that only read the document (safe to run without user confirmation)
+ */
+export const READ_ONLY_TOOLS: ToolName[] = [
+  "get_paragraphs",
+  "get_outline",
+  "search_document",
+];
+
+/**
+ * An edit applied to the document by a tool call, recorded so it can be reverted
+ */
+export interface AppliedEdit {
+  id: string;
+  toolCallId: string;
+  name: ToolName;
+  /** Text that was there before the edit ("" for insertions and comments) */
+  originalText: string;
+  /** Simplified markup of the original, for formatting-preserving edits */
+  originalMarkup?: string;
+  /** Text written by the edit (the comment text for comments) */
+  newText: string;
+  /** Tag of the hidden content control wrapping the edited text */
+  tag?: string;
+  /** ID of the inserted comment */
+  commentId?: string;
+  reverted?: boolean;
+}
 
 /**
  * Tool execution result
@@ -90,6 +193,10 @@ export interface ToolResult {
   success: boolean;
   message: string;
   error?: string;
+  /** Content returned to the model by read-only tools */
+  data?: string;
+  /** Set when the edit can be reverted */
+  appliedEdit?: AppliedEdit;
 }
 
 /**
@@ -140,7 +247,8 @@ export const TOOL_DEFINITIONS: ToolDefinition[] = [
           },
           content: {
             type: "string",
-            description: "The text content to insert",
+            description:
+              "The content to insert. Markdown headings, lists, emphasis and pipe tables are converted to native Word formatting",
           },
           comment: {
             type: "string",
@@ -186,4 +294,170 @@ export const TOOL_DEFINITIONS: ToolDefinition[] = [
       },
     },
   },
+  {
+    type: "function",
+    function: {
+      name: "get_paragraphs",
+      description:
+        "Read paragraphs of the document with their 0-based indices and styles. Use this to read a part of the document that is not in [DOCUMENT], e.g. after locating it with get_outline or search_document.",
+      parameters: {
+        type: "object",
+        properties: {
+          start_index: {
+            type: "integer",
+            description: "Index of the first paragraph to read (default 0)",
+          },
+          count: {
+            type: "integer",
+            description: "Number of paragraphs to read (default 20, max 100)",
+          },
+        },
+      },
+    },
+  },
+  {
+    type: "function",
+    function: {
+      name: "get_outline",
+      description:
+        "Get the heading outline of the document (heading level, text and paragraph index). Use this first to navigate long documents.",
+      parameters: {
+        type: "object",
+        properties: {},
+      },
+    },
+  },
+  {
+    type: "function",
+    function: {
+      name: "search_document",
+      description:
+        "Search the document and return matching paragraphs with their indices. mode \"exact\" (default) finds the text itself and supports Word wildcard patterns (e.g. \"[0-9]{4}\") when match_wildcards is true; mode \"relevance\" ranks paragraphs by how well they match the topic of the query, for questions like \"where do I discuss sample size?\". Exact searches without matches fall back to relevance.",
+      parameters: {
+        type: "object",
+        properties: {
+          query: {
+            type: "string",
+            description: "Text or wildcard pattern to search for (max 255 characters)",
+          },
+          mode: {
+            type: "string",
+            enum: ["exact", "relevance"],
+            description: "\"exact\" to find the text, \"relevance\" to rank paragraphs by topic (default \"exact\")",
+          },
+          match_case: {
+            type: "boolean",
+            description: "Whether the search is case-sensitive (default false)",
+          },
+          match_wildcards: {
+            type: "boolean",
+            description: "Treat the query as a Word wildcard pattern (default false)",
+          },
+          max_results: {
+            type: "integer",
+            description: "Maximum number of matches to return (default 20)",
+          },
+        },
+        required: ["query"],
+      },
+    },
+  },
+  {
+    type: "function",
+    function: {
+      name: "replace_paragraph",
+      description:
+        "Replace the whole text of one paragraph, addressed by its 0-based index. Does not depend on the user's selection. Read the paragraph first (get_paragraphs) so the index is current.",
+      parameters: {
+        type: "object",
+        properties: {
+          paragraph_index: {
+            type: "integer",
+            description: "0-based index of the paragraph to replace",
+          },
+          content: {
+            type: "string",
+            description: "The new paragraph text (without a trailing line break)",
+          },
+          comment: {
+            type: "string",
+            description: "Optional brief explanation of what changes were made",
+          },
+        },
+        required: ["paragraph_index", "content"],
+      },
+    },
+  },
+  {
+    type: "function",
+    function: {
+      name: "replace_text_in_range",
+      description:
+        "Replace text anywhere in the document without relying on the selection. Address it with an exact anchor text, optionally narrowed to a paragraph index or content control tag; without anchor, the whole paragraph or content control is replaced.",
+      parameters: {
+        type: "object",
+        properties: {
+          content: {
+            type: "string",
+            description: "The new text",
+          },
+          anchor: {
+            type: "string",
+            description: "Exact, case-sensitive text to replace (max 255 characters)",
+          },
+          paragraph_index: {
+            type: "integer",
+            description: "0-based paragraph index to search in (from get_paragraphs, get_outline or search_document)",
+          },
+          occurrence: {
+            type: "integer",
+            description: "0-based occurrence of the anchor within the paragraph, content control or document (default 0)",
+          },
+          tag: {
+            type: "string",
+            description: "Tag of a content control to search in",
+          },
+          comment: {
+            type: "string",
+            description: "Optional brief explanation of what changes were made",
+          },
+        },
+        required: ["content"],
+      },
+    },
+  },
+  {
+    type: "function",
+    function: {
+      name: "comment_on_match",
+      description:
+        "Add a comment to a specific piece of text found by an exact anchor, without relying on the selection. Use this to annotate several places in one request.",
+      parameters: {
+        type: "object",
+        properties: {
+          anchor: {
+            type: "string",
+            description: "Exact, case-sensitive text to comment on (max 255 characters)",
+          },
+          comment: {
+            type: "string",
+            description: "The comment text to add as an annotation",
+          },
+          paragraph_index: {
+            type: "integer",
+            description: "0-based paragraph index to search in (from get_paragraphs, get_outline or search_document)",
+          },
+          occurrence: {
+            type: "integer",
+            description: "0-based occurrence of the anchor within the paragraph, content control or document (default 0)",
+          },
+          tag: {
+            type: "string",
+            description: "Tag of a content control to search in",
+          },
+        },
+        required: ["anchor", "comment"],
+      },
+    },
+  },
 ];
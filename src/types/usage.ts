@@ -0,0 +1,71 @@
+import { ModelTask } from "./settings";
+
+/**
+ * What a request was made for, attached to its usage record
+ */
+export interface UsageContext {
+  task: ModelTask;
+  /** Chat session the request belongs to */
+  sessionId?: string;
+}
+
+/**
+ * Tokens spent by one successful model request
+ */
+export interface UsageRecord extends UsageContext {
+  timestamp: number;
+  /** Model that answered (a fallback model when the primary failed) */
+  model: string;
+  promptTokens: number;
+  completionTokens: number;
+  /** Estimated cost in USD; absent for models without a price table */
+  cost?: number;
+}
+
+export type UsagePeriod = "day" | "month";
+
+/**
+ * Tokens and cost of one model within a period
+ */
+export interface ModelUsageTotal {
+  model: string;
+  requests: number;
+  promptTokens: number;
+  completionTokens: number;
+  cost: number;
+}
+
+/**
+ * Usage totals of the current day or month
+ */
+export interface UsageSummary {
+  period: UsagePeriod;
+  requests: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  /** Estimated cost in USD of the priced requests */
+  cost: number;
+  /** Requests to models without a price table (not included in cost) */
+  unpricedRequests: number;
+  /** Per-model totals, most expensive first */
+  byModel: ModelUsageTotal[];
+}
+
+/**
+ * Soft spending limits in USD; requests over a limit are warned about, not blocked
+ */
+export interface UsageBudget {
+  daily?: number;
+  monthly?: number;
+}
+
+/**
+ * A budget the next request would exceed
+ */
+export interface BudgetWarning {
+  period: UsagePeriod;
+  /** Estimated cost so far in the period */
+  spent: number;
+  limit: number;
+}